@@ -9,12 +9,21 @@ import RepoAnalyzer from './components/RepoAnalyzer';
 import ArticleToInfographic from './components/ArticleToInfographic';
 import VisionStudio from './components/VisionStudio';
 import AcademicStudio from './components/AcademicStudio';
+import BatchStudio from './components/BatchStudio';
 import Home from './components/Home';
 import IntroAnimation from './components/IntroAnimation';
 import ApiKeyModal from './components/ApiKeyModal';
 import ModelPreferences from './components/ModelPreferences';
-import { ViewMode, RepoHistoryItem, ArticleHistoryItem, AcademicHistoryItem, ModelConfig } from './types';
-import { Github, GitBranch, FileText, Home as HomeIcon, Link2, BarChart3, Sun, Moon, Key, Sparkles, ImageIcon, ExternalLink, ShieldCheck, Mail, Globe, Layers, GraduationCap } from 'lucide-react';
+import PromptTemplateManager from './components/PromptTemplateManager';
+import BrandKitManager from './components/BrandKitManager';
+import CacheManager from './components/CacheManager';
+import { ViewMode, RepoHistoryItem, ArticleHistoryItem, AcademicHistoryItem, ModelConfig, BrandKit } from './types';
+import { setGenerationProvider } from './services/geminiService';
+import { browserApiKey } from './services/geminiProvider';
+import { ProviderId, PROVIDER_STORAGE_KEY, resolveProviderId } from './services/generationProvider';
+import { MODEL_CONFIG_STORAGE_KEY, loadModelConfig, resolveImageSettings } from './services/modelPreferences';
+import { loadActiveBrandKit } from './services/brandKits';
+import { Github, GitBranch, FileText, Home as HomeIcon, Link2, BarChart3, Sun, Moon, Key, Sparkles, ImageIcon, ExternalLink, ShieldCheck, Mail, Globe, Layers, GraduationCap, FileCode2, Palette, ListChecks, Database } from 'lucide-react';
 
 const App: React.FC = () => {
   const [currentView, setCurrentView] = useState<ViewMode>(ViewMode.HOME);
@@ -23,17 +32,23 @@ const App: React.FC = () => {
   const [checkingKey, setCheckingKey] = useState<boolean>(true);
   const [isDarkMode, setIsDarkMode] = useState<boolean>(true);
   const [showKeyModal, setShowKeyModal] = useState<boolean>(false);
+  const [showTemplates, setShowTemplates] = useState<boolean>(false);
+  const [showBrandKits, setShowBrandKits] = useState<boolean>(false);
+  const [showCache, setShowCache] = useState<boolean>(false);
   
   const [repoHistory, setRepoHistory] = useState<RepoHistoryItem[]>([]);
   const [articleHistory, setArticleHistory] = useState<ArticleHistoryItem[]>([]);
   const [academicHistory, setAcademicHistory] = useState<AcademicHistoryItem[]>([]);
 
-  // Default model configuration
-  const [modelConfig, setModelConfig] = useState<ModelConfig>({
-    strategy: 'gemini-3-pro-preview',
-    drafting: 'gemini-3-flash-preview',
-    code: 'gemini-3-pro-preview'
-  });
+  // Saved model configuration, upgraded with defaults for fields added since it was stored
+  const [modelConfig, setModelConfig] = useState<ModelConfig>(loadModelConfig);
+
+  // Kit injected into every studio's prompts and stamped on downloads
+  const [brandKit, setBrandKit] = useState<BrandKit | null>(loadActiveBrandKit);
+
+  const [providerId, setProviderId] = useState<ProviderId>(resolveProviderId);
+  // Offline fixtures need no key and the generation server holds its own, so only browser-key mode needs one selected
+  const canGenerate = hasApiKey || providerId !== 'gemini';
 
   // Load persistence data on mount
   useEffect(() => {
@@ -47,16 +62,6 @@ const App: React.FC = () => {
       document.documentElement.classList.add('dark');
     }
 
-    // Model Config
-    const savedConfig = localStorage.getItem('l2i_model_config');
-    if (savedConfig) {
-      try {
-        setModelConfig(JSON.parse(savedConfig));
-      } catch (e) {
-        console.error("Failed to parse saved config", e);
-      }
-    }
-
     // History hydration
     const savedRepoHistory = localStorage.getItem('l2i_repo_history');
     if (savedRepoHistory) {
@@ -88,7 +93,7 @@ const App: React.FC = () => {
         const isSelected = await window.aistudio.hasSelectedApiKey();
         setHasApiKey(isSelected);
       } else {
-        const envKey = process.env.API_KEY;
+        const envKey = browserApiKey();
         setHasApiKey(!!(envKey && envKey !== 'undefined'));
       }
       setCheckingKey(false);
@@ -98,9 +103,14 @@ const App: React.FC = () => {
 
   // Save changes to localStorage
   useEffect(() => {
-    localStorage.setItem('l2i_model_config', JSON.stringify(modelConfig));
+    localStorage.setItem(MODEL_CONFIG_STORAGE_KEY, JSON.stringify(modelConfig));
   }, [modelConfig]);
 
+  useEffect(() => {
+    setGenerationProvider(providerId);
+    localStorage.setItem(PROVIDER_STORAGE_KEY, providerId);
+  }, [providerId]);
+
   useEffect(() => {
     localStorage.setItem('l2i_repo_history', JSON.stringify(repoHistory));
   }, [repoHistory]);
@@ -125,9 +135,11 @@ const App: React.FC = () => {
     }
   };
 
+  // A key the user brings is used from the browser instead of the generation server
   const handleKeyUpdate = () => {
       setHasApiKey(true);
       setShowKeyModal(false);
+      if (providerId === 'proxy') setProviderId('gemini');
   };
 
   if (checkingKey) return <div className="min-h-screen bg-slate-950" />;
@@ -142,6 +154,12 @@ const App: React.FC = () => {
         />
       )}
 
+      {showTemplates && <PromptTemplateManager onClose={() => setShowTemplates(false)} />}
+
+      {showBrandKits && <BrandKitManager onActiveKitChange={setBrandKit} onClose={() => setShowBrandKits(false)} />}
+
+      {showCache && <CacheManager onClose={() => setShowCache(false)} />}
+
       {showIntro && <IntroAnimation onComplete={() => setShowIntro(false)} />}
 
       <header className="relative mt-4 z-40 mx-auto w-[calc(100%-1rem)] max-w-[1400px]">
@@ -159,10 +177,31 @@ const App: React.FC = () => {
           </button>
           
           <div className="flex items-center gap-3">
+             <button
+                onClick={() => setShowTemplates(true)}
+                className="p-2.5 rounded-xl bg-slate-800 border border-white/10 text-slate-200"
+                title="Prompt Templates"
+             >
+                <FileCode2 className="w-5 h-5" />
+             </button>
+             <button
+                onClick={() => setShowBrandKits(true)}
+                className={`p-2.5 rounded-xl border transition-all ${brandKit ? 'bg-violet-500/10 border-violet-500/20 text-violet-400' : 'bg-slate-800 border-white/10 text-slate-200'}`}
+                title={brandKit ? `Brand Kit: ${brandKit.name}` : "Brand Kits"}
+             >
+                <Palette className="w-5 h-5" />
+             </button>
+             <button
+                onClick={() => setShowCache(true)}
+                className="p-2.5 rounded-xl bg-slate-800 border border-white/10 text-slate-200"
+                title="Response Cache"
+             >
+                <Database className="w-5 h-5" />
+             </button>
              <button
                 onClick={() => setShowKeyModal(true)}
-                className={`p-2.5 rounded-xl border transition-all ${hasApiKey ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' : 'bg-red-500/10 border-red-500/20 text-red-400'}`}
-                title={hasApiKey ? "API Key Selected" : "API Key Required"}
+                className={`p-2.5 rounded-xl border transition-all ${canGenerate ? 'bg-emerald-500/10 border-emerald-500/20 text-emerald-400' : 'bg-red-500/10 border-red-500/20 text-red-400'}`}
+                title={providerId === 'proxy' ? "Using the Server's API Key" : hasApiKey ? "API Key Selected" : "API Key Required"}
              >
                 <Key className="w-5 h-5" />
              </button>
@@ -176,7 +215,12 @@ const App: React.FC = () => {
       <main className="flex-1 w-full max-w-[1400px] mx-auto px-8 py-8">
         {currentView !== ViewMode.HOME && (
           <>
-            <ModelPreferences config={modelConfig} onChange={setModelConfig} />
+            <ModelPreferences 
+                config={modelConfig} 
+                onChange={setModelConfig} 
+                providerId={providerId}
+                onProviderChange={setProviderId}
+            />
             
             <div className="flex justify-center mb-10 relative z-30">
                 <div className="glass-panel p-1.5 rounded-full flex shadow-2xl bg-slate-900/90 border-white/10 overflow-x-auto whitespace-nowrap">
@@ -208,6 +252,12 @@ const App: React.FC = () => {
                     >
                         <ImageIcon className="w-4 h-4 inline mr-2" /> Vision
                     </button>
+                    <button
+                        onClick={() => setCurrentView(ViewMode.BATCH)}
+                        className={`px-6 py-2.5 rounded-full font-medium text-sm transition-all ${currentView === ViewMode.BATCH ? 'bg-cyan-900/30 text-cyan-50 shadow-lg' : 'text-slate-400 hover:text-slate-300'}`}
+                    >
+                        <ListChecks className="w-4 h-4 inline mr-2" /> Batch
+                    </button>
                 </div>
             </div>
           </>
@@ -219,34 +269,52 @@ const App: React.FC = () => {
                 onNavigate={setCurrentView} 
                 history={repoHistory} 
                 onAddToHistory={(item) => setRepoHistory([item, ...repoHistory])}
-                hasApiKey={hasApiKey}
+                hasApiKey={canGenerate}
                 onShowKeyModal={() => setShowKeyModal(true)}
                 model={modelConfig.code}
+                imageSettings={resolveImageSettings(modelConfig, 'repo')}
+                brandKit={brandKit}
             />
         )}
         {currentView === ViewMode.ARTICLE_INFOGRAPHIC && (
             <ArticleToInfographic 
                 history={articleHistory} 
                 onAddToHistory={(item) => setArticleHistory([item, ...articleHistory])}
-                hasApiKey={hasApiKey}
+                onUpdateHistory={(id, changes) => setArticleHistory(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item))}
+                hasApiKey={canGenerate}
                 onShowKeyModal={() => setShowKeyModal(true)}
                 model={modelConfig.drafting}
+                imageSettings={resolveImageSettings(modelConfig, 'article')}
+                brandKit={brandKit}
             />
         )}
         {currentView === ViewMode.ACADEMIC_STUDIO && (
             <AcademicStudio 
                 history={academicHistory}
                 onAddToHistory={(item) => setAcademicHistory([item, ...academicHistory])}
-                hasApiKey={hasApiKey}
+                onUpdateHistory={(id, changes) => setAcademicHistory(prev => prev.map(item => item.id === id ? { ...item, ...changes } : item))}
+                hasApiKey={canGenerate}
                 onShowKeyModal={() => setShowKeyModal(true)}
                 model={modelConfig.strategy}
+                imageSettings={resolveImageSettings(modelConfig, 'academic')}
+                brandKit={brandKit}
             />
         )}
         {currentView === ViewMode.VISION_STUDIO && (
             <VisionStudio 
-                hasApiKey={hasApiKey}
+                hasApiKey={canGenerate}
                 onShowKeyModal={() => setShowKeyModal(true)}
                 model={modelConfig.strategy}
+                imageSettings={resolveImageSettings(modelConfig, 'vision')}
+            />
+        )}
+        {currentView === ViewMode.BATCH && (
+            <BatchStudio
+                hasApiKey={canGenerate}
+                onShowKeyModal={() => setShowKeyModal(true)}
+                models={{ article: modelConfig.drafting, repo: modelConfig.code }}
+                imageSettings={{ article: resolveImageSettings(modelConfig, 'article'), repo: resolveImageSettings(modelConfig, 'repo') }}
+                brandKit={brandKit}
             />
         )}
       </main>
@@ -299,6 +367,11 @@ const App: React.FC = () => {
                                 <GraduationCap className="w-4 h-4 opacity-50 group-hover:opacity-100" /> EduVision
                             </button>
                         </li>
+                        <li>
+                            <button onClick={() => setCurrentView(ViewMode.BATCH)} className="text-sm text-slate-400 hover:text-cyan-400 transition-colors flex items-center gap-2 group">
+                                <ListChecks className="w-4 h-4 opacity-50 group-hover:opacity-100" /> Batch
+                            </button>
+                        </li>
                     </ul>
                 </div>
 
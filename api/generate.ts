@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Generation endpoint for the browser's proxy provider. The Gemini key is read from the server's
+// environment and never reaches the client bundle.
+
+import { createGeminiProvider } from '../services/geminiProvider';
+import { RequestOptions } from '../services/generationProvider';
+import { IMAGE_MODELS, TEXT_MODELS } from '../services/modelPreferences';
+import { ProxyEvent, ProxyRequest, ProxyTask } from '../services/proxyProvider';
+import { ServiceError, classifyGeminiError, toErrorPayload } from '../services/errors';
+import { CLIENT_ADDRESS_HEADER, errorResponse, readCapped } from '../server/http';
+import { createRateLimiter, rateLimitHeaders } from '../server/rateLimit';
+
+// Base64 images make up most of a request; 12 MB fits a 4K PNG plus a reference image
+const MAX_BODY_BYTES = Number(process.env.L2I_MAX_REQUEST_BYTES) || 12 * 1024 * 1024;
+const MAX_PROMPT_CHARS = 200_000;
+
+// Each client gets a budget per minute; image calls cost more than text calls
+const limiter = createRateLimiter({ limit: Number(process.env.L2I_RATE_LIMIT) || 60, windowMs: 60_000 });
+const TASK_COST: Record<ProxyTask, number> = { text: 1, stream: 1, vision: 1, image: 5, edit: 5 };
+
+const serverKey = () => process.env.GEMINI_API_KEY;
+const provider = createGeminiProvider(serverKey);
+
+const invalid = (message: string) => errorResponse(400, new ServiceError('unknown', message, { source: 'gemini' }));
+
+/** Why `body` may not be run, or null when it is a well-formed request for an allowed model. */
+function validate(body: ProxyRequest): string | null {
+  if (!body || !(body.task in TASK_COST) || typeof body.request !== 'object' || !body.request) return 'Unknown generation task.';
+  const { request } = body;
+  if (typeof request.prompt !== 'string' || !request.prompt) return 'A prompt is required.';
+  if (request.prompt.length > MAX_PROMPT_CHARS) return `Prompts are limited to ${MAX_PROMPT_CHARS.toLocaleString()} characters.`;
+  if ('model' in request && !TEXT_MODELS.includes(request.model)) return `Model ${request.model} is not available on this server.`;
+  if ('settings' in request && request.settings && !IMAGE_MODELS.some(m => m.id === request.settings!.model)) {
+    return `Image model ${request.settings.model} is not available on this server.`;
+  }
+  return null;
+}
+
+function run(body: ProxyRequest, options: RequestOptions, onText: (text: string) => void): Promise<unknown> {
+  switch (body.task) {
+    case 'text': return provider.generateText({ ...body.request, ...options });
+    case 'stream': return provider.streamText({ ...body.request, ...options, onText });
+    case 'image': return provider.generateImage({ ...body.request, ...options });
+    case 'edit': return provider.editImage({ ...body.request, ...options });
+    case 'vision': return provider.analyzeImage({ ...body.request, ...options });
+  }
+}
+
+export async function POST(request: Request) {
+  if (!serverKey()) {
+    return errorResponse(503, new ServiceError('auth', 'The generation server has no Gemini API key configured. Select your own key instead.', { source: 'gemini' }));
+  }
+
+  const raw = await readCapped(request, MAX_BODY_BYTES);
+  if (raw === null) {
+    return errorResponse(413, new ServiceError('unknown', `Requests to the generation server are limited to ${Math.round(MAX_BODY_BYTES / 1024 / 1024)} MB.`, { source: 'gemini' }));
+  }
+  let body: ProxyRequest;
+  try {
+    body = JSON.parse(raw);
+  } catch (e) {
+    return invalid('The request body is not valid JSON.');
+  }
+  const problem = validate(body);
+  if (problem) return invalid(problem);
+
+  const budget = limiter(request.headers.get(CLIENT_ADDRESS_HEADER) || 'unknown', TASK_COST[body.task]);
+  if (!budget.allowed) {
+    const retryAfter = Math.max(1, Math.ceil((budget.resetAt.getTime() - Date.now()) / 1000));
+    return errorResponse(429, new ServiceError('rate_limit', 'Too many generation requests from this browser.', { source: 'gemini', resetAt: budget.resetAt }), {
+      ...rateLimitHeaders(budget),
+      "Retry-After": String(retryAfter)
+    });
+  }
+
+  // Answer with NDJSON so streamed text and retries reach the browser as they happen
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ProxyEvent) => {
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch (e) {
+          // The client went away; the abort signal stops the Gemini call
+        }
+      };
+      let sent = '';
+      const onText = (text: string) => {
+        const reset = !text.startsWith(sent);
+        send({ type: 'text', delta: reset ? text : text.slice(sent.length), ...(reset ? { reset } : {}) });
+        sent = text;
+      };
+      const options: RequestOptions = {
+        signal: request.signal,
+        onRetry: (attempt, error, delayMs) => send({ type: 'retry', attempt, delayMs, error: toErrorPayload(error) })
+      };
+      try {
+        send({ type: 'result', result: await run(body, options, onText) });
+      } catch (err) {
+        send({ type: 'error', error: toErrorPayload(classifyGeminiError(err)) });
+      }
+      try {
+        controller.close();
+      } catch (e) { }
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "application/x-ndjson",
+      "Cache-Control": "no-store",
+      ...rateLimitHeaders(budget)
+    }
+  });
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// POST /api/infographics/{article,repo,academic}: queues a headless run for an API caller and
+// answers 202 with the job, to be polled at /api/jobs/:id. See /api/openapi.json.
+
+import { InfographicKind } from '../types';
+import { INFOGRAPHIC_KINDS, readInfographicRequest } from '../services/headless';
+import { ServiceError } from '../services/errors';
+import { authenticate } from '../server/apiKeys';
+import { configureServerGeneration } from '../server/generation';
+import { apiJobs, toJobResponse } from '../server/jobs';
+import { errorResponse, jsonResponse, readCapped } from '../server/http';
+import { createRateLimiter, rateLimitHeaders } from '../server/rateLimit';
+
+// Article text is capped at 500,000 characters; 2 MB leaves room for multi-byte scripts
+const MAX_BODY_BYTES = 2 * 1024 * 1024;
+
+// Jobs per API key per minute
+const limiter = createRateLimiter({ limit: Number(process.env.L2I_API_RATE_LIMIT) || 30, windowMs: 60_000 });
+
+const invalid = (message: string) => errorResponse(400, new ServiceError('unknown', message, { source: 'gemini' }));
+
+export async function POST(request: Request) {
+  const caller = authenticate(request);
+  if (caller instanceof Response) return caller;
+
+  const kind = new URL(request.url).pathname.replace(/\/$/, '').split('/').pop() as InfographicKind;
+  if (!INFOGRAPHIC_KINDS.includes(kind)) {
+    return errorResponse(404, new ServiceError('not_found', `Unknown infographic kind. Use ${INFOGRAPHIC_KINDS.map(k => `/api/infographics/${k}`).join(', ')}.`, { source: 'gemini' }));
+  }
+  // Configured once per process; see configureServerGeneration
+  const setupError = configureServerGeneration();
+  if (setupError) return errorResponse(503, setupError);
+
+  const raw = await readCapped(request, MAX_BODY_BYTES);
+  if (raw === null) return errorResponse(413, new ServiceError('unknown', `Requests are limited to ${MAX_BODY_BYTES / 1024 / 1024} MB.`, { source: 'gemini' }));
+  let body: unknown;
+  try {
+    body = raw.trim() ? JSON.parse(raw) : {};
+  } catch (e) {
+    return invalid('The request body is not valid JSON.');
+  }
+  const resolved = readInfographicRequest(kind, body);
+  if (typeof resolved === 'string') return invalid(resolved);
+
+  const budget = limiter(caller.callerId);
+  if (!budget.allowed) {
+    const retryAfter = Math.max(1, Math.ceil((budget.resetAt.getTime() - Date.now()) / 1000));
+    return errorResponse(429, new ServiceError('rate_limit', 'Too many infographic jobs for this API key.', { source: 'gemini', resetAt: budget.resetAt }), {
+      ...rateLimitHeaders(budget),
+      "Retry-After": String(retryAfter)
+    });
+  }
+
+  const job = apiJobs.submit(caller.callerId, resolved);
+  if (!job) {
+    return errorResponse(503, new ServiceError('network', 'The job queue is full. Please try again shortly.', { source: 'gemini' }), { "Retry-After": '30' });
+  }
+  return jsonResponse(202, toJobResponse(job), {
+    ...rateLimitHeaders(budget),
+    "Location": `/api/jobs/${job.id}`
+  });
+}
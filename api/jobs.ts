@@ -0,0 +1,36 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// GET /api/jobs/:id reports a job's status and, once done, its metadata, spec and citations.
+// GET /api/jobs/:id/image serves the PNG with the metadata embedded.
+
+import { ServiceError } from '../services/errors';
+import { authenticate } from '../server/apiKeys';
+import { apiJobs, toJobResponse } from '../server/jobs';
+import { errorResponse, jsonResponse } from '../server/http';
+
+export async function GET(request: Request) {
+  const caller = authenticate(request);
+  if (caller instanceof Response) return caller;
+
+  const [, id, image] = new URL(request.url).pathname.match(/^\/api\/jobs\/([^/]+)(\/image)?\/?$/) || [];
+  // Jobs of other API keys are reported as missing, not forbidden
+  const job = id ? apiJobs.get(id, caller.callerId) : undefined;
+  if (!job) {
+    return errorResponse(404, new ServiceError('not_found', 'No such job. Finished jobs are kept for up to an hour.', { source: 'gemini' }));
+  }
+
+  if (!image) return jsonResponse(200, toJobResponse(job), { "Cache-Control": 'no-store' });
+  if (!job.result) {
+    return errorResponse(409, new ServiceError('unknown', `The job is ${job.status}; the image is available once it is done.`, { source: 'gemini' }));
+  }
+  return new Response(Buffer.from(job.result.png, 'base64'), {
+    headers: {
+      "Content-Type": "image/png",
+      "Content-Disposition": `attachment; filename="${job.request.kind}-${job.id}.png"`,
+      "Cache-Control": "private, max-age=3600"
+    }
+  });
+}
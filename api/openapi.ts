@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// GET /api/openapi.json: the OpenAPI 3.1 description of the infographic and job routes.
+
+import { BATCH_RATIOS } from '../services/batchImport';
+import { DEFAULT_STYLES, INFOGRAPHIC_KINDS, MAX_TEXT_CHARS } from '../services/headless';
+import { IMAGE_MODELS, TEXT_MODELS } from '../services/modelPreferences';
+
+const string = (description: string, extra: Record<string, unknown> = {}) => ({ type: 'string', description, ...extra });
+
+// Options every kind accepts
+const COMMON_OPTIONS = {
+  language: string('Output language.', { default: 'English' }),
+  model: string('Text model for the analysis.', { enum: TEXT_MODELS }),
+  imageModel: string('Image model for the render.', { enum: IMAGE_MODELS.map(m => m.id) }),
+  imageSize: string('Image size; only some image models accept more than 1K.', { enum: ['1K', '2K', '4K'] })
+};
+
+const aspectRatio = (fallback: string) => string('Aspect ratio of the image.', { enum: BATCH_RATIOS, default: fallback });
+
+const REQUEST_SCHEMAS = {
+  ArticleRequest: {
+    type: 'object',
+    description: 'Exactly one of url or text.',
+    properties: {
+      url: string('Article URL. The page is fetched and extracted; if that fails, search grounding finds it.', { format: 'uri' }),
+      text: string('Article text.', { maxLength: MAX_TEXT_CHARS }),
+      style: string('Visual style, e.g. "Clean Minimalist".', { default: DEFAULT_STYLES.article }),
+      aspectRatio: aspectRatio('3:4'),
+      ...COMMON_OPTIONS
+    },
+    additionalProperties: false
+  },
+  RepoRequest: {
+    type: 'object',
+    required: ['repo'],
+    properties: {
+      repo: string('`owner/name`, `owner/name@ref` (a branch, tag or commit, optionally followed by a subdirectory, e.g. `@v2/packages/core`) or a repository URL on GitHub, GitLab, Bitbucket, Codeberg or an instance in L2I_REPO_HOSTS, including links to a ref or directory. Without a ref, the default branch is used.'),
+      style: string('Visual style, e.g. "Neon Cyberpunk".', { default: DEFAULT_STYLES.repo }),
+      aspectRatio: aspectRatio('16:9'),
+      ...COMMON_OPTIONS
+    },
+    additionalProperties: false
+  },
+  AcademicRequest: {
+    type: 'object',
+    required: ['topic'],
+    description: 'Always rendered at 3:4.',
+    properties: {
+      topic: string('Concept to explain, e.g. "Photosynthesis".'),
+      subject: string('Subject area, e.g. "Human Body / Biology".', { default: 'General' }),
+      style: string('Visual style, e.g. "Vintage Encyclopedia".', { default: DEFAULT_STYLES.academic }),
+      ...COMMON_OPTIONS
+    },
+    additionalProperties: false
+  }
+};
+
+const REQUEST_SCHEMA_BY_KIND: Record<string, string> = { article: 'ArticleRequest', repo: 'RepoRequest', academic: 'AcademicRequest' };
+
+const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+const errorResponse = (description: string) => ({ description, content: { 'application/json': { schema: ref('Error') } } });
+
+const AUTH_ERRORS = {
+  '401': errorResponse('Missing or unknown API key.'),
+  '503': errorResponse('The API is disabled, the server has no Gemini key, or the queue is full.')
+};
+
+export const OPENAPI_DOCUMENT = {
+  openapi: '3.1.0',
+  info: {
+    title: 'Link2Infographic API',
+    version: '1.0.0',
+    description: 'Queue infographic renders and collect the results. Jobs run asynchronously: submit one, then poll /api/jobs/{id} until its status is done or failed.'
+  },
+  security: [{ bearerAuth: [] }, { apiKeyHeader: [] }],
+  paths: {
+    ...Object.fromEntries(INFOGRAPHIC_KINDS.map(kind => [`/api/infographics/${kind}`, {
+      post: {
+        operationId: `create${kind[0].toUpperCase()}${kind.slice(1)}Infographic`,
+        summary: `Queue a ${kind} infographic`,
+        requestBody: { required: true, content: { 'application/json': { schema: ref(REQUEST_SCHEMA_BY_KIND[kind]) } } },
+        responses: {
+          '202': {
+            description: 'Queued. Poll the Location header.',
+            headers: { Location: { schema: { type: 'string' }, description: 'The job URL.' } },
+            content: { 'application/json': { schema: ref('Job') } }
+          },
+          '400': errorResponse('Invalid options.'),
+          '413': errorResponse('The body is too large.'),
+          '429': errorResponse('Too many jobs for this API key; see Retry-After.'),
+          ...AUTH_ERRORS
+        }
+      }
+    }])),
+    '/api/jobs/{id}': {
+      get: {
+        operationId: 'getJob',
+        summary: 'Job status and result',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': { description: 'The job.', content: { 'application/json': { schema: ref('Job') } } },
+          '404': errorResponse('Unknown job, expired, or created with another key.'),
+          ...AUTH_ERRORS
+        }
+      }
+    },
+    '/api/jobs/{id}/image': {
+      get: {
+        operationId: 'getJobImage',
+        summary: 'The rendered PNG, with title, description, keywords and copyright embedded as iTXt chunks',
+        parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'string' } }],
+        responses: {
+          '200': { description: 'The image.', content: { 'image/png': { schema: { type: 'string', format: 'binary' } } } },
+          '404': errorResponse('Unknown job, expired, or created with another key.'),
+          '409': errorResponse('The job has not finished successfully.'),
+          ...AUTH_ERRORS
+        }
+      }
+    }
+  },
+  components: {
+    securitySchemes: {
+      bearerAuth: { type: 'http', scheme: 'bearer', description: 'One of the keys in L2I_API_KEYS.' },
+      apiKeyHeader: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+    },
+    schemas: {
+      ...REQUEST_SCHEMAS,
+      Job: {
+        type: 'object',
+        required: ['id', 'kind', 'status', 'createdAt'],
+        properties: {
+          id: { type: 'string' },
+          kind: { type: 'string', enum: INFOGRAPHIC_KINDS },
+          status: { type: 'string', enum: ['queued', 'running', 'done', 'failed'] },
+          stage: string('Label of the running stage, e.g. "GENERATING VISUAL".'),
+          createdAt: { type: 'string', format: 'date-time' },
+          startedAt: { type: 'string', format: 'date-time' },
+          finishedAt: { type: 'string', format: 'date-time' },
+          error: ref('ErrorPayload'),
+          result: {
+            type: 'object',
+            properties: {
+              imageUrl: string('Where to download the PNG.'),
+              metadata: {
+                type: 'object',
+                properties: Object.fromEntries(['title', 'author', 'description', 'keywords', 'copyright', 'date'].map(key => [key, { type: 'string' }]))
+              },
+              spec: {
+                type: 'object',
+                description: 'The structured content the image was rendered from (article and academic only).',
+                properties: {
+                  title: { type: 'string' },
+                  subtitle: { type: 'string' },
+                  sections: { type: 'array', items: { type: 'object', properties: { heading: { type: 'string' }, body: { type: 'string' }, icon: { type: 'string' } } } },
+                  stats: { type: 'array', items: { type: 'object', properties: { label: { type: 'string' }, value: { type: 'string' }, unit: { type: 'string' } } } },
+                  callToAction: { type: 'string' },
+                  sources: { type: 'array', items: { type: 'string' } }
+                }
+              },
+              citations: { type: 'array', items: { type: 'object', properties: { uri: { type: 'string' }, title: { type: 'string' } } } }
+            }
+          }
+        }
+      },
+      ErrorPayload: {
+        type: 'object',
+        required: ['kind', 'message'],
+        properties: {
+          kind: { type: 'string', enum: ['auth', 'quota', 'safety', 'network', 'rate_limit', 'not_found', 'cancelled', 'unknown'] },
+          message: { type: 'string' },
+          resetAt: { type: 'string', format: 'date-time' }
+        }
+      },
+      Error: { type: 'object', required: ['error'], properties: { error: ref('ErrorPayload') } }
+    }
+  }
+};
+
+export async function GET() {
+  return new Response(JSON.stringify(OPENAPI_DOCUMENT, null, 2), {
+    headers: {
+      "Content-Type": "application/json",
+      "Cache-Control": "public, max-age=3600"
+    }
+  });
+}
@@ -0,0 +1,154 @@
+#!/usr/bin/env node
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Headless entry point for scripts and CI: the studios' pipelines without the review steps.
+// Prints a summary (or JSON with --json) on stdout, progress on stderr, and exits non-zero on failure.
+
+import { parseArgs } from 'node:util';
+import { readFile, writeFile } from 'node:fs/promises';
+import { InfographicKind, ProgressEvent } from '../types';
+import { INFOGRAPHIC_KINDS, InfographicOptions, readInfographicRequest, runInfographic } from '../services/headless';
+import { BATCH_RATIOS } from '../services/batchImport';
+import { IMAGE_MODELS, TEXT_MODELS } from '../services/modelPreferences';
+import { ServiceError, ServiceErrorKind, classifyGeminiError } from '../services/errors';
+import { useServerGeneration } from '../server/generation';
+
+const USAGE = `Usage:
+  l2i article (--url <url> | --text <text> | --file <path>) [options]
+  l2i repo <owner/name[@ref[/dir]] | repository url> [options]
+  l2i academic --topic <topic> [--subject <subject>] [options]
+
+Options:
+  --style <name>         Visual style (default per command, as in the studios)
+  --language <name>      Output language (default English)
+  --ratio <w:h>          ${BATCH_RATIOS.join(', ')} (article and repo only)
+  --out <file.png>       Where to write the PNG (default l2i-<command>.png)
+  --model <id>           Text model: ${TEXT_MODELS.join(' or ')}
+  --image-model <id>     ${IMAGE_MODELS.map(m => m.id).join(' or ')}
+  --size <1K|2K|4K>      Image size, where the image model supports it
+  --fixture              Offline fixture mode: no network, deterministic output
+  --no-cache             Bypass the response cache (L2I_CACHE_DIR, default .l2i-cache)
+  --json                 Print the result as JSON on stdout
+  --quiet                No progress on stderr
+  --help                 Show this help
+
+GEMINI_API_KEY must be set unless --fixture is given or L2I_PROVIDER=fixture.
+GITHUB_TOKEN, GITLAB_TOKEN, BITBUCKET_TOKEN and GITEA_TOKEN, when set, are used for
+private repositories. L2I_REPO_HOSTS adds self-hosted instances (gitlab=https://git.example.com,...).`;
+
+/** Exit status by failure kind, so CI can tell a bad key from a flaky network. */
+const EXIT_CODES: Record<ServiceErrorKind | 'usage', number> = {
+    unknown: 1,
+    usage: 2,
+    auth: 3,
+    quota: 4,
+    rate_limit: 4,
+    network: 5,
+    not_found: 6,
+    safety: 7,
+    cancelled: 130
+};
+
+class UsageError extends Error {}
+
+const OPTIONS = {
+    url: { type: 'string' },
+    text: { type: 'string' },
+    file: { type: 'string' },
+    topic: { type: 'string' },
+    subject: { type: 'string' },
+    style: { type: 'string' },
+    language: { type: 'string' },
+    ratio: { type: 'string' },
+    out: { type: 'string' },
+    model: { type: 'string' },
+    'image-model': { type: 'string' },
+    size: { type: 'string' },
+    fixture: { type: 'boolean' },
+    'no-cache': { type: 'boolean' },
+    json: { type: 'boolean' },
+    quiet: { type: 'boolean' },
+    help: { type: 'boolean' }
+} as const;
+
+function parseCommandLine(argv: string[]) {
+    try {
+        return parseArgs({ args: argv, options: OPTIONS, allowPositionals: true });
+    } catch (err: any) {
+        throw new UsageError(err.message);
+    }
+}
+
+async function run(argv: string[], log: (line: string) => void) {
+    const { values, positionals } = parseCommandLine(argv);
+    const [command, target] = positionals as [InfographicKind | undefined, string | undefined];
+    if (!command || !INFOGRAPHIC_KINDS.includes(command)) {
+        throw new UsageError(command ? `Unknown command "${command}".` : 'Missing command.');
+    }
+    if (values.file && (values.url || values.text)) throw new UsageError('article needs exactly one of --url, --text or --file.');
+
+    // Flags map onto the same options the HTTP API accepts, so both validate alike
+    const options: InfographicOptions = {
+        url: values.url,
+        text: values.file ? await readFile(values.file, 'utf8') : values.text,
+        repo: command === 'repo' ? target : undefined,
+        topic: values.topic,
+        subject: values.subject,
+        style: values.style,
+        language: values.language,
+        aspectRatio: values.ratio,
+        model: values.model,
+        imageModel: values['image-model'],
+        imageSize: values.size
+    };
+    const request = readInfographicRequest(command, options);
+    if (typeof request === 'string') throw new UsageError(request);
+
+    useServerGeneration(values.fixture, values['no-cache']);
+    const onProgress = (event: ProgressEvent) => {
+        if (event.type === 'stage_start') log(`${event.label}${event.model ? ` (${event.model})` : ''}`);
+        if (event.type === 'retry') log(`  retry ${event.attempt} in ${Math.round(event.delayMs / 1000)}s: ${event.reason}`);
+    };
+    const result = await runInfographic(request, undefined, onProgress);
+    return { command, out: values.out || `l2i-${command}.png`, result };
+}
+
+async function main(argv: string[]): Promise<number> {
+    const json = argv.includes('--json');
+    const quiet = argv.includes('--quiet');
+    if (argv.includes('--help') || argv.length === 0) {
+        console.log(USAGE);
+        return argv.length === 0 ? EXIT_CODES.usage : 0;
+    }
+
+    try {
+        const { command, out, result } = await run(argv, line => !quiet && console.error(line));
+        const { png, metadata, ...details } = result;
+        const bytes = Buffer.from(png, 'base64');
+        await writeFile(out, bytes);
+        if (json) {
+            console.log(JSON.stringify({ ok: true, command, file: out, bytes: bytes.length, metadata, ...details }, null, 2));
+        } else {
+            console.log(`${out} (${Math.round(bytes.length / 1024)} KB): ${metadata.title}`);
+        }
+        return 0;
+    } catch (err: any) {
+        const usage = err instanceof UsageError;
+        const error = usage ? null : err instanceof ServiceError ? err : classifyGeminiError(err);
+        const exitCode = error ? EXIT_CODES[error.kind] : EXIT_CODES.usage;
+        const message = error ? error.message : `${err.message}\n\n${USAGE}`;
+        if (json) {
+            console.log(JSON.stringify({ ok: false, error: { kind: error ? error.kind : 'usage', message: error ? error.message : err.message }, exitCode }, null, 2));
+        } else {
+            console.error(`Error: ${message}`);
+        }
+        return exitCode;
+    }
+}
+
+main(process.argv.slice(2)).then(code => {
+    process.exitCode = code;
+});
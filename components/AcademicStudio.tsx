@@ -4,10 +4,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect } from 'react';
-import { generateAcademicInfographic, extractImageMetadata } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { generateAcademicInfographic, extractImageMetadata, verifyInfographic, refineInfographic, MAX_VARIANTS, RenderRevision } from '../services/geminiService';
 import { downloadWithMetadata } from '../services/imageService';
-import { AcademicHistoryItem, GeminiModel, ImageMetadata } from '../types';
+import { findBrandKit, withBrandLogo } from '../services/brandKits';
+import { ServiceError, classifyGeminiError, isCancellation, raceAbort } from '../services/errors';
+import { AnalysisHooks, summarizeTimings } from '../services/progress';
+import { appendRevision, findVersion, versionsOf } from '../services/revisions';
+import { AcademicHistoryItem, GeminiModel, ImageMetadata, ImageSettings, InfographicRevision, InfographicSpec, ProgressEvent, QualityReport, StageTiming, BrandKit } from '../types';
 import { 
   GraduationCap, 
   Dna, 
@@ -31,16 +35,25 @@ import {
   Layout,
   Globe
 } from 'lucide-react';
-import { LoadingState } from './LoadingState';
+import { LoadingState, TimingSummary } from './LoadingState';
+import AnalysisStream from './AnalysisStream';
+import SpecEditor from './SpecEditor';
+import CandidateGrid from './CandidateGrid';
+import QualityReportCard from './QualityReportCard';
+import RefinementChat from './RefinementChat';
 import ImageViewer from './ImageViewer';
 import MetadataEditor from './MetadataEditor';
+import ErrorNotice from './ErrorNotice';
 
 interface AcademicStudioProps {
     history: AcademicHistoryItem[];
     onAddToHistory: (item: AcademicHistoryItem) => void;
+    onUpdateHistory: (id: string, changes: Partial<AcademicHistoryItem>) => void;
     hasApiKey: boolean;
     onShowKeyModal: () => void;
     model: GeminiModel;
+    imageSettings: ImageSettings;
+    brandKit: BrandKit | null;
 }
 
 const ACADEMIC_SUBJECTS = [
@@ -73,15 +86,33 @@ const LANGUAGES = [
   { label: "Chinese (中文)", value: "Chinese" },
 ];
 
-const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory, hasApiKey, onShowKeyModal, model }) => {
+const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory, onUpdateHistory, hasApiKey, onShowKeyModal, model, imageSettings, brandKit }) => {
   const [selectedSubject, setSelectedSubject] = useState(ACADEMIC_SUBJECTS[0].id);
   const [topic, setTopic] = useState('');
   const [selectedStyle, setSelectedStyle] = useState(ACADEMIC_STYLES[0]);
   const [selectedLanguage, setSelectedLanguage] = useState(LANGUAGES[0].value);
   const [loading, setLoading] = useState(false);
   const [loadingStage, setLoadingStage] = useState('');
-  const [error, setError] = useState<string | null>(null);
+  const [progressEvents, setProgressEvents] = useState<ProgressEvent[]>([]);
+  const [timings, setTimings] = useState<StageTiming[]>([]);
+  const [reviewBeforeRender, setReviewBeforeRender] = useState(true);
+  const [analysisText, setAnalysisText] = useState('');
+  const [specDraft, setSpecDraft] = useState<InfographicSpec | null>(null);
+  const reviewResolveRef = useRef<((spec: InfographicSpec) => void) | null>(null);
+  const [variantCount, setVariantCount] = useState(1);
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [keepRejected, setKeepRejected] = useState(false);
+  const pickResolveRef = useRef<((pick: { index: number; keepRejected: boolean }) => void) | null>(null);
+  const [error, setError] = useState<ServiceError | string | null>(null);
   const [infographicData, setInfographicData] = useState<string | null>(null);
+  const [resultSpec, setResultSpec] = useState<InfographicSpec | null>(null);
+  // The kit the current result was rendered for, so switching kits later does not change its logo
+  const [resultBrandKitId, setResultBrandKitId] = useState<string | undefined>();
+  const [qualityReport, setQualityReport] = useState<QualityReport | null>(null);
+  const [currentItemId, setCurrentItemId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<InfographicRevision[]>([]);
+  const [activeVersion, setActiveVersion] = useState(1);
+  const [refineStatus, setRefineStatus] = useState('');
   const [fullScreenImage, setFullScreenImage] = useState<{src: string, alt: string} | null>(null);
   
   const [metadata, setMetadata] = useState<ImageMetadata>({
@@ -93,6 +124,11 @@ const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory
       date: new Date().toISOString()
   });
 
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Abort any in-flight generation when leaving the studio
+  useEffect(() => () => abortRef.current?.abort(), []);
+
   // Draft persistence
   useEffect(() => {
     const draft = localStorage.getItem('l2i_academic_draft');
@@ -103,16 +139,27 @@ const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory
         if (parsed.selectedSubject !== undefined) setSelectedSubject(parsed.selectedSubject);
         if (parsed.selectedStyle !== undefined) setSelectedStyle(parsed.selectedStyle);
         if (parsed.selectedLanguage !== undefined) setSelectedLanguage(parsed.selectedLanguage);
+        if (parsed.reviewBeforeRender !== undefined) setReviewBeforeRender(parsed.reviewBeforeRender);
+        if (parsed.variantCount !== undefined) setVariantCount(parsed.variantCount);
+        if (parsed.keepRejected !== undefined) setKeepRejected(parsed.keepRejected);
       } catch (e) { console.error(e); }
     }
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('l2i_academic_draft', JSON.stringify({ topic, selectedSubject, selectedStyle, selectedLanguage }));
-  }, [topic, selectedSubject, selectedStyle, selectedLanguage]);
+    localStorage.setItem('l2i_academic_draft', JSON.stringify({ topic, selectedSubject, selectedStyle, selectedLanguage, reviewBeforeRender, variantCount, keepRejected }));
+  }, [topic, selectedSubject, selectedStyle, selectedLanguage, reviewBeforeRender, variantCount, keepRejected]);
+
+  const handleError = (err: any) => {
+    console.error(err);
+    const serviceError = classifyGeminiError(err);
+    setError(serviceError);
+    if (serviceError.kind === 'auth') onShowKeyModal();
+  };
 
-  const handleGenerate = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // A revision re-renders the current spec with corrections instead of analysing the topic again
+  const handleGenerate = async (e?: React.FormEvent, revision?: RenderRevision) => {
+    if (e) e.preventDefault();
     setError(null);
 
     if (!hasApiKey) {
@@ -125,9 +172,32 @@ const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory
       return;
     }
 
+    const previousResult = { imageData: infographicData, qualityReport };
     setLoading(true);
     setInfographicData(null);
+    setQualityReport(null);
     setLoadingStage('SYNTHESIZING ACADEMIC CONCEPT...');
+    setProgressEvents([]);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const events: ProgressEvent[] = [];
+    const onProgress = (event: ProgressEvent) => {
+      events.push(event);
+      setProgressEvents([...events]);
+      if (event.type === 'stage_start') setLoadingStage(event.label);
+      if (event.type === 'stage_start' && event.stage === 'render') setAnalysisText('');
+    };
+    setAnalysisText('');
+    const hooks: AnalysisHooks = {
+      onAnalysisText: setAnalysisText,
+      // The pipeline waits here until the user confirms (or cancels) the spec
+      reviewSpec: reviewBeforeRender
+        ? (draft) => new Promise<InfographicSpec>(resolve => {
+            setSpecDraft(draft);
+            reviewResolveRef.current = resolve;
+          })
+        : undefined
+    };
 
     try {
       const subjectName = ACADEMIC_SUBJECTS.find(s => s.id === selectedSubject)?.name || 'General';
@@ -136,26 +206,56 @@ const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory
         topic,
         subjectName,
         selectedStyle,
-        (stage) => setLoadingStage(stage),
+        onProgress,
         selectedLanguage,
-        model
+        model,
+        controller.signal,
+        hooks,
+        revision ? 1 : variantCount,
+        imageSettings,
+        revision,
+        brandKit
       );
 
-      if (result) {
-        setInfographicData(result);
+      if (result.imageData) {
+        // With several candidates the run waits here for the user to pick a winner
+        const pick = result.candidates.length > 1
+          ? await raceAbort(new Promise<{ index: number; keepRejected: boolean }>(resolve => {
+              setCandidates(result.candidates);
+              pickResolveRef.current = resolve;
+            }), controller.signal)
+          : { index: 0, keepRejected: false };
+        setCandidates([]);
+        const imageData = result.candidates[pick.index];
+        const rejectedVariants = pick.keepRejected ? result.candidates.filter((_, i) => i !== pick.index) : undefined;
+        const aiMeta = await extractImageMetadata(imageData, 'image/png', `Topic: ${topic}, Subject: ${subjectName}`, 'gemini-3-flash-preview', controller.signal, onProgress);
+        const report = await verifyInfographic(imageData, result.spec, `${topic} ${subjectName}`, 'gemini-3-flash-preview', controller.signal, onProgress);
+
+        // Only a run that made it through every stage reaches the history
+        const runTimings = summarizeTimings(events);
+        const itemId = Date.now().toString();
+        setCurrentItemId(itemId);
+        setRevisions([]);
+        setActiveVersion(1);
+        setInfographicData(imageData);
+        setTimings(runTimings);
+        setResultSpec(result.spec);
+        setResultBrandKitId(brandKit?.id);
+        setQualityReport(report);
         onAddToHistory({
-            id: Date.now().toString(),
+            id: itemId,
             topic: topic,
             subject: subjectName,
-            imageData: result,
-            date: new Date()
+            imageData,
+            date: new Date(),
+            timings: runTimings,
+            spec: result.spec,
+            rejectedVariants,
+            qualityReport: report ?? undefined
         });
-        
-        setLoadingStage('OPTIMIZING EDUCATIONAL TAGS');
-        const aiMeta = await extractImageMetadata(result, 'image/png', `Topic: ${topic}, Subject: ${subjectName}`, 'gemini-3-flash-preview');
 
         setMetadata({
-            title: aiMeta.title || `${topic} - Academic Visualization`,
+            title: aiMeta.title || result.spec.title || `${topic} - Academic Visualization`,
             author: 'EduVision Studio',
             description: aiMeta.description || `Educational study infographic for "${topic}" in ${subjectName}.`,
             keywords: aiMeta.keywords || `education, academic, ${selectedSubject}, ${topic.toLowerCase()}`,
@@ -166,17 +266,99 @@ const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory
         throw new Error('Image generation failed.');
       }
     } catch (err: any) {
-      setError(err.message || 'An unexpected error occurred.');
+      if (isCancellation(err)) {
+        setInfographicData(previousResult.imageData);
+        setQualityReport(previousResult.qualityReport);
+      } else {
+        handleError(err);
+      }
     } finally {
+      abortRef.current = null;
+      reviewResolveRef.current = null;
+      pickResolveRef.current = null;
+      setSpecDraft(null);
+      setCandidates([]);
+      setAnalysisText('');
       setLoading(false);
       setLoadingStage('');
     }
   };
 
-  const handleDownload = () => {
+  const handleCancel = () => abortRef.current?.abort();
+
+  const handleFixIssues = () => {
+    if (resultSpec && qualityReport) handleGenerate(undefined, { spec: resultSpec, corrections: qualityReport.issues });
+  };
+
+  const versions = infographicData ? versionsOf(infographicData, resultSpec, revisions) : [];
+
+  // Each refinement renders a new numbered version from the active one, then re-checks its text
+  const handleRefine = async (instruction: string) => {
+    if (!infographicData || !resultSpec) return;
+    setError(null);
+    if (!hasApiKey) {
+        onShowKeyModal();
+        return;
+    }
+    const basedOn = activeVersion;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRefineStatus('APPLYING CHANGE REQUEST');
+    const onProgress = (event: ProgressEvent) => {
+      if (event.type === 'stage_start') setRefineStatus(event.label);
+    };
+    try {
+      const refined = await refineInfographic(infographicData, resultSpec, instruction, selectedStyle, selectedLanguage, model, controller.signal, onProgress, imageSettings, undefined, brandKit);
+      // Checked against the topic the result was made from, as the first render was
+      const item = history.find(h => h.id === currentItemId);
+      const report = await verifyInfographic(refined.imageData, refined.spec, item ? `${item.topic} ${item.subject}` : '', 'gemini-3-flash-preview', controller.signal, onProgress);
+      const next = appendRevision(versions, refined.imageData, refined.spec, instruction, basedOn);
+      const version = next[next.length - 1].version;
+      setRevisions(next);
+      setActiveVersion(version);
+      setInfographicData(refined.imageData);
+      setResultSpec(refined.spec);
+      setResultBrandKitId(brandKit?.id);
+      setQualityReport(report);
+      if (currentItemId) {
+        onUpdateHistory(currentItemId, { revisions: next, activeVersion: version, imageData: refined.imageData, spec: refined.spec, qualityReport: report ?? undefined, brandKitId: brandKit?.id });
+      }
+    } catch (err: any) {
+      if (!isCancellation(err)) handleError(err);
+    } finally {
+      abortRef.current = null;
+      setRefineStatus('');
+    }
+  };
+
+  // Reverting only moves the active pointer; later versions stay available
+  const handleRevert = (version: number) => {
+    const target = findVersion(versions, version);
+    if (!target) return;
+    setActiveVersion(version);
+    setInfographicData(target.imageData);
+    setResultSpec(target.spec || null);
+    setQualityReport(null);
+    if (currentItemId) {
+      onUpdateHistory(currentItemId, { activeVersion: version, imageData: target.imageData, spec: target.spec, qualityReport: undefined });
+    }
+  };
+
+  const handleConfirmSpec = () => {
+    if (specDraft) reviewResolveRef.current?.(specDraft);
+    reviewResolveRef.current = null;
+    setSpecDraft(null);
+  };
+
+  const handlePickCandidate = (index: number) => {
+    pickResolveRef.current?.({ index, keepRejected });
+    pickResolveRef.current = null;
+  };
+
+  const handleDownload = async () => {
     if (!infographicData) return;
     const filename = `${topic.replace(/\s+/g, '_').toLowerCase()}_infographic.png`;
-    downloadWithMetadata(infographicData, metadata, filename);
+    downloadWithMetadata(await withBrandLogo(infographicData, findBrandKit(resultBrandKitId)), metadata, filename);
   };
 
   return (
@@ -273,6 +455,28 @@ const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory
                   </div>
                 </div>
 
+                <div className="flex items-center justify-between gap-4 px-1">
+                    <label className="flex items-center gap-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={reviewBeforeRender}
+                            onChange={(e) => setReviewBeforeRender(e.target.checked)}
+                            className="w-4 h-4 accent-indigo-500"
+                        />
+                        Review spec before rendering
+                    </label>
+                    <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                        Variants
+                        <select
+                            value={variantCount}
+                            onChange={(e) => setVariantCount(Number(e.target.value))}
+                            className="bg-white dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg py-1.5 px-2 text-[11px] font-bold text-slate-700 dark:text-white outline-none focus:ring-1 ring-indigo-500"
+                        >
+                            {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </label>
+                </div>
+
                 <button
                     onClick={handleGenerate}
                     disabled={loading}
@@ -285,9 +489,18 @@ const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory
 
         {/* Right: Visualization Result */}
         <div className="lg:col-span-7 flex flex-col min-h-[600px]">
-            {loading ? (
+            {loading && candidates.length > 0 ? (
+                <div className="flex-1 flex flex-col glass-panel rounded-[40px] bg-white/80 dark:bg-slate-900/80 border-2 border-dashed border-indigo-500/20">
+                     <CandidateGrid candidates={candidates} accent="indigo" keepRejected={keepRejected} onKeepRejectedChange={setKeepRejected} onPick={handlePickCandidate} onCancel={handleCancel} />
+                </div>
+            ) : loading && specDraft ? (
+                <div className="flex-1 flex flex-col glass-panel rounded-[40px] bg-white/80 dark:bg-slate-900/80 border-2 border-dashed border-indigo-500/20">
+                     <SpecEditor spec={specDraft} accent="indigo" onChange={setSpecDraft} onConfirm={handleConfirmSpec} onCancel={handleCancel} />
+                </div>
+            ) : loading ? (
                 <div className="flex-1 flex flex-col items-center justify-center glass-panel rounded-[40px] bg-white/40 dark:bg-slate-900/40 border-2 border-dashed border-indigo-500/20">
-                     <LoadingState message={loadingStage} type="article" />
+                     <LoadingState message={loadingStage} type="article" events={progressEvents} onCancel={handleCancel} />
+                     <AnalysisStream text={analysisText} accent="indigo" />
                 </div>
             ) : infographicData ? (
                 <div className="flex-1 glass-panel p-8 rounded-[40px] flex flex-col bg-white/80 dark:bg-slate-900/80 border-slate-200 dark:border-white/10 shadow-2xl animate-in zoom-in-95">
@@ -326,6 +539,20 @@ const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory
                             onClick={() => setFullScreenImage({ src: `data:image/png;base64,${infographicData}`, alt: topic })}
                         />
                     </div>
+
+                    {timings.length > 0 && <div className="-mt-4"><TimingSummary timings={timings} /></div>}
+
+                    {qualityReport && (
+                        <div className="mt-8">
+                            <QualityReportCard report={qualityReport} accent="indigo" onRegenerate={resultSpec ? handleFixIssues : undefined} regenerating={loading} />
+                        </div>
+                    )}
+
+                    {resultSpec && (
+                        <div className="mt-8">
+                            <RefinementChat versions={versions} activeVersion={activeVersion} accent="indigo" status={refineStatus} onSend={handleRefine} onRevert={handleRevert} onCancel={handleCancel} />
+                        </div>
+                    )}
                     
                     <div className="mt-8 pt-6 border-t border-slate-100 dark:border-white/5">
                         <MetadataEditor initialData={metadata} onChange={setMetadata} />
@@ -367,6 +594,13 @@ const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory
                         key={item.id}
                         onClick={() => {
                             setInfographicData(item.imageData);
+                            setTimings(item.timings || []);
+                            setResultSpec(item.spec || null);
+                            setResultBrandKitId(item.brandKitId);
+                            setQualityReport(item.qualityReport || null);
+                            setCurrentItemId(item.id);
+                            setRevisions(item.revisions || []);
+                            setActiveVersion(item.activeVersion || 1);
                             setTopic(item.topic);
                             setSelectedSubject(ACADEMIC_SUBJECTS.find(s => s.name === item.subject)?.id || 'biology');
                         }}
@@ -386,11 +620,12 @@ const AcademicStudio: React.FC<AcademicStudioProps> = ({ history, onAddToHistory
       )}
 
       {error && (
-        <div className="p-5 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-3xl flex items-center gap-4 text-sm border border-red-500/20 animate-in slide-in-from-top-4">
-            <AlertCircle className="w-6 h-6 shrink-0" />
-            <div className="flex-1 font-medium leading-relaxed">{error}</div>
-            <button onClick={() => setError(null)} className="p-2 hover:bg-black/5 rounded-full"><X className="w-5 h-5" /></button>
-        </div>
+        <ErrorNotice 
+            error={error} 
+            onDismiss={() => setError(null)} 
+            onRetry={() => handleGenerate()} 
+            onSelectKey={onShowKeyModal} 
+        />
       )}
     </div>
   );
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useRef } from 'react';
+import { FileText } from 'lucide-react';
+
+interface AnalysisStreamProps {
+  text: string;
+  accent: 'emerald' | 'indigo';
+}
+
+const ACCENTS = {
+  emerald: { text: 'text-emerald-500', cursor: 'bg-emerald-500', border: 'border-emerald-500/20' },
+  indigo: { text: 'text-indigo-500', cursor: 'bg-indigo-600', border: 'border-indigo-500/20' }
+};
+
+/** Live view of the analysis response while it streams in. */
+const AnalysisStream: React.FC<AnalysisStreamProps> = ({ text, accent }) => {
+  const theme = ACCENTS[accent];
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the newest streamed text in view
+  useEffect(() => {
+    if (scrollRef.current) scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+  }, [text]);
+
+  if (!text) return null;
+  return (
+    <div className={`w-full max-w-md mx-auto -mt-8 mb-8 bg-slate-950/80 rounded-xl border ${theme.border} p-4 font-mono text-xs shadow-2xl`}>
+      <div className="flex items-center gap-2 mb-2 text-[10px] text-slate-500 uppercase tracking-wider">
+        <FileText className={`w-3 h-3 ${theme.text}`} /> analysis_stream
+      </div>
+      <div ref={scrollRef} className="max-h-40 overflow-y-auto text-slate-300 whitespace-pre-wrap break-words leading-relaxed">
+        {text}<span className={`inline-block w-1.5 h-3 ml-0.5 align-middle animate-pulse ${theme.cursor}`} />
+      </div>
+    </div>
+  );
+};
+
+export default AnalysisStream;
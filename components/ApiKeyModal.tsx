@@ -85,6 +85,9 @@ const ApiKeyModal: React.FC<ApiKeyModalProps> = ({ onKeySelected, onCancel, canC
                 <p className="text-[11px] text-slate-500 leading-tight">
                     Your API key is <strong className="text-slate-300">never stored</strong> on our servers. It is strictly injected into your local browser session via the AI Studio bridge.
                 </p>
+                <p className="text-[11px] text-slate-500 leading-tight">
+                    Without a key of your own, pick <strong className="text-slate-300">Gemini (Server Key)</strong> under Model Preferences to generate through this deployment's server.
+                </p>
             </div>
           </div>
 
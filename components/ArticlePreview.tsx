@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Newspaper, User, Calendar, ChevronDown, ChevronUp, ExternalLink, X } from 'lucide-react';
+import { ExtractedArticle } from '../types';
+
+interface ArticlePreviewProps {
+  article: ExtractedArticle;
+  onDiscard: () => void;
+}
+
+const EXCERPT_LENGTH = 320;
+
+const formatDate = (value: string) => {
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : date.toLocaleDateString([], { year: 'numeric', month: 'short', day: 'numeric' });
+};
+
+/** What was extracted from a fetched page, shown before anything is sent to the model. */
+const ArticlePreview: React.FC<ArticlePreviewProps> = ({ article, onDiscard }) => {
+  const [expanded, setExpanded] = useState(false);
+  const [imageFailed, setImageFailed] = useState(false);
+  const excerpt = article.text.length > EXCERPT_LENGTH ? `${article.text.slice(0, EXCERPT_LENGTH).trimEnd()}…` : article.text;
+
+  return (
+    <div className="rounded-2xl border border-emerald-500/20 bg-emerald-500/5 overflow-hidden animate-in fade-in slide-in-from-top-2 duration-300">
+      {article.image && !imageFailed && (
+        <img src={article.image} alt="" onError={() => setImageFailed(true)} className="w-full h-32 object-cover border-b border-emerald-500/10" />
+      )}
+      <div className="p-4 space-y-3">
+        <div className="flex items-start justify-between gap-3">
+          <div className="space-y-1 min-w-0">
+            <span className="flex items-center gap-1.5 text-[10px] font-bold text-emerald-600 uppercase tracking-widest">
+              <Newspaper className="w-3.5 h-3.5" /> {article.siteName || new URL(article.url).hostname}
+            </span>
+            <h4 className="text-sm font-bold text-slate-900 dark:text-white leading-snug">{article.title}</h4>
+          </div>
+          <button onClick={onDiscard} className="p-1 text-slate-400 hover:text-red-500 shrink-0" title="Discard preview"><X className="w-4 h-4" /></button>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-[10px] font-mono text-slate-500 uppercase tracking-wider">
+          {article.author && <span className="flex items-center gap-1"><User className="w-3 h-3" /> {article.author}</span>}
+          {article.publishedAt && <span className="flex items-center gap-1"><Calendar className="w-3 h-3" /> {formatDate(article.publishedAt)}</span>}
+          <span>{article.wordCount.toLocaleString()} words</span>
+          <a href={article.url} target="_blank" rel="noopener noreferrer" className="flex items-center gap-1 hover:text-emerald-500"><ExternalLink className="w-3 h-3" /> Open</a>
+        </div>
+
+        <p className="text-xs text-slate-600 dark:text-slate-400 leading-relaxed whitespace-pre-line max-h-64 overflow-y-auto">{expanded ? article.text : excerpt}</p>
+
+        {article.text.length > EXCERPT_LENGTH && (
+          <button
+            onClick={() => setExpanded(!expanded)}
+            className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-emerald-500 transition-colors"
+          >
+            {expanded ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />} {expanded ? 'Show less' : 'Show extracted text'}
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ArticlePreview;
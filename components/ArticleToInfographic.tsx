@@ -4,10 +4,17 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useRef, useEffect } from 'react';
-import { generateArticleInfographic, improvePrompt, extractImageMetadata } from '../services/geminiService';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import { generateArticleInfographic, improvePrompt, extractImageMetadata, verifyInfographic, refineInfographic, MAX_VARIANTS, RenderRevision } from '../services/geminiService';
 import { downloadWithMetadata } from '../services/imageService';
-import { Citation, ArticleHistoryItem, ImageMetadata, GeminiModel } from '../types';
+import { findBrandKit, withBrandLogo } from '../services/brandKits';
+import { fetchArticle, normalizeArticleUrl } from '../services/articleService';
+import { articleToSource } from '../services/articleExtractor';
+import { DIRECT_ANALYSIS_LIMIT, splitIntoChunks } from '../services/chunking';
+import { appendRevision, findVersion, versionsOf } from '../services/revisions';
+import { ServiceError, classifyGeminiError, isCancellation, raceAbort } from '../services/errors';
+import { AnalysisHooks, summarizeTimings } from '../services/progress';
+import { Citation, ArticleHistoryItem, ExtractedArticle, ImageMetadata, GeminiModel, ImageSettings, InfographicRevision, InfographicSpec, ProgressEvent, QualityReport, SourceCoverage, StageTiming, BrandKit } from '../types';
 import { 
   Link, 
   Loader2, 
@@ -42,18 +49,30 @@ import {
   Cpu,
   Eye,
   FileImage,
-  History
+  History,
+  Search
 } from 'lucide-react';
-import { LoadingState } from './LoadingState';
+import { LoadingState, TimingSummary } from './LoadingState';
+import AnalysisStream from './AnalysisStream';
+import SpecEditor from './SpecEditor';
+import CandidateGrid from './CandidateGrid';
+import QualityReportCard from './QualityReportCard';
+import ArticlePreview from './ArticlePreview';
+import SourceSections, { CoverageSummary } from './SourceSections';
+import RefinementChat from './RefinementChat';
 import ImageViewer from './ImageViewer';
 import MetadataEditor from './MetadataEditor';
+import ErrorNotice from './ErrorNotice';
 
 interface ArticleToInfographicProps {
     history: ArticleHistoryItem[];
     onAddToHistory: (item: ArticleHistoryItem) => void;
+    onUpdateHistory: (id: string, changes: Partial<ArticleHistoryItem>) => void;
     hasApiKey: boolean;
     onShowKeyModal: () => void;
     model: GeminiModel;
+    imageSettings: ImageSettings;
+    brandKit: BrandKit | null;
 }
 
 const SKETCH_STYLES = [
@@ -94,24 +113,51 @@ const LANGUAGES = [
   { label: "Chinese (China)", value: "Chinese" },
 ];
 
-const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, onAddToHistory, hasApiKey, onShowKeyModal, model }) => {
+const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, onAddToHistory, onUpdateHistory, hasApiKey, onShowKeyModal, model, imageSettings, brandKit }) => {
   const [inputMode, setInputMode] = useState<'url' | 'text'>('url');
   const [contentType, setContentType] = useState<'article' | 'product'>('article');
   
   const [urlInput, setUrlInput] = useState('');
   const [textInput, setTextInput] = useState('');
   const [activeInputFocus, setActiveInputFocus] = useState(false);
+  // The page fetched for `fetchedFor`; it goes stale as soon as the URL is edited
+  const [article, setArticle] = useState<ExtractedArticle | null>(null);
+  const [fetchedFor, setFetchedFor] = useState('');
+  const [fetchingArticle, setFetchingArticle] = useState(false);
+  const [fetchFailedFor, setFetchFailedFor] = useState('');
   
   const [selectedStyle, setSelectedStyle] = useState(SKETCH_STYLES[0]);
   const [selectedLanguage, setSelectedLanguage] = useState(LANGUAGES[0].value);
   const [selectedRatio, setSelectedRatio] = useState(ASPECT_RATIOS[0].value);
   const [customStyle, setCustomStyle] = useState('');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ServiceError | string | null>(null);
   const [loadingStage, setLoadingStage] = useState<string>('');
+  const [progressEvents, setProgressEvents] = useState<ProgressEvent[]>([]);
+  const [timings, setTimings] = useState<StageTiming[]>([]);
+  const [reviewBeforeRender, setReviewBeforeRender] = useState(true);
+  const [analysisText, setAnalysisText] = useState('');
+  const [specDraft, setSpecDraft] = useState<InfographicSpec | null>(null);
+  const reviewResolveRef = useRef<((spec: InfographicSpec) => void) | null>(null);
+  const [variantCount, setVariantCount] = useState(1);
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [keepRejected, setKeepRejected] = useState(false);
+  const pickResolveRef = useRef<((pick: { index: number; keepRejected: boolean }) => void) | null>(null);
   
   const [infographicData, setInfographicData] = useState<string | null>(null);
   const [citations, setCitations] = useState<Citation[]>([]);
+  const [resultSpec, setResultSpec] = useState<InfographicSpec | null>(null);
+  // The text the current result was analysed from; refinements are checked against it too
+  const [sourceText, setSourceText] = useState('');
+  // The kit the current result was rendered for, so switching kits later does not change its logo
+  const [resultBrandKitId, setResultBrandKitId] = useState<string | undefined>();
+  const [qualityReport, setQualityReport] = useState<QualityReport | null>(null);
+  const [coverage, setCoverage] = useState<SourceCoverage | null>(null);
+  const [pinnedSections, setPinnedSections] = useState<number[]>([]);
+  const [currentItemId, setCurrentItemId] = useState<string | null>(null);
+  const [revisions, setRevisions] = useState<InfographicRevision[]>([]);
+  const [activeVersion, setActiveVersion] = useState(1);
+  const [refineStatus, setRefineStatus] = useState('');
   
   const [referenceImage, setReferenceImage] = useState<{ data: string, mimeType: string } | null>(null);
 
@@ -125,6 +171,10 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
   });
 
   const [fullScreenImage, setFullScreenImage] = useState<{src: string, alt: string} | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Abort any in-flight generation when leaving the studio
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Load Draft on Mount
   useEffect(() => {
@@ -140,6 +190,9 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
         if (parsed.selectedLanguage !== undefined) setSelectedLanguage(parsed.selectedLanguage);
         if (parsed.selectedRatio !== undefined) setSelectedRatio(parsed.selectedRatio);
         if (parsed.customStyle !== undefined) setCustomStyle(parsed.customStyle);
+        if (parsed.reviewBeforeRender !== undefined) setReviewBeforeRender(parsed.reviewBeforeRender);
+        if (parsed.variantCount !== undefined) setVariantCount(parsed.variantCount);
+        if (parsed.keepRejected !== undefined) setKeepRejected(parsed.keepRejected);
       } catch (e) { console.error("Failed to load draft", e); }
     }
   }, []);
@@ -154,27 +207,68 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
       selectedStyle,
       selectedLanguage,
       selectedRatio,
-      customStyle
+      customStyle,
+      reviewBeforeRender,
+      variantCount,
+      keepRejected
     };
     localStorage.setItem('l2i_article_draft', JSON.stringify(draft));
-  }, [urlInput, textInput, inputMode, contentType, selectedStyle, selectedLanguage, selectedRatio, customStyle]);
+  }, [urlInput, textInput, inputMode, contentType, selectedStyle, selectedLanguage, selectedRatio, customStyle, reviewBeforeRender, variantCount, keepRejected]);
 
   const handleError = (err: any) => {
     console.error(err);
-    const errorMessage = typeof err === 'string' ? err : (err.message || JSON.stringify(err));
-    
-    if (errorMessage.includes("Requested entity was not found") || 
-        errorMessage.includes("403") || 
-        errorMessage.includes("PERMISSION_DENIED") ||
-        errorMessage.includes("permission")) {
-        
-        setError("Access Denied: Your API key requires a paid Google Cloud project with billing enabled to use Gemini 3.");
-        onShowKeyModal();
-    } else if (errorMessage.includes("safety")) {
-        setError("The content was flagged by safety filters. Please try different content.");
-    } else {
-        setError('An unexpected error occurred. Please check the content and try again.');
+    const serviceError = classifyGeminiError(err);
+    setError(serviceError);
+    if (serviceError.kind === 'auth' && serviceError.source === 'gemini') onShowKeyModal();
+  };
+
+  const currentUrl = urlInput.trim() ? normalizeArticleUrl(urlInput) : '';
+  const previewReady = inputMode === 'url' && !!article && fetchedFor === currentUrl;
+  // After a failed fetch the user may fall back to search grounding on the bare URL
+  const canUseSearch = inputMode === 'url' && !!currentUrl && fetchFailedFor === currentUrl;
+
+  const handleFetchPreview = async () => {
+    setError(null);
+    if (!currentUrl) {
+      setError('Please enter a valid URL.');
+      return;
     }
+    setArticle(null);
+    setFetchFailedFor('');
+    setFetchingArticle(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      const fetched = await fetchArticle(currentUrl, controller.signal);
+      setArticle(fetched);
+      setFetchedFor(currentUrl);
+    } catch (err: any) {
+      if (!isCancellation(err)) {
+        setFetchFailedFor(currentUrl);
+        handleError(err);
+      }
+    } finally {
+      abortRef.current = null;
+      setFetchingArticle(false);
+    }
+  };
+
+  // Long pasted or fetched sources are summarised in chunks; the user can pin the ones that must appear
+  const analysisSource = inputMode === 'text' ? textInput.trim() : previewReady && article ? articleToSource(article) : '';
+  const sourceChunks = useMemo(
+    () => analysisSource.length > DIRECT_ANALYSIS_LIMIT ? splitIntoChunks(analysisSource) : [],
+    [analysisSource]
+  );
+
+  // Pins are chunk indices, so they only hold for the source they were set on
+  useEffect(() => setPinnedSections([]), [analysisSource]);
+
+  const togglePin = (index: number) =>
+    setPinnedSections(prev => prev.includes(index) ? prev.filter(i => i !== index) : [...prev, index]);
+
+  const handleDiscardPreview = () => {
+    setArticle(null);
+    setFetchedFor('');
   };
 
   const handlePaste = async () => {
@@ -192,8 +286,9 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
       else setTextInput('');
   };
 
-  const handleGenerate = async (e: React.FormEvent) => {
-    e.preventDefault();
+  // A revision re-renders the current spec with corrections instead of analysing the source again
+  const handleGenerate = async (e?: React.FormEvent, revision?: RenderRevision) => {
+    if (e) e.preventDefault();
     setError(null);
 
     if (!hasApiKey) {
@@ -201,10 +296,16 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
         return;
     }
 
+    const previousResult = { imageData: infographicData, citations, qualityReport, coverage };
     setInfographicData(null);
     setCitations([]);
+    setQualityReport(null);
+    setCoverage(null);
 
-    const content = inputMode === 'url' ? urlInput.trim() : textInput.trim();
+    // A previewed page is analysed as text; a bare URL only reaches the model through search grounding
+    const fetched = previewReady ? article : null;
+    const content = fetched ? articleToSource(fetched) : inputMode === 'url' ? urlInput.trim() : textInput.trim();
+    const sourceMode = fetched ? 'text' : inputMode;
 
     if (!content) {
       setError(inputMode === 'url' ? 'Please enter a valid URL.' : 'Please enter the content text.');
@@ -213,7 +314,9 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
 
     // Safe title extraction
     let titleFromInput = content.slice(0, 30) + '...';
-    if (inputMode === 'url') {
+    if (fetched) {
+        titleFromInput = fetched.title;
+    } else if (inputMode === 'url') {
         try {
             titleFromInput = new URL(content).hostname;
         } catch (e) {
@@ -228,40 +331,100 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
 
     setLoading(true);
     setLoadingStage('ANALYZING SOURCE CONTENT');
+    setProgressEvents([]);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const events: ProgressEvent[] = [];
+    const onProgress = (event: ProgressEvent) => {
+      events.push(event);
+      setProgressEvents([...events]);
+      if (event.type === 'stage_start') setLoadingStage(event.label);
+      if (event.type === 'stage_start' && event.stage === 'render') setAnalysisText('');
+    };
+    setAnalysisText('');
+    const hooks: AnalysisHooks = {
+      onAnalysisText: setAnalysisText,
+      // The pipeline waits here until the user confirms (or cancels) the spec
+      reviewSpec: reviewBeforeRender
+        ? (draft) => new Promise<InfographicSpec>(resolve => {
+            setSpecDraft(draft);
+            reviewResolveRef.current = resolve;
+          })
+        : undefined
+    };
     
     try {
       const styleToUse = selectedStyle === 'Custom' ? customStyle : selectedStyle;
       
       const result = await generateArticleInfographic(
           content, 
-          inputMode,
+          sourceMode,
           contentType,
           styleToUse, 
-          (stage) => setLoadingStage(stage),
+          onProgress,
           selectedLanguage,
           referenceImage,
           selectedRatio,
-          model
+          model,
+          controller.signal,
+          hooks,
+          revision ? 1 : variantCount,
+          imageSettings,
+          revision,
+          pinnedSections,
+          brandKit
       );
 
       if (result.imageData) {
-        setInfographicData(result.imageData);
-        setCitations(result.citations);
+        // With several candidates the run waits here for the user to pick a winner
+        const pick = result.candidates.length > 1
+          ? await raceAbort(new Promise<{ index: number; keepRejected: boolean }>(resolve => {
+              setCandidates(result.candidates);
+              pickResolveRef.current = resolve;
+            }), controller.signal)
+          : { index: 0, keepRejected: false };
+        setCandidates([]);
+        const imageData = result.candidates[pick.index];
+        const rejectedVariants = pick.keepRejected ? result.candidates.filter((_, i) => i !== pick.index) : undefined;
+        const aiMeta = await extractImageMetadata(imageData, 'image/png', `Article: ${titleFromInput}`, 'gemini-3-flash-preview', controller.signal, onProgress);
+        const report = await verifyInfographic(imageData, result.spec, content, 'gemini-3-flash-preview', controller.signal, onProgress);
+
+        // Only a run that made it through every stage reaches the history
+        const runTimings = summarizeTimings(events);
+        const runCitations = revision
+          ? previousResult.citations
+          : fetched ? [{ uri: fetched.url, title: fetched.title }, ...result.citations] : result.citations;
+        const runCoverage = revision ? previousResult.coverage : result.coverage ?? null;
+        const itemId = Date.now().toString();
+        setCurrentItemId(itemId);
+        setRevisions([]);
+        setActiveVersion(1);
+        setInfographicData(imageData);
+        setCitations(runCitations);
+        setCoverage(runCoverage);
+        setTimings(runTimings);
+        setResultSpec(result.spec);
+        setSourceText(content);
+        setResultBrandKitId(brandKit?.id);
+        setQualityReport(report);
         
         onAddToHistory({
-            id: Date.now().toString(),
+            id: itemId,
             title: titleFromInput,
-            url: inputMode === 'url' ? content : 'Manual Text',
-            imageData: result.imageData,
-            citations: result.citations,
-            date: new Date()
+            url: fetched ? fetched.url : inputMode === 'url' ? content : 'Manual Text',
+            imageData,
+            citations: runCitations,
+            date: new Date(),
+            timings: runTimings,
+            spec: result.spec,
+            rejectedVariants,
+            qualityReport: report ?? undefined,
+            coverage: runCoverage ?? undefined,
+            brandKitId: brandKit?.id
         });
 
-        setLoadingStage('SUMMARIZING VISUAL CONTENT');
-        const aiMeta = await extractImageMetadata(result.imageData, 'image/png', `Article: ${titleFromInput}`, 'gemini-3-flash-preview');
-
         setMetadata({
-            title: aiMeta.title || `${titleFromInput} - Visual Summary`,
+            title: aiMeta.title || result.spec.title || `${titleFromInput} - Visual Summary`,
             author: 'Link2Infographic AI',
             description: aiMeta.description || `${contentType === 'article' ? 'Article' : 'Product'} summary infographic generated in ${selectedStyle} style.`,
             keywords: aiMeta.keywords || `infographic, summary, ${contentType}, ${selectedStyle.toLowerCase()}`,
@@ -272,18 +435,100 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
         throw new Error('Image generation failed.');
       }
     } catch (err: any) {
-        handleError(err);
+        if (isCancellation(err)) {
+            setInfographicData(previousResult.imageData);
+            setCitations(previousResult.citations);
+            setQualityReport(previousResult.qualityReport);
+            setCoverage(previousResult.coverage);
+        } else {
+            handleError(err);
+        }
     } finally {
+      abortRef.current = null;
+      reviewResolveRef.current = null;
+      pickResolveRef.current = null;
+      setSpecDraft(null);
+      setCandidates([]);
+      setAnalysisText('');
       setLoading(false);
       setLoadingStage('');
     }
   };
 
-  const handleDownload = () => {
+  const handleCancel = () => abortRef.current?.abort();
+
+  const handleFixIssues = () => {
+    if (resultSpec && qualityReport) handleGenerate(undefined, { spec: resultSpec, corrections: qualityReport.issues });
+  };
+
+  const versions = infographicData ? versionsOf(infographicData, resultSpec, revisions) : [];
+
+  // Each refinement renders a new numbered version from the active one, then re-checks its text
+  const handleRefine = async (instruction: string) => {
+    if (!infographicData || !resultSpec) return;
+    setError(null);
+    if (!hasApiKey) {
+        onShowKeyModal();
+        return;
+    }
+    const basedOn = activeVersion;
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setRefineStatus('APPLYING CHANGE REQUEST');
+    const onProgress = (event: ProgressEvent) => {
+      if (event.type === 'stage_start') setRefineStatus(event.label);
+    };
+    try {
+      const refined = await refineInfographic(infographicData, resultSpec, instruction, selectedStyle === 'Custom' ? customStyle : selectedStyle, selectedLanguage, model, controller.signal, onProgress, imageSettings, undefined, brandKit);
+      const report = await verifyInfographic(refined.imageData, refined.spec, sourceText, 'gemini-3-flash-preview', controller.signal, onProgress);
+      const next = appendRevision(versions, refined.imageData, refined.spec, instruction, basedOn);
+      const version = next[next.length - 1].version;
+      setRevisions(next);
+      setActiveVersion(version);
+      setInfographicData(refined.imageData);
+      setResultSpec(refined.spec);
+      setResultBrandKitId(brandKit?.id);
+      setQualityReport(report);
+      if (currentItemId) {
+        onUpdateHistory(currentItemId, { revisions: next, activeVersion: version, imageData: refined.imageData, spec: refined.spec, qualityReport: report ?? undefined, brandKitId: brandKit?.id });
+      }
+    } catch (err: any) {
+      if (!isCancellation(err)) handleError(err);
+    } finally {
+      abortRef.current = null;
+      setRefineStatus('');
+    }
+  };
+
+  // Reverting only moves the active pointer; later versions stay available
+  const handleRevert = (version: number) => {
+    const target = findVersion(versions, version);
+    if (!target) return;
+    setActiveVersion(version);
+    setInfographicData(target.imageData);
+    setResultSpec(target.spec || null);
+    setQualityReport(null);
+    if (currentItemId) {
+      onUpdateHistory(currentItemId, { activeVersion: version, imageData: target.imageData, spec: target.spec, qualityReport: undefined });
+    }
+  };
+
+  const handleConfirmSpec = () => {
+    if (specDraft) reviewResolveRef.current?.(specDraft);
+    reviewResolveRef.current = null;
+    setSpecDraft(null);
+  };
+
+  const handlePickCandidate = (index: number) => {
+    pickResolveRef.current?.({ index, keepRejected });
+    pickResolveRef.current = null;
+  };
+
+  const handleDownload = async () => {
     if (!infographicData) return;
     const safeTitle = (metadata.title || 'infographic').replace(/[^a-z0-9]/gi, '_').toLowerCase();
     const filename = `${safeTitle}.png`;
-    downloadWithMetadata(infographicData, metadata, filename);
+    downloadWithMetadata(await withBrandLogo(infographicData, findBrandKit(resultBrandKitId)), metadata, filename);
   };
 
   const handleSimpleDownload = () => {
@@ -300,6 +545,16 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
   const handleLoadFromHistory = (item: ArticleHistoryItem) => {
     setInfographicData(item.imageData);
     setCitations(item.citations);
+    setTimings(item.timings || []);
+    setResultSpec(item.spec || null);
+    // History keeps the spec but not the article text, so later refinements are checked against the spec alone
+    setSourceText('');
+    setResultBrandKitId(item.brandKitId);
+    setQualityReport(item.qualityReport || null);
+    setCoverage(item.coverage || null);
+    setCurrentItemId(item.id);
+    setRevisions(item.revisions || []);
+    setActiveVersion(item.activeVersion || 1);
     setMetadata(prev => ({
       ...prev,
       title: item.title,
@@ -407,6 +662,17 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
                             )}
                         </div>
                     </div>
+                    {previewReady && article && <ArticlePreview article={article} onDiscard={handleDiscardPreview} />}
+                    {canUseSearch && (
+                        <button
+                            onClick={() => handleGenerate()}
+                            disabled={loading}
+                            className="flex items-center gap-2 ml-1 text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-emerald-500 transition-colors disabled:opacity-50"
+                        >
+                            <Search className="w-3.5 h-3.5" /> Let search grounding find the page instead
+                        </button>
+                    )}
+                    {sourceChunks.length > 0 && <SourceSections chunks={sourceChunks} pinned={pinnedSections} onTogglePin={togglePin} />}
                 </div>
 
                 {/* Visual Style & Config */}
@@ -459,21 +725,54 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
                     </div>
                 </div>
 
+                <div className="flex items-center justify-between gap-4 px-1">
+                    <label className="flex items-center gap-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest cursor-pointer select-none">
+                        <input
+                            type="checkbox"
+                            checked={reviewBeforeRender}
+                            onChange={(e) => setReviewBeforeRender(e.target.checked)}
+                            className="w-4 h-4 accent-emerald-500"
+                        />
+                        Review spec before rendering
+                    </label>
+                    <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                        Variants
+                        <select
+                            value={variantCount}
+                            onChange={(e) => setVariantCount(Number(e.target.value))}
+                            className="bg-white dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg py-1.5 px-2 text-[11px] font-bold text-slate-700 dark:text-white outline-none focus:ring-1 ring-emerald-500"
+                        >
+                            {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                        </select>
+                    </label>
+                </div>
+
                 <button
-                    onClick={handleGenerate}
-                    disabled={loading}
+                    onClick={inputMode === 'url' && !previewReady ? handleFetchPreview : () => handleGenerate()}
+                    disabled={loading || fetchingArticle}
                     className="w-full py-6 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-[24px] font-bold flex items-center justify-center gap-3 shadow-xl disabled:opacity-50 transition-all hover:scale-[1.01] active:scale-[0.98] group"
                 >
-                    {loading ? <Loader2 className="w-6 h-6 animate-spin" /> : <>GENERATE INFOGRAPHIC <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" /></>}
+                    {loading || fetchingArticle
+                      ? <Loader2 className="w-6 h-6 animate-spin" />
+                      : <>{inputMode === 'url' && !previewReady ? 'FETCH & PREVIEW' : 'GENERATE INFOGRAPHIC'} <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" /></>}
                 </button>
             </div>
         </div>
 
         {/* Right: Output Pane */}
         <div className="lg:col-span-7 flex flex-col min-h-[600px]">
-            {loading ? (
+            {loading && candidates.length > 0 ? (
+                <div className="flex-1 flex flex-col glass-panel rounded-[40px] bg-white/80 dark:bg-slate-900/80 border-2 border-dashed border-emerald-500/20">
+                     <CandidateGrid candidates={candidates} accent="emerald" keepRejected={keepRejected} onKeepRejectedChange={setKeepRejected} onPick={handlePickCandidate} onCancel={handleCancel} />
+                </div>
+            ) : loading && specDraft ? (
+                <div className="flex-1 flex flex-col glass-panel rounded-[40px] bg-white/80 dark:bg-slate-900/80 border-2 border-dashed border-emerald-500/20">
+                     <SpecEditor spec={specDraft} accent="emerald" onChange={setSpecDraft} onConfirm={handleConfirmSpec} onCancel={handleCancel} />
+                </div>
+            ) : loading ? (
                 <div className="flex-1 flex flex-col items-center justify-center glass-panel rounded-[40px] bg-white/40 dark:bg-slate-900/40 border-2 border-dashed border-emerald-500/20">
-                     <LoadingState message={loadingStage} type="article" />
+                     <LoadingState message={loadingStage} type="article" events={progressEvents} onCancel={handleCancel} />
+                     <AnalysisStream text={analysisText} accent="emerald" />
                 </div>
             ) : infographicData ? (
                 <div className="flex-1 glass-panel p-8 rounded-[40px] flex flex-col bg-white/80 dark:bg-slate-900/80 border-slate-200 dark:border-white/10 shadow-2xl animate-in zoom-in-95">
@@ -519,6 +818,22 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
                         />
                     </div>
 
+                    {timings.length > 0 && <div className="-mt-4 mb-8"><TimingSummary timings={timings} /></div>}
+
+                    {coverage && <div className="mb-8"><CoverageSummary coverage={coverage} /></div>}
+
+                    {qualityReport && (
+                        <div className="mb-8">
+                            <QualityReportCard report={qualityReport} accent="emerald" onRegenerate={resultSpec ? handleFixIssues : undefined} regenerating={loading} />
+                        </div>
+                    )}
+
+                    {resultSpec && (
+                        <div className="mb-8">
+                            <RefinementChat versions={versions} activeVersion={activeVersion} accent="emerald" status={refineStatus} onSend={handleRefine} onRevert={handleRevert} onCancel={handleCancel} />
+                        </div>
+                    )}
+
                     {citations.length > 0 && (
                         <div className="bg-emerald-500/5 rounded-3xl p-6 border border-emerald-500/10">
                             <h4 className="text-[10px] font-bold text-emerald-600 uppercase tracking-widest mb-4 flex items-center gap-2"><BookOpen className="w-4 h-4" /> Grounding Sources</h4>
@@ -615,11 +930,12 @@ const ArticleToInfographic: React.FC<ArticleToInfographicProps> = ({ history, on
       )}
 
       {error && (
-        <div className="p-5 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-3xl flex items-center gap-4 text-sm border border-red-500/20 animate-in slide-in-from-top-4">
-            <AlertCircle className="w-6 h-6 shrink-0" />
-            <div className="flex-1 font-medium leading-relaxed">{error}</div>
-            <button onClick={() => setError(null)} className="p-2 hover:bg-black/5 rounded-full"><X className="w-5 h-5" /></button>
-        </div>
+        <ErrorNotice 
+            error={error} 
+            onDismiss={() => setError(null)} 
+            onRetry={() => handleGenerate()} 
+            onSelectKey={onShowKeyModal} 
+        />
       )}
     </div>
   );
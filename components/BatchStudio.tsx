@@ -0,0 +1,402 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  ListChecks, Upload, Play, Pause, RotateCcw, Download, Trash2, X, Loader2, CheckCircle2, AlertCircle, Clock,
+  Globe, AlignLeft, GitBranch, ChevronDown, Plus
+} from 'lucide-react';
+import { BatchJob, BatchJobKind, BrandKit, GeminiModel, ImageSettings, ProgressEvent } from '../types';
+import { BATCH_RATIOS, BatchDefaults, BatchImport, parseBatchList } from '../services/batchImport';
+import { BatchSettings, deleteBatchJobs, loadBatchJobs, loadBatchSettings, saveBatchJobs, saveBatchSettings, updateBatchJob } from '../services/batchStore';
+import { MAX_BATCH_ATTEMPTS, MAX_BATCH_CONCURRENCY, buildBatchArchive, nextRetryAt, runBatchJob } from '../services/batchQueue';
+import { ServiceError, classifyGeminiError, describeError, isCancellation } from '../services/errors';
+
+interface BatchStudioProps {
+  hasApiKey: boolean;
+  onShowKeyModal: () => void;
+  models: Record<BatchJobKind, GeminiModel>;
+  imageSettings: Record<BatchJobKind, ImageSettings>;
+  brandKit: BrandKit | null;
+}
+
+const ARTICLE_STYLES = ["Modern Editorial", "Fun & Playful", "Clean Minimalist", "Dark Mode Tech", "Human-like Hand-Drawn", "Natural & Organic", "E-commerce Showcase", "Tech Spec Grid"];
+
+const REPO_STYLES = ["Modern Data Flow", "Hand-Drawn Blueprint", "Corporate Minimal", "Neon Cyberpunk"];
+
+const LANGUAGES = ["English", "Arabic", "German", "Spanish", "French", "Hindi", "Indonesian", "Italian", "Japanese", "Korean", "Portuguese", "Romanian"];
+
+const SAMPLE_CSV = `input,kind,style,language,ratio
+https://example.com/blog/launch-notes,,Clean Minimalist,,
+facebook/react,repo,Neon Cyberpunk,,16:9
+"Paste a whole article here; quote it if it has commas or line breaks.",text,,French,1:1`;
+
+const STATUS_STYLES: Record<BatchJob['status'], string> = {
+  queued: 'text-slate-400 bg-slate-500/10',
+  running: 'text-cyan-500 bg-cyan-500/10',
+  done: 'text-emerald-500 bg-emerald-500/10',
+  failed: 'text-red-500 bg-red-500/10'
+};
+
+const selectClass = "w-full appearance-none bg-white dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-3 py-2.5 text-xs text-slate-700 dark:text-slate-200 outline-none focus:ring-1 ring-cyan-500";
+
+const KindIcon: React.FC<{ job: BatchJob }> = ({ job }) =>
+  job.kind === 'repo' ? <GitBranch className="w-4 h-4" /> : job.sourceMode === 'url' ? <Globe className="w-4 h-4" /> : <AlignLeft className="w-4 h-4" />;
+
+/**
+ * Imports a list of article URLs, texts and repositories and renders them
+ * unattended. The queue is stored in IndexedDB, so it survives reloads and
+ * resumes where it stopped.
+ */
+const BatchStudio: React.FC<BatchStudioProps> = ({ hasApiKey, onShowKeyModal, models, imageSettings, brandKit }) => {
+  const [jobs, setJobs] = useState<BatchJob[]>([]);
+  const [loaded, setLoaded] = useState(false);
+  const [settings, setSettings] = useState<BatchSettings>(loadBatchSettings);
+  const [importText, setImportText] = useState('');
+  const [defaults, setDefaults] = useState<BatchDefaults>({ articleStyle: ARTICLE_STYLES[0], repoStyle: REPO_STYLES[0], language: 'English', aspectRatio: 'auto' });
+  const [importReport, setImportReport] = useState<{ added: number; skipped: BatchImport['skipped'] } | null>(null);
+  const [stageLabels, setStageLabels] = useState<Record<string, string>>({});
+  const [exporting, setExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const controllers = useRef(new Map<string, AbortController>());
+
+  // Restore the queue; jobs that were mid-run when the page closed go back in line
+  useEffect(() => {
+    loadBatchJobs().then(stored => {
+      const interrupted = stored.filter(j => j.status === 'running');
+      const restored = stored.map(j => j.status === 'running' ? { ...j, status: 'queued' as const, attempts: Math.max(0, j.attempts - 1) } : j);
+      setJobs(restored);
+      setLoaded(true);
+      if (interrupted.length) saveBatchJobs(restored.filter(j => interrupted.some(i => i.id === j.id))).catch(err => console.error("Failed to save batch jobs", err));
+    }).catch(err => {
+      console.error("Failed to load batch queue", err);
+      setError('The saved queue could not be loaded. Private browsing may block IndexedDB.');
+      setLoaded(true);
+    });
+    return () => controllers.current.forEach(c => c.abort());
+  }, []);
+
+  useEffect(() => {
+    saveBatchSettings(settings);
+  }, [settings]);
+
+  const patchJob = (id: string, changes: Partial<BatchJob>) => {
+    setJobs(prev => prev.map(j => j.id === id ? { ...j, ...changes } : j));
+    updateBatchJob(id, changes).catch(err => console.error("Failed to save batch job", err));
+  };
+
+  const pause = () => {
+    setSettings(prev => ({ ...prev, running: false }));
+    controllers.current.forEach(c => c.abort());
+  };
+
+  const startJob = (job: BatchJob) => {
+    const controller = new AbortController();
+    controllers.current.set(job.id, controller);
+    const attempts = job.attempts + 1;
+    patchJob(job.id, { status: 'running', attempts, retryAt: undefined, error: undefined });
+    const onProgress = (event: ProgressEvent) => {
+      if (event.type === 'stage_start') setStageLabels(prev => ({ ...prev, [job.id]: event.label }));
+    };
+
+    runBatchJob({ ...job, attempts }, { models, imageSettings, brandKit, signal: controller.signal, onProgress })
+      .then(result => patchJob(job.id, { ...result, status: 'done', finishedAt: new Date().toISOString() }))
+      .catch(err => {
+        // Pausing or removing a job aborts it; that attempt does not count
+        if (isCancellation(err)) {
+          patchJob(job.id, { status: 'queued', attempts: job.attempts });
+          return;
+        }
+        const serviceError = err instanceof ServiceError ? err : classifyGeminiError(err);
+        if (serviceError.kind === 'auth' && serviceError.source === 'gemini') {
+          patchJob(job.id, { status: 'queued', attempts: job.attempts, error: serviceError.message });
+          pause();
+          onShowKeyModal();
+          return;
+        }
+        const retryAt = nextRetryAt({ ...job, attempts }, serviceError);
+        patchJob(job.id, retryAt
+          ? { status: 'queued', retryAt: retryAt.toISOString(), error: serviceError.message }
+          : { status: 'failed', error: describeError(serviceError).message, finishedAt: new Date().toISOString() });
+      })
+      .finally(() => {
+        controllers.current.delete(job.id);
+        setStageLabels(prev => {
+          const { [job.id]: _, ...rest } = prev;
+          return rest;
+        });
+      });
+  };
+
+  // Scheduler: fill free slots with the earliest ready rows, and wake up for the next pending retry
+  useEffect(() => {
+    if (!loaded || !settings.running) return;
+    const waiting = jobs.filter(j => j.status === 'queued' && !controllers.current.has(j.id));
+    const ready = waiting.filter(j => !j.retryAt || Date.parse(j.retryAt) <= Date.now());
+    const free = settings.concurrency - controllers.current.size;
+    ready.slice(0, Math.max(0, free)).forEach(startJob);
+
+    if (!waiting.length && !controllers.current.size) {
+      setSettings(prev => ({ ...prev, running: false }));
+      return;
+    }
+    const nextRetry = Math.min(...waiting.filter(j => j.retryAt).map(j => Date.parse(j.retryAt!)));
+    if (!Number.isFinite(nextRetry)) return;
+    const timer = setTimeout(() => setNow(Date.now()), Math.max(1000, nextRetry - Date.now()));
+    return () => clearTimeout(timer);
+  }, [jobs, settings, loaded, now]);
+
+  const handleImport = () => {
+    const firstRow = jobs.reduce((max, j) => Math.max(max, j.row), 0) + 1;
+    const result = parseBatchList(importText, defaults, firstRow);
+    setImportReport({ added: result.jobs.length, skipped: result.skipped });
+    if (!result.jobs.length) return;
+    setJobs(prev => [...prev, ...result.jobs]);
+    saveBatchJobs(result.jobs).catch(err => console.error("Failed to save batch jobs", err));
+    setImportText('');
+  };
+
+  const handleFileImport = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = () => setImportText(reader.result as string);
+    reader.readAsText(file);
+    e.target.value = '';
+  };
+
+  const handleStart = () => {
+    if (!hasApiKey) {
+      onShowKeyModal();
+      return;
+    }
+    setError(null);
+    setSettings(prev => ({ ...prev, running: true }));
+  };
+
+  const handleRetryFailed = () => {
+    jobs.filter(j => j.status === 'failed').forEach(j => patchJob(j.id, { status: 'queued', attempts: 0, error: undefined, retryAt: undefined, finishedAt: undefined }));
+    handleStart();
+  };
+
+  const removeJobs = (ids: string[]) => {
+    ids.forEach(id => controllers.current.get(id)?.abort());
+    setJobs(prev => prev.filter(j => !ids.includes(j.id)));
+    deleteBatchJobs(ids).catch(err => console.error("Failed to delete batch jobs", err));
+  };
+
+  const handleExport = async () => {
+    setExporting(true);
+    try {
+      const blob = await buildBatchArchive(jobs);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `link2infographic-batch-${new Date().toISOString().slice(0, 10)}.zip`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(url);
+    } catch (err: any) {
+      setError(`Export failed: ${err.message || err}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const counts = {
+    queued: jobs.filter(j => j.status === 'queued').length,
+    running: jobs.filter(j => j.status === 'running').length,
+    done: jobs.filter(j => j.status === 'done').length,
+    failed: jobs.filter(j => j.status === 'failed').length
+  };
+  const finished = counts.done + counts.failed;
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-12 mb-20 px-4 animate-in fade-in slide-in-from-bottom-6 duration-700">
+      {/* Header */}
+      <div className="text-center max-w-3xl mx-auto space-y-4">
+        <div className="inline-flex items-center gap-2 px-3 py-1 bg-cyan-500/10 border border-cyan-500/20 rounded-full text-[10px] font-bold text-cyan-500 uppercase tracking-[0.2em] mb-2">
+            Batch Queue
+        </div>
+        <h1 className="text-4xl md:text-6xl font-extrabold text-slate-900 dark:text-white tracking-tight">
+          Batch <span className="text-transparent bg-clip-text bg-gradient-to-r from-cyan-500 to-sky-400">Runner</span>
+        </h1>
+        <p className="text-slate-600 dark:text-slate-400 text-lg font-light leading-relaxed">
+          Import a list of <strong className="text-cyan-500">articles, texts and repositories</strong> and render them all in one go.
+        </p>
+      </div>
+
+      <div className="grid lg:grid-cols-12 gap-10 items-start">
+        {/* Left: Import */}
+        <div className="lg:col-span-5 glass-panel p-8 rounded-[40px] bg-white/60 dark:bg-slate-900/60 shadow-xl border border-slate-200 dark:border-white/10 space-y-6">
+          <div className="flex items-center justify-between">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1">List to import</label>
+            <div className="flex items-center gap-3">
+              <button onClick={() => setImportText(SAMPLE_CSV)} className="text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-cyan-500 transition-colors">Sample CSV</button>
+              <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-cyan-500 cursor-pointer transition-colors">
+                <Upload className="w-3.5 h-3.5" /> File
+                <input type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" onChange={handleFileImport} className="hidden" />
+              </label>
+            </div>
+          </div>
+          <textarea
+            value={importText}
+            onChange={(e) => setImportText(e.target.value)}
+            rows={9}
+            placeholder={"One URL or owner/repo per line, or a CSV with the columns\ninput, kind, style, language, ratio"}
+            className="w-full bg-white dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-2xl p-4 text-xs font-mono text-slate-900 dark:text-white placeholder:text-slate-500 outline-none focus:ring-1 ring-cyan-500 resize-none"
+          />
+
+          <div className="space-y-3">
+            <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1">Defaults for rows without overrides</label>
+            <div className="grid grid-cols-2 gap-3">
+              {[
+                { label: 'Article style', value: defaults.articleStyle, options: ARTICLE_STYLES, key: 'articleStyle' },
+                { label: 'Repo style', value: defaults.repoStyle, options: REPO_STYLES, key: 'repoStyle' },
+                { label: 'Language', value: defaults.language, options: LANGUAGES, key: 'language' },
+                { label: 'Ratio', value: defaults.aspectRatio, options: ['auto', ...BATCH_RATIOS], key: 'aspectRatio' }
+              ].map(field => (
+                <div key={field.key} className="relative">
+                  <span className="block text-[9px] font-bold text-slate-500 uppercase tracking-widest mb-1 ml-1">{field.label}</span>
+                  <select value={field.value} onChange={(e) => setDefaults({ ...defaults, [field.key]: e.target.value })} className={selectClass}>
+                    {field.options.map(option => <option key={option} value={option}>{option === 'auto' ? 'Auto (per kind)' : option}</option>)}
+                  </select>
+                  <ChevronDown className="absolute right-3 bottom-3 w-3.5 h-3.5 text-slate-400 pointer-events-none" />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <button
+            onClick={handleImport}
+            disabled={!importText.trim() || !loaded}
+            className="w-full flex items-center justify-center gap-2 py-4 rounded-2xl bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold uppercase tracking-widest transition-colors disabled:opacity-40"
+          >
+            <Plus className="w-4 h-4" /> Add to queue
+          </button>
+
+          {importReport && (
+            <div className="space-y-2 text-[11px]">
+              <p className="text-slate-500">{importReport.added} row{importReport.added === 1 ? '' : 's'} added{importReport.skipped.length ? `, ${importReport.skipped.length} skipped:` : '.'}</p>
+              {importReport.skipped.length > 0 && (
+                <ul className="max-h-32 overflow-y-auto space-y-1 font-mono text-amber-600 dark:text-amber-400">
+                  {importReport.skipped.map(s => <li key={s.row}>Row {s.row}: {s.reason}</li>)}
+                </ul>
+              )}
+            </div>
+          )}
+        </div>
+
+        {/* Right: Queue */}
+        <div className="lg:col-span-7 glass-panel p-8 rounded-[40px] bg-white/60 dark:bg-slate-900/60 shadow-xl border border-slate-200 dark:border-white/10 space-y-6">
+          <div className="flex flex-wrap items-center justify-between gap-3">
+            <h3 className="text-[10px] font-bold text-slate-400 uppercase tracking-widest flex items-center gap-2">
+              <ListChecks className="w-4 h-4 text-cyan-500" /> Queue · {finished}/{jobs.length} finished
+            </h3>
+            <div className="flex items-center gap-2">
+              <label className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                Parallel
+                <select
+                  value={settings.concurrency}
+                  onChange={(e) => setSettings({ ...settings, concurrency: Number(e.target.value) })}
+                  className="bg-white dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg px-2 py-1 text-xs text-slate-700 dark:text-slate-200 outline-none"
+                >
+                  {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                </select>
+              </label>
+              {settings.running ? (
+                <button onClick={pause} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-slate-800 text-white text-[10px] font-bold uppercase tracking-widest">
+                  <Pause className="w-3.5 h-3.5" /> Pause
+                </button>
+              ) : (
+                <button onClick={handleStart} disabled={!counts.queued} className="flex items-center gap-2 px-4 py-2 rounded-xl bg-cyan-600 hover:bg-cyan-500 text-white text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-40">
+                  <Play className="w-3.5 h-3.5" /> {finished ? 'Resume' : 'Start'}
+                </button>
+              )}
+            </div>
+          </div>
+
+          {jobs.length > 0 && (
+            <div className="h-1.5 rounded-full bg-slate-200 dark:bg-white/10 overflow-hidden flex">
+              <div className="h-full bg-emerald-500" style={{ width: `${counts.done / jobs.length * 100}%` }} />
+              <div className="h-full bg-red-500" style={{ width: `${counts.failed / jobs.length * 100}%` }} />
+              <div className="h-full bg-cyan-500 animate-pulse" style={{ width: `${counts.running / jobs.length * 100}%` }} />
+            </div>
+          )}
+
+          {error && (
+            <div className="p-3 rounded-xl bg-red-500/10 border border-red-500/20 text-red-500 text-xs flex items-start gap-2">
+              <AlertCircle className="w-4 h-4 shrink-0" /> {error}
+            </div>
+          )}
+
+          {!loaded ? (
+            <div className="flex items-center justify-center py-16 text-slate-400"><Loader2 className="w-5 h-5 animate-spin" /></div>
+          ) : jobs.length === 0 ? (
+            <div className="py-16 text-center text-xs text-slate-500">The queue is empty. Import a list to get started.</div>
+          ) : (
+            <ul className="max-h-[560px] overflow-y-auto divide-y divide-slate-100 dark:divide-white/5 -mx-2">
+              {jobs.map(job => (
+                <li key={job.id} className="flex items-center gap-4 px-2 py-3">
+                  <span className="w-8 text-[10px] font-mono text-slate-400 text-right">{job.row}</span>
+                  <div className="w-12 h-12 shrink-0 rounded-xl overflow-hidden bg-slate-100 dark:bg-slate-950 border border-slate-200 dark:border-white/5 flex items-center justify-center text-slate-400">
+                    {job.imageData ? <img src={`data:image/png;base64,${job.imageData}`} alt="" className="w-full h-full object-cover" /> : <KindIcon job={job} />}
+                  </div>
+                  <div className="flex-1 min-w-0 space-y-1">
+                    <div className="text-xs font-bold text-slate-700 dark:text-slate-200 truncate" title={job.input}>{job.metadata?.title || job.input}</div>
+                    <div className="text-[10px] font-mono text-slate-400 truncate">
+                      {job.kind === 'repo' ? 'repo' : job.sourceMode} · {job.style} · {job.language} · {job.aspectRatio}
+                    </div>
+                    {job.status === 'running' && <div className="text-[10px] text-cyan-500 truncate">{stageLabels[job.id] || 'STARTING'}</div>}
+                    {job.error && job.status !== 'done' && (
+                      <div className={`text-[10px] truncate ${job.status === 'failed' ? 'text-red-500' : 'text-amber-500'}`} title={job.error}>
+                        {job.retryAt ? `Attempt ${job.attempts}/${MAX_BATCH_ATTEMPTS} failed, retrying at ${new Date(job.retryAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' })}: ` : ''}{job.error}
+                      </div>
+                    )}
+                  </div>
+                  <span className={`flex items-center gap-1.5 px-2.5 py-1 rounded-full text-[10px] font-bold uppercase tracking-widest ${STATUS_STYLES[job.status]}`}>
+                    {job.status === 'running' ? <Loader2 className="w-3 h-3 animate-spin" /> : job.status === 'done' ? <CheckCircle2 className="w-3 h-3" /> : job.status === 'failed' ? <AlertCircle className="w-3 h-3" /> : <Clock className="w-3 h-3" />}
+                    {job.status}
+                  </span>
+                  <button onClick={() => removeJobs([job.id])} className="p-1.5 text-slate-400 hover:text-red-500 transition-colors" title="Remove from queue">
+                    <X className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {jobs.length > 0 && (
+            <div className="flex flex-wrap items-center justify-end gap-2 pt-2 border-t border-slate-100 dark:border-white/5">
+              {counts.failed > 0 && (
+                <button onClick={handleRetryFailed} className="flex items-center gap-2 px-4 py-2 rounded-xl border border-slate-200 dark:border-white/10 text-slate-500 hover:text-cyan-500 text-[10px] font-bold uppercase tracking-widest transition-colors">
+                  <RotateCcw className="w-3.5 h-3.5" /> Retry failed ({counts.failed})
+                </button>
+              )}
+              <button
+                onClick={() => removeJobs(jobs.filter(j => j.status === 'done' || j.status === 'failed').map(j => j.id))}
+                disabled={!finished}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl border border-slate-200 dark:border-white/10 text-slate-500 hover:text-red-500 text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-40"
+              >
+                <Trash2 className="w-3.5 h-3.5" /> Clear finished
+              </button>
+              <button
+                onClick={handleExport}
+                disabled={!counts.done || exporting}
+                className="flex items-center gap-2 px-4 py-2 rounded-xl bg-cyan-600 hover:bg-cyan-500 text-white text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-40"
+              >
+                {exporting ? <Loader2 className="w-3.5 h-3.5 animate-spin" /> : <Download className="w-3.5 h-3.5" />} Export ZIP ({counts.done})
+              </button>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BatchStudio;
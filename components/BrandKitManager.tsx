@@ -0,0 +1,264 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { X, Palette, Plus, Save, Trash2, Upload, CheckCircle2, Circle } from 'lucide-react';
+import { BrandKit } from '../types';
+import {
+  LOGO_CORNERS,
+  MAX_LOGO_SIDE,
+  deleteBrandKit,
+  emptyBrandKit,
+  getActiveBrandKitId,
+  listBrandKits,
+  normalizeHex,
+  saveBrandKit,
+  setActiveBrandKitId
+} from '../services/brandKits';
+import { downscaleImage } from '../services/imageEditing';
+
+interface BrandKitManagerProps {
+  /** Called with the active kit whenever it is selected, edited or removed. */
+  onActiveKitChange: (kit: BrandKit | null) => void;
+  onClose: () => void;
+}
+
+const fieldClass = "w-full bg-slate-950 border border-white/10 rounded-xl p-3 text-xs text-slate-200 outline-none focus:ring-1 ring-violet-500";
+
+const BrandKitManager: React.FC<BrandKitManagerProps> = ({ onActiveKitChange, onClose }) => {
+  const [kits, setKits] = useState<BrandKit[]>(listBrandKits);
+  const [activeId, setActiveId] = useState<string | null>(getActiveBrandKitId);
+  const [draft, setDraft] = useState<BrandKit | null>(() => kits.find(k => k.id === activeId) || kits[0] || null);
+  const [colorInput, setColorInput] = useState('');
+  const [saveError, setSaveError] = useState('');
+
+  const saved = draft ? kits.find(k => k.id === draft.id) : undefined;
+  const dirty = !!draft && JSON.stringify(draft) !== JSON.stringify(saved);
+  const update = (changes: Partial<BrandKit>) => draft && setDraft({ ...draft, ...changes });
+
+  const activate = (id: string | null) => {
+    setActiveBrandKitId(id);
+    setActiveId(id);
+    onActiveKitChange(kits.find(k => k.id === id) || null);
+  };
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim()) return;
+    let next: BrandKit[];
+    try {
+      next = saveBrandKit({ ...draft, name: draft.name.trim() });
+    } catch (e: any) {
+      setSaveError(e?.message || 'Could not save the kit.');
+      return;
+    }
+    setSaveError('');
+    setKits(next);
+    if (draft.id === activeId) onActiveKitChange(next.find(k => k.id === draft.id) || null);
+  };
+
+  const handleDelete = () => {
+    if (!draft) return;
+    const next = deleteBrandKit(draft.id);
+    setKits(next);
+    if (draft.id === activeId) {
+      setActiveId(null);
+      onActiveKitChange(null);
+    }
+    setDraft(next[0] || null);
+  };
+
+  const handleAddColor = () => {
+    const hex = normalizeHex(colorInput);
+    if (!draft || !hex || draft.palette.includes(hex)) return;
+    update({ palette: [...draft.palette, hex] });
+    setColorInput('');
+  };
+
+  const handleLogoUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+    const reader = new FileReader();
+    reader.onloadend = async () => {
+      const result = reader.result as string;
+      // Kits live in localStorage, so large logos are shrunk before they are kept
+      const logo = { data: result.split(',')[1], mimeType: file.type };
+      try {
+        update({ logo: await downscaleImage(logo, MAX_LOGO_SIDE) });
+      } catch (e: any) {
+        setSaveError(e?.message || 'Could not read the logo.');
+      }
+    };
+    reader.readAsDataURL(file);
+    e.target.value = '';
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-950/95 backdrop-blur-xl p-4">
+      <div className="w-full max-w-5xl max-h-[92vh] flex flex-col relative overflow-hidden glass-panel rounded-3xl border border-violet-500/30 shadow-[0_0_50px_rgba(139,92,246,0.1)] animate-in fade-in zoom-in-95 duration-300">
+        <div className="flex items-center justify-between gap-4 px-8 py-5 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-violet-500/10 rounded-lg">
+              <Palette className="w-5 h-5 text-violet-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">Brand Kits</h2>
+              <p className="text-[11px] text-slate-500">The active kit is added to every studio's prompts, and its logo is stamped on downloads.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-[240px_1fr] min-h-0">
+          <div className="border-r border-white/5 overflow-y-auto p-3 space-y-1">
+            <button
+              onClick={() => activate(null)}
+              className={`w-full flex items-center gap-2 text-left px-3 py-2.5 rounded-xl text-xs font-bold transition-colors ${activeId === null ? 'text-violet-300' : 'text-slate-500 hover:bg-white/5'}`}
+            >
+              {activeId === null ? <CheckCircle2 className="w-4 h-4" /> : <Circle className="w-4 h-4" />} No brand kit
+            </button>
+            {kits.map(kit => (
+              <div
+                key={kit.id}
+                className={`flex items-center gap-2 px-3 py-2.5 rounded-xl border transition-colors ${draft?.id === kit.id ? 'bg-violet-500/10 border-violet-500/20' : 'border-transparent hover:bg-white/5'}`}
+              >
+                <button onClick={() => activate(kit.id)} className={activeId === kit.id ? 'text-violet-300' : 'text-slate-500 hover:text-slate-300'} title="Use this kit">
+                  {activeId === kit.id ? <CheckCircle2 className="w-4 h-4" /> : <Circle className="w-4 h-4" />}
+                </button>
+                <button onClick={() => setDraft(kit)} className="flex-1 min-w-0 text-left">
+                  <div className="text-xs font-bold text-slate-200 truncate">{kit.name}</div>
+                  <div className="flex gap-1 mt-1">
+                    {kit.palette.slice(0, 6).map(c => <span key={c} className="w-3 h-3 rounded-full border border-white/10" style={{ backgroundColor: c }} />)}
+                  </div>
+                </button>
+              </div>
+            ))}
+            <button
+              onClick={() => setDraft(emptyBrandKit('New brand kit'))}
+              className="w-full flex items-center gap-2 px-3 py-2.5 rounded-xl text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-violet-400 transition-colors"
+            >
+              <Plus className="w-3.5 h-3.5" /> New kit
+            </button>
+          </div>
+
+          {draft ? (
+            <div className="overflow-y-auto p-6 space-y-5">
+              <input value={draft.name} onChange={(e) => update({ name: e.target.value })} placeholder="Kit name" className={`${fieldClass} text-sm font-bold`} />
+
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Palette</label>
+                <div className="flex flex-wrap items-center gap-2">
+                  {draft.palette.map((color, i) => (
+                    <button
+                      key={color}
+                      onClick={() => update({ palette: draft.palette.filter(c => c !== color) })}
+                      className="group flex items-center gap-1.5 pl-1 pr-2 py-1 rounded-full border border-white/10 text-[10px] font-mono text-slate-300 hover:border-red-500/40"
+                      title="Remove colour"
+                    >
+                      <span className="w-4 h-4 rounded-full border border-white/10" style={{ backgroundColor: color }} />
+                      {color}{i === 0 && <span className="text-violet-400">primary</span>}
+                      <X className="w-3 h-3 text-slate-500 group-hover:text-red-400" />
+                    </button>
+                  ))}
+                  <input
+                    value={colorInput}
+                    onChange={(e) => setColorInput(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleAddColor()}
+                    placeholder="#0b5fff"
+                    className="w-24 bg-slate-950 border border-white/10 rounded-full px-3 py-1 text-[10px] font-mono text-slate-200 outline-none focus:ring-1 ring-violet-500"
+                  />
+                  <button onClick={handleAddColor} disabled={!normalizeHex(colorInput)} className="p-1.5 rounded-full border border-white/10 text-slate-400 hover:text-violet-400 disabled:opacity-40" title="Add colour">
+                    <Plus className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+
+              <div className="grid md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Typography</label>
+                  <textarea value={draft.typography} onChange={(e) => update({ typography: e.target.value })} rows={3} placeholder="Geometric sans-serif headlines, bold; humanist sans body text" className={`${fieldClass} resize-none`} />
+                </div>
+                <div className="space-y-2">
+                  <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Voice &amp; tone</label>
+                  <textarea value={draft.tone} onChange={(e) => update({ tone: e.target.value })} rows={3} placeholder="Confident and plain-spoken; no jargon, no exclamation marks" className={`${fieldClass} resize-none`} />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Forbidden elements (one per line)</label>
+                <textarea value={draft.forbidden} onChange={(e) => update({ forbidden: e.target.value })} rows={3} placeholder={"Stock-photo people\nCompetitor logos\nRed as a background colour"} className={`${fieldClass} resize-none`} />
+              </div>
+
+              <div className="space-y-3">
+                <label className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Logo</label>
+                <div className="flex flex-wrap items-center gap-4">
+                  {draft.logo ? (
+                    <div className="relative p-2 rounded-xl bg-slate-800 border border-white/10">
+                      <img src={`data:${draft.logo.mimeType};base64,${draft.logo.data}`} alt="Logo" className="h-12 max-w-[140px] object-contain" />
+                      <button onClick={() => update({ logo: undefined })} className="absolute -top-2 -right-2 p-1 rounded-full bg-slate-900 border border-white/10 text-slate-400 hover:text-red-400" title="Remove logo">
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ) : (
+                    <label className="flex items-center gap-2 px-4 py-3 rounded-xl border border-dashed border-white/20 text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-violet-400 cursor-pointer">
+                      <Upload className="w-4 h-4" /> Upload PNG or SVG
+                      <input type="file" accept="image/png,image/svg+xml,image/webp,image/jpeg" onChange={handleLogoUpload} className="hidden" />
+                    </label>
+                  )}
+                  <div className="grid grid-cols-2 gap-1 p-1 rounded-xl bg-slate-950 border border-white/10">
+                    {LOGO_CORNERS.map(corner => (
+                      <button
+                        key={corner.id}
+                        onClick={() => update({ logoCorner: corner.id })}
+                        className={`px-2.5 py-1.5 rounded-lg text-[10px] font-bold transition-colors ${draft.logoCorner === corner.id ? 'bg-violet-600 text-white' : 'text-slate-400 hover:text-slate-200'}`}
+                      >
+                        {corner.label}
+                      </button>
+                    ))}
+                  </div>
+                  <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                    Size
+                    <input
+                      type="range"
+                      min={5}
+                      max={30}
+                      value={Math.round(draft.logoScale * 100)}
+                      onChange={(e) => update({ logoScale: Number(e.target.value) / 100 })}
+                      className="w-24 accent-violet-500"
+                    />
+                    <span className="font-mono text-slate-400">{Math.round(draft.logoScale * 100)}%</span>
+                  </label>
+                </div>
+              </div>
+
+              <div className="flex items-center justify-end gap-2 pt-2">
+                {saveError && <p className="mr-auto text-[10px] text-red-400">{saveError}</p>}
+                <button
+                  onClick={handleDelete}
+                  disabled={!saved}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-slate-400 hover:text-red-400 hover:border-red-500/30 text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-40"
+                >
+                  <Trash2 className="w-3.5 h-3.5" /> Delete
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!dirty || !draft.name.trim()}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl bg-violet-600 hover:bg-violet-500 text-white text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-40"
+                >
+                  <Save className="w-3.5 h-3.5" /> Save kit
+                </button>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center p-12 text-xs text-slate-500">Create a kit to get started.</div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default BrandKitManager;
@@ -0,0 +1,175 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { X, Database, Trash2, RotateCcw } from 'lucide-react';
+import {
+  CACHE_KINDS,
+  CacheKind,
+  CacheSettings,
+  CacheStats,
+  clearCache,
+  describeCache,
+  loadCacheSettings,
+  loadCacheStats,
+  pruneCache,
+  resetCacheStats,
+  saveCacheSettings
+} from '../services/responseCache';
+
+interface CacheManagerProps {
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<CacheKind, string> = {
+  analysis: 'Analysis',
+  summary: 'Source summaries',
+  metadata: 'Image metadata'
+};
+
+const fieldClass = "w-24 bg-slate-950 border border-white/10 rounded-xl px-3 py-2 text-xs font-mono text-slate-200 outline-none focus:ring-1 ring-cyan-500";
+
+const formatBytes = (bytes: number) => bytes < 1024 * 1024 ? `${(bytes / 1024).toFixed(1)} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+
+const formatDuration = (ms: number) => ms < 60_000 ? `${Math.round(ms / 1000)}s` : `${Math.round(ms / 60_000)} min`;
+
+const hitRate = (hits: number, misses: number) => hits + misses ? `${Math.round(hits / (hits + misses) * 100)}%` : '–';
+
+const CacheManager: React.FC<CacheManagerProps> = ({ onClose }) => {
+  const [settings, setSettings] = useState<CacheSettings>(loadCacheSettings);
+  const [stats, setStats] = useState<CacheStats>(loadCacheStats);
+  const [usage, setUsage] = useState<Awaited<ReturnType<typeof describeCache>> | null>(null);
+
+  const refreshUsage = () => describeCache().then(setUsage).catch(() => setUsage(null));
+
+  useEffect(() => {
+    refreshUsage();
+  }, []);
+
+  const update = async (changes: Partial<CacheSettings>) => {
+    const next = { ...settings, ...changes };
+    setSettings(next);
+    saveCacheSettings(next);
+    await pruneCache(next).catch(() => { });
+    refreshUsage();
+  };
+
+  const handleClear = async () => {
+    await clearCache().catch(() => { });
+    refreshUsage();
+  };
+
+  const handleResetStats = () => {
+    resetCacheStats();
+    setStats(loadCacheStats());
+  };
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-950/95 backdrop-blur-xl p-4">
+      <div className="w-full max-w-2xl max-h-[92vh] flex flex-col relative overflow-hidden glass-panel rounded-3xl border border-cyan-500/30 shadow-[0_0_50px_rgba(6,182,212,0.1)] animate-in fade-in zoom-in-95 duration-300">
+        <div className="flex items-center justify-between gap-4 px-8 py-5 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-cyan-500/10 rounded-lg">
+              <Database className="w-5 h-5 text-cyan-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">Response Cache</h2>
+              <p className="text-[11px] text-slate-500">Analyses, source summaries and image metadata are reused when the model, prompt and input match.</p>
+            </div>
+          </div>
+          <button onClick={onClose} className="p-2 text-slate-400 hover:text-white transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        <div className="overflow-y-auto p-6 space-y-6">
+          <div className="grid grid-cols-3 gap-3">
+            <div className="p-4 rounded-2xl bg-slate-950 border border-white/10">
+              <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Hit rate</div>
+              <div className="text-2xl font-bold text-cyan-400 mt-1">{hitRate(stats.hits, stats.misses)}</div>
+              <div className="text-[10px] text-slate-500 mt-1">{stats.hits} hits · {stats.misses} misses</div>
+            </div>
+            <div className="p-4 rounded-2xl bg-slate-950 border border-white/10">
+              <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Time saved</div>
+              <div className="text-2xl font-bold text-slate-200 mt-1">{formatDuration(stats.savedMs)}</div>
+              <div className="text-[10px] text-slate-500 mt-1">Estimated from the original calls</div>
+            </div>
+            <div className="p-4 rounded-2xl bg-slate-950 border border-white/10">
+              <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">Tokens saved</div>
+              <div className="text-2xl font-bold text-slate-200 mt-1">~{stats.savedTokens.toLocaleString()}</div>
+              <div className="text-[10px] text-slate-500 mt-1">Since {new Date(stats.since).toLocaleDateString()}</div>
+            </div>
+          </div>
+
+          <table className="w-full text-xs">
+            <thead>
+              <tr className="text-[10px] font-bold text-slate-500 uppercase tracking-widest text-left">
+                <th className="pb-2">Kind</th>
+                <th className="pb-2 text-right">Hit rate</th>
+                <th className="pb-2 text-right">Entries</th>
+                <th className="pb-2 text-right">Size</th>
+              </tr>
+            </thead>
+            <tbody className="text-slate-300">
+              {CACHE_KINDS.map(kind => {
+                const counts = stats.byKind[kind];
+                const stored = usage?.byKind[kind];
+                return (
+                  <tr key={kind} className="border-t border-white/5">
+                    <td className="py-2">{KIND_LABELS[kind]}</td>
+                    <td className="py-2 text-right font-mono">{counts ? hitRate(counts.hits, counts.misses) : '–'}</td>
+                    <td className="py-2 text-right font-mono">{stored?.entries || 0}</td>
+                    <td className="py-2 text-right font-mono">{formatBytes(stored?.bytes || 0)}</td>
+                  </tr>
+                );
+              })}
+              <tr className="border-t border-white/10 font-bold">
+                <td className="py-2">Total</td>
+                <td className="py-2" />
+                <td className="py-2 text-right font-mono">{usage?.entries || 0}</td>
+                <td className="py-2 text-right font-mono">{formatBytes(usage?.bytes || 0)} / {settings.maxMegabytes} MB</td>
+              </tr>
+            </tbody>
+          </table>
+
+          <div className="flex flex-wrap items-center gap-6">
+            <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest cursor-pointer">
+              <input type="checkbox" checked={!settings.enabled} onChange={(e) => update({ enabled: !e.target.checked })} className="accent-cyan-500" />
+              Bypass cache
+            </label>
+            <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+              Keep for
+              <input type="number" min={1} value={settings.ttlHours} onChange={(e) => Number(e.target.value) > 0 && update({ ttlHours: Number(e.target.value) })} className={fieldClass} />
+              hours
+            </label>
+            <label className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+              Cap
+              <input type="number" min={1} value={settings.maxMegabytes} onChange={(e) => Number(e.target.value) > 0 && update({ maxMegabytes: Number(e.target.value) })} className={fieldClass} />
+              MB
+            </label>
+          </div>
+
+          <div className="flex items-center justify-end gap-2 pt-2">
+            <button
+              onClick={handleResetStats}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-slate-400 hover:text-slate-200 text-[10px] font-bold uppercase tracking-widest transition-colors"
+            >
+              <RotateCcw className="w-3.5 h-3.5" /> Reset stats
+            </button>
+            <button
+              onClick={handleClear}
+              disabled={!usage?.entries}
+              className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-slate-400 hover:text-red-400 hover:border-red-500/30 text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-40"
+            >
+              <Trash2 className="w-3.5 h-3.5" /> Clear cache
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default CacheManager;
@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Trophy, XCircle, Maximize2, X } from 'lucide-react';
+
+interface CandidateGridProps {
+  candidates: string[];
+  accent: 'emerald' | 'indigo' | 'violet';
+  keepRejected: boolean;
+  onKeepRejectedChange: (keep: boolean) => void;
+  onPick: (index: number) => void;
+  onCancel: () => void;
+}
+
+const ACCENTS = {
+  emerald: { text: 'text-emerald-500', hover: 'hover:border-emerald-500', button: 'bg-emerald-500 hover:bg-emerald-600', check: 'accent-emerald-500' },
+  indigo: { text: 'text-indigo-500', hover: 'hover:border-indigo-500', button: 'bg-indigo-600 hover:bg-indigo-700', check: 'accent-indigo-500' },
+  violet: { text: 'text-violet-500', hover: 'hover:border-violet-500', button: 'bg-violet-500 hover:bg-violet-600', check: 'accent-violet-500' }
+};
+
+/** Side-by-side comparison of parallel render variants; the pick goes on to metadata and history. */
+const CandidateGrid: React.FC<CandidateGridProps> = ({ candidates, accent, keepRejected, onKeepRejectedChange, onPick, onCancel }) => {
+  const theme = ACCENTS[accent];
+  const [zoomed, setZoomed] = useState<number | null>(null);
+
+  return (
+    <div className="w-full h-full flex flex-col gap-5 p-8 animate-in fade-in">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <Trophy className={`w-5 h-5 ${theme.text}`} />
+          <div>
+            <h3 className="text-sm font-bold uppercase tracking-widest text-slate-800 dark:text-white">Pick a Winner</h3>
+            <p className="text-[11px] text-slate-500">{candidates.length} variants rendered from the same analysis.</p>
+          </div>
+        </div>
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-2 px-4 py-2 rounded-xl border border-slate-200 dark:border-white/10 text-slate-500 hover:text-red-500 hover:border-red-500/30 transition-colors text-[10px] font-bold uppercase tracking-widest"
+        >
+          <XCircle className="w-4 h-4" /> Discard All
+        </button>
+      </div>
+
+      <div className="grid grid-cols-2 gap-4 flex-1">
+        {candidates.map((image, i) => (
+          <div key={i} className={`group relative rounded-3xl overflow-hidden border-2 border-slate-200 dark:border-white/10 ${theme.hover} bg-slate-50 dark:bg-black/40 transition-colors`}>
+            <img src={`data:image/png;base64,${image}`} alt={`Variant ${i + 1}`} className="w-full h-full object-contain" />
+            <div className="absolute top-3 left-3 px-2 py-1 rounded-lg bg-slate-950/70 text-white text-[10px] font-mono font-bold">#{i + 1}</div>
+            <div className="absolute inset-x-0 bottom-0 p-3 flex gap-2 justify-end opacity-0 group-hover:opacity-100 transition-opacity bg-gradient-to-t from-slate-950/80 to-transparent">
+              <button onClick={() => setZoomed(i)} className="p-2 rounded-xl bg-white/10 text-white hover:bg-white/20 transition-colors" title="Enlarge">
+                <Maximize2 className="w-4 h-4" />
+              </button>
+              <button onClick={() => onPick(i)} className={`flex items-center gap-1.5 px-3 py-2 rounded-xl text-white text-[10px] font-bold uppercase tracking-widest ${theme.button}`}>
+                <Trophy className="w-3.5 h-3.5" /> Use this
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <label className="flex items-center gap-3 px-1 text-[10px] font-bold text-slate-400 uppercase tracking-widest cursor-pointer select-none">
+        <input type="checkbox" checked={keepRejected} onChange={(e) => onKeepRejectedChange(e.target.checked)} className={`w-4 h-4 ${theme.check}`} />
+        Keep rejected variants in history
+      </label>
+
+      {zoomed !== null && (
+        <div className="fixed inset-0 z-[10000] bg-slate-950/95 backdrop-blur-xl flex items-center justify-center p-8" onClick={() => setZoomed(null)}>
+          <button className="absolute top-6 right-6 text-slate-400 hover:text-white"><X className="w-6 h-6" /></button>
+          <img src={`data:image/png;base64,${candidates[zoomed]}`} alt={`Variant ${zoomed + 1}`} className="max-w-full max-h-full object-contain rounded-2xl" />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CandidateGrid;
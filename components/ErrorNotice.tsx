@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { AlertCircle, ShieldAlert, X, KeyRound, RefreshCcw, PenLine, Clock } from 'lucide-react';
+import { ServiceError, describeError } from '../services/errors';
+
+interface ErrorNoticeProps {
+  error: ServiceError | string;
+  onDismiss: () => void;
+  onRetry?: () => void;
+  onSelectKey?: () => void;
+  variant?: 'banner' | 'compact';
+}
+
+const ErrorNotice: React.FC<ErrorNoticeProps> = ({ error, onDismiss, onRetry, onSelectKey, variant = 'banner' }) => {
+  const { message, action, actionLabel } = describeError(error);
+
+  const handleAction = () => {
+    if (action === 'select_key') onSelectKey?.();
+    else if (action === 'retry') { onDismiss(); onRetry?.(); }
+    else onDismiss();
+  };
+
+  const ActionIcon = action === 'select_key' ? KeyRound : action === 'retry' ? RefreshCcw : action === 'wait' ? Clock : PenLine;
+  const showAction = action !== 'none' && !(action === 'retry' && !onRetry) && !(action === 'select_key' && !onSelectKey);
+
+  const actionButton = showAction && (
+    <button
+      onClick={handleAction}
+      disabled={action === 'wait'}
+      className="flex items-center gap-1.5 px-3 py-1.5 rounded-lg bg-red-500/10 hover:bg-red-500/20 border border-red-500/20 text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-70 disabled:cursor-default shrink-0"
+    >
+      <ActionIcon className="w-3.5 h-3.5" /> {actionLabel}
+    </button>
+  );
+
+  if (variant === 'compact') {
+    return (
+      <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-500/20 rounded-2xl text-[11px] text-red-600 dark:text-red-400 font-mono leading-relaxed animate-in slide-in-from-top-2 space-y-3">
+        <div className="flex items-start justify-between">
+          <ShieldAlert className="w-4 h-4" />
+          <button onClick={onDismiss} className="hover:opacity-70"><X className="w-4 h-4" /></button>
+        </div>
+        <div>{message}</div>
+        {actionButton}
+      </div>
+    );
+  }
+
+  return (
+    <div className="p-5 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-3xl flex items-center gap-4 text-sm border border-red-500/20 animate-in slide-in-from-top-4">
+        <AlertCircle className="w-6 h-6 shrink-0" />
+        <div className="flex-1 font-medium leading-relaxed">{message}</div>
+        {actionButton}
+        <button onClick={onDismiss} className="p-2 hover:bg-black/5 rounded-full"><X className="w-5 h-5" /></button>
+    </div>
+  );
+};
+
+export default ErrorNotice;
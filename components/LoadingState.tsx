@@ -4,15 +4,46 @@
 */
 
 import React, { useState, useEffect } from 'react';
-import { Cpu, FileText, Zap, Activity, Server, Shield, Database, Code2 } from 'lucide-react';
+import { Cpu, FileText, Activity, XCircle, Clock } from 'lucide-react';
+import { ProgressEvent, StageTiming } from '../types';
 
 interface LoadingStateProps {
   message: string;
   type: 'repo' | 'article';
+  events?: ProgressEvent[];
+  onCancel?: () => void;
 }
 
-export const LoadingState: React.FC<LoadingStateProps> = ({ message, type }) => {
-  const [logs, setLogs] = useState<string[]>([]);
+const formatClock = (at: number) => new Date(at).toISOString().split('T')[1].split('.')[0];
+const formatSeconds = (ms: number) => `${(ms / 1000).toFixed(1)}s`;
+const formatKb = (bytes: number) => `${(bytes / 1024).toFixed(1)} KB`;
+
+interface LogLine {
+  text: string;
+  tone: 'info' | 'ok' | 'fail' | 'retry';
+}
+
+const variantTag = (variant?: number) => variant !== undefined ? ` #${variant + 1}` : '';
+
+const describeEvent = (event: ProgressEvent): LogLine => {
+  const timestamp = `[${formatClock(event.at)}]`;
+  switch (event.type) {
+    case 'stage_start': {
+      const details = [event.model, event.inputBytes !== undefined ? formatKb(event.inputBytes) : null].filter(Boolean).join(' · ');
+      return { text: `${timestamp} ${event.label}${variantTag(event.variant)}${details ? ` (${details})` : ''}`, tone: 'info' };
+    }
+    case 'stage_end': {
+      const sources = event.groundingSources ? ` · ${event.groundingSources} sources` : '';
+      const cached = event.cached ? ' · cached' : '';
+      return { text: `${timestamp} ${event.stage}${variantTag(event.variant)} ${event.ok ? 'done' : 'failed'} in ${formatSeconds(event.elapsedMs)}${sources}${cached}`, tone: event.ok ? 'ok' : 'fail' };
+    }
+    case 'retry':
+      return { text: `${timestamp} ${event.stage}${variantTag(event.variant)} retry ${event.attempt} in ${formatSeconds(event.delayMs)}: ${event.reason}`, tone: 'retry' };
+  }
+};
+
+export const LoadingState: React.FC<LoadingStateProps> = ({ message, type, events = [], onCancel }) => {
+  const [now, setNow] = useState(Date.now());
   
   // Theme configuration based on type
   const config = type === 'repo' ? {
@@ -20,56 +51,34 @@ export const LoadingState: React.FC<LoadingStateProps> = ({ message, type }) =>
     bg: 'bg-violet-500',
     border: 'border-violet-500',
     icon: Cpu,
-    logPrefix: 'git',
-    tasks: [
-      "Fetching remote tree object...",
-      "Parsing Abstract Syntax Tree...",
-      "Mapping dependency graph...",
-      "Identifying structural hotspots...",
-      "Vectorizing node positions...",
-      "Calculating force-directed layout...",
-      "Optimizing render pipeline...",
-      "Compiling WebGL assets...",
-      "Finalizing lightmap bake..."
-    ]
   } : {
     color: 'text-emerald-400',
     bg: 'bg-emerald-500',
     border: 'border-emerald-500',
     icon: FileText,
-    logPrefix: 'web',
-    tasks: [
-      "Resolving DNS headers...",
-      "Scraping DOM structure...",
-      "Extracting semantic entities...",
-      "Analyzing content density...",
-      "Synthesizing visual metaphors...",
-      "Determining optimal layout...",
-      "Rasterizing vector layers...",
-      "Applying style transfer...",
-      "Generating final composite..."
-    ]
   };
 
   const Icon = config.icon;
 
-  // Simulate live terminal logs
-  useEffect(() => {
-    setLogs([`> initializing ${config.logPrefix}_module...`]);
-    
-    const interval = setInterval(() => {
-      setLogs(prev => {
-        const nextLog = config.tasks[Math.floor(Math.random() * config.tasks.length)];
-        const timestamp = new Date().toISOString().split('T')[1].split('.')[0];
-        const newLogs = [...prev, `[${timestamp}] ${nextLog} ... OK`];
-        // Keep only last 5 logs
-        if (newLogs.length > 5) return newLogs.slice(newLogs.length - 5);
-        return newLogs;
-      });
-    }, 800);
+  // The stage still running is the last start without a matching end
+  const lastStart = [...events].reverse().find(e => e.type === 'stage_start');
+  const running = lastStart && !events.some(e => e.type === 'stage_end' && e.stage === lastStart.stage && e.variant === lastStart.variant && e.at >= lastStart.at)
+    ? lastStart : null;
 
+  // Tick the elapsed counter while a stage is in flight
+  useEffect(() => {
+    if (!running) return;
+    const interval = setInterval(() => setNow(Date.now()), 200);
     return () => clearInterval(interval);
-  }, [type]);
+  }, [running]);
+
+  const lines = events.map(describeEvent).slice(-6);
+  const toneClass: Record<LogLine['tone'], string> = {
+    info: 'text-slate-400',
+    ok: 'text-emerald-400/80',
+    fail: 'text-red-400',
+    retry: 'text-amber-400'
+  };
 
   return (
     <div className="w-full max-w-md mx-auto flex flex-col items-center justify-center py-16 animate-in fade-in duration-700">
@@ -118,21 +127,58 @@ export const LoadingState: React.FC<LoadingStateProps> = ({ message, type }) =>
         
         {/* Logs */}
         <div className="flex flex-col gap-1.5 h-32 justify-end">
-            {logs.map((log, i) => (
-                <div key={i} className="text-slate-400 animate-in slide-in-from-left-4 fade-in duration-300 truncate font-medium">
+            {lines.map((line, i) => (
+                <div key={events.length - lines.length + i} title={line.text} className={`${toneClass[line.tone]} animate-in slide-in-from-left-4 fade-in duration-300 truncate font-medium`}>
                     <span className={`${config.color} opacity-50 mr-2`}>{'>'}</span>
-                    {log}
+                    {line.text}
                 </div>
             ))}
             <div className="flex items-center gap-2 text-slate-500 animate-pulse mt-1">
                <Activity className="w-3 h-3" />
-               <span>Working...</span>
+               <span>{running ? `${running.label} · ${formatSeconds(Math.max(0, now - running.at))}` : 'Working...'}</span>
             </div>
         </div>
 
         {/* Scanline Overlay */}
         <div className="absolute inset-0 bg-[linear-gradient(rgba(18,16,16,0)_50%,rgba(0,0,0,0.25)_50%),linear-gradient(90deg,rgba(255,0,0,0.06),rgba(0,255,0,0.02),rgba(0,0,255,0.06))] z-20 bg-[length:100%_2px,3px_100%] pointer-events-none opacity-20"></div>
       </div>
+
+      {onCancel && (
+        <button
+          onClick={onCancel}
+          className="mt-6 flex items-center gap-2 px-5 py-2.5 rounded-xl border border-white/10 bg-slate-950/60 text-slate-400 hover:text-red-400 hover:border-red-500/30 transition-colors text-[11px] font-mono font-bold uppercase tracking-widest"
+        >
+          <XCircle className="w-4 h-4" /> Cancel
+        </button>
+      )}
+    </div>
+  );
+};
+
+/** Compact per-stage timing readout for a finished run, with the prompt templates it used. */
+export const TimingSummary: React.FC<{ timings?: StageTiming[] }> = ({ timings }) => {
+  if (!timings || timings.length === 0) return null;
+  // Variants of a stage run side by side, so each stage costs its slowest variant
+  const perStage = new Map<string, number>();
+  timings.forEach(t => perStage.set(t.stage, Math.max(perStage.get(t.stage) || 0, t.elapsedMs)));
+  const total = Array.from(perStage.values()).reduce((sum, ms) => sum + ms, 0);
+  const templates = Array.from(new Set(timings.map(t => t.template).filter(Boolean)));
+  return (
+    <div className="flex flex-wrap items-center gap-x-3 gap-y-1 text-[10px] font-mono text-slate-500">
+      <span className="flex items-center gap-1"><Clock className="w-3 h-3" /> {formatSeconds(total)}</span>
+      {timings.map((t, i) => (
+        <span key={i} title={[t.model, t.inputBytes !== undefined ? formatKb(t.inputBytes) : null].filter(Boolean).join(' · ')}>
+          {t.stage}{variantTag(t.variant)} {formatSeconds(t.elapsedMs)}
+          {t.retries > 0 && <span className="text-amber-500"> ×{t.retries + 1}</span>}
+          {t.groundingSources ? <span> · {t.groundingSources} src</span> : null}
+          {t.cached && <span className="text-cyan-500"> · cached</span>}
+        </span>
+      ))}
+      {templates.map(template => (
+        <span key={template} className="px-1.5 py-0.5 rounded bg-slate-500/10 border border-slate-500/20" title="Prompt template version">
+          {template}
+        </span>
+      ))}
     </div>
   );
 };
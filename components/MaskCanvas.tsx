@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { Brush, Square, Eraser } from 'lucide-react';
+
+interface MaskCanvasProps {
+  image: { data: string; mimeType: string };
+  /** Previously painted mask to restore, as PNG base64. */
+  mask: string | null;
+  onChange: (mask: string | null) => void;
+}
+
+const MASK_COLOR = 'rgba(245, 158, 11, 1)';
+
+/**
+ * Paint or box the region a remix may change. The mask is drawn at the
+ * image's natural resolution and reported as a PNG whose alpha is the region.
+ */
+const MaskCanvas: React.FC<MaskCanvasProps> = ({ image, mask, onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [tool, setTool] = useState<'brush' | 'box'>('brush');
+  const [brushSize, setBrushSize] = useState(40);
+  const drawingRef = useRef<{ x: number; y: number; snapshot: ImageData } | null>(null);
+
+  const handleImageLoad = (e: React.SyntheticEvent<HTMLImageElement>) => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    canvas.width = e.currentTarget.naturalWidth;
+    canvas.height = e.currentTarget.naturalHeight;
+    if (mask) {
+      const saved = new Image();
+      saved.onload = () => canvas.getContext('2d')?.drawImage(saved, 0, 0, canvas.width, canvas.height);
+      saved.src = `data:image/png;base64,${mask}`;
+    }
+  };
+
+  // Pointer position in canvas pixels, plus the display-to-canvas scale for the brush width
+  const toCanvas = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    const scale = canvas.width / rect.width;
+    return { x: (e.clientX - rect.left) * scale, y: (e.clientY - rect.top) * scale, scale };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const ctx = e.currentTarget.getContext('2d');
+    if (!ctx) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const { x, y, scale } = toCanvas(e);
+    drawingRef.current = { x, y, snapshot: ctx.getImageData(0, 0, e.currentTarget.width, e.currentTarget.height) };
+    if (tool === 'brush') {
+      ctx.fillStyle = MASK_COLOR;
+      ctx.beginPath();
+      ctx.arc(x, y, (brushSize * scale) / 2, 0, Math.PI * 2);
+      ctx.fill();
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const start = drawingRef.current;
+    const ctx = e.currentTarget.getContext('2d');
+    if (!start || !ctx) return;
+    const { x, y, scale } = toCanvas(e);
+    if (tool === 'brush') {
+      ctx.strokeStyle = MASK_COLOR;
+      ctx.lineWidth = brushSize * scale;
+      ctx.lineCap = 'round';
+      ctx.beginPath();
+      ctx.moveTo(start.x, start.y);
+      ctx.lineTo(x, y);
+      ctx.stroke();
+      drawingRef.current = { ...start, x, y };
+    } else {
+      // Redraw from the snapshot so the box follows the pointer instead of smearing
+      ctx.putImageData(start.snapshot, 0, 0);
+      ctx.fillStyle = MASK_COLOR;
+      ctx.fillRect(start.x, start.y, x - start.x, y - start.y);
+    }
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawingRef.current) return;
+    drawingRef.current = null;
+    onChange(e.currentTarget.toDataURL('image/png').split(',')[1]);
+  };
+
+  const handleClear = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="flex flex-col items-center gap-4 w-full">
+      <div className="relative">
+        <img
+          src={`data:${image.mimeType};base64,${image.data}`}
+          onLoad={handleImageLoad}
+          className="max-h-[320px] rounded-2xl shadow-[0_20px_50px_rgba(0,0,0,0.3)] border border-white/10 select-none"
+          alt="Mask source"
+          draggable={false}
+        />
+        <canvas
+          ref={canvasRef}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          className="absolute inset-0 w-full h-full rounded-2xl opacity-50 cursor-crosshair touch-none"
+        />
+      </div>
+
+      <div className="flex items-center gap-3 p-1.5 bg-slate-900/80 backdrop-blur-md rounded-full border border-white/10 shadow-2xl">
+        <button
+          onClick={() => setTool('brush')}
+          className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all ${tool === 'brush' ? 'bg-amber-500 text-white' : 'text-slate-400 hover:text-slate-300'}`}
+        >
+          <Brush className="w-3 h-3 inline mr-1.5" /> Paint
+        </button>
+        <button
+          onClick={() => setTool('box')}
+          className={`px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest transition-all ${tool === 'box' ? 'bg-amber-500 text-white' : 'text-slate-400 hover:text-slate-300'}`}
+        >
+          <Square className="w-3 h-3 inline mr-1.5" /> Box
+        </button>
+        {tool === 'brush' && (
+          <input
+            type="range"
+            min={8}
+            max={120}
+            value={brushSize}
+            onChange={(e) => setBrushSize(Number(e.target.value))}
+            className="w-20 accent-amber-500"
+            title="Brush size"
+          />
+        )}
+        <button onClick={handleClear} className="px-3 py-1.5 rounded-full text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-red-400 transition-colors">
+          <Eraser className="w-3 h-3 inline mr-1.5" /> Clear
+        </button>
+      </div>
+      <p className="text-[10px] text-slate-500 font-mono uppercase tracking-widest">Only the highlighted region will change</p>
+    </div>
+  );
+};
+
+export default MaskCanvas;
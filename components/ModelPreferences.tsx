@@ -4,34 +4,125 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React from 'react';
-import { BrainCircuit, ChevronDown } from 'lucide-react';
-import { ModelConfig, GeminiModel } from '../types';
+import React, { useState } from 'react';
+import { BrainCircuit, ChevronDown, ImageIcon, Bookmark, Trash2, RotateCcw } from 'lucide-react';
+import { ModelConfig, GeminiModel, ImageSettings, ImageModel, ImageSize, StudioId } from '../types';
+import { ProviderId } from '../services/generationProvider';
+import { IMAGE_MODELS, STUDIO_LABELS, deletePreset, listPresets, resolveImageSettings, savePreset, supportedSizes } from '../services/modelPreferences';
 
 interface ModelPreferencesProps {
   config: ModelConfig;
   onChange: (newConfig: ModelConfig) => void;
+  providerId: ProviderId;
+  onProviderChange: (id: ProviderId) => void;
 }
 
-const ModelPreferences: React.FC<ModelPreferencesProps> = ({ config, onChange }) => {
-  const handleModelChange = (key: keyof ModelConfig, value: string) => {
+const ModelPreferences: React.FC<ModelPreferencesProps> = ({ config, onChange, providerId, onProviderChange }) => {
+  const [presets, setPresets] = useState(listPresets);
+  const [selectedPreset, setSelectedPreset] = useState('');
+  const [presetName, setPresetName] = useState('');
+  // 'all' edits the shared image settings, a studio id edits that studio's overrides
+  const [imageScope, setImageScope] = useState<'all' | StudioId>('all');
+
+  const handleModelChange = (key: 'strategy' | 'drafting' | 'code', value: string) => {
     onChange({ ...config, [key]: value as GeminiModel });
   };
 
+  const imageSettings = imageScope === 'all' ? config.image : resolveImageSettings(config, imageScope);
+  const scopeOverride = imageScope === 'all' ? undefined : config.studioOverrides?.[imageScope];
+
+  const handleImageChange = (patch: Partial<ImageSettings>) => {
+    // Switching to a model that cannot render the current size falls back to its first size
+    if (patch.model && !supportedSizes(patch.model).includes(patch.size || imageSettings.size)) {
+      patch = { ...patch, size: supportedSizes(patch.model)[0] };
+    }
+    if (imageScope === 'all') {
+      onChange({ ...config, image: { ...config.image, ...patch } });
+    } else {
+      onChange({ ...config, studioOverrides: { ...config.studioOverrides, [imageScope]: { ...scopeOverride, ...patch } } });
+    }
+  };
+
+  const handleClearOverride = () => {
+    if (imageScope === 'all') return;
+    const { [imageScope]: _removed, ...rest } = config.studioOverrides || {};
+    onChange({ ...config, studioOverrides: rest });
+  };
+
+  const parseOptionalNumber = (value: string) => value.trim() === '' ? undefined : Number(value);
+
+  const handleApplyPreset = (name: string) => {
+    setSelectedPreset(name);
+    const preset = presets.find(p => p.name === name);
+    if (preset) onChange(preset.config);
+  };
+
+  const handleSavePreset = () => {
+    const name = presetName.trim();
+    if (!name) return;
+    setPresets(savePreset(name, config));
+    setSelectedPreset(name);
+    setPresetName('');
+  };
+
+  const handleDeletePreset = () => {
+    setPresets(deletePreset(selectedPreset));
+    setSelectedPreset('');
+  };
+
+  const activePreset = presets.find(p => p.name === selectedPreset);
+
   const selectClasses = "w-full appearance-none bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-xl px-4 py-3 text-sm font-medium text-slate-900 dark:text-white focus:outline-none focus:ring-2 ring-violet-500/50 transition-all cursor-pointer pr-10";
   const labelClasses = "block text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-[0.15em] mb-2 ml-1";
 
   return (
     <div className="w-full max-w-[1400px] mx-auto px-4 mb-8 animate-in fade-in slide-in-from-top-4 duration-500">
       <div className="glass-panel rounded-3xl p-6 border border-violet-500/20 bg-white/40 dark:bg-slate-900/40 shadow-xl backdrop-blur-xl">
-        <div className="flex items-center gap-3 mb-6">
-          <div className="p-2 bg-violet-500/10 rounded-lg">
-            <BrainCircuit className="w-5 h-5 text-violet-500" />
+        <div className="flex flex-wrap items-center justify-between gap-4 mb-6">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-violet-500/10 rounded-lg">
+              <BrainCircuit className="w-5 h-5 text-violet-500" />
+            </div>
+            <h2 className="text-lg font-bold text-slate-900 dark:text-white">Gemini Model Preferences</h2>
+          </div>
+
+          {/* Named Presets */}
+          <div className="flex items-center gap-2">
+            <div className="relative group">
+              <select
+                value={selectedPreset}
+                onChange={(e) => handleApplyPreset(e.target.value)}
+                className="appearance-none bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-xl pl-3 pr-8 py-2 text-xs font-bold text-slate-700 dark:text-white focus:outline-none focus:ring-2 ring-violet-500/50 cursor-pointer"
+              >
+                <option value="">Apply preset...</option>
+                {presets.map(p => <option key={p.name} value={p.name}>{p.name}</option>)}
+              </select>
+              <ChevronDown className="absolute right-2 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-slate-400 pointer-events-none" />
+            </div>
+            {activePreset && !activePreset.builtIn && (
+              <button onClick={handleDeletePreset} className="p-2 rounded-xl border border-slate-200 dark:border-white/10 text-slate-400 hover:text-red-500 transition-colors" title="Delete preset">
+                <Trash2 className="w-4 h-4" />
+              </button>
+            )}
+            <input
+              value={presetName}
+              onChange={(e) => setPresetName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleSavePreset()}
+              placeholder="Preset name"
+              className="w-32 bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/10 rounded-xl px-3 py-2 text-xs text-slate-700 dark:text-white focus:outline-none focus:ring-2 ring-violet-500/50"
+            />
+            <button
+              onClick={handleSavePreset}
+              disabled={!presetName.trim()}
+              className="p-2 rounded-xl border border-slate-200 dark:border-white/10 text-slate-400 hover:text-violet-500 transition-colors disabled:opacity-40"
+              title="Save current settings as a preset"
+            >
+              <Bookmark className="w-4 h-4" />
+            </button>
           </div>
-          <h2 className="text-lg font-bold text-slate-900 dark:text-white">Gemini Model Preferences</h2>
         </div>
 
-        <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
           {/* Strategy Model */}
           <div className="relative group">
             <label className={labelClasses}>Default Strategy</label>
@@ -79,6 +170,111 @@ const ModelPreferences: React.FC<ModelPreferencesProps> = ({ config, onChange })
               <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none group-hover:text-violet-500 transition-colors" />
             </div>
           </div>
+
+          {/* Generation Provider */}
+          <div className="relative group">
+            <label className={labelClasses}>Provider</label>
+            <div className="relative">
+              <select 
+                value={providerId}
+                onChange={(e) => onProviderChange(e.target.value as ProviderId)}
+                className={selectClasses}
+              >
+                <option value="proxy">Gemini (Server Key)</option>
+                <option value="gemini">Gemini (Your Key)</option>
+                <option value="fixture">Offline Fixtures</option>
+              </select>
+              <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none group-hover:text-violet-500 transition-colors" />
+            </div>
+          </div>
+        </div>
+
+        <div className="mt-6 pt-6 border-t border-slate-200 dark:border-white/5">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <div className="flex items-center gap-2 text-[10px] font-bold text-slate-400 dark:text-slate-500 uppercase tracking-[0.15em]">
+              <ImageIcon className="w-4 h-4 text-violet-500" /> Image Generation
+            </div>
+            <div className="flex items-center gap-2">
+              <div className="flex p-1 bg-slate-100 dark:bg-slate-950 rounded-xl border border-slate-200 dark:border-white/5 overflow-x-auto">
+                {(['all', ...Object.keys(STUDIO_LABELS)] as ('all' | StudioId)[]).map(scope => (
+                  <button
+                    key={scope}
+                    onClick={() => setImageScope(scope)}
+                    className={`px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase transition-all whitespace-nowrap ${imageScope === scope ? 'bg-violet-500/10 text-violet-500' : 'text-slate-400'}`}
+                  >
+                    {scope === 'all' ? 'All Studios' : STUDIO_LABELS[scope]}
+                    {scope !== 'all' && config.studioOverrides?.[scope] && <span className="ml-1 text-amber-500">*</span>}
+                  </button>
+                ))}
+              </div>
+              {scopeOverride && (
+                <button onClick={handleClearOverride} className="p-2 rounded-xl border border-slate-200 dark:border-white/10 text-slate-400 hover:text-red-500 transition-colors" title="Use the shared settings for this studio">
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-6">
+            {/* Image Model */}
+            <div className="relative group">
+              <label className={labelClasses}>Image Model</label>
+              <div className="relative">
+                <select
+                  value={imageSettings.model}
+                  onChange={(e) => handleImageChange({ model: e.target.value as ImageModel })}
+                  className={selectClasses}
+                >
+                  {IMAGE_MODELS.map(m => <option key={m.id} value={m.id}>{m.label}</option>)}
+                </select>
+                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none group-hover:text-violet-500 transition-colors" />
+              </div>
+            </div>
+
+            {/* Output Size */}
+            <div className="relative group">
+              <label className={labelClasses}>Output Size</label>
+              <div className="relative">
+                <select
+                  value={imageSettings.size}
+                  onChange={(e) => handleImageChange({ size: e.target.value as ImageSize })}
+                  disabled={supportedSizes(imageSettings.model).length < 2}
+                  className={`${selectClasses} disabled:opacity-50 disabled:cursor-not-allowed`}
+                >
+                  {supportedSizes(imageSettings.model).map(size => <option key={size} value={size}>{size}</option>)}
+                </select>
+                <ChevronDown className="absolute right-3 top-1/2 -translate-y-1/2 w-4 h-4 text-slate-400 pointer-events-none group-hover:text-violet-500 transition-colors" />
+              </div>
+            </div>
+
+            {/* Temperature */}
+            <div>
+              <label className={labelClasses}>Temperature</label>
+              <input
+                type="number"
+                min={0}
+                max={2}
+                step={0.1}
+                value={imageSettings.temperature ?? ''}
+                onChange={(e) => handleImageChange({ temperature: parseOptionalNumber(e.target.value) })}
+                placeholder="Model default"
+                className={selectClasses}
+              />
+            </div>
+
+            {/* Seed */}
+            <div>
+              <label className={labelClasses}>Seed</label>
+              <input
+                type="number"
+                step={1}
+                value={imageSettings.seed ?? ''}
+                onChange={(e) => handleImageChange({ seed: parseOptionalNumber(e.target.value) })}
+                placeholder="Random"
+                className={selectClasses}
+              />
+            </div>
+          </div>
         </div>
       </div>
     </div>
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { X, FileCode2, Save, RotateCcw, Eye, Columns2, AlertCircle, FolderPlus } from 'lucide-react';
+import {
+  DEFAULT_TEMPLATES,
+  TEMPLATE_IDS,
+  PromptTemplateId,
+  fillTemplate,
+  formatTemplateVersion,
+  getActiveWorkspace,
+  getOverride,
+  listWorkspaces,
+  resetOverride,
+  saveOverride,
+  setActiveWorkspace,
+  unknownVariables
+} from '../services/promptTemplates';
+
+interface PromptTemplateManagerProps {
+  onClose: () => void;
+}
+
+const PromptTemplateManager: React.FC<PromptTemplateManagerProps> = ({ onClose }) => {
+  const [workspace, setWorkspace] = useState(getActiveWorkspace);
+  const [workspaces, setWorkspaces] = useState(listWorkspaces);
+  const [newWorkspace, setNewWorkspace] = useState('');
+  const [selectedId, setSelectedId] = useState<PromptTemplateId>(TEMPLATE_IDS[0]);
+  const [body, setBody] = useState('');
+  const [compare, setCompare] = useState(false);
+  // Bumped after every save/reset so override badges re-read storage
+  const [revision, setRevision] = useState(0);
+
+  const template = DEFAULT_TEMPLATES[selectedId];
+  const override = getOverride(selectedId, workspace);
+
+  useEffect(() => {
+    setBody(getOverride(selectedId, workspace)?.body ?? DEFAULT_TEMPLATES[selectedId].body);
+  }, [selectedId, workspace, revision]);
+
+  const switchWorkspace = (name: string) => {
+    setActiveWorkspace(name);
+    setWorkspace(name);
+  };
+
+  const handleCreateWorkspace = () => {
+    const name = newWorkspace.trim().toLowerCase().replace(/[^a-z0-9-]+/g, '-');
+    if (!name) return;
+    if (!workspaces.includes(name)) setWorkspaces([...workspaces, name]);
+    switchWorkspace(name);
+    setNewWorkspace('');
+  };
+
+  const handleSave = () => {
+    saveOverride(selectedId, body, workspace);
+    setRevision(r => r + 1);
+  };
+
+  const handleReset = () => {
+    resetOverride(selectedId, workspace);
+    setRevision(r => r + 1);
+  };
+
+  const unknown = unknownVariables(selectedId, body);
+  const dirty = body !== (override?.body ?? template.body);
+  const sample = template.sample as Record<string, string>;
+
+  return (
+    <div className="fixed inset-0 z-[10000] flex items-center justify-center bg-slate-950/95 backdrop-blur-xl p-4">
+      <div className="w-full max-w-6xl max-h-[92vh] flex flex-col relative overflow-hidden glass-panel rounded-3xl border border-violet-500/30 shadow-[0_0_50px_rgba(139,92,246,0.1)] animate-in fade-in zoom-in-95 duration-300">
+        <div className="flex items-center justify-between gap-4 px-8 py-5 border-b border-white/5">
+          <div className="flex items-center gap-3">
+            <div className="p-2 bg-violet-500/10 rounded-lg">
+              <FileCode2 className="w-5 h-5 text-violet-400" />
+            </div>
+            <div>
+              <h2 className="text-lg font-bold text-white">Prompt Templates</h2>
+              <p className="text-[11px] text-slate-500">Overrides apply to the selected workspace only. Each save is a new revision.</p>
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <select
+              value={workspace}
+              onChange={(e) => switchWorkspace(e.target.value)}
+              className="bg-slate-900 border border-white/10 rounded-xl px-3 py-2 text-xs font-bold text-white outline-none focus:ring-1 ring-violet-500"
+            >
+              {workspaces.map(w => <option key={w} value={w}>{w}</option>)}
+            </select>
+            <input
+              value={newWorkspace}
+              onChange={(e) => setNewWorkspace(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreateWorkspace()}
+              placeholder="new-workspace"
+              className="w-36 bg-slate-900 border border-white/10 rounded-xl px-3 py-2 text-xs text-white outline-none focus:ring-1 ring-violet-500"
+            />
+            <button onClick={handleCreateWorkspace} className="p-2 rounded-xl border border-white/10 text-slate-400 hover:text-violet-400 transition-colors" title="Create workspace">
+              <FolderPlus className="w-4 h-4" />
+            </button>
+            <button onClick={onClose} className="p-2 text-slate-400 hover:text-white transition-colors ml-2">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="flex-1 grid grid-cols-1 md:grid-cols-[260px_1fr] min-h-0">
+          <div className="border-r border-white/5 overflow-y-auto p-3 space-y-1">
+            {TEMPLATE_IDS.map(id => {
+              const o = getOverride(id, workspace);
+              return (
+                <button
+                  key={`${id}-${revision}`}
+                  onClick={() => setSelectedId(id)}
+                  className={`w-full text-left px-3 py-2.5 rounded-xl transition-colors ${selectedId === id ? 'bg-violet-500/10 border border-violet-500/20' : 'hover:bg-white/5 border border-transparent'}`}
+                >
+                  <div className="text-xs font-bold text-slate-200 truncate">{DEFAULT_TEMPLATES[id].title}</div>
+                  <div className="flex items-center gap-2 mt-0.5">
+                    <span className="text-[10px] font-mono text-slate-500 truncate">{formatTemplateVersion(id, o, workspace)}</span>
+                    {o && <span className="text-[9px] font-bold uppercase tracking-wider text-amber-400">override</span>}
+                  </div>
+                </button>
+              );
+            })}
+          </div>
+
+          <div className="overflow-y-auto p-6 space-y-5">
+            <div className="flex flex-wrap gap-2">
+              {Object.entries(template.variables as Record<string, string>).map(([name, description]) => (
+                <span key={name} title={description} className="px-2 py-1 rounded-lg bg-slate-900 border border-white/10 text-[10px] font-mono text-violet-300">{`{{${name}}}`}</span>
+              ))}
+              {Object.keys(template.variables).length === 0 && <span className="text-[10px] text-slate-500 font-mono">No variables</span>}
+            </div>
+
+            <textarea
+              value={body}
+              onChange={(e) => setBody(e.target.value)}
+              spellCheck={false}
+              rows={10}
+              className="w-full bg-slate-950 border border-white/10 rounded-2xl p-4 text-xs leading-relaxed text-slate-200 outline-none focus:ring-1 ring-violet-500 resize-y font-mono"
+            />
+
+            {unknown.length > 0 && (
+              <div className="flex items-start gap-2 p-3 rounded-xl bg-red-900/20 border border-red-500/20 text-[11px] text-red-400 font-mono">
+                <AlertCircle className="w-4 h-4 shrink-0" />
+                <span>Unknown variables will be sent literally: {unknown.map(v => `{{${v}}}`).join(', ')}</span>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between gap-3">
+              <button
+                onClick={() => setCompare(!compare)}
+                className={`flex items-center gap-2 px-3 py-2 rounded-xl border text-[10px] font-bold uppercase tracking-widest transition-colors ${compare ? 'border-violet-500/30 text-violet-400' : 'border-white/10 text-slate-400 hover:text-slate-200'}`}
+              >
+                <Columns2 className="w-3.5 h-3.5" /> Compare with v{template.version}
+              </button>
+              <div className="flex items-center gap-2">
+                <button
+                  onClick={handleReset}
+                  disabled={!override}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl border border-white/10 text-slate-400 hover:text-red-400 hover:border-red-500/30 text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-40"
+                >
+                  <RotateCcw className="w-3.5 h-3.5" /> Reset to built-in
+                </button>
+                <button
+                  onClick={handleSave}
+                  disabled={!dirty}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl bg-violet-600 hover:bg-violet-500 text-white text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-40"
+                >
+                  <Save className="w-3.5 h-3.5" /> Save revision {(override?.revision || 0) + 1}
+                </button>
+              </div>
+            </div>
+
+            <div className={`grid gap-4 ${compare ? 'md:grid-cols-2' : ''}`}>
+              <div className="space-y-2">
+                <div className="flex items-center gap-2 text-[10px] font-bold text-slate-500 uppercase tracking-widest">
+                  <Eye className="w-3.5 h-3.5" /> Preview{dirty ? ' (unsaved)' : ''}
+                </div>
+                <pre className="p-4 rounded-2xl bg-slate-900/60 border border-white/5 text-[11px] text-slate-300 whitespace-pre-wrap break-words font-mono leading-relaxed">{fillTemplate(body, sample)}</pre>
+              </div>
+              {compare && (
+                <div className="space-y-2">
+                  <div className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{formatTemplateVersion(selectedId)}</div>
+                  <pre className="p-4 rounded-2xl bg-slate-900/60 border border-white/5 text-[11px] text-slate-400 whitespace-pre-wrap break-words font-mono leading-relaxed">{fillTemplate(template.body, sample)}</pre>
+                </div>
+              )}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateManager;
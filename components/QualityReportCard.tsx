@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { ShieldCheck, AlertTriangle, RefreshCcw, ChevronDown, ChevronUp, SpellCheck, FileQuestion, Hash } from 'lucide-react';
+import { QualityIssue, QualityReport } from '../types';
+import { describeIssue } from '../services/verification';
+
+interface QualityReportCardProps {
+  report: QualityReport;
+  accent: 'emerald' | 'indigo';
+  onRegenerate?: () => void;
+  regenerating?: boolean;
+}
+
+const ACCENTS = {
+  emerald: { panel: 'bg-emerald-500/5 border-emerald-500/10', text: 'text-emerald-600', button: 'bg-emerald-500 hover:bg-emerald-600' },
+  indigo: { panel: 'bg-indigo-500/5 border-indigo-500/10', text: 'text-indigo-500', button: 'bg-indigo-600 hover:bg-indigo-700' }
+};
+
+const ISSUE_ICONS: Record<QualityIssue['kind'], React.ElementType> = {
+  misspelling: SpellCheck,
+  missing_text: FileQuestion,
+  invented_number: Hash
+};
+
+const QualityReportCard: React.FC<QualityReportCardProps> = ({ report, accent, onRegenerate, regenerating }) => {
+  const theme = ACCENTS[accent];
+  const [showOcr, setShowOcr] = useState(false);
+  const passed = report.issues.length === 0;
+  const scoreColor = report.score >= 85 ? 'text-emerald-500' : report.score >= 60 ? 'text-amber-500' : 'text-red-500';
+
+  return (
+    <div className={`rounded-3xl p-6 border ${theme.panel}`}>
+      <div className="flex items-center justify-between gap-4 mb-4">
+        <h4 className={`text-[10px] font-bold uppercase tracking-widest flex items-center gap-2 ${theme.text}`}>
+          {passed ? <ShieldCheck className="w-4 h-4" /> : <AlertTriangle className="w-4 h-4" />} Text Verification
+        </h4>
+        <span className={`text-lg font-bold font-mono ${scoreColor}`}>{report.score}<span className="text-[10px] text-slate-400">/100</span></span>
+      </div>
+
+      {passed ? (
+        <p className="text-xs text-slate-600 dark:text-slate-400">Every label and number read back from the image matches the spec.</p>
+      ) : (
+        <ul className="space-y-2">
+          {report.issues.map((issue, i) => {
+            const Icon = ISSUE_ICONS[issue.kind];
+            return (
+              <li key={i} className="flex items-start gap-2 text-xs text-slate-600 dark:text-slate-300">
+                <Icon className="w-3.5 h-3.5 mt-0.5 shrink-0 text-amber-500" />
+                <span>{describeIssue(issue)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      <div className="flex items-center justify-between gap-3 mt-5">
+        <button
+          onClick={() => setShowOcr(!showOcr)}
+          className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-slate-600 dark:hover:text-slate-200 transition-colors"
+        >
+          {showOcr ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />} Text read from image
+        </button>
+        {!passed && onRegenerate && (
+          <button
+            onClick={onRegenerate}
+            disabled={regenerating}
+            className={`flex items-center gap-2 px-4 py-2 rounded-xl text-white text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-50 ${theme.button}`}
+          >
+            <RefreshCcw className={`w-3.5 h-3.5 ${regenerating ? 'animate-spin' : ''}`} /> Regenerate fixing these issues
+          </button>
+        )}
+      </div>
+
+      {showOcr && (
+        <pre className="mt-3 p-4 rounded-2xl bg-slate-50 dark:bg-black/40 border border-slate-200 dark:border-white/5 text-[11px] text-slate-500 whitespace-pre-wrap break-words font-mono leading-relaxed">{report.ocrText || 'No text detected'}</pre>
+      )}
+    </div>
+  );
+};
+
+export default QualityReportCard;
@@ -0,0 +1,145 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { MessageSquare, Send, Loader2, Undo2, X, ArrowRight, XCircle } from 'lucide-react';
+import { InfographicRevision } from '../types';
+import { findVersion } from '../services/revisions';
+
+interface RefinementChatProps {
+  versions: InfographicRevision[];
+  activeVersion: number;
+  accent: 'emerald' | 'indigo';
+  /** Stage label while a refinement runs; empty when idle. */
+  status: string;
+  onSend: (instruction: string) => void;
+  onRevert: (version: number) => void;
+  onCancel: () => void;
+}
+
+const ACCENTS = {
+  emerald: { panel: 'bg-emerald-500/5 border-emerald-500/10', text: 'text-emerald-600', button: 'bg-emerald-500 hover:bg-emerald-600', ring: 'ring-emerald-500', bubble: 'bg-emerald-500/10 text-emerald-900 dark:text-emerald-100' },
+  indigo: { panel: 'bg-indigo-500/5 border-indigo-500/10', text: 'text-indigo-500', button: 'bg-indigo-600 hover:bg-indigo-700', ring: 'ring-indigo-500', bubble: 'bg-indigo-500/10 text-indigo-900 dark:text-indigo-100' }
+};
+
+const EXAMPLES = ['Make the headline shorter', 'Swap to a blue palette', 'Use larger icons'];
+
+/**
+ * Chat under a result: each message becomes a new numbered version rendered
+ * from the active one. Any earlier version can be compared side by side with
+ * the active one and restored.
+ */
+const RefinementChat: React.FC<RefinementChatProps> = ({ versions, activeVersion, accent, status, onSend, onRevert, onCancel }) => {
+  const theme = ACCENTS[accent];
+  const [instruction, setInstruction] = useState('');
+  const [compareWith, setCompareWith] = useState<number | null>(null);
+  const busy = !!status;
+  const active = findVersion(versions, activeVersion);
+  const compared = compareWith !== null ? findVersion(versions, compareWith) : undefined;
+
+  const handleSubmit = (e?: React.FormEvent) => {
+    if (e) e.preventDefault();
+    const text = instruction.trim();
+    if (!text || busy) return;
+    onSend(text);
+    setInstruction('');
+  };
+
+  const handleRevert = (version: number) => {
+    onRevert(version);
+    setCompareWith(null);
+  };
+
+  return (
+    <div className={`rounded-3xl p-6 border space-y-5 ${theme.panel}`}>
+      <div className="flex items-center justify-between gap-4">
+        <h4 className={`text-[10px] font-bold uppercase tracking-widest flex items-center gap-2 ${theme.text}`}>
+          <MessageSquare className="w-4 h-4" /> Refine
+        </h4>
+        <div className="flex items-center gap-1.5 overflow-x-auto">
+          {versions.map(v => (
+            <button
+              key={v.version}
+              onClick={() => setCompareWith(v.version === activeVersion || v.version === compareWith ? null : v.version)}
+              className={`px-2.5 py-1 rounded-lg text-[10px] font-bold font-mono transition-all ${v.version === activeVersion ? `${theme.button} text-white` : v.version === compareWith ? `ring-1 ${theme.ring} text-slate-700 dark:text-white` : 'text-slate-400 hover:text-slate-700 dark:hover:text-white'}`}
+              title={v.version === activeVersion ? 'Current version' : `Compare v${v.version} with the current version`}
+            >
+              v{v.version}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {compared && active && (
+        <div className="space-y-3 animate-in fade-in duration-300">
+          <div className="grid grid-cols-2 gap-3">
+            {[compared, active].map(v => (
+              <figure key={v.version} className="space-y-1.5">
+                <img src={`data:image/png;base64,${v.imageData}`} alt={`Version ${v.version}`} className="w-full rounded-2xl border border-slate-200 dark:border-white/10" />
+                <figcaption className="text-[10px] font-mono text-slate-500 truncate">
+                  v{v.version}{v.version === activeVersion ? ' (current)' : ''}{v.instruction ? ` · ${v.instruction}` : ' · original'}
+                </figcaption>
+              </figure>
+            ))}
+          </div>
+          <div className="flex items-center justify-end gap-2">
+            <button onClick={() => setCompareWith(null)} className="flex items-center gap-1.5 px-3 py-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-slate-600 dark:hover:text-slate-200">
+              <X className="w-3.5 h-3.5" /> Close
+            </button>
+            <button
+              onClick={() => handleRevert(compared.version)}
+              disabled={busy}
+              className={`flex items-center gap-2 px-4 py-2 rounded-xl text-white text-[10px] font-bold uppercase tracking-widest transition-colors disabled:opacity-50 ${theme.button}`}
+            >
+              <Undo2 className="w-3.5 h-3.5" /> Revert to v{compared.version}
+            </button>
+          </div>
+        </div>
+      )}
+
+      {versions.some(v => v.instruction) && (
+        <ul className="space-y-2 max-h-48 overflow-y-auto">
+          {versions.filter(v => v.instruction).map(v => (
+            <li key={v.version} className="flex items-start justify-between gap-3">
+              <span className={`px-3 py-2 rounded-2xl text-xs ${theme.bubble}`}>{v.instruction}</span>
+              <span className="shrink-0 pt-2 text-[10px] font-mono text-slate-400">v{v.basedOn} <ArrowRight className="w-3 h-3 inline" /> v{v.version}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {busy ? (
+        <div className="flex items-center justify-between gap-3 text-[10px] font-bold uppercase tracking-widest text-slate-500">
+          <span className="flex items-center gap-2"><Loader2 className="w-3.5 h-3.5 animate-spin" /> {status}</span>
+          <button onClick={onCancel} className="flex items-center gap-1.5 hover:text-red-500 transition-colors"><XCircle className="w-3.5 h-3.5" /> Cancel</button>
+        </div>
+      ) : (
+        <form onSubmit={handleSubmit} className="space-y-2">
+          <div className="flex items-center gap-2 bg-white dark:bg-slate-950 rounded-2xl border border-slate-200 dark:border-white/10 p-1.5 pl-4">
+            <input
+              type="text"
+              value={instruction}
+              onChange={(e) => setInstruction(e.target.value)}
+              placeholder={`Describe a change to v${activeVersion}...`}
+              className="flex-1 bg-transparent border-none text-xs text-slate-900 dark:text-white placeholder:text-slate-500 focus:ring-0 outline-none"
+            />
+            <button type="submit" disabled={!instruction.trim()} className={`p-2.5 rounded-xl text-white transition-colors disabled:opacity-40 ${theme.button}`} title="Create a new version">
+              <Send className="w-3.5 h-3.5" />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-1.5">
+            {EXAMPLES.map(example => (
+              <button key={example} type="button" onClick={() => setInstruction(example)} className="px-2.5 py-1 rounded-full border border-slate-200 dark:border-white/10 text-[10px] text-slate-500 hover:text-slate-800 dark:hover:text-white transition-colors">
+                {example}
+              </button>
+            ))}
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default RefinementChat;
@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { Gauge, KeyRound, Plus, Server, Trash2 } from 'lucide-react';
+import {
+  REPO_HOST_KINDS,
+  RepoHost,
+  RepoHostKind,
+  createRepoHost,
+  loadCustomRepoHosts,
+  loadRepoToken,
+  saveCustomRepoHosts,
+  saveRepoToken
+} from '../services/repoProvider';
+import { GithubRateLimit, fetchGithubRateLimit, getGithubRateLimit, githubTokenKind, onGithubRateLimit } from '../services/githubProvider';
+import { isOfflineMode } from '../services/geminiService';
+
+interface RepoAccessProps {
+  /** The host the current repository input points at. */
+  host: RepoHost;
+}
+
+const tokenLabel = (host: RepoHost, token: string) => {
+  switch (host.kind) {
+    case 'github': return githubTokenKind(token) === 'app' ? 'GitHub App token' : 'Personal access token';
+    case 'gitlab': return 'Personal or project access token';
+    case 'bitbucket': return token.includes(':') ? 'App password' : 'Access token';
+    default: return 'Access token';
+  }
+};
+
+const TOKEN_PLACEHOLDERS: Record<RepoHostKind, string> = {
+  github: 'ghp_…, github_pat_… or ghs_…',
+  gitlab: 'glpat-…',
+  bitbucket: 'Access token, or user:app-password',
+  gitea: 'Access token'
+};
+
+const fieldClass = "bg-white dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl px-3 py-2 text-xs font-mono text-slate-900 dark:text-white outline-none focus:ring-1 ring-violet-500";
+
+/**
+ * The token for the current host, a meter of the GitHub calls left in the
+ * current rate-limit window, and the self-hosted instances inputs can point at.
+ */
+const RepoAccess: React.FC<RepoAccessProps> = ({ host }) => {
+  const [token, setToken] = useState<string | null>(() => loadRepoToken(host));
+  const [draft, setDraft] = useState('');
+  const [editing, setEditing] = useState(false);
+  const [rateLimit, setRateLimit] = useState<GithubRateLimit | null>(getGithubRateLimit);
+  const [customHosts, setCustomHosts] = useState<RepoHost[]>(loadCustomRepoHosts);
+  const [showHosts, setShowHosts] = useState(false);
+  const [newHost, setNewHost] = useState<{ kind: RepoHostKind; webUrl: string; apiUrl: string }>({ kind: 'gitlab', webUrl: '', apiUrl: '' });
+
+  useEffect(() => {
+    setToken(loadRepoToken(host));
+    setEditing(false);
+  }, [host.webUrl]);
+
+  useEffect(() => onGithubRateLimit(setRateLimit), []);
+
+  // The budget depends on the token, so read it again whenever the token changes
+  useEffect(() => {
+    if (host.kind !== 'github' || isOfflineMode()) return;
+    const controller = new AbortController();
+    fetchGithubRateLimit(host, controller.signal).catch(() => { });
+    return () => controller.abort();
+  }, [host.webUrl, token]);
+
+  const handleSave = () => {
+    const next = draft.trim() || null;
+    saveRepoToken(host, next);
+    setToken(next);
+    setDraft('');
+    setEditing(false);
+  };
+
+  const handleRemove = () => {
+    saveRepoToken(host, null);
+    setToken(null);
+  };
+
+  const candidateHost = createRepoHost(newHost.kind, newHost.webUrl, newHost.apiUrl);
+
+  const handleAddHost = () => {
+    if (!candidateHost || customHosts.some(h => h.webUrl === candidateHost.webUrl)) return;
+    const next = [...customHosts, candidateHost];
+    saveCustomRepoHosts(next);
+    setCustomHosts(next);
+    setNewHost({ ...newHost, webUrl: '', apiUrl: '' });
+  };
+
+  const handleRemoveHost = (webUrl: string) => {
+    const next = customHosts.filter(h => h.webUrl !== webUrl);
+    saveCustomRepoHosts(next);
+    setCustomHosts(next);
+  };
+
+  const share = rateLimit && rateLimit.limit ? rateLimit.remaining / rateLimit.limit : 1;
+
+  return (
+    <div className="space-y-3">
+      {host.kind === 'github' && rateLimit && (
+        <div className="space-y-1.5 px-1">
+          <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-widest text-slate-400">
+            <span className="flex items-center gap-1.5"><Gauge className="w-3 h-3" /> GitHub calls</span>
+            <span className="font-mono normal-case tracking-normal">
+              {rateLimit.remaining.toLocaleString()} / {rateLimit.limit.toLocaleString()} · resets {rateLimit.resetAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+            </span>
+          </div>
+          <div className="h-1.5 rounded-full bg-slate-200 dark:bg-slate-800 overflow-hidden">
+            <div
+              className={`h-full rounded-full transition-all ${share < 0.1 ? 'bg-red-500' : share < 0.3 ? 'bg-amber-500' : 'bg-violet-500'}`}
+              style={{ width: `${Math.round(share * 100)}%` }}
+            />
+          </div>
+        </div>
+      )}
+
+      {editing ? (
+        <div className="flex items-center gap-2">
+          <input
+            type="password"
+            value={draft}
+            onChange={(e) => setDraft(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleSave()}
+            placeholder={TOKEN_PLACEHOLDERS[host.kind]}
+            autoComplete="off"
+            className={`flex-1 ${fieldClass}`}
+          />
+          <button onClick={handleSave} disabled={!draft.trim()} className="px-3 py-2 rounded-xl bg-violet-500 text-white text-[10px] font-bold uppercase tracking-widest disabled:opacity-40">Save</button>
+          <button onClick={() => setEditing(false)} className="px-2 py-2 text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-slate-200">Cancel</button>
+        </div>
+      ) : token ? (
+        <div className="flex items-center justify-between gap-2 px-1 text-[11px] text-slate-500">
+          <span className="flex items-center gap-1.5"><KeyRound className="w-3 h-3 text-violet-500" /> {host.name}: {tokenLabel(host, token)} ····{token.slice(-4)}</span>
+          <button onClick={handleRemove} className="p-1 text-slate-400 hover:text-red-400 transition-colors" title="Remove token">
+            <Trash2 className="w-3.5 h-3.5" />
+          </button>
+        </div>
+      ) : (
+        <button onClick={() => setEditing(true)} className="flex items-center gap-1.5 px-1 text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-violet-500 transition-colors">
+          <KeyRound className="w-3 h-3" /> Add {host.name} token for private repos
+        </button>
+      )}
+
+      <button onClick={() => setShowHosts(!showHosts)} className="flex items-center gap-1.5 px-1 text-[10px] font-bold uppercase tracking-widest text-slate-400 hover:text-violet-500 transition-colors">
+        <Server className="w-3 h-3" /> Self-hosted instances{customHosts.length > 0 && ` (${customHosts.length})`}
+      </button>
+      {showHosts && (
+        <div className="space-y-2 p-3 rounded-2xl border border-slate-200 dark:border-white/10">
+          {customHosts.map(h => (
+            <div key={h.webUrl} className="flex items-center justify-between gap-2 text-[11px] text-slate-500">
+              <span className="truncate font-mono" title={h.apiUrl}>{REPO_HOST_KINDS.find(k => k.id === h.kind)?.label} · {h.webUrl}</span>
+              <button onClick={() => handleRemoveHost(h.webUrl)} className="p-1 text-slate-400 hover:text-red-400 transition-colors" title="Remove instance">
+                <Trash2 className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          ))}
+          <div className="grid grid-cols-[auto_1fr] gap-2">
+            <select
+              value={newHost.kind}
+              onChange={(e) => setNewHost({ ...newHost, kind: e.target.value as RepoHostKind })}
+              className={fieldClass}
+            >
+              {REPO_HOST_KINDS.map(kind => <option key={kind.id} value={kind.id}>{kind.label}</option>)}
+            </select>
+            <input value={newHost.webUrl} onChange={(e) => setNewHost({ ...newHost, webUrl: e.target.value })} placeholder="https://git.example.com" className={fieldClass} />
+          </div>
+          <div className="flex items-center gap-2">
+            <input
+              value={newHost.apiUrl}
+              onChange={(e) => setNewHost({ ...newHost, apiUrl: e.target.value })}
+              placeholder={candidateHost ? `API: ${candidateHost.apiUrl}` : 'API URL (optional)'}
+              className={`flex-1 ${fieldClass}`}
+            />
+            <button onClick={handleAddHost} disabled={!candidateHost} className="p-2 rounded-xl border border-slate-200 dark:border-white/10 text-slate-400 hover:text-violet-500 disabled:opacity-40" title="Add instance">
+              <Plus className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default RepoAccess;
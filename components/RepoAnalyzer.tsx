@@ -4,11 +4,17 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState, useEffect } from 'react';
-import { fetchRepoFileTree } from '../services/githubService';
-import { generateInfographic, improvePrompt, extractImageMetadata } from '../services/geminiService';
+import React, { useState, useEffect, useRef } from 'react';
+import { fetchRepoFileTree, parseRepoInput, readRepoFile } from '../services/repoService';
+import { DEFAULT_REPO_HOSTS } from '../services/repoProvider';
+import { LocalSource, readDroppedItems, readFolderInput, readZipArchive } from '../services/localSource';
+import { DEFAULT_IMPORT_BUDGET, ImportGraph, SourceReader, buildImportGraph } from '../services/importGraph';
+import { generateInfographic, improvePrompt, extractImageMetadata, renderVariants, MAX_VARIANTS } from '../services/geminiService';
 import { downloadWithMetadata } from '../services/imageService';
-import { RepoFileTree, ViewMode, RepoHistoryItem, ImageMetadata, GeminiModel } from '../types';
+import { findBrandKit, withBrandLogo } from '../services/brandKits';
+import { ServiceError, classifyGeminiError, isCancellation, raceAbort } from '../services/errors';
+import { summarizeTimings } from '../services/progress';
+import { RepoFileTree, RepoSnapshot, ViewMode, RepoHistoryItem, ImageMetadata, GeminiModel, ImageSettings, ProgressEvent, StageTiming, BrandKit } from '../types';
 import { 
   ShieldAlert, 
   Loader2, 
@@ -36,11 +42,18 @@ import {
   Zap,
   MousePointer2,
   Eye,
-  History
+  History,
+  FolderOpen,
+  FileArchive,
+  Network
 } from 'lucide-react';
-import { LoadingState } from './LoadingState';
+import { LoadingState, TimingSummary } from './LoadingState';
+import CandidateGrid from './CandidateGrid';
 import ImageViewer from './ImageViewer';
 import MetadataEditor from './MetadataEditor';
+import ErrorNotice from './ErrorNotice';
+import D3FlowChart from './D3FlowChart';
+import RepoAccess from './RepoAccess';
 
 interface RepoAnalyzerProps {
   onNavigate: (mode: ViewMode, data?: any) => void;
@@ -49,8 +62,12 @@ interface RepoAnalyzerProps {
   hasApiKey: boolean;
   onShowKeyModal: () => void;
   model: GeminiModel;
+  imageSettings: ImageSettings;
+  brandKit: BrandKit | null;
 }
 
+const IMPORT_BUDGETS = [50, DEFAULT_IMPORT_BUDGET, 500];
+
 const FLOW_STYLES = [
     "Modern Data Flow",
     "Hand-Drawn Blueprint",
@@ -84,21 +101,39 @@ const LANGUAGES = [
   { label: "Chinese (China)", value: "Chinese" },
 ];
 
-const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddToHistory, hasApiKey, onShowKeyModal, model }) => {
+const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddToHistory, hasApiKey, onShowKeyModal, model, imageSettings, brandKit }) => {
   const [repoInput, setRepoInput] = useState('');
   const [selectedStyle, setSelectedStyle] = useState(FLOW_STYLES[0]);
   const [selectedLanguage, setSelectedLanguage] = useState(LANGUAGES[0].value);
   const [selectedRatio, setSelectedRatio] = useState(ASPECT_RATIOS[0].value);
   const [customStyle, setCustomStyle] = useState('');
   const [loading, setLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ServiceError | string | null>(null);
+  const [retry3D, setRetry3D] = useState(false);
   const [loadingStage, setLoadingStage] = useState<string>('');
+  const [progressEvents, setProgressEvents] = useState<ProgressEvent[]>([]);
+  const [timings, setTimings] = useState<StageTiming[]>([]);
+  const [variantCount, setVariantCount] = useState(1);
+  const [candidates, setCandidates] = useState<string[]>([]);
+  const [keepRejected, setKeepRejected] = useState(false);
+  const pickResolveRef = useRef<((pick: { index: number; keepRejected: boolean }) => void) | null>(null);
   
   const [infographicData, setInfographicData] = useState<string | null>(null);
   const [infographic3DData, setInfographic3DData] = useState<string | null>(null);
+  // The kits the blueprint and the 3D model were rendered for, so switching kits later does not change their logos
+  const [resultBrandKitIds, setResultBrandKitIds] = useState<{ blueprint?: string; model3D?: string }>({});
   const [generating3D, setGenerating3D] = useState(false);
   const [currentFileTree, setCurrentFileTree] = useState<RepoFileTree[] | null>(null);
   const [currentRepoName, setCurrentRepoName] = useState<string>('');
+  const [currentRef, setCurrentRef] = useState<Omit<RepoSnapshot, 'files'> | null>(null);
+  const [localSource, setLocalSource] = useState<LocalSource | null>(null);
+  const [readingLocal, setReadingLocal] = useState(false);
+  const [dragging, setDragging] = useState(false);
+  // Reads files of the tree on screen, at the analysed commit or from the local copy
+  const [currentReader, setCurrentReader] = useState<SourceReader | null>(null);
+  const [importGraph, setImportGraph] = useState<ImportGraph | null>(null);
+  const [importBudget, setImportBudget] = useState(DEFAULT_IMPORT_BUDGET);
+  const [tracing, setTracing] = useState(false);
   const [show3DMode, setShow3DMode] = useState(false);
   
   const [metadata, setMetadata] = useState<ImageMetadata>({
@@ -111,6 +146,10 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
   });
   
   const [fullScreenImage, setFullScreenImage] = useState<{src: string, alt: string} | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Abort any in-flight generation when leaving the studio
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Load Draft on Mount
   useEffect(() => {
@@ -122,6 +161,8 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
         if (parsed.selectedStyle !== undefined) setSelectedStyle(parsed.selectedStyle);
         if (parsed.selectedLanguage !== undefined) setSelectedLanguage(parsed.selectedLanguage);
         if (parsed.selectedRatio !== undefined) setSelectedRatio(parsed.selectedRatio);
+        if (parsed.variantCount !== undefined) setVariantCount(parsed.variantCount);
+        if (parsed.keepRejected !== undefined) setKeepRejected(parsed.keepRejected);
         if (parsed.customStyle !== undefined) setCustomStyle(parsed.customStyle);
       } catch (e) { console.error("Failed to load repo draft", e); }
     }
@@ -134,57 +175,36 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
       selectedStyle,
       selectedLanguage,
       selectedRatio,
-      customStyle
+      customStyle,
+      variantCount,
+      keepRejected
     };
     localStorage.setItem('l2i_repo_draft', JSON.stringify(draft));
-  }, [repoInput, selectedStyle, selectedLanguage, selectedRatio, customStyle]);
-
-  const parseRepoInput = (input: string): { owner: string, repo: string } | null => {
-    const cleanInput = input.trim().replace(/\/$/, '');
-    try {
-      const url = new URL(cleanInput);
-      if (url.hostname === 'github.com') {
-        const parts = url.pathname.split('/').filter(Boolean);
-        if (parts.length >= 2) return { owner: parts[0], repo: parts[1] };
-      }
-    } catch (e) { }
-    const parts = cleanInput.split('/');
-    if (parts.length === 2 && parts[0] && parts[1]) return { owner: parts[0], repo: parts[1] };
-    return null;
-  };
+  }, [repoInput, selectedStyle, selectedLanguage, selectedRatio, customStyle, variantCount, keepRejected]);
 
-  const addToHistory = (repoName: string, imageData: string, is3D: boolean, style: string) => {
+  const addToHistory = (repoName: string, imageData: string, is3D: boolean, style: string, timings: StageTiming[], rejectedVariants?: string[], resolvedRef?: Omit<RepoSnapshot, 'files'> | null) => {
      const newItem: RepoHistoryItem = {
          id: Date.now().toString(),
          repoName,
          imageData,
          is3D,
          style,
-         date: new Date()
+         date: new Date(),
+         timings,
+         rejectedVariants,
+         brandKitId: brandKit?.id,
+         ...(resolvedRef ? { ref: resolvedRef.ref, commitSha: resolvedRef.commitSha, path: resolvedRef.path || undefined } : {})
      };
      onAddToHistory(newItem);
   };
 
-  const handleApiError = (err: any) => {
-      const errorMessage = typeof err === 'string' ? err : (err.message || JSON.stringify(err));
+  const handleApiError = (err: any, is3D: boolean = false) => {
       console.error("Analysis Error:", err);
-
-      if (errorMessage.includes("Requested entity was not found") || 
-          errorMessage.includes("403") || 
-          errorMessage.includes("PERMISSION_DENIED") ||
-          errorMessage.includes("permission")) {
-          
-          setError("Access Denied: The current API key lacks permissions or billing. You MUST select a key from a paid Google Cloud Project.");
-          onShowKeyModal();
-          return;
-      }
-
-      if (errorMessage.toLowerCase().includes("rate limit")) {
-          setError("GitHub API Rate Limit Exceeded. Please try again in ~60 minutes.");
-          return;
-      }
-
-      setError(errorMessage || 'An unexpected error occurred. Please try again.');
+      // Code host failures arrive already classified; everything else came from Gemini
+      const serviceError = classifyGeminiError(err);
+      setError(serviceError);
+      setRetry3D(is3D);
+      if (serviceError.kind === 'auth' && serviceError.source === 'gemini') onShowKeyModal();
   }
 
   const handleAnalyze = async (e?: React.FormEvent, overrideInput?: string) => {
@@ -196,64 +216,161 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
         return;
     }
 
-    setInfographicData(null);
-    setInfographic3DData(null);
-    setCurrentFileTree(null);
-    setShow3DMode(false);
-
+    // A loaded folder or archive takes the place of the remote input until it is cleared
+    const local = overrideInput ? null : localSource;
     const inputToUse = overrideInput || repoInput;
-    const repoDetails = parseRepoInput(inputToUse);
+    const repoDetails = local ? null : parseRepoInput(inputToUse);
 
-    if (!repoDetails) {
-      setError('Invalid format. Use "owner/repo" or a full GitHub URL.');
+    if (!local && !repoDetails) {
+      setError('Invalid format. Use "owner/repo", "owner/repo@ref" or a repository URL on GitHub, GitLab, Bitbucket or a configured instance.');
       return;
     }
 
-    if (overrideInput) setRepoInput(overrideInput);
+    if (overrideInput) {
+      setRepoInput(overrideInput);
+      setLocalSource(null);
+    }
+
+    const previousResult = { infographicData, infographic3DData, currentFileTree, currentRepoName, currentRef, show3DMode };
+    setInfographicData(null);
+    setInfographic3DData(null);
+    setCurrentFileTree(null);
+    setCurrentRef(null);
+    setShow3DMode(false);
 
     setLoading(true);
-    setCurrentRepoName(repoDetails.repo);
+    setCurrentRepoName(local ? local.name : repoDetails.repo);
+    setProgressEvents([]);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const events: ProgressEvent[] = [];
+    const onProgress = (event: ProgressEvent) => {
+      events.push(event);
+      setProgressEvents([...events]);
+      if (event.type === 'stage_start') setLoadingStage(event.label);
+    };
     
     try {
-      setLoadingStage('CONNECTING TO GITHUB');
-      const fileTree = await fetchRepoFileTree(repoDetails.owner, repoDetails.repo);
+      let fileTree: RepoFileTree[];
+      let resolvedRef: Omit<RepoSnapshot, 'files'> | null = null;
+      if (local) {
+        fileTree = local.files;
+      } else {
+        ({ files: fileTree, ...resolvedRef } = await fetchRepoFileTree(repoDetails, controller.signal, onProgress));
+      }
 
       if (fileTree.length === 0) throw new Error('No relevant code files found.');
-      setCurrentFileTree(fileTree);
 
-      setLoadingStage('ARCHITECTURAL SYNTHESIS');
-      
+      // A subdirectory run is named after the subtree it maps
+      const scopedName = local ? local.name : resolvedRef.path ? `${repoDetails.repo}/${resolvedRef.path}` : repoDetails.repo;
+      setCurrentRepoName(scopedName);
+
       const styleToUse = selectedStyle === 'Custom' ? customStyle : selectedStyle;
 
-      const infographicBase64 = await generateInfographic(repoDetails.repo, fileTree, styleToUse, false, selectedLanguage, selectedRatio, model);
+      const renders = await renderVariants(variantCount, variant =>
+        generateInfographic(scopedName, fileTree, styleToUse, false, selectedLanguage, selectedRatio, model, controller.signal, onProgress, variant, imageSettings, brandKit));
       
-      if (infographicBase64) {
+      if (renders.length > 0) {
+        // With several candidates the run waits here for the user to pick a winner
+        const pick = renders.length > 1
+          ? await raceAbort(new Promise<{ index: number; keepRejected: boolean }>(resolve => {
+              setCandidates(renders);
+              pickResolveRef.current = resolve;
+            }), controller.signal)
+          : { index: 0, keepRejected: false };
+        setCandidates([]);
+        const infographicBase64 = renders[pick.index];
+        const rejectedVariants = pick.keepRejected ? renders.filter((_, i) => i !== pick.index) : undefined;
+        const context = local ? `Local codebase: ${scopedName}` : `${repoDetails.host.name} Repository: ${repoDetails.owner}/${scopedName} at ${resolvedRef.ref}`;
+        const aiMeta = await extractImageMetadata(infographicBase64, 'image/png', context, 'gemini-3-flash-preview', controller.signal, onProgress);
+
+        // Only a run that made it through every stage reaches the history
+        const runTimings = summarizeTimings(events);
+        setCurrentFileTree(fileTree);
+        setCurrentRef(resolvedRef);
+        const commitSha = resolvedRef?.commitSha;
+        setCurrentReader(() => local ? local.readFile : (path: string, signal?: AbortSignal) => readRepoFile(repoDetails, commitSha, path, signal));
+        setImportGraph(null);
         setInfographicData(infographicBase64);
-        addToHistory(repoDetails.repo, infographicBase64, false, styleToUse);
-        
-        setLoadingStage('OPTIMIZING SEO METADATA');
-        const aiMeta = await extractImageMetadata(infographicBase64, 'image/png', `GitHub Repository: ${repoDetails.owner}/${repoDetails.repo}`, 'gemini-3-flash-preview');
-
-        setMetadata({
-            title: aiMeta.title || `${repoDetails.repo} - Architectural Blueprint`,
-            author: repoDetails.owner,
-            description: aiMeta.description || `Visual mapping of ${repoDetails.owner}/${repoDetails.repo} structure.`,
-            keywords: aiMeta.keywords || `github, architecture, ${repoDetails.repo}`,
-            copyright: `© ${new Date().getFullYear()} ${repoDetails.owner}`,
+        setResultBrandKitIds({ blueprint: brandKit?.id });
+        setTimings(runTimings);
+        addToHistory(scopedName, infographicBase64, false, styleToUse, runTimings, rejectedVariants, resolvedRef);
+
+        setMetadata(prev => ({
+            title: aiMeta.title || `${scopedName} - Architectural Blueprint`,
+            author: local ? prev.author : repoDetails.owner,
+            description: aiMeta.description || (local
+                ? `Visual mapping of the ${scopedName} codebase structure.`
+                : `Visual mapping of ${repoDetails.owner}/${scopedName} structure at ${resolvedRef.ref} (${resolvedRef.commitSha.slice(0, 7)}).`),
+            keywords: aiMeta.keywords || `${local ? 'local' : repoDetails.host.kind}, architecture, ${local ? local.name : repoDetails.repo}`,
+            copyright: `© ${new Date().getFullYear()} ${local ? prev.author : repoDetails.owner}`,
             date: new Date().toISOString().slice(0, 16)
-        });
+        }));
       } else {
           throw new Error("Failed to generate blueprint.");
       }
 
     } catch (err: any) {
-      handleApiError(err);
+      if (isCancellation(err)) {
+        setInfographicData(previousResult.infographicData);
+        setInfographic3DData(previousResult.infographic3DData);
+        setCurrentFileTree(previousResult.currentFileTree);
+        setCurrentRepoName(previousResult.currentRepoName);
+        setCurrentRef(previousResult.currentRef);
+        setShow3DMode(previousResult.show3DMode);
+      } else {
+        handleApiError(err);
+      }
     } finally {
+      abortRef.current = null;
+      pickResolveRef.current = null;
+      setCandidates([]);
       setLoading(false);
       setLoadingStage('');
     }
   };
 
+  const handleCancel = () => abortRef.current?.abort();
+
+  const loadLocalSource = async (read: Promise<LocalSource>) => {
+    setError(null);
+    setReadingLocal(true);
+    try {
+      const source = await read;
+      if (source.files.length === 0) throw new Error(`No relevant code files found in ${source.name}.`);
+      setLocalSource(source);
+    } catch (err: any) {
+      console.error("Local source error:", err);
+      setError(err?.message || 'Could not read the dropped files.');
+    } finally {
+      setReadingLocal(false);
+    }
+  };
+
+  const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
+    e.preventDefault();
+    setDragging(false);
+    // The items have to be read before this handler returns
+    loadLocalSource(readDroppedItems(e.dataTransfer.items));
+  };
+
+  const handleFolderPick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = e.target.files;
+    if (files?.length) loadLocalSource(readFolderInput(files));
+    e.target.value = '';
+  };
+
+  const handleZipPick = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (file) loadLocalSource(readZipArchive(file));
+    e.target.value = '';
+  };
+
+  const handlePickCandidate = (index: number) => {
+    pickResolveRef.current?.({ index, keepRejected });
+    pickResolveRef.current = null;
+  };
+
   const handleGenerate3D = async () => {
     if (!currentFileTree || !currentRepoName) return;
     if (!hasApiKey) {
@@ -262,15 +379,22 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
     }
 
     setGenerating3D(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const events: ProgressEvent[] = [];
+    const onProgress = (event: ProgressEvent) => { events.push(event); };
     try {
       const styleToUse = selectedStyle === 'Custom' ? customStyle : selectedStyle;
-      const data = await generateInfographic(currentRepoName, currentFileTree, styleToUse, true, selectedLanguage, selectedRatio, model);
+      const data = await generateInfographic(currentRepoName, currentFileTree, styleToUse, true, selectedLanguage, selectedRatio, model, controller.signal, onProgress, undefined, imageSettings, brandKit);
       if (data) {
+          const aiMeta = await extractImageMetadata(data, 'image/png', `3D Holographic Model of ${currentRepoName} repo`, 'gemini-3-flash-preview', controller.signal, onProgress);
+          const runTimings = summarizeTimings(events);
           setInfographic3DData(data);
+          setResultBrandKitIds(prev => ({ ...prev, model3D: brandKit?.id }));
           setShow3DMode(true);
-          addToHistory(currentRepoName, data, true, styleToUse);
+          setTimings(runTimings);
+          addToHistory(currentRepoName, data, true, styleToUse, runTimings, undefined, currentRef);
           
-          const aiMeta = await extractImageMetadata(data, 'image/png', `3D Holographic Model of ${currentRepoName} repo`, 'gemini-3-flash-preview');
           setMetadata(prev => ({
               ...prev,
               title: aiMeta.title || `${currentRepoName} - 3D Model`,
@@ -279,18 +403,36 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
           }));
       }
     } catch (err: any) {
-      handleApiError(err);
+      if (!isCancellation(err)) handleApiError(err, true);
     } finally {
+      abortRef.current = null;
       setGenerating3D(false);
     }
   };
 
-  const handleDownload = () => {
+  const handleTraceImports = async () => {
+    if (!currentFileTree || !currentReader) return;
+    setTracing(true);
+    setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    try {
+      setImportGraph(await buildImportGraph(currentFileTree, currentReader, importBudget, controller.signal));
+    } catch (err: any) {
+      if (!isCancellation(err)) setError(err instanceof ServiceError ? err : err?.message || 'Could not trace imports.');
+    } finally {
+      abortRef.current = null;
+      setTracing(false);
+    }
+  };
+
+  const handleDownload = async () => {
       const data = show3DMode ? infographic3DData : infographicData;
       if (!data) return;
       const safeTitle = (metadata.title || currentRepoName).replace(/[^a-z0-9]/gi, '_').toLowerCase();
       const filename = `${safeTitle}.png`;
-      downloadWithMetadata(data, metadata, filename);
+      const kitId = show3DMode ? resultBrandKitIds.model3D : resultBrandKitIds.blueprint;
+      downloadWithMetadata(await withBrandLogo(data, findBrandKit(kitId)), metadata, filename);
   };
 
   const currentImg = show3DMode ? infographic3DData : infographicData;
@@ -330,11 +472,56 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
                         <input
                             type="text"
                             value={repoInput}
-                            onChange={(e) => setRepoInput(e.target.value)}
-                            placeholder="owner/repo (e.g. facebook/react)"
+                            onChange={(e) => { setRepoInput(e.target.value); setLocalSource(null); }}
+                            placeholder="owner/repo, owner/repo@ref or a repository URL"
                             className="w-full bg-transparent border-none text-slate-900 dark:text-white placeholder:text-slate-500 focus:ring-0 font-mono text-sm outline-none"
                         />
                     </div>
+                    <RepoAccess host={parseRepoInput(repoInput)?.host || DEFAULT_REPO_HOSTS[0]} />
+                </div>
+
+                {/* Local Codebase */}
+                <div className="space-y-3">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1">Local Codebase</label>
+                    {localSource ? (
+                        <div className="flex items-center justify-between gap-3 bg-violet-500/10 border border-violet-500/30 rounded-2xl px-4 py-3">
+                            <div className="flex items-center gap-3 min-w-0">
+                                <FolderOpen className="w-5 h-5 text-violet-500 shrink-0" />
+                                <div className="min-w-0">
+                                    <p className="text-sm font-mono text-slate-900 dark:text-white truncate">{localSource.name}</p>
+                                    <p className="text-[10px] text-slate-500 font-mono">{localSource.files.length} files{localSource.ignored > 0 && ` • ${localSource.ignored} ${localSource.ignored === 1 ? 'path' : 'paths'} ignored by .gitignore`}</p>
+                                </div>
+                            </div>
+                            <button onClick={() => setLocalSource(null)} className="p-1 text-slate-400 hover:text-red-400 transition-colors" title="Use the remote repository instead">
+                                <X className="w-4 h-4" />
+                            </button>
+                        </div>
+                    ) : (
+                        <div
+                            onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+                            onDragLeave={() => setDragging(false)}
+                            onDrop={handleDrop}
+                            className={`flex flex-col items-center gap-2 border-2 border-dashed rounded-2xl px-4 py-5 text-center transition-all ${dragging ? 'border-violet-500 bg-violet-500/10' : 'border-slate-200 dark:border-white/10'}`}
+                        >
+                            {readingLocal ? (
+                                <Loader2 className="w-5 h-5 text-violet-500 animate-spin" />
+                            ) : (
+                                <>
+                                    <p className="text-[11px] text-slate-500">Drop a folder or .zip here. Files are read in the browser; only the file list is sent to the model.</p>
+                                    <div className="flex items-center gap-4">
+                                        <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-violet-500 cursor-pointer transition-colors">
+                                            <FolderOpen className="w-3.5 h-3.5" /> Folder
+                                            <input type="file" webkitdirectory="" multiple onChange={handleFolderPick} className="hidden" />
+                                        </label>
+                                        <label className="flex items-center gap-1.5 text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-violet-500 cursor-pointer transition-colors">
+                                            <FileArchive className="w-3.5 h-3.5" /> ZIP
+                                            <input type="file" accept=".zip,application/zip" onChange={handleZipPick} className="hidden" />
+                                        </label>
+                                    </div>
+                                </>
+                            )}
+                        </div>
+                    )}
                 </div>
 
                 {/* Quick Samples */}
@@ -390,8 +577,30 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
                     </div>
                  </div>
 
+                 <div className="flex items-center justify-between gap-4 px-1">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">Variants</label>
+                    <select
+                        value={variantCount}
+                        onChange={(e) => setVariantCount(Number(e.target.value))}
+                        className="bg-white dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg py-1.5 px-2 text-[11px] font-bold text-slate-700 dark:text-white outline-none focus:ring-1 ring-violet-500"
+                    >
+                        {Array.from({ length: MAX_VARIANTS }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+                    </select>
+                 </div>
+
+                 <div className="flex items-center justify-between gap-4 px-1">
+                    <label className="text-[10px] font-bold text-slate-400 uppercase tracking-widest" title="Most source files read when tracing imports">Import Budget</label>
+                    <select
+                        value={importBudget}
+                        onChange={(e) => setImportBudget(Number(e.target.value))}
+                        className="bg-white dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-lg py-1.5 px-2 text-[11px] font-bold text-slate-700 dark:text-white outline-none focus:ring-1 ring-violet-500"
+                    >
+                        {IMPORT_BUDGETS.map(n => <option key={n} value={n}>{n} files</option>)}
+                    </select>
+                 </div>
+
                  <button
-                    disabled={loading || !repoInput.trim()}
+                    disabled={loading || readingLocal || (!localSource && !repoInput.trim())}
                     onClick={() => handleAnalyze()}
                     className="w-full py-6 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-[24px] font-bold flex items-center justify-center gap-3 shadow-xl disabled:opacity-50 transition-all hover:scale-[1.01] active:scale-[0.98] group"
                 >
@@ -399,19 +608,26 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
                 </button>
                 
                 {error && (
-                    <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-500/20 rounded-2xl text-[11px] text-red-600 dark:text-red-400 font-mono leading-relaxed animate-in slide-in-from-top-2">
-                        <ShieldAlert className="w-4 h-4 mb-2" />
-                        {error}
-                    </div>
+                    <ErrorNotice 
+                        variant="compact"
+                        error={error} 
+                        onDismiss={() => setError(null)} 
+                        onRetry={() => retry3D ? handleGenerate3D() : handleAnalyze()} 
+                        onSelectKey={onShowKeyModal} 
+                    />
                 )}
             </div>
         </div>
 
         {/* Right: Output Pane */}
         <div className="lg:col-span-8 min-h-[600px] flex flex-col">
-            {loading ? (
+            {loading && candidates.length > 0 ? (
+                <div className="flex-1 flex flex-col glass-panel rounded-[40px] bg-white/80 dark:bg-slate-900/80 border-2 border-dashed border-violet-500/20">
+                     <CandidateGrid candidates={candidates} accent="violet" keepRejected={keepRejected} onKeepRejectedChange={setKeepRejected} onPick={handlePickCandidate} onCancel={handleCancel} />
+                </div>
+            ) : loading ? (
                  <div className="flex-1 flex flex-col items-center justify-center glass-panel rounded-[40px] bg-white/40 dark:bg-slate-900/40 border-2 border-dashed border-violet-500/20">
-                     <LoadingState message={loadingStage} type="repo" />
+                     <LoadingState message={loadingStage} type="repo" events={progressEvents} onCancel={handleCancel} />
                 </div>
             ) : currentImg ? (
                  <div className="flex-1 glass-panel p-8 rounded-[40px] flex flex-col bg-white/80 dark:bg-slate-900/80 border-slate-200 dark:border-white/10 shadow-2xl animate-in zoom-in-95">
@@ -423,9 +639,23 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
                              <div>
                                  <h3 className="text-sm font-bold uppercase tracking-widest text-slate-800 dark:text-white">{currentRepoName}_Export</h3>
                                  <p className="text-[10px] text-slate-500 font-mono">STYLE: {selectedStyle} • RATIO: {selectedRatio}</p>
+                                 {currentRef && (
+                                     <p className="text-[10px] text-slate-500 font-mono" title={currentRef.commitSha}>
+                                         <GitBranch className="inline w-3 h-3 mr-1 text-violet-500" />{currentRef.ref} @ {currentRef.commitSha.slice(0, 7)}{currentRef.path && ` • ${currentRef.path}/`}{currentRef.truncated && ' • PARTIAL TREE'}
+                                     </p>
+                                 )}
                              </div>
                          </div>
                          <div className="flex items-center gap-2">
+                             {currentReader && currentFileTree && !generating3D && (
+                                <button
+                                  onClick={tracing ? handleCancel : handleTraceImports}
+                                  className="px-4 py-2 bg-slate-100 dark:bg-slate-800 text-slate-600 dark:text-slate-300 hover:text-violet-500 rounded-xl font-bold text-xs transition-all flex items-center gap-2 border border-slate-200 dark:border-white/5"
+                                  title={tracing ? 'Cancel' : 'Read the source files and map their imports'}
+                                >
+                                  {tracing ? <Loader2 className="w-4 h-4 animate-spin" /> : <Network className="w-4 h-4" />} Imports
+                                </button>
+                             )}
                              {infographicData && !infographic3DData && !generating3D && (
                                 <button 
                                   onClick={handleGenerate3D}
@@ -460,6 +690,7 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
                              <div className="absolute inset-0 z-20 bg-slate-900/80 backdrop-blur-sm flex items-center justify-center flex-col gap-4">
                                  <Loader2 className="w-10 h-10 text-fuchsia-500 animate-spin" />
                                  <p className="text-white font-mono text-sm animate-pulse tracking-widest">Generating 3D Holographic Matrix...</p>
+                                 <button onClick={handleCancel} className="px-4 py-1.5 rounded-lg border border-white/10 text-slate-300 hover:text-red-400 hover:border-red-500/30 font-mono text-[10px] uppercase tracking-widest transition-colors">Cancel</button>
                              </div>
                          )}
                          <img 
@@ -469,6 +700,34 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
                             onClick={() => setFullScreenImage({src: `data:image/png;base64,${currentImg}`, alt: "Architectural Result"})}
                         />
                     </div>
+                    {timings.length > 0 && <div className="-mt-4"><TimingSummary timings={timings} /></div>}
+                    {importGraph && (
+                        <div className="mt-8 space-y-3">
+                            <div className="flex items-center justify-between gap-4">
+                                <h4 className="flex items-center gap-2 text-[10px] font-bold text-slate-400 uppercase tracking-widest"><Network className="w-3.5 h-3.5 text-violet-500" /> Import Graph</h4>
+                                <p className="text-[10px] text-slate-500 font-mono">
+                                    {importGraph.traced} files traced • {importGraph.graph.links.length} links
+                                    {importGraph.skipped > 0 && ` • ${importGraph.skipped} over budget`}
+                                    {importGraph.failed.length > 0 && ` • ${importGraph.failed.length} unreadable`}
+                                </p>
+                            </div>
+                            {importGraph.graph.nodes.length > 0 ? (
+                                <div className="h-[480px]"><D3FlowChart data={importGraph.graph} /></div>
+                            ) : (
+                                <p className="text-[11px] text-slate-500">No TypeScript, JavaScript, Python, Go, Rust or Java sources to trace.</p>
+                            )}
+                            {importGraph.unresolved.length > 0 && (
+                                <details className="text-[11px] text-slate-500">
+                                    <summary className="cursor-pointer font-bold uppercase tracking-widest text-[10px] text-amber-500">{importGraph.unresolved.length} unresolved imports</summary>
+                                    <ul className="mt-2 max-h-48 overflow-y-auto space-y-1 font-mono">
+                                        {importGraph.unresolved.map((item, i) => (
+                                            <li key={i} className="truncate" title={`${item.file}: ${item.specifier}`}>{item.file} → {item.specifier}</li>
+                                        ))}
+                                    </ul>
+                                </details>
+                            )}
+                        </div>
+                    )}
                     <div className="mt-8 pt-6 border-t border-slate-100 dark:border-white/5">
                         <MetadataEditor initialData={metadata} onChange={setMetadata} />
                     </div>
@@ -538,7 +797,12 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
                         onClick={() => {
                             if (item.is3D) { setInfographic3DData(item.imageData); setInfographicData(null); setShow3DMode(true); }
                             else { setInfographicData(item.imageData); setInfographic3DData(null); setShow3DMode(false); }
+                            setResultBrandKitIds(item.is3D ? { model3D: item.brandKitId } : { blueprint: item.brandKitId });
                             setCurrentRepoName(item.repoName);
+                            setCurrentRef(item.ref && item.commitSha ? { ref: item.ref, commitSha: item.commitSha, path: item.path || '' } : null);
+                            setCurrentReader(null);
+                            setImportGraph(null);
+                            setTimings(item.timings || []);
                         }}
                         className="group bg-white dark:bg-slate-900 border border-slate-200 dark:border-white/5 hover:border-violet-500/50 rounded-[32px] overflow-hidden text-left transition-all hover:shadow-xl hover:bg-slate-50 dark:hover:bg-slate-800 p-2"
                       >
@@ -551,6 +815,9 @@ const RepoAnalyzer: React.FC<RepoAnalyzerProps> = ({ onNavigate, history, onAddT
                           <div className="p-4">
                               <p className="text-xs font-bold text-slate-900 dark:text-white truncate uppercase tracking-tighter">{item.repoName}</p>
                               <p className="text-[10px] text-slate-500 dark:text-slate-400 mt-1 font-mono">{item.style}</p>
+                              {item.ref && item.commitSha && (
+                                  <p className="text-[10px] text-slate-400 mt-0.5 font-mono truncate" title={item.commitSha}>{item.ref} @ {item.commitSha.slice(0, 7)}</p>
+                              )}
                           </div>
                       </button>
                   ))}
@@ -0,0 +1,89 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Layers, Pin, PinOff, ChevronDown, ChevronUp } from 'lucide-react';
+import { SourceChunk, SourceCoverage } from '../types';
+import { MAX_CHUNKS, coveragePercent, measureCoverage, selectChunks } from '../services/chunking';
+
+interface SourceSectionsProps {
+  chunks: SourceChunk[];
+  pinned: number[];
+  onTogglePin: (index: number) => void;
+}
+
+/**
+ * Lists the chunks a long source will be summarised in. Pinned chunks are
+ * always summarised and must appear in the infographic.
+ */
+const SourceSections: React.FC<SourceSectionsProps> = ({ chunks, pinned, onTogglePin }) => {
+  const [open, setOpen] = useState(false);
+  const planned = selectChunks(chunks, pinned);
+  const percent = coveragePercent(measureCoverage(chunks, planned, pinned));
+
+  return (
+    <div className="rounded-2xl border border-slate-200 dark:border-white/10 bg-white dark:bg-slate-950 overflow-hidden">
+      <button
+        onClick={() => setOpen(!open)}
+        className="w-full flex items-center justify-between gap-3 px-4 py-3 text-[10px] font-bold text-slate-400 uppercase tracking-widest hover:text-emerald-500 transition-colors"
+      >
+        <span className="flex items-center gap-2"><Layers className="w-3.5 h-3.5" /> {chunks.length} sections · {pinned.length} pinned</span>
+        <span className="flex items-center gap-2">
+          {planned.length < chunks.length ? `${percent}% will be read` : 'All will be read'}
+          {open ? <ChevronUp className="w-3.5 h-3.5" /> : <ChevronDown className="w-3.5 h-3.5" />}
+        </span>
+      </button>
+      {open && (
+        <ul className="max-h-56 overflow-y-auto border-t border-slate-100 dark:border-white/5 divide-y divide-slate-100 dark:divide-white/5">
+          {chunks.map(chunk => {
+            const isPinned = pinned.includes(chunk.index);
+            const included = planned.some(c => c.index === chunk.index);
+            return (
+              <li key={chunk.index} className="flex items-center gap-3 px-4 py-2">
+                <button
+                  onClick={() => onTogglePin(chunk.index)}
+                  className={`p-1 rounded-lg transition-colors ${isPinned ? 'text-emerald-500 bg-emerald-500/10' : 'text-slate-300 hover:text-emerald-500'}`}
+                  title={isPinned ? 'Unpin section' : 'Pin: this section must appear in the infographic'}
+                >
+                  {isPinned ? <Pin className="w-3.5 h-3.5" /> : <PinOff className="w-3.5 h-3.5" />}
+                </button>
+                <span className={`flex-1 truncate text-xs ${included ? 'text-slate-700 dark:text-slate-200' : 'text-slate-400 line-through'}`}>{chunk.heading}</span>
+                <span className="text-[10px] font-mono text-slate-400">{chunk.text.length.toLocaleString()}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+      {open && chunks.length > MAX_CHUNKS && (
+        <p className="px-4 py-2 text-[10px] text-slate-500 border-t border-slate-100 dark:border-white/5">
+          Only {MAX_CHUNKS} sections are summarised per run, spread across the whole source. Pin the ones that matter.
+        </p>
+      )}
+    </div>
+  );
+};
+
+/** One-line account of how much of the source the finished run read. */
+export const CoverageSummary: React.FC<{ coverage: SourceCoverage }> = ({ coverage }) => {
+  const percent = coveragePercent(coverage);
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px] font-bold uppercase tracking-widest text-slate-400">
+        <span className="flex items-center gap-2"><Layers className="w-3.5 h-3.5" /> Source coverage</span>
+        <span className={percent >= 90 ? 'text-emerald-500' : 'text-amber-500'}>{percent}%</span>
+      </div>
+      <div className="h-1.5 rounded-full bg-slate-200 dark:bg-white/10 overflow-hidden">
+        <div className={`h-full rounded-full ${percent >= 90 ? 'bg-emerald-500' : 'bg-amber-500'}`} style={{ width: `${percent}%` }} />
+      </div>
+      <p className="text-[10px] font-mono text-slate-500">
+        {coverage.coveredChars.toLocaleString()} of {coverage.totalChars.toLocaleString()} characters
+        {coverage.totalChunks > 1 && ` · ${coverage.summarizedChunks.length} of ${coverage.totalChunks} sections summarised`}
+        {coverage.pinnedChunks.length > 0 && ` · ${coverage.pinnedChunks.length} pinned`}
+      </p>
+    </div>
+  );
+};
+
+export default SourceSections;
@@ -0,0 +1,183 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { PenLine, Play, XCircle, Plus, Trash2, Braces, LayoutList, AlertCircle } from 'lucide-react';
+import { InfographicSpec } from '../types';
+import { MAX_SECTIONS, MAX_STATS, validateSpec } from '../services/infographicSpec';
+
+interface SpecEditorProps {
+  spec: InfographicSpec;
+  accent: 'emerald' | 'indigo';
+  onChange: (spec: InfographicSpec) => void;
+  onConfirm: () => void;
+  onCancel: () => void;
+}
+
+const ACCENTS = {
+  emerald: { text: 'text-emerald-500', ring: 'focus:ring-emerald-500', button: 'bg-emerald-500 hover:bg-emerald-600', tab: 'bg-emerald-500/10 text-emerald-500' },
+  indigo: { text: 'text-indigo-500', ring: 'focus:ring-indigo-500', button: 'bg-indigo-600 hover:bg-indigo-700', tab: 'bg-indigo-500/10 text-indigo-500' }
+};
+
+const SpecEditor: React.FC<SpecEditorProps> = ({ spec, accent, onChange, onConfirm, onCancel }) => {
+  const theme = ACCENTS[accent];
+  const [view, setView] = useState<'form' | 'json'>('form');
+  const [jsonText, setJsonText] = useState('');
+  const [jsonErrors, setJsonErrors] = useState<string[]>([]);
+
+  const inputClass = `w-full bg-white dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-xl py-2.5 px-3 text-xs text-slate-700 dark:text-slate-200 outline-none focus:ring-1 ${theme.ring}`;
+  const labelClass = 'text-[10px] font-bold text-slate-400 uppercase tracking-widest ml-1';
+
+  const switchView = (next: 'form' | 'json') => {
+    if (next === 'json') {
+      setJsonText(JSON.stringify(spec, null, 2));
+      setJsonErrors([]);
+    }
+    setView(next);
+  };
+
+  const handleJsonChange = (text: string) => {
+    setJsonText(text);
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch (e: any) {
+      setJsonErrors([`Invalid JSON: ${e.message}`]);
+      return;
+    }
+    const errors = validateSpec(parsed);
+    setJsonErrors(errors);
+    if (errors.length === 0) onChange(parsed as InfographicSpec);
+  };
+
+  const update = (patch: Partial<InfographicSpec>) => onChange({ ...spec, ...patch });
+  const updateItem = <K extends 'sections' | 'stats'>(key: K, index: number, patch: Partial<InfographicSpec[K][number]>) =>
+    update({ [key]: spec[key].map((item, i) => i === index ? { ...item, ...patch } : item) } as Partial<InfographicSpec>);
+  const removeItem = (key: 'sections' | 'stats', index: number) =>
+    update({ [key]: spec[key].filter((_, i) => i !== index) } as Partial<InfographicSpec>);
+
+  const formErrors = validateSpec(spec);
+  const blocked = view === 'json' ? jsonErrors.length > 0 : formErrors.length > 0;
+
+  return (
+    <div className="w-full h-full flex flex-col gap-5 p-8 animate-in fade-in">
+      <div className="flex items-center justify-between gap-4">
+        <div className="flex items-center gap-3">
+          <PenLine className={`w-5 h-5 ${theme.text}`} />
+          <div>
+            <h3 className="text-sm font-bold uppercase tracking-widest text-slate-800 dark:text-white">Review Spec</h3>
+            <p className="text-[11px] text-slate-500">The image prompt is built from exactly these fields. Nothing has been drawn yet.</p>
+          </div>
+        </div>
+        <div className="flex p-1 bg-slate-100 dark:bg-slate-950 rounded-xl border border-slate-200 dark:border-white/5 shrink-0">
+          <button onClick={() => switchView('form')} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase transition-all ${view === 'form' ? theme.tab : 'text-slate-400'}`}>
+            <LayoutList className="w-3.5 h-3.5" /> Form
+          </button>
+          <button onClick={() => switchView('json')} className={`flex items-center gap-1.5 px-3 py-1.5 rounded-lg text-[10px] font-bold uppercase transition-all ${view === 'json' ? theme.tab : 'text-slate-400'}`}>
+            <Braces className="w-3.5 h-3.5" /> JSON
+          </button>
+        </div>
+      </div>
+
+      {view === 'json' ? (
+        <textarea
+          value={jsonText}
+          onChange={(e) => handleJsonChange(e.target.value)}
+          spellCheck={false}
+          className={`flex-1 min-h-[420px] w-full bg-white dark:bg-slate-950 border border-slate-200 dark:border-white/10 rounded-2xl p-5 text-xs leading-relaxed text-slate-700 dark:text-slate-200 outline-none focus:ring-1 ${theme.ring} resize-none font-mono`}
+        />
+      ) : (
+        <div className="flex-1 overflow-y-auto max-h-[520px] space-y-6 pr-1">
+          <div className="grid gap-3">
+            <div className="space-y-1.5">
+              <label className={labelClass}>Title</label>
+              <input value={spec.title} onChange={(e) => update({ title: e.target.value })} className={inputClass} />
+            </div>
+            <div className="space-y-1.5">
+              <label className={labelClass}>Subtitle</label>
+              <input value={spec.subtitle} onChange={(e) => update({ subtitle: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <label className={labelClass}>Sections ({spec.sections.length}/{MAX_SECTIONS})</label>
+            {spec.sections.map((section, i) => (
+              <div key={i} className="p-3 rounded-2xl border border-slate-200 dark:border-white/5 bg-slate-50 dark:bg-white/5 space-y-2">
+                <div className="flex gap-2">
+                  <input value={section.heading} onChange={(e) => updateItem('sections', i, { heading: e.target.value })} placeholder="Heading" className={`${inputClass} font-bold`} />
+                  <input value={section.icon} onChange={(e) => updateItem('sections', i, { icon: e.target.value })} placeholder="Icon / visual" className={`${inputClass} max-w-[40%]`} />
+                  <button onClick={() => removeItem('sections', i)} className="p-2 text-slate-400 hover:text-red-500 transition-colors" title="Remove section"><Trash2 className="w-4 h-4" /></button>
+                </div>
+                <textarea value={section.body} onChange={(e) => updateItem('sections', i, { body: e.target.value })} rows={2} className={`${inputClass} resize-none`} />
+              </div>
+            ))}
+            {spec.sections.length < MAX_SECTIONS && (
+              <button onClick={() => update({ sections: [...spec.sections, { heading: '', body: '', icon: '' }] })} className={`flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest ${theme.text}`}>
+                <Plus className="w-3.5 h-3.5" /> Add section
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-3">
+            <label className={labelClass}>Key Stats ({spec.stats.length}/{MAX_STATS})</label>
+            {spec.stats.map((stat, i) => (
+              <div key={i} className="flex gap-2">
+                <input value={stat.value} onChange={(e) => updateItem('stats', i, { value: e.target.value })} placeholder="Value" className={`${inputClass} max-w-[90px] font-mono font-bold`} />
+                <input value={stat.unit} onChange={(e) => updateItem('stats', i, { unit: e.target.value })} placeholder="Unit" className={`${inputClass} max-w-[80px] font-mono`} />
+                <input value={stat.label} onChange={(e) => updateItem('stats', i, { label: e.target.value })} placeholder="Label" className={inputClass} />
+                <button onClick={() => removeItem('stats', i)} className="p-2 text-slate-400 hover:text-red-500 transition-colors" title="Remove stat"><Trash2 className="w-4 h-4" /></button>
+              </div>
+            ))}
+            {spec.stats.length < MAX_STATS && (
+              <button onClick={() => update({ stats: [...spec.stats, { label: '', value: '', unit: '' }] })} className={`flex items-center gap-1.5 text-[10px] font-bold uppercase tracking-widest ${theme.text}`}>
+                <Plus className="w-3.5 h-3.5" /> Add stat
+              </button>
+            )}
+          </div>
+
+          <div className="space-y-1.5">
+            <label className={labelClass}>Call to Action</label>
+            <input value={spec.callToAction} onChange={(e) => update({ callToAction: e.target.value })} className={inputClass} />
+          </div>
+
+          <div className="space-y-1.5">
+            <label className={labelClass}>Sources (one per line)</label>
+            <textarea
+              value={spec.sources.join('\n')}
+              onChange={(e) => update({ sources: e.target.value.split('\n') })}
+              rows={3}
+              className={`${inputClass} resize-none font-mono`}
+            />
+          </div>
+        </div>
+      )}
+
+      {(view === 'json' ? jsonErrors : formErrors).length > 0 && (
+        <div className="flex items-start gap-2 p-3 rounded-xl bg-red-50 dark:bg-red-900/20 border border-red-500/20 text-[11px] text-red-600 dark:text-red-400 font-mono">
+          <AlertCircle className="w-4 h-4 shrink-0" />
+          <div>{(view === 'json' ? jsonErrors : formErrors).map((err, i) => <div key={i}>{err}</div>)}</div>
+        </div>
+      )}
+
+      <div className="flex items-center justify-end gap-3">
+        <button
+          onClick={onCancel}
+          className="flex items-center gap-2 px-5 py-3 rounded-xl border border-slate-200 dark:border-white/10 text-slate-500 hover:text-red-500 hover:border-red-500/30 transition-colors text-xs font-bold uppercase tracking-widest"
+        >
+          <XCircle className="w-4 h-4" /> Cancel
+        </button>
+        <button
+          onClick={onConfirm}
+          disabled={blocked}
+          className={`flex items-center gap-2 px-6 py-3 rounded-xl text-white shadow-lg transition-colors text-xs font-bold uppercase tracking-widest disabled:opacity-50 ${theme.button}`}
+        >
+          <Play className="w-4 h-4" /> Render Infographic
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default SpecEditor;
@@ -7,6 +7,10 @@
 import React, { useState, useRef, useEffect } from 'react';
 import { processVisionTask, editImageWithGemini } from '../services/geminiService';
 import ImageViewer from './ImageViewer';
+import MaskCanvas from './MaskCanvas';
+import { compositeMaskedEdit } from '../services/imageEditing';
+import ErrorNotice from './ErrorNotice';
+import { ServiceError, classifyGeminiError, isCancellation } from '../services/errors';
 import { 
   ImageIcon, 
   Upload, 
@@ -32,17 +36,19 @@ import {
   Download,
   Eye,
   History,
-  Bird
+  Bird,
+  Brush
 } from 'lucide-react';
-import { GeminiModel } from '../types';
+import { GeminiModel, ImageSettings } from '../types';
 
 interface VisionStudioProps {
   hasApiKey: boolean;
   onShowKeyModal: () => void;
   model: GeminiModel;
+  imageSettings: ImageSettings;
 }
 
-const VisionStudio: React.FC<VisionStudioProps> = ({ hasApiKey, onShowKeyModal, model }) => {
+const VisionStudio: React.FC<VisionStudioProps> = ({ hasApiKey, onShowKeyModal, model, imageSettings }) => {
   const [image, setImage] = useState<{ data: string; mimeType: string } | null>(null);
   const [remixedImage, setRemixedImage] = useState<string | null>(null);
   const [showOriginal, setShowOriginal] = useState(false);
@@ -51,11 +57,19 @@ const VisionStudio: React.FC<VisionStudioProps> = ({ hasApiKey, onShowKeyModal,
   const [result, setResult] = useState<string | null>(null);
   const [loading, setLoading] = useState(false);
   const [remixing, setRemixing] = useState(false);
-  const [error, setError] = useState<string | null>(null);
+  const [error, setError] = useState<ServiceError | string | null>(null);
+  const [lastAction, setLastAction] = useState<(() => void) | null>(null);
   const [suggestions, setSuggestions] = useState<string[]>([]);
   const [fullScreenImage, setFullScreenImage] = useState<{src: string, alt: string} | null>(null);
+  // Painted region (PNG alpha) that remixes are confined to; null edits the whole image
+  const [maskMode, setMaskMode] = useState(false);
+  const [mask, setMask] = useState<string | null>(null);
   
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+
+  // Abort any in-flight request when leaving the studio
+  useEffect(() => () => abortRef.current?.abort(), []);
 
   // Load Draft on Mount
   useEffect(() => {
@@ -102,32 +116,53 @@ const VisionStudio: React.FC<VisionStudioProps> = ({ hasApiKey, onShowKeyModal,
         setShowOriginal(false);
         setSuggestions([]);
         setError(null);
+        setMask(null);
+        setMaskMode(false);
       };
       reader.readAsDataURL(file);
     }
   };
 
+  const handleError = (err: any, retry: () => void) => {
+    console.error(err);
+    const serviceError = classifyGeminiError(err);
+    setError(serviceError);
+    setLastAction(() => retry);
+    if (serviceError.kind === 'auth') onShowKeyModal();
+  };
+
   const handleProcess = async () => {
     if (!image) return;
     if (!hasApiKey) {
       onShowKeyModal();
       return;
     }
+    const previousResult = { result, remixedImage };
     setLoading(true);
     setResult(null);
     setRemixedImage(null);
     setShowOriginal(false);
     setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      const response = await processVisionTask(image.data, image.mimeType, task, query, model);
+      const response = await processVisionTask(image.data, image.mimeType, task, query, model, controller.signal);
       setResult(response);
     } catch (err: any) {
-      setError(err.message || "Failed to process image.");
+      if (isCancellation(err)) {
+        setResult(previousResult.result);
+        setRemixedImage(previousResult.remixedImage);
+      } else {
+        handleError(err, handleProcess);
+      }
     } finally {
+      abortRef.current = null;
       setLoading(false);
     }
   };
 
+  const handleCancel = () => abortRef.current?.abort();
+
   const handleRemix = async (remixPrompt: string) => {
     if (!image) return;
     if (!hasApiKey) {
@@ -136,17 +171,21 @@ const VisionStudio: React.FC<VisionStudioProps> = ({ hasApiKey, onShowKeyModal,
     }
     setRemixing(true);
     setError(null);
+    const controller = new AbortController();
+    abortRef.current = controller;
     try {
-      const editedBase64 = await editImageWithGemini(image.data, image.mimeType, remixPrompt);
+      const editedBase64 = await editImageWithGemini(image.data, image.mimeType, remixPrompt, controller.signal, imageSettings);
       if (editedBase64) {
-        setRemixedImage(editedBase64);
+        setRemixedImage(mask ? await compositeMaskedEdit(image, editedBase64, mask) : editedBase64);
         setShowOriginal(false);
+        setMaskMode(false);
       } else {
         throw new Error("Gemini could not generate a remix for this image.");
       }
     } catch (err: any) {
-      setError(err.message || "Remix failed.");
+      if (!isCancellation(err)) handleError(err, () => handleRemix(remixPrompt));
     } finally {
+      abortRef.current = null;
       setRemixing(false);
     }
   };
@@ -193,6 +232,11 @@ const VisionStudio: React.FC<VisionStudioProps> = ({ hasApiKey, onShowKeyModal,
               <div className="relative w-full h-full flex flex-col items-center justify-center gap-6">
                 <div className="absolute inset-0 bg-amber-500/10 blur-[80px] rounded-full pointer-events-none"></div>
                 
+                {maskMode && !remixing ? (
+                  <div className="relative z-10 w-full">
+                    <MaskCanvas image={image} mask={mask} onChange={setMask} />
+                  </div>
+                ) : (
                 <div className="relative z-10 group/img">
                     <img 
                       src={`data:${image.mimeType};base64,${currentDisplayImage}`} 
@@ -211,15 +255,17 @@ const VisionStudio: React.FC<VisionStudioProps> = ({ hasApiKey, onShowKeyModal,
                         </div>
                     )}
                 </div>
+                )}
 
                 {remixing && (
                   <div className="absolute inset-0 z-30 flex flex-col items-center justify-center gap-3">
                     <Loader2 className="w-10 h-10 text-amber-500 animate-spin" />
                     <p className="text-white font-mono text-[10px] uppercase tracking-widest bg-black/60 px-4 py-2 rounded-full">Regenerating Remix...</p>
+                    <button onClick={handleCancel} className="text-slate-300 hover:text-red-400 font-mono text-[10px] uppercase tracking-widest bg-black/60 px-4 py-1.5 rounded-full transition-colors">Cancel</button>
                   </div>
                 )}
 
-                {remixedImage && !remixing && (
+                {remixedImage && !remixing && !maskMode && (
                     <div className="relative z-20 flex p-1 bg-slate-900/80 backdrop-blur-md rounded-full border border-white/10 shadow-2xl animate-in slide-in-from-bottom-2">
                         <button 
                             onClick={() => setShowOriginal(true)}
@@ -237,12 +283,20 @@ const VisionStudio: React.FC<VisionStudioProps> = ({ hasApiKey, onShowKeyModal,
                 )}
 
                 {!remixing && (
-                    <button 
-                        onClick={() => fileInputRef.current?.click()}
-                        className="text-[10px] font-bold text-slate-500 dark:text-slate-400 hover:text-amber-500 transition-colors uppercase tracking-widest flex items-center gap-2"
-                    >
-                        <RefreshCcw className="w-3 h-3" /> Change source image
-                    </button>
+                    <div className="relative z-20 flex items-center gap-6">
+                        <button 
+                            onClick={() => fileInputRef.current?.click()}
+                            className="text-[10px] font-bold text-slate-500 dark:text-slate-400 hover:text-amber-500 transition-colors uppercase tracking-widest flex items-center gap-2"
+                        >
+                            <RefreshCcw className="w-3 h-3" /> Change source image
+                        </button>
+                        <button 
+                            onClick={() => setMaskMode(!maskMode)}
+                            className={`text-[10px] font-bold uppercase tracking-widest flex items-center gap-2 transition-colors ${maskMode || mask ? 'text-amber-500' : 'text-slate-500 dark:text-slate-400 hover:text-amber-500'}`}
+                        >
+                            <Brush className="w-3 h-3" /> {maskMode ? 'Done masking' : mask ? 'Edit region (active)' : 'Edit region only'}
+                        </button>
+                    </div>
                 )}
               </div>
             ) : (
@@ -300,11 +354,11 @@ const VisionStudio: React.FC<VisionStudioProps> = ({ hasApiKey, onShowKeyModal,
             </div>
 
             <button 
-              disabled={!image || loading}
-              onClick={handleProcess}
+              disabled={!image}
+              onClick={loading ? handleCancel : handleProcess}
               className="w-full py-6 bg-slate-900 dark:bg-white text-white dark:text-slate-900 rounded-2xl font-bold flex items-center justify-center gap-3 shadow-xl disabled:opacity-50 group transition-all active:scale-[0.98]"
             >
-              {loading ? <Loader2 className="w-6 h-6 animate-spin" /> : <>{task === 'prompt' ? 'REVERSE ENGINEER PROMPT' : 'START ANALYSIS'} <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" /></>}
+              {loading ? <><Loader2 className="w-6 h-6 animate-spin" /> CANCEL</> : <>{task === 'prompt' ? 'REVERSE ENGINEER PROMPT' : 'START ANALYSIS'} <ArrowRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" /></>}
             </button>
           </div>
         </div>
@@ -426,11 +480,12 @@ const VisionStudio: React.FC<VisionStudioProps> = ({ hasApiKey, onShowKeyModal,
       </div>
 
       {error && (
-        <div className="p-5 bg-red-50 dark:bg-red-900/20 text-red-600 dark:text-red-400 rounded-3xl flex items-center gap-4 text-sm border border-red-500/20 animate-in slide-in-from-top-4">
-            <ShieldAlert className="w-6 h-6 shrink-0" />
-            <div className="flex-1 font-medium leading-relaxed">{error}</div>
-            <button onClick={() => setError(null)} className="p-2 hover:bg-black/5 rounded-full"><X className="w-5 h-5" /></button>
-        </div>
+        <ErrorNotice 
+            error={error} 
+            onDismiss={() => setError(null)} 
+            onRetry={lastAction || undefined} 
+            onSelectKey={onShowKeyModal} 
+        />
       )}
     </div>
   );
@@ -0,0 +1,173 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Same-origin proxy so the browser can read article pages that do not send CORS headers.
+
+import type { LookupAddress } from 'node:dns';
+import { lookup } from 'node:dns/promises';
+import { BlockList, isIP } from 'node:net';
+import { Agent } from 'undici';
+
+const MAX_BYTES = 2 * 1024 * 1024;
+const TIMEOUT_MS = 10000;
+const MAX_REDIRECTS = 5;
+const HTML_TYPES = /text\/html|application\/xhtml\+xml/i;
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+// Names that only mean something inside the server's own network
+const PRIVATE_NAME = /^(localhost|.*\.localhost|.*\.internal|.*\.local)$/i;
+
+// Loopback, private, link-local, shared, multicast and reserved ranges; the proxy must not become a way into the server's own network.
+// IPv4-mapped and NAT64 IPv6 addresses are refused outright rather than unwrapped.
+// One list per family: a BlockList also matches IPv4 addresses against IPv4-mapped IPv6 rules.
+const PRIVATE_IPV4 = new BlockList();
+for (const [network, prefix] of [['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4]] as const) {
+  PRIVATE_IPV4.addSubnet(network, prefix, 'ipv4');
+}
+const PRIVATE_IPV6 = new BlockList();
+for (const [network, prefix] of [['::', 127], ['::ffff:0:0', 96], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]] as const) {
+  PRIVATE_IPV6.addSubnet(network, prefix, 'ipv6');
+}
+
+export const isPrivateAddress = (address: string): boolean => {
+  const family = isIP(address);
+  if (family === 4) return PRIVATE_IPV4.check(address, 'ipv4');
+  return family !== 6 || PRIVATE_IPV6.check(address, 'ipv6');
+};
+
+/**
+ * Resolves a host and returns its addresses, or a response refusing it when
+ * it is, or resolves to, a non-public address. Every address is checked,
+ * since the connection may use any of them.
+ */
+async function checkHost(hostname: string): Promise<LookupAddress[] | Response> {
+  const host = hostname.replace(/^\[|\]$/g, '');
+  if (PRIVATE_NAME.test(host)) return fail(403, 'Private and local addresses cannot be fetched.');
+  let addresses: LookupAddress[];
+  try {
+    addresses = isIP(host) ? [{ address: host, family: isIP(host) }] : await lookup(host, { all: true, verbatim: true });
+  } catch (e) {
+    return fail(502, 'Could not reach the page.');
+  }
+  if (!addresses.length || addresses.some(entry => isPrivateAddress(entry.address))) return fail(403, 'Private and local addresses cannot be fetched.');
+  return addresses;
+}
+
+/**
+ * A connection pool that connects to `addresses` instead of resolving the
+ * name again, so a DNS answer that changes after the check cannot point the
+ * request somewhere else. TLS still verifies the certificate for the name.
+ */
+const pinnedAgent = (addresses: LookupAddress[]) =>
+  new Agent({
+    connect: {
+      lookup: (_hostname: string, options: { all?: boolean }, callback: (...args: any[]) => void) => {
+        if (options?.all) callback(null, addresses);
+        else callback(null, addresses[0].address, addresses[0].family);
+      }
+    }
+  });
+
+const fail = (status: number, message: string) =>
+  new Response(message, {
+    status,
+    headers: {
+      "Content-Type": "text/plain"
+    }
+  });
+
+export async function GET(request: Request) {
+  const target = new URL(request.url).searchParams.get('url');
+  let url: URL;
+  try {
+    url = new URL(target || '');
+  } catch (e) {
+    return fail(400, 'Missing or invalid url parameter.');
+  }
+
+  // Stops the upstream request when the client disconnects, as well as on timeout
+  const signal = AbortSignal.any([request.signal, AbortSignal.timeout(TIMEOUT_MS)]);
+  const agents: Agent[] = [];
+  try {
+    return await fetchChecked(url, signal, agents);
+  } catch (e: any) {
+    if (e?.name === 'TimeoutError') return fail(504, 'The page took too long to respond.');
+    if (request.signal.aborted) return fail(499, 'The request was cancelled.');
+    return fail(502, 'Could not reach the page.');
+  } finally {
+    agents.forEach(agent => void agent.close());
+  }
+}
+
+async function fetchChecked(url: URL, signal: AbortSignal, agents: Agent[]): Promise<Response> {
+  // Redirects are followed by hand so every hop is checked before it is requested
+  let upstream: Response;
+  for (let hop = 0; ; hop++) {
+    if (url.protocol !== 'http:' && url.protocol !== 'https:') return fail(400, 'Only http and https URLs can be fetched.');
+    const addresses = await checkHost(url.hostname);
+    if (addresses instanceof Response) return addresses;
+
+    const agent = pinnedAgent(addresses);
+    agents.push(agent);
+    upstream = await fetch(url, {
+      redirect: 'manual',
+      signal,
+      // Node's fetch takes an undici dispatcher; the DOM RequestInit type does not list it
+      dispatcher: agent,
+      headers: {
+        "Accept": "text/html,application/xhtml+xml",
+        "User-Agent": "Link2Infographic/1.0 (+https://link2infographic-92345457269.us-west1.run.app)"
+      }
+    } as RequestInit);
+
+    const location = upstream.headers.get('Location');
+    if (!REDIRECT_STATUSES.includes(upstream.status) || !location) break;
+    await upstream.body?.cancel();
+    if (hop === MAX_REDIRECTS) return fail(502, 'The page redirected too many times.');
+    try {
+      url = new URL(location, url);
+    } catch (e) {
+      return fail(502, 'The page redirected to an invalid URL.');
+    }
+  }
+
+  const finalUrl = url;
+  if (!upstream.ok) return fail(upstream.status >= 500 ? 502 : upstream.status, `The page responded with status ${upstream.status}.`);
+
+  const contentType = upstream.headers.get('Content-Type') || '';
+  if (!HTML_TYPES.test(contentType)) return fail(415, 'The URL does not point to an HTML page.');
+  if (Number(upstream.headers.get('Content-Length') || 0) > MAX_BYTES) return fail(413, 'The page is too large to import.');
+
+  // Content-Length can be missing or wrong, so the body is capped while it streams
+  const reader = upstream.body?.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  while (reader) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > MAX_BYTES) {
+      await reader.cancel();
+      return fail(413, 'The page is too large to import.');
+    }
+    chunks.push(value);
+  }
+
+  const charset = /charset=([\w-]+)/i.exec(contentType)?.[1] || 'utf-8';
+  let html: string;
+  try {
+    html = new TextDecoder(charset).decode(Buffer.concat(chunks));
+  } catch (e) {
+    html = new TextDecoder().decode(Buffer.concat(chunks));
+  }
+
+  return new Response(html, {
+    headers: {
+      "Content-Type": "text/html; charset=utf-8",
+      "Cache-Control": "private, max-age=300",
+      "X-Final-Url": finalUrl.toString()
+    }
+  });
+}
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import { ServiceError } from '../services/errors';
+import { errorResponse } from './http';
+
+const digest = (key: string) => createHash('sha256').update(key).digest();
+
+/** Keys from L2I_API_KEYS (comma-separated), read per request so a restart is not needed in dev. */
+const configuredKeys = () => (process.env.L2I_API_KEYS || '').split(',').map(k => k.trim()).filter(Boolean);
+
+/** The caller's key from `Authorization: Bearer <key>` or `X-API-Key`. */
+const presentedKey = (request: Request): string | null => {
+    const authorization = request.headers.get('Authorization');
+    if (authorization?.toLowerCase().startsWith('bearer ')) return authorization.slice(7).trim();
+    return request.headers.get('X-API-Key');
+};
+
+/**
+ * Identifies the API caller, or answers for the route: 503 when no keys are
+ * configured, 401 for a missing or unknown key. The id is a hash prefix, so
+ * keys themselves never end up in job records or logs.
+ */
+export function authenticate(request: Request): { callerId: string } | Response {
+    const keys = configuredKeys();
+    if (!keys.length) {
+        return errorResponse(503, new ServiceError('auth', 'The API is disabled on this server. Set L2I_API_KEYS to enable it.', { source: 'gemini' }));
+    }
+    const presented = presentedKey(request);
+    // Hashing first gives equal-length buffers, so every comparison takes the same time
+    const match = presented ? keys.find(key => timingSafeEqual(digest(key), digest(presented))) : undefined;
+    if (!match) {
+        return errorResponse(401, new ServiceError('auth', 'A valid API key is required (Authorization: Bearer <key>).', { source: 'gemini' }), {
+            "WWW-Authenticate": 'Bearer realm="link2infographic"'
+        });
+    }
+    return { callerId: digest(match).toString('hex').slice(0, 12) };
+}
@@ -0,0 +1,59 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { mkdir, readFile, readdir, rm, writeFile, rename } from 'node:fs/promises';
+import path from 'node:path';
+import { CacheEntry, CacheStore } from '../services/responseCache';
+
+/**
+ * The response cache as one JSON file per entry in `dir`, so the CLI and the
+ * server share answers across runs. Keys are hex hashes, safe as file names.
+ */
+export function createFileCacheStore(dir: string): CacheStore {
+    const fileFor = (key: string) => path.join(dir, `${key}.json`);
+    // Created by the first operation, so a directory that cannot be made fails that
+    // call (which the cache reports) instead of rejecting with nobody listening
+    let ready: Promise<unknown> | null = null;
+    const ensureDir = () => ready ??= mkdir(dir, { recursive: true }).catch(err => {
+        ready = null;
+        throw err;
+    });
+
+    const read = async (file: string): Promise<CacheEntry | undefined> => {
+        try {
+            return JSON.parse(await readFile(file, 'utf8'));
+        } catch (e) {
+            // Missing, or half-written by a process that died; either way a miss
+            return undefined;
+        }
+    };
+
+    return {
+        async get(key) {
+            await ensureDir();
+            return read(fileFor(key));
+        },
+        async put(entry) {
+            await ensureDir();
+            // Write then rename, so readers never see a partial file
+            const temp = `${fileFor(entry.key)}.${process.pid}.tmp`;
+            await writeFile(temp, JSON.stringify(entry));
+            await rename(temp, fileFor(entry.key));
+        },
+        async list() {
+            await ensureDir();
+            const files = (await readdir(dir)).filter(name => name.endsWith('.json'));
+            const entries = await Promise.all(files.map(name => read(path.join(dir, name))));
+            return entries.filter((entry): entry is CacheEntry => !!entry);
+        },
+        async delete(keys) {
+            await Promise.all(keys.map(key => rm(fileFor(key), { force: true })));
+        },
+        async clear() {
+            await rm(dir, { recursive: true, force: true });
+            await mkdir(dir, { recursive: true });
+        }
+    };
+}
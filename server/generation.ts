@@ -0,0 +1,79 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { setGenerationProvider } from '../services/geminiService';
+import { createGeminiProvider } from '../services/geminiProvider';
+import { setPageFetcher } from '../services/articleService';
+import { REPO_HOST_KINDS, RepoHost, RepoHostKind, configureRepoAccess, createRepoHost } from '../services/repoProvider';
+import { ServiceError } from '../services/errors';
+import { DEFAULT_CACHE_SETTINGS, configureResponseCache } from '../services/responseCache';
+import * as fetchPage from '../fetch-page.ts';
+import { createFileCacheStore } from './fileCache';
+
+/** Reads `kind=url` pairs, e.g. `gitlab=https://git.example.com,gitea=https://code.example.com`. */
+function readRepoHosts(setting: string): RepoHost[] {
+    return setting.split(',').filter(entry => entry.trim()).map(entry => {
+        const [kind, webUrl = ''] = entry.trim().split(/=(.*)/s);
+        const host = REPO_HOST_KINDS.some(k => k.id === kind) ? createRepoHost(kind as RepoHostKind, webUrl) : null;
+        if (!host) throw new Error(`L2I_REPO_HOSTS: cannot read "${entry.trim()}". Use kind=url with kind one of ${REPO_HOST_KINDS.map(k => k.id).join(', ')}.`);
+        return host;
+    });
+}
+
+/**
+ * Points the shared generation services at this process: Gemini with the
+ * GEMINI_API_KEY from the environment (or the offline fixtures), pages
+ * fetched by calling the /fetch-page handler directly, since there is no
+ * same-origin server to go through, the response cache in L2I_CACHE_DIR,
+ * and the self-hosted code hosts in L2I_REPO_HOSTS, called with
+ * GITHUB_TOKEN, GITLAB_TOKEN, BITBUCKET_TOKEN or GITEA_TOKEN when set. Used
+ * by the CLI and the HTTP API.
+ */
+export function useServerGeneration(fixture = false, bypassCache = false) {
+    // Destructured so the build cannot inline `process.env.L2I_PROVIDER`; this is read at run time
+    const { L2I_PROVIDER, GEMINI_API_KEY } = process.env;
+    if (fixture || L2I_PROVIDER === 'fixture') {
+        setGenerationProvider('fixture');
+    } else if (GEMINI_API_KEY) {
+        setGenerationProvider(createGeminiProvider(() => process.env.GEMINI_API_KEY));
+    } else {
+        throw new ServiceError('auth', 'GEMINI_API_KEY is not set. Export it, or use the offline fixtures (L2I_PROVIDER=fixture).', { source: 'gemini' });
+    }
+    configureResponseCache(createFileCacheStore(process.env.L2I_CACHE_DIR || '.l2i-cache'), {
+        enabled: !bypassCache && process.env.L2I_CACHE !== 'off',
+        ttlHours: Number(process.env.L2I_CACHE_TTL_HOURS) || DEFAULT_CACHE_SETTINGS.ttlHours,
+        maxMegabytes: Number(process.env.L2I_CACHE_MAX_MB) || DEFAULT_CACHE_SETTINGS.maxMegabytes
+    });
+    const { GITHUB_TOKEN, GITLAB_TOKEN, BITBUCKET_TOKEN, GITEA_TOKEN } = process.env;
+    configureRepoAccess(readRepoHosts(process.env.L2I_REPO_HOSTS || ''), {
+        github: GITHUB_TOKEN,
+        gitlab: GITLAB_TOKEN,
+        bitbucket: BITBUCKET_TOKEN,
+        gitea: GITEA_TOKEN
+    });
+    setPageFetcher((url, signal) => fetchPage.GET(new Request(`http://localhost/fetch-page?url=${encodeURIComponent(url)}`, { signal })));
+}
+
+// The outcome of configuring a long-running server; undefined until the first call
+let serverSetup: { error?: ServiceError } | undefined;
+
+/**
+ * Runs useServerGeneration once for the life of the process: server/index.ts
+ * calls it at startup, the `vite dev` middleware on the first API request.
+ * Later calls only return the outcome, so a new request never swaps the
+ * provider or cache under jobs that are already running. Returns why
+ * generation is unavailable, if it is.
+ */
+export function configureServerGeneration(): ServiceError | undefined {
+    if (!serverSetup) {
+        try {
+            useServerGeneration();
+            serverSetup = {};
+        } catch (err: any) {
+            serverSetup = { error: err instanceof ServiceError ? err : new ServiceError('unknown', err?.message || String(err), { source: 'gemini' }) };
+        }
+    }
+    return serverSetup.error;
+}
@@ -0,0 +1,95 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { Readable } from 'node:stream';
+import { ServiceError, toErrorPayload } from '../services/errors';
+
+/** Header the server sets (and overwrites) so route handlers can key limits by client. */
+export const CLIENT_ADDRESS_HEADER = 'X-Client-Address';
+
+/**
+ * The address limits are applied to. X-Forwarded-For is only trusted
+ * behind a proxy (L2I_TRUST_PROXY=true); otherwise any client could
+ * reset its own budget by sending a new value.
+ */
+export function clientAddressOf(req: IncomingMessage): string {
+    const forwarded = req.headers['x-forwarded-for'];
+    if (process.env.L2I_TRUST_PROXY === 'true' && typeof forwarded === 'string') {
+        return forwarded.split(',')[0].trim();
+    }
+    return req.socket.remoteAddress || 'unknown';
+}
+
+/** Wraps a Node request as a Fetch `Request` that aborts when the client disconnects. */
+export function toFetchRequest(req: IncomingMessage, res: ServerResponse): Request {
+    const url = new URL((req as any).originalUrl || req.url || '/', `http://${req.headers.host || 'localhost'}`);
+    const headers = new Headers();
+    for (const [name, value] of Object.entries(req.headers)) {
+        if (Array.isArray(value)) value.forEach(v => headers.append(name, v));
+        else if (value !== undefined) headers.set(name, value);
+    }
+    headers.set(CLIENT_ADDRESS_HEADER, clientAddressOf(req));
+
+    const controller = new AbortController();
+    res.on('close', () => !res.writableFinished && controller.abort());
+
+    const hasBody = req.method !== 'GET' && req.method !== 'HEAD';
+    return new Request(url, {
+        method: req.method,
+        headers,
+        body: hasBody ? Readable.toWeb(req) as ReadableStream : undefined,
+        signal: controller.signal,
+        // Required by Node's fetch for streamed request bodies
+        ...(hasBody ? { duplex: 'half' } : {})
+    } as RequestInit);
+}
+
+/** Writes a Fetch `Response` to Node, streaming the body as it arrives. */
+export async function sendFetchResponse(res: ServerResponse, response: Response) {
+    res.statusCode = response.status;
+    response.headers.forEach((value, key) => res.setHeader(key, value));
+    if (!response.body) {
+        res.end();
+        return;
+    }
+    try {
+        for await (const chunk of response.body as any as AsyncIterable<Uint8Array>) res.write(chunk);
+    } finally {
+        res.end();
+    }
+}
+
+/** A JSON response; errors are sent as `{ error: ErrorPayload }` by errorResponse. */
+export const jsonResponse = (status: number, body: unknown, headers: Record<string, string> = {}) =>
+    new Response(JSON.stringify(body), {
+        status,
+        headers: {
+            "Content-Type": "application/json",
+            ...headers
+        }
+    });
+
+export const errorResponse = (status: number, error: ServiceError, headers: Record<string, string> = {}) =>
+    jsonResponse(status, { error: toErrorPayload(error) }, headers);
+
+/** The request body as text, or null past `maxBytes`. Content-Length can be missing or wrong, so the body is capped while it streams. */
+export async function readCapped(request: Request, maxBytes: number): Promise<string | null> {
+    if (Number(request.headers.get('Content-Length') || 0) > maxBytes) return null;
+    const reader = request.body?.getReader();
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    while (reader) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        size += value.byteLength;
+        if (size > maxBytes) {
+            await reader.cancel();
+            return null;
+        }
+        chunks.push(value);
+    }
+    return new TextDecoder().decode(Buffer.concat(chunks));
+}
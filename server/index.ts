@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Production server: the built app from dist/ plus the route handlers that `vite dev` serves
+// through its middleware. Holds GEMINI_API_KEY so the browser bundle never contains it.
+
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { readFile, stat } from 'node:fs/promises';
+import path from 'node:path';
+import * as robots from '../robots.txt.ts';
+import * as sitemap from '../sitemap.xml.ts';
+import * as fetchPage from '../fetch-page.ts';
+import * as generate from '../api/generate.ts';
+import * as infographics from '../api/infographics.ts';
+import * as jobs from '../api/jobs.ts';
+import * as openapi from '../api/openapi.ts';
+import { sendFetchResponse, toFetchRequest } from './http';
+import { configureServerGeneration } from './generation';
+
+type RouteHandler = (request: Request) => Promise<Response>;
+type RouteModule = Partial<Record<'GET' | 'POST', RouteHandler>>;
+
+const ROUTES: Record<string, RouteModule> = {
+    '/robots.txt': robots,
+    '/sitemap.xml': sitemap,
+    '/fetch-page': fetchPage,
+    '/api/generate': generate,
+    '/api/infographics': infographics,
+    '/api/jobs': jobs,
+    '/api/openapi.json': openapi
+};
+
+// Like the dev middleware, a route also serves the paths below it, e.g. /api/jobs/:id
+const routeFor = (pathname: string): RouteModule | undefined =>
+    Object.entries(ROUTES).find(([route]) => pathname === route || pathname.startsWith(`${route}/`))?.[1];
+
+const PORT = Number(process.env.PORT) || 3000;
+const DIST_DIR = path.resolve(process.env.L2I_DIST_DIR || 'dist');
+
+const CONTENT_TYPES: Record<string, string> = {
+    '.html': 'text/html; charset=utf-8',
+    '.js': 'text/javascript',
+    '.css': 'text/css',
+    '.json': 'application/json',
+    '.svg': 'image/svg+xml',
+    '.png': 'image/png',
+    '.jpg': 'image/jpeg',
+    '.ico': 'image/x-icon',
+    '.txt': 'text/plain',
+    '.xml': 'application/xml',
+    '.woff2': 'font/woff2'
+};
+
+async function serveStatic(pathname: string, res: ServerResponse) {
+    // Resolve inside dist/ only; anything that is not a file falls back to the app shell
+    let file = path.join(DIST_DIR, path.normalize(decodeURIComponent(pathname)));
+    if (!file.startsWith(DIST_DIR) || !(await stat(file).then(s => s.isFile(), () => false))) {
+        file = path.join(DIST_DIR, 'index.html');
+    }
+    try {
+        const body = await readFile(file);
+        res.writeHead(200, {
+            'Content-Type': CONTENT_TYPES[path.extname(file)] || 'application/octet-stream',
+            // Hashed build assets never change; the shell must always be revalidated
+            'Cache-Control': file.includes(`${path.sep}assets${path.sep}`) ? 'public, max-age=31536000, immutable' : 'no-cache'
+        });
+        res.end(body);
+    } catch (e) {
+        res.writeHead(404, { 'Content-Type': 'text/plain' });
+        res.end('Not found. Run `npm run build` first.');
+    }
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse) {
+    const { pathname } = new URL(req.url || '/', 'http://localhost');
+    const route = routeFor(pathname);
+    if (!route) return serveStatic(pathname, res);
+
+    const handler = route[req.method as 'GET' | 'POST'];
+    if (!handler) {
+        res.writeHead(405, { 'Allow': Object.keys(route).join(', '), 'Content-Type': 'text/plain' });
+        res.end('Method not allowed.');
+        return;
+    }
+    await sendFetchResponse(res, await handler(toFetchRequest(req, res)));
+}
+
+// The HTTP API generates in this process; it is set up once, before any job can start
+const generationError = configureServerGeneration();
+
+createServer((req, res) => {
+    handle(req, res).catch(err => {
+        console.error(err);
+        if (!res.headersSent) res.writeHead(500, { 'Content-Type': 'text/plain' });
+        res.end();
+    });
+}).listen(PORT, () => {
+    console.log(`Link2Infographic listening on http://localhost:${PORT}`);
+    if (!process.env.GEMINI_API_KEY) console.warn('GEMINI_API_KEY is not set; /api/generate will ask users to select their own key.');
+    if (generationError) console.warn(`/api/infographics is unavailable: ${generationError.message}`);
+});
@@ -0,0 +1,131 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { randomUUID } from 'node:crypto';
+import { InfographicOutput, InfographicRequest } from '../types';
+import { runInfographic } from '../services/headless';
+import { ErrorPayload, ServiceError, classifyGeminiError, toErrorPayload } from '../services/errors';
+
+export type ApiJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+export interface ApiJob {
+    id: string;
+    /** Hash prefix of the API key that created the job; other keys cannot see it. */
+    callerId: string;
+    request: InfographicRequest;
+    status: ApiJobStatus;
+    /** Label of the stage running now, e.g. 'GENERATING VISUAL'. */
+    stage?: string;
+    createdAt: string;
+    startedAt?: string;
+    finishedAt?: string;
+    error?: ErrorPayload;
+    result?: InfographicOutput;
+}
+
+export interface JobQueue {
+    /** Queues a run, or returns null when the queue is full. */
+    submit(callerId: string, request: InfographicRequest): ApiJob | null;
+    get(id: string, callerId: string): ApiJob | undefined;
+}
+
+/**
+ * An in-memory queue that runs at most `concurrency` jobs at once. Finished
+ * jobs are kept for `ttlMs` so callers can collect them, then dropped; a
+ * restart loses every job. Their images are held as base64, so once those
+ * pass `maxResultBytes` in total, the jobs that finished first are dropped
+ * early.
+ */
+export function createJobQueue({ concurrency, maxQueued, ttlMs, maxResultBytes }: { concurrency: number; maxQueued: number; ttlMs: number; maxResultBytes: number }): JobQueue {
+    const jobs = new Map<string, ApiJob>();
+    let running = 0;
+
+    const prune = () => {
+        const cutoff = Date.now() - ttlMs;
+        jobs.forEach((job, id) => job.finishedAt && Date.parse(job.finishedAt) < cutoff && jobs.delete(id));
+
+        const finished = [...jobs.values()].filter(job => job.result).sort((a, b) => Date.parse(a.finishedAt!) - Date.parse(b.finishedAt!));
+        let resultBytes = finished.reduce((sum, job) => sum + job.result!.png.length, 0);
+        for (const job of finished) {
+            if (resultBytes <= maxResultBytes) break;
+            resultBytes -= job.result!.png.length;
+            jobs.delete(job.id);
+        }
+    };
+
+    const start = (job: ApiJob) => {
+        running++;
+        job.status = 'running';
+        job.startedAt = new Date().toISOString();
+        runInfographic(job.request, undefined, event => {
+            if (event.type === 'stage_start') job.stage = event.label;
+        }).then(result => {
+            job.status = 'done';
+            job.result = result;
+        }, err => {
+            job.status = 'failed';
+            job.error = toErrorPayload(err instanceof ServiceError ? err : classifyGeminiError(err));
+        }).finally(() => {
+            job.stage = undefined;
+            job.finishedAt = new Date().toISOString();
+            running--;
+            prune();
+            pump();
+        });
+    };
+
+    // Jobs start in submission order as slots free up
+    const pump = () => {
+        for (const job of jobs.values()) {
+            if (running >= concurrency) return;
+            if (job.status === 'queued') start(job);
+        }
+    };
+
+    return {
+        submit(callerId, request) {
+            prune();
+            const queued = [...jobs.values()].filter(job => job.status === 'queued').length;
+            if (queued >= maxQueued) return null;
+            const job: ApiJob = { id: randomUUID(), callerId, request, status: 'queued', createdAt: new Date().toISOString() };
+            jobs.set(job.id, job);
+            pump();
+            return job;
+        },
+        get(id, callerId) {
+            prune();
+            const job = jobs.get(id);
+            return job && job.callerId === callerId ? job : undefined;
+        }
+    };
+}
+
+/** The queue shared by the /api/infographics and /api/jobs routes. */
+export const apiJobs = createJobQueue({
+    concurrency: Number(process.env.L2I_API_CONCURRENCY) || 2,
+    maxQueued: Number(process.env.L2I_API_MAX_QUEUED) || 50,
+    ttlMs: (Number(process.env.L2I_API_JOB_TTL_MINUTES) || 60) * 60_000,
+    maxResultBytes: (Number(process.env.L2I_API_MAX_RESULTS_MB) || 256) * 1024 * 1024
+});
+
+/** A job as the API returns it; the image itself is served from `imageUrl`. */
+export const toJobResponse = (job: ApiJob) => ({
+    id: job.id,
+    kind: job.request.kind,
+    status: job.status,
+    ...(job.stage ? { stage: job.stage } : {}),
+    createdAt: job.createdAt,
+    ...(job.startedAt ? { startedAt: job.startedAt } : {}),
+    ...(job.finishedAt ? { finishedAt: job.finishedAt } : {}),
+    ...(job.error ? { error: job.error } : {}),
+    ...(job.result ? {
+        result: {
+            imageUrl: `/api/jobs/${job.id}/image`,
+            metadata: job.result.metadata,
+            spec: job.result.spec,
+            citations: job.result.citations || []
+        }
+    } : {})
+});
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimitResult {
+    allowed: boolean;
+    limit: number;
+    remaining: number;
+    resetAt: Date;
+}
+
+export type RateLimiter = (clientId: string, cost?: number) => RateLimitResult;
+
+/**
+ * A fixed-window limiter kept in memory: each client may spend `limit`
+ * units per `windowMs`. Expensive calls pass a higher `cost`.
+ */
+export function createRateLimiter({ limit, windowMs }: { limit: number; windowMs: number }): RateLimiter {
+    const windows = new Map<string, { spent: number; resetAt: number }>();
+
+    return (clientId, cost = 1) => {
+        const now = Date.now();
+        // Drop expired windows now and then so idle clients do not accumulate
+        if (windows.size > 10_000) {
+            windows.forEach((window, id) => window.resetAt <= now && windows.delete(id));
+        }
+        let window = windows.get(clientId);
+        if (!window || window.resetAt <= now) {
+            window = { spent: 0, resetAt: now + windowMs };
+            windows.set(clientId, window);
+        }
+        const allowed = window.spent + cost <= limit;
+        if (allowed) window.spent += cost;
+        return { allowed, limit, remaining: Math.max(0, limit - window.spent), resetAt: new Date(window.resetAt) };
+    };
+}
+
+/** Standard headers describing a client's remaining budget. */
+export const rateLimitHeaders = ({ limit, remaining, resetAt }: RateLimitResult): Record<string, string> => ({
+    'X-RateLimit-Limit': String(limit),
+    'X-RateLimit-Remaining': String(remaining),
+    'X-RateLimit-Reset': String(Math.ceil(resetAt.getTime() / 1000))
+});
@@ -0,0 +1,357 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ExtractedArticle } from '../types';
+
+/**
+ * A deliberately small HTML tree. The extractor runs on saved fixtures in
+ * Node as well as in the browser, so it cannot rely on DOMParser.
+ */
+export interface HtmlElement {
+    tag: string;
+    attrs: Record<string, string>;
+    children: HtmlNode[];
+}
+
+export type HtmlNode = HtmlElement | string;
+
+const VOID_TAGS = new Set(['area', 'base', 'br', 'col', 'embed', 'hr', 'img', 'input', 'link', 'meta', 'param', 'source', 'track', 'wbr']);
+const RAW_TEXT_TAGS = new Set(['script', 'style', 'textarea', 'title', 'noscript']);
+// Opening one of these closes an open <p>, as the HTML parser would
+const CLOSES_P = new Set(['p', 'div', 'ul', 'ol', 'table', 'section', 'article', 'aside', 'header', 'footer', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'blockquote', 'pre', 'figure', 'form', 'hr', 'nav']);
+
+const NAMED_ENTITIES: Record<string, string> = {
+    amp: '&', lt: '<', gt: '>', quot: '"', apos: "'", nbsp: ' ',
+    mdash: '—', ndash: '–', hellip: '…', lsquo: '‘', rsquo: '’', ldquo: '“', rdquo: '”',
+    copy: '©', reg: '®', trade: '™', middot: '·', bull: '•', laquo: '«', raquo: '»',
+    pound: '£', euro: '€', yen: '¥', cent: '¢', deg: '°', times: '×', minus: '−', shy: ''
+};
+
+export const decodeEntities = (text: string): string =>
+    text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+        if (entity[0] === '#') {
+            const code = entity[1].toLowerCase() === 'x' ? parseInt(entity.slice(2), 16) : parseInt(entity.slice(1), 10);
+            return Number.isFinite(code) && code > 0 && code < 0x110000 ? String.fromCodePoint(code) : match;
+        }
+        return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+    });
+
+const ATTRIBUTE = /([^\s=/>]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s>]+)))?/g;
+
+function parseAttributes(source: string): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    for (const m of source.matchAll(ATTRIBUTE)) {
+        attrs[m[1].toLowerCase()] = decodeEntities(m[2] ?? m[3] ?? m[4] ?? '');
+    }
+    return attrs;
+}
+
+/** Parses HTML into a tree, tolerating the unclosed and misnested tags real pages are full of. */
+export function parseHtml(html: string): HtmlElement {
+    const root: HtmlElement = { tag: '#root', attrs: {}, children: [] };
+    const stack: HtmlElement[] = [root];
+    const current = () => stack[stack.length - 1];
+    const tagPattern = /<!--[\s\S]*?-->|<![^>]*>|<\/([a-zA-Z][\w:-]*)\s*>|<([a-zA-Z][\w:-]*)((?:[^>"']|"[^"]*"|'[^']*')*)>/g;
+    let pos = 0;
+    let m: RegExpExecArray | null;
+
+    const pushText = (text: string) => {
+        if (text) current().children.push(decodeEntities(text));
+    };
+
+    while ((m = tagPattern.exec(html))) {
+        pushText(html.slice(pos, m.index));
+        pos = tagPattern.lastIndex;
+
+        if (m[1]) {
+            const tag = m[1].toLowerCase();
+            const depth = stack.map(el => el.tag).lastIndexOf(tag);
+            if (depth > 0) stack.length = depth;
+            continue;
+        }
+        if (!m[2]) continue;
+
+        const tag = m[2].toLowerCase();
+        const element: HtmlElement = { tag, attrs: parseAttributes(m[3] || ''), children: [] };
+        if (CLOSES_P.has(tag) && current().tag === 'p') stack.pop();
+        if (tag === 'li' && current().tag === 'li') stack.pop();
+        current().children.push(element);
+
+        if (RAW_TEXT_TAGS.has(tag)) {
+            const end = html.toLowerCase().indexOf(`</${tag}`, pos);
+            const raw = html.slice(pos, end === -1 ? html.length : end);
+            if (raw) element.children.push(tag === 'script' || tag === 'style' ? raw : decodeEntities(raw));
+            if (end === -1) {
+                pos = html.length;
+                break;
+            }
+            tagPattern.lastIndex = html.indexOf('>', end) + 1 || html.length;
+            pos = tagPattern.lastIndex;
+            continue;
+        }
+        if (!VOID_TAGS.has(tag) && !m[3]?.trim().endsWith('/')) stack.push(element);
+    }
+    pushText(html.slice(pos));
+    return root;
+}
+
+const isElement = (node: HtmlNode): node is HtmlElement => typeof node !== 'string';
+
+function* walk(node: HtmlElement): Generator<HtmlElement> {
+    yield node;
+    for (const child of node.children) {
+        if (isElement(child)) yield* walk(child);
+    }
+}
+
+export const findAll = (root: HtmlElement, predicate: (el: HtmlElement) => boolean): HtmlElement[] =>
+    Array.from(walk(root)).filter(predicate);
+
+/** Visible text of a subtree, whitespace collapsed. */
+export function textContent(node: HtmlNode): string {
+    if (!isElement(node)) return node;
+    if (node.tag === 'script' || node.tag === 'style') return '';
+    return node.children.map(textContent).join(node.tag === 'br' ? '\n' : '').replace(/\s+/g, ' ');
+}
+
+// Never part of the article body, whatever their score
+const STRIP_TAGS = new Set(['script', 'style', 'noscript', 'nav', 'header', 'footer', 'aside', 'form', 'iframe', 'svg', 'button', 'select', 'template']);
+const UNLIKELY = /comment|sidebar|footer|foot|nav|menu|share|social|related|promo|advert|sponsor|\bads?\b|cookie|banner|subscribe|newsletter|popup|modal|breadcrumb/i;
+const LIKELY = /article|content|main|post|entry|body|story|text/i;
+const POSITIVE = /article|body|content|entry|main|page|post|text|blog|story/i;
+const NEGATIVE = /comment|meta|footer|foot|sidebar|widget|hidden|share|related|promo|sponsor|shopping|tags/i;
+const BLOCK_TAGS = new Set(['p', 'h2', 'h3', 'h4', 'h5', 'h6', 'li', 'blockquote', 'pre']);
+// Text-level elements; anything else breaks the flow of text into separate blocks
+const INLINE_TAGS = new Set(['a', 'abbr', 'b', 'bdi', 'bdo', 'br', 'cite', 'code', 'data', 'del', 'dfn', 'em', 'font', 'i', 'img', 'ins', 'kbd', 'mark', 'q', 's', 'samp', 'small', 'span', 'strong', 'sub', 'sup', 'time', 'u', 'var', 'wbr']);
+const BYLINE = /\b(byline|author-?name|author)\b/i;
+
+const classAndId = (el: HtmlElement) => `${el.attrs.class || ''} ${el.attrs.id || ''}`;
+
+const isInline = (node: HtmlNode) => !isElement(node) || INLINE_TAGS.has(node.tag);
+
+/** A <div> holding only text and inline markup, which many CMS templates use instead of <p>. */
+const isTextDiv = (el: HtmlElement) => el.tag === 'div' && el.children.every(isInline);
+
+/** Copy of the tree without scripts, navigation and other chrome. */
+function stripChrome(node: HtmlElement): HtmlElement {
+    const children: HtmlNode[] = [];
+    for (const child of node.children) {
+        if (!isElement(child)) {
+            children.push(child);
+            continue;
+        }
+        if (STRIP_TAGS.has(child.tag)) continue;
+        const hint = classAndId(child);
+        if (child.tag !== 'body' && child.tag !== 'article' && UNLIKELY.test(hint) && !LIKELY.test(hint)) continue;
+        children.push(stripChrome(child));
+    }
+    return { ...node, children };
+}
+
+function linkDensity(el: HtmlElement): number {
+    const length = textContent(el).trim().length;
+    if (!length) return 0;
+    const linkLength = findAll(el, e => e.tag === 'a').reduce((sum, a) => sum + textContent(a).trim().length, 0);
+    return linkLength / length;
+}
+
+function classWeight(el: HtmlElement): number {
+    const hint = classAndId(el);
+    return (POSITIVE.test(hint) ? 25 : 0) - (NEGATIVE.test(hint) ? 25 : 0);
+}
+
+/**
+ * Readability-style scoring: each paragraph adds points for its length and
+ * commas to its parent, and half as much to its grandparent. The best-scoring
+ * container, discounted by how much of it is links, holds the article.
+ */
+function findContentRoot(body: HtmlElement): HtmlElement {
+    const parents = new Map<HtmlElement, HtmlElement>();
+    for (const el of walk(body)) {
+        for (const child of el.children) if (isElement(child)) parents.set(child, el);
+    }
+    const scores = new Map<HtmlElement, number>();
+    const addScore = (el: HtmlElement | undefined, points: number) => {
+        if (!el) return;
+        if (!scores.has(el)) scores.set(el, classWeight(el) + (el.tag === 'article' ? 10 : el.tag === 'div' ? 5 : 0));
+        scores.set(el, scores.get(el)! + points);
+    };
+
+    for (const p of findAll(body, el => el.tag === 'p' || el.tag === 'pre' || isTextDiv(el))) {
+        const text = textContent(p).trim();
+        if (text.length < 25) continue;
+        const points = 1 + text.split(',').length + Math.min(3, Math.floor(text.length / 100));
+        const parent = parents.get(p);
+        addScore(parent, points);
+        addScore(parent && parents.get(parent), points / 2);
+    }
+
+    let best: HtmlElement = body;
+    let bestScore = -Infinity;
+    for (const [el, score] of scores) {
+        const adjusted = score * (1 - linkDensity(el));
+        if (adjusted > bestScore) {
+            best = el;
+            bestScore = adjusted;
+        }
+    }
+    return best;
+}
+
+/**
+ * Paragraph-level text of the content root; headings keep a marker so the
+ * analysis sees the structure. Text sitting directly in other containers
+ * (div-only bodies) becomes a block of its own, split at `<br><br>`.
+ */
+function contentText(root: HtmlElement): string {
+    const blocks: string[] = [];
+    const visit = (el: HtmlElement) => {
+        if (BLOCK_TAGS.has(el.tag)) {
+            const text = textContent(el).trim();
+            if (text && linkDensity(el) < 0.5) blocks.push(/^h\d$/.test(el.tag) ? `## ${text}` : el.tag === 'li' ? `- ${text}` : text);
+            return;
+        }
+        let run: HtmlNode[] = [];
+        const flush = () => {
+            // Source whitespace collapses; only <br> marks a line break
+            const text = run.map(node => isElement(node) && node.tag === 'br' ? '\n' : textContent(node).replace(/\s+/g, ' ')).join('');
+            const links = run.filter(isElement).flatMap(node => findAll(node, e => e.tag === 'a'));
+            run = [];
+            const length = text.trim().length;
+            if (!length || links.reduce((sum, a) => sum + textContent(a).trim().length, 0) / length >= 0.5) return;
+            for (const paragraph of text.split(/\n\s*\n/)) {
+                const block = paragraph.replace(/\s+/g, ' ').trim();
+                if (block) blocks.push(block);
+            }
+        };
+        for (const child of el.children) {
+            if (isInline(child)) {
+                run.push(child);
+            } else {
+                flush();
+                visit(child as HtmlElement);
+            }
+        }
+        flush();
+    };
+    visit(root);
+    return blocks.join('\n\n');
+}
+
+const ARTICLE_TYPES = /Article|BlogPosting|Report|Posting|Review|Product|WebPage/;
+
+/** Parses every JSON-LD block, flattening arrays and @graph wrappers. Malformed blocks are skipped. */
+export function parseJsonLd(root: HtmlElement): Record<string, any>[] {
+    const items: Record<string, any>[] = [];
+    const collect = (value: any) => {
+        if (Array.isArray(value)) value.forEach(collect);
+        else if (value && typeof value === 'object') {
+            if (Array.isArray(value['@graph'])) value['@graph'].forEach(collect);
+            items.push(value);
+        }
+    };
+    for (const script of findAll(root, el => el.tag === 'script' && (el.attrs.type || '').toLowerCase() === 'application/ld+json')) {
+        try {
+            collect(JSON.parse(script.children.filter(c => typeof c === 'string').join('')));
+        } catch (e) { }
+    }
+    return items;
+}
+
+const typeOf = (item: Record<string, any>) => [].concat(item['@type'] || []).join(' ');
+
+// Some CMSs HTML-escape the strings inside JSON-LD
+const clean = (value: unknown): string | undefined =>
+    typeof value === 'string' && value.trim() ? decodeEntities(value.trim()) : undefined;
+
+const nameOf = (value: any): string | undefined => {
+    if (!value) return undefined;
+    if (typeof value === 'string') return clean(value);
+    if (Array.isArray(value)) return value.map(nameOf).filter(Boolean).join(', ') || undefined;
+    return clean(value.name);
+};
+
+const urlOf = (value: any): string | undefined => {
+    if (!value) return undefined;
+    if (typeof value === 'string') return value;
+    if (Array.isArray(value)) return urlOf(value[0]);
+    return value.url || value.contentUrl || undefined;
+};
+
+const absolute = (href: string | undefined, base: string): string | undefined => {
+    if (!href) return undefined;
+    try {
+        return new URL(href, base).toString();
+    } catch (e) {
+        return undefined;
+    }
+};
+
+/**
+ * Extracts the readable article from a page: main text plus title, author,
+ * publish date and lead image. Explicit metadata (JSON-LD, then Open Graph
+ * and meta tags) wins over anything inferred from the markup.
+ */
+export function extractArticle(html: string, url: string): ExtractedArticle {
+    const root = parseHtml(html);
+    const metas = findAll(root, el => el.tag === 'meta');
+    const meta = (...keys: string[]) => {
+        for (const key of keys) {
+            const el = metas.find(m => (m.attrs.property || m.attrs.name || m.attrs.itemprop || '').toLowerCase() === key);
+            if (el?.attrs.content?.trim()) return el.attrs.content.trim();
+        }
+        return undefined;
+    };
+
+    const jsonLd = parseJsonLd(root);
+    const ld = jsonLd.find(item => ARTICLE_TYPES.test(typeOf(item))) || {};
+
+    const body = findAll(root, el => el.tag === 'body')[0] || root;
+    const cleaned = stripChrome(body);
+    const candidate = findContentRoot(cleaned);
+    let text = contentText(candidate);
+    // Pages that render client-side often ship the full body only in JSON-LD
+    const ldBody = clean(ld.articleBody);
+    if (text.length < 200 && ldBody && ldBody.length > text.length) text = ldBody;
+    if (!text) text = textContent(cleaned).trim();
+
+    const titleTag = findAll(root, el => el.tag === 'title')[0];
+    const h1 = findAll(cleaned, el => el.tag === 'h1')[0];
+    const time = findAll(root, el => el.tag === 'time' && !!el.attrs.datetime)[0];
+    // A visible byline, for pages that only name the author in the markup. It
+    // often sits in the article's <header>, which the cleaned tree drops.
+    const byline = [
+        ...findAll(body, el => el.attrs.rel === 'author' || el.attrs.itemprop === 'author'),
+        ...findAll(body, el => BYLINE.test(el.attrs.class || ''))
+    ]
+        .map(el => textContent(el).trim().replace(/^by\s+/i, '').split(/\s+[·|•–—]\s+|\s+on\s+/)[0].trim())
+        .find(name => name && name.length < 100);
+    const wordCount = text.split(/\s+/).filter(Boolean).length;
+
+    return {
+        url,
+        title: clean(ld.headline) || clean(ld.name) || meta('og:title', 'twitter:title') || (h1 && textContent(h1).trim()) || (titleTag && textContent(titleTag).trim()) || url,
+        author: nameOf(ld.author) || meta('author', 'article:author', 'byl', 'parsely-author') || byline,
+        publishedAt: clean(ld.datePublished) || meta('article:published_time', 'datepublished', 'date', 'pubdate', 'dc.date') || time?.attrs.datetime,
+        image: absolute(urlOf(ld.image) || meta('og:image', 'og:image:url', 'twitter:image'), url),
+        siteName: nameOf(ld.publisher) || meta('og:site_name', 'application-name'),
+        description: clean(ld.description) || meta('og:description', 'description', 'twitter:description'),
+        text,
+        wordCount,
+        jsonLdTypes: jsonLd.map(typeOf).filter(Boolean)
+    };
+}
+
+/** The analysis input for a fetched page: a short metadata header followed by the article text. */
+export function articleToSource(article: ExtractedArticle): string {
+    const header = [
+        `Title: ${article.title}`,
+        article.author && `Author: ${article.author}`,
+        article.publishedAt && `Published: ${article.publishedAt}`,
+        article.siteName && `Site: ${article.siteName}`,
+        `Source: ${article.url}`
+    ].filter(Boolean);
+    return `${header.join('\n')}\n\n${article.text}`;
+}
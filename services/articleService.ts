@@ -0,0 +1,52 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ExtractedArticle } from '../types';
+import { isOfflineMode } from './geminiService';
+import { FIXTURE_ARTICLE_HTML } from './fixtureProvider';
+import { ServiceError, classifyPageError, classifyPageResponse, withRetry } from './errors';
+import { ProgressListener, RetryHook, runStage } from './progress';
+import { extractArticle } from './articleExtractor';
+
+/** Same-origin route (fetch-page.ts) that fetches the page server-side. */
+const PROXY_PATH = '/fetch-page';
+
+/** Fetches a page through the route; replaced where there is no same-origin server, such as the CLI. */
+export type PageFetcher = (url: string, signal?: AbortSignal) => Promise<Response>;
+
+let pageFetcher: PageFetcher = (url, signal) => fetch(`${PROXY_PATH}?url=${encodeURIComponent(url)}`, { signal });
+
+export const setPageFetcher = (fetcher: PageFetcher) => {
+  pageFetcher = fetcher;
+};
+
+/** Below this the page is probably a paywall, login wall or client-rendered shell. */
+const MIN_WORDS = 60;
+
+/** Adds the scheme people leave off when pasting, e.g. 'example.com/post'. */
+export const normalizeArticleUrl = (input: string): string => {
+  const trimmed = input.trim();
+  return /^https?:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`;
+};
+
+export async function fetchArticle(url: string, signal?: AbortSignal, onProgress?: ProgressListener): Promise<ExtractedArticle> {
+  return runStage(onProgress, { stage: 'fetch_page', label: 'FETCHING PAGE' }, onRetry => fetchAndExtract(normalizeArticleUrl(url), signal, onRetry));
+}
+
+async function fetchAndExtract(url: string, signal?: AbortSignal, onRetry?: RetryHook): Promise<ExtractedArticle> {
+  // Offline fixture mode never touches the network
+  if (isOfflineMode()) return extractArticle(FIXTURE_ARTICLE_HTML, url);
+
+  const { html, finalUrl } = await withRetry(async () => {
+    const res = await pageFetcher(url, signal);
+    if (!res.ok) throw classifyPageResponse(res);
+    return { html: await res.text(), finalUrl: res.headers.get('X-Final-Url') || url };
+  }, classifyPageError, { signal, onRetry });
+
+  const article = extractArticle(html, finalUrl);
+  if (article.wordCount < MIN_WORDS) {
+    throw new ServiceError('not_found', `Only ${article.wordCount} words of readable text were found on this page. It may be behind a paywall or rendered by JavaScript.`, { source: 'web' });
+  }
+  return article;
+}
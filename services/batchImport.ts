@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BatchJob, BatchJobKind } from '../types';
+import { parseRepoInput } from './repoService';
+
+export const BATCH_RATIOS = ['3:4', '9:16', '1:1', '16:9'];
+
+/** Ratio each kind gets when neither the row nor the batch sets one, matching the studios. */
+export const DEFAULT_RATIOS: Record<BatchJobKind, string> = { article: '3:4', repo: '16:9' };
+
+export interface BatchDefaults {
+    articleStyle: string;
+    repoStyle: string;
+    language: string;
+    /** 'auto' uses DEFAULT_RATIOS for each row's kind. */
+    aspectRatio: string;
+}
+
+export interface BatchImport {
+    jobs: BatchJob[];
+    skipped: { row: number; reason: string }[];
+}
+
+// Header names accepted for each column, compared case-insensitively
+const COLUMNS: Record<string, string[]> = {
+    input: ['input', 'url', 'text', 'repo', 'source', 'content'],
+    kind: ['kind', 'type'],
+    style: ['style'],
+    language: ['language', 'lang'],
+    ratio: ['ratio', 'aspect', 'aspect_ratio', 'aspectratio']
+};
+
+/** Splits delimited text into rows, honouring quoted fields with "" escapes and line breaks. */
+export function parseDelimited(text: string, delimiter: string): string[][] {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let quoted = false;
+    for (let i = 0; i < text.length; i++) {
+        const c = text[i];
+        if (quoted) {
+            if (c === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (c === '"') quoted = false;
+            else field += c;
+        } else if (c === '"' && !field) quoted = true;
+        else if (c === delimiter) {
+            row.push(field);
+            field = '';
+        } else if (c === '\n' || c === '\r') {
+            if (c === '\r' && text[i + 1] === '\n') i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = '';
+        } else field += c;
+    }
+    if (field || row.length) {
+        row.push(field);
+        rows.push(row);
+    }
+    return rows.filter(r => r.some(cell => cell.trim()));
+}
+
+/** Which column each field lives in, or null when the first line is not a recognised header. */
+function readHeader(cells: string[]): Record<string, number> | null {
+    const names = cells.map(c => c.trim().toLowerCase());
+    const columns: Record<string, number> = {};
+    Object.entries(COLUMNS).forEach(([field, aliases]) => {
+        const index = names.findIndex(name => aliases.includes(name));
+        if (index >= 0) columns[field] = index;
+    });
+    return columns.input !== undefined ? columns : null;
+}
+
+// A URL, with or without the scheme people leave off when pasting: medium.com/my-post
+const looksLikeUrl = (value: string) => /^https?:\/\//i.test(value) || /^[\w-]+(\.[\w-]+)+(:\d+)?(\/\S*)?$/.test(value);
+
+/** Article URL, pasted article text or repository, from the input alone. */
+export function inferKind(input: string): { kind: BatchJobKind; sourceMode: 'url' | 'text' } {
+    const value = input.trim();
+    // URLs only parse as repositories on a configured code host
+    if (parseRepoInput(value)) {
+        return { kind: 'repo', sourceMode: 'url' };
+    }
+    return { kind: 'article', sourceMode: looksLikeUrl(value) ? 'url' : 'text' };
+}
+
+function kindFromColumn(value: string, input: string): { kind: BatchJobKind; sourceMode: 'url' | 'text' } | null {
+    switch (value.trim().toLowerCase()) {
+        case '': return inferKind(input);
+        case 'repo':
+        case 'repository':
+        case 'github':
+            return { kind: 'repo', sourceMode: 'url' };
+        case 'url':
+            return { kind: 'article', sourceMode: 'url' };
+        case 'text':
+            return { kind: 'article', sourceMode: 'text' };
+        case 'article':
+            return { kind: 'article', sourceMode: looksLikeUrl(input.trim()) ? 'url' : 'text' };
+        default:
+            return null;
+    }
+}
+
+/**
+ * Turns an imported list into queued jobs. A CSV or TSV with a header row
+ * (input, kind, style, language, ratio) may override the defaults per row;
+ * anything else is read as one URL or `owner/repo` per line. `firstRow`
+ * continues the numbering of an existing queue.
+ */
+export function parseBatchList(text: string, defaults: BatchDefaults, firstRow = 1): BatchImport {
+    const firstLine = text.split(/\r?\n/).find(line => line.trim()) || '';
+    const delimiter = firstLine.includes('\t') ? '\t' : firstLine.includes(';') && !firstLine.includes(',') ? ';' : ',';
+    const table = parseDelimited(text, delimiter);
+    const columns = table.length ? readHeader(table[0]) : null;
+    const rows = columns
+        ? table.slice(1)
+        : text.split(/\r?\n/).filter(line => line.trim()).map(line => [line]);
+    const cell = (cells: string[], field: string) =>
+        columns ? (columns[field] !== undefined ? (cells[columns[field]] || '').trim() : '') : field === 'input' ? cells[0].trim() : '';
+
+    const jobs: BatchJob[] = [];
+    const skipped: BatchImport['skipped'] = [];
+    const createdAt = new Date().toISOString();
+
+    rows.forEach((cells, i) => {
+        const row = firstRow + jobs.length + skipped.length;
+        const input = cell(cells, 'input');
+        if (!input) {
+            skipped.push({ row, reason: 'No input in this row.' });
+            return;
+        }
+        const detected = kindFromColumn(cell(cells, 'kind'), input);
+        if (!detected) {
+            skipped.push({ row, reason: `Unknown kind "${cell(cells, 'kind')}". Use article, url, text or repo.` });
+            return;
+        }
+        if (detected.kind === 'repo' && !parseRepoInput(input)) {
+            skipped.push({ row, reason: `"${input}" is not a repository. Use owner/repo, or a repository URL on GitHub, GitLab, Bitbucket, Codeberg or a configured instance.` });
+            return;
+        }
+        const ratio = cell(cells, 'ratio') || (defaults.aspectRatio === 'auto' ? DEFAULT_RATIOS[detected.kind] : defaults.aspectRatio);
+        if (!BATCH_RATIOS.includes(ratio)) {
+            skipped.push({ row, reason: `Unsupported ratio "${ratio}". Use ${BATCH_RATIOS.join(', ')}.` });
+            return;
+        }
+        jobs.push({
+            id: `${Date.now().toString(36)}-${row}-${i}`,
+            row,
+            ...detected,
+            input,
+            style: cell(cells, 'style') || (detected.kind === 'repo' ? defaults.repoStyle : defaults.articleStyle),
+            language: cell(cells, 'language') || defaults.language,
+            aspectRatio: ratio,
+            status: 'queued',
+            attempts: 0,
+            createdAt
+        });
+    });
+
+    return { jobs, skipped };
+}
@@ -0,0 +1,165 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BatchJob, BatchJobKind, BrandKit, Citation, GeminiModel, ImageMetadata, ImageSettings } from '../types';
+import { extractImageMetadata, generateArticleInfographic, generateInfographic } from './geminiService';
+import { fetchRepoFileTree, parseRepoInput } from './repoService';
+import { fetchArticle } from './articleService';
+import { articleToSource } from './articleExtractor';
+import { ServiceError, isCancellation } from './errors';
+import { ProgressListener } from './progress';
+import { embedPngMetadata } from './imageService';
+import { findBrandKit, withBrandLogo } from './brandKits';
+import { createZip, ZipEntry } from './zip';
+
+export const MAX_BATCH_ATTEMPTS = 3;
+export const MAX_BATCH_CONCURRENCY = 4;
+
+// Failures worth another attempt later; the rest need the row or the key fixed
+const RETRYABLE_KINDS = ['network', 'rate_limit'];
+const RETRY_BASE_MS = 15000;
+const RETRY_MAX_MS = 120000;
+
+export interface BatchRunOptions {
+    models: Record<BatchJobKind, GeminiModel>;
+    imageSettings: Record<BatchJobKind, ImageSettings>;
+    brandKit: BrandKit | null;
+    signal?: AbortSignal;
+    onProgress?: ProgressListener;
+}
+
+const metadataFor = (meta: Partial<ImageMetadata>, fallbackTitle: string, job: BatchJob): ImageMetadata => ({
+    title: meta.title || fallbackTitle,
+    author: 'Link2Infographic AI',
+    description: meta.description || `${job.kind === 'repo' ? 'Repository' : 'Article'} infographic generated in ${job.style} style.`,
+    keywords: meta.keywords || `infographic, ${job.kind}, ${job.style.toLowerCase()}`,
+    copyright: `© ${new Date().getFullYear()} Link2Infographic`,
+    date: new Date().toISOString().slice(0, 16)
+});
+
+/** Runs one job through the same pipeline as its studio, without the interactive review steps. */
+export async function runBatchJob(job: BatchJob, { models, imageSettings, brandKit, signal, onProgress }: BatchRunOptions): Promise<Partial<BatchJob>> {
+    const model = models[job.kind];
+
+    if (job.kind === 'repo') {
+        const target = parseRepoInput(job.input)!;
+        const { host, owner, repo } = target;
+        const { files: fileTree, ref, commitSha, path } = await fetchRepoFileTree(target, signal, onProgress);
+        if (fileTree.length === 0) throw new ServiceError('not_found', 'No relevant code files found.', { source: host.kind });
+        const repoName = path ? `${repo}/${path}` : repo;
+        const imageData = await generateInfographic(repoName, fileTree, job.style, false, job.language, job.aspectRatio, model, signal, onProgress, undefined, imageSettings.repo, brandKit);
+        if (!imageData) throw new ServiceError('unknown', 'Failed to generate visual.', { source: 'gemini' });
+        const meta = await extractImageMetadata(imageData, 'image/png', `Repository: ${owner}/${repoName} at ${ref} (${commitSha.slice(0, 7)})`, 'gemini-3-flash-preview', signal, onProgress);
+        return { imageData, metadata: metadataFor(meta, `${repoName} - Architecture`, job), brandKitId: brandKit?.id };
+    }
+
+    let content = job.input;
+    let sourceMode = job.sourceMode;
+    let title = job.sourceMode === 'url' ? job.input : `${job.input.slice(0, 30)}...`;
+    let sourceCitation: Citation[] = [];
+    if (job.sourceMode === 'url') {
+        // Like the studio: analyse the fetched page as text, or let search grounding find it
+        try {
+            const article = await fetchArticle(job.input, signal, onProgress);
+            content = articleToSource(article);
+            sourceMode = 'text';
+            title = article.title;
+            sourceCitation = [{ uri: article.url, title: article.title }];
+        } catch (err) {
+            if (isCancellation(err)) throw err;
+        }
+    }
+
+    const result = await generateArticleInfographic(
+        content,
+        sourceMode,
+        'article',
+        job.style,
+        onProgress,
+        job.language,
+        null,
+        job.aspectRatio,
+        model,
+        signal,
+        {},
+        1,
+        imageSettings.article,
+        undefined,
+        [],
+        brandKit
+    );
+    if (!result.imageData) throw new ServiceError('unknown', 'Failed to generate visual.', { source: 'gemini' });
+    const meta = await extractImageMetadata(result.imageData, 'image/png', `Article: ${title}`, 'gemini-3-flash-preview', signal, onProgress);
+    return {
+        imageData: result.imageData,
+        spec: result.spec,
+        citations: [...sourceCitation, ...result.citations],
+        metadata: metadataFor(meta, result.spec.title || `${title} - Visual Summary`, job),
+        brandKitId: brandKit?.id
+    };
+}
+
+/**
+ * When a job that just failed with `error` should run again, or undefined
+ * when it has used its attempts or the failure will not go away by waiting.
+ */
+export function nextRetryAt(job: BatchJob, error: ServiceError): Date | undefined {
+    if (job.attempts >= MAX_BATCH_ATTEMPTS || !RETRYABLE_KINDS.includes(error.kind)) return undefined;
+    if (error.resetAt) return error.resetAt;
+    return new Date(Date.now() + Math.min(RETRY_MAX_MS, RETRY_BASE_MS * 2 ** (job.attempts - 1)));
+}
+
+const slugify = (text: string) =>
+    text.toLowerCase().replace(/^https?:\/\//, '').replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '').slice(0, 48) || 'infographic';
+
+export const batchFileName = (job: BatchJob) =>
+    `${String(job.row).padStart(3, '0')}-${slugify(job.metadata?.title || job.input)}.png`;
+
+const csvCell = (value: unknown) => {
+    const text = value === undefined || value === null ? '' : String(value);
+    return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * A ZIP with every finished PNG (metadata embedded, the logo of the brand kit
+ * it was rendered for applied) and a manifest of every row, finished or not,
+ * as JSON and CSV.
+ */
+export async function buildBatchArchive(jobs: BatchJob[]): Promise<Blob> {
+    const entries: ZipEntry[] = [];
+    const manifest = [];
+    for (const job of jobs) {
+        let file: string | undefined;
+        if (job.status === 'done' && job.imageData && job.metadata) {
+            file = batchFileName(job);
+            const png = embedPngMetadata(await withBrandLogo(job.imageData, findBrandKit(job.brandKitId)), job.metadata);
+            entries.push({ name: file, data: new Uint8Array(await png.arrayBuffer()) });
+        }
+        manifest.push({
+            row: job.row,
+            kind: job.kind,
+            input: job.sourceMode === 'text' ? `${job.input.slice(0, 200)}${job.input.length > 200 ? '...' : ''}` : job.input,
+            style: job.style,
+            language: job.language,
+            aspectRatio: job.aspectRatio,
+            status: job.status,
+            attempts: job.attempts,
+            file,
+            error: job.error,
+            metadata: job.metadata,
+            citations: job.citations,
+            finishedAt: job.finishedAt
+        });
+    }
+
+    const encoder = new TextEncoder();
+    const header = ['row', 'kind', 'input', 'style', 'language', 'aspectRatio', 'status', 'attempts', 'file', 'title', 'description', 'keywords', 'error'];
+    const csv = [header.join(','), ...manifest.map(m =>
+        [m.row, m.kind, m.input, m.style, m.language, m.aspectRatio, m.status, m.attempts, m.file, m.metadata?.title, m.metadata?.description, m.metadata?.keywords, m.error].map(csvCell).join(',')
+    )].join('\n');
+    entries.push({ name: 'manifest.json', data: encoder.encode(JSON.stringify(manifest, null, 2)) });
+    entries.push({ name: 'manifest.csv', data: encoder.encode(csv) });
+    return createZip(entries);
+}
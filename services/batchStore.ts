@@ -0,0 +1,58 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BatchJob } from '../types';
+import { createIndexedDbStore } from './indexedDb';
+
+// Rendered PNGs quickly outgrow localStorage, so the queue lives in IndexedDB
+const DB_NAME = 'l2i_batch';
+const STORE = 'jobs';
+
+export const BATCH_SETTINGS_STORAGE_KEY = 'l2i_batch_settings';
+
+export interface BatchSettings {
+    concurrency: number;
+    /** Whether the queue was running, so a reload picks up where it left off. */
+    running: boolean;
+}
+
+export const DEFAULT_BATCH_SETTINGS: BatchSettings = { concurrency: 2, running: false };
+
+const withStore = createIndexedDbStore(DB_NAME, STORE, 'id');
+
+/** Every stored job in import order. */
+export async function loadBatchJobs(): Promise<BatchJob[]> {
+    const jobs = await withStore<BatchJob[]>('readonly', store => store.getAll());
+    return (jobs || []).sort((a, b) => a.row - b.row);
+}
+
+export async function saveBatchJobs(jobs: BatchJob[]) {
+    await withStore('readwrite', store => jobs.forEach(job => store.put(job)));
+}
+
+/** Merges `changes` into a stored job; a job deleted in the meantime stays deleted. */
+export async function updateBatchJob(id: string, changes: Partial<BatchJob>) {
+    await withStore('readwrite', store => {
+        const request = store.get(id);
+        request.onsuccess = () => request.result && store.put({ ...request.result, ...changes });
+    });
+}
+
+export async function deleteBatchJobs(ids: string[]) {
+    await withStore('readwrite', store => ids.forEach(id => store.delete(id)));
+}
+
+export function loadBatchSettings(): BatchSettings {
+    try {
+        if (typeof localStorage === 'undefined') return DEFAULT_BATCH_SETTINGS;
+        return { ...DEFAULT_BATCH_SETTINGS, ...JSON.parse(localStorage.getItem(BATCH_SETTINGS_STORAGE_KEY) || '{}') };
+    } catch (e) {
+        return DEFAULT_BATCH_SETTINGS;
+    }
+}
+
+export function saveBatchSettings(settings: BatchSettings) {
+    localStorage.setItem(BATCH_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RepoFileTree } from '../types';
+import { MAX_LIST_PAGES, RepoCoordinates, RepoProvider, RepoRequestOptions, encodePath, repoError, repoFetch, repoJson, walkDirectories } from './repoProvider';
+
+// Bitbucket Cloud (API 2.0). Repositories live in workspaces, which play the owner's part.
+
+const repoPath = ({ owner, repo }: RepoCoordinates) => `/repositories/${owner}/${repo}`;
+
+const bitbucketFetch = (repo: RepoCoordinates, path: string, options?: RepoRequestOptions) =>
+  repoFetch(repo.host, `${repo.host.apiUrl}${repoPath(repo)}${path}`, options);
+
+export const bitbucketProvider: RepoProvider = {
+  kind: 'bitbucket',
+
+  parseWebPath([owner, repo, kind, ...rest]) {
+    if (!owner || !repo) return null;
+    const target = { owner, repo: repo.replace(/\.git$/, '') };
+    // /src/<ref>/<dir>, /commits/<sha> and /branch/<name>
+    return ['src', 'commits', 'branch'].includes(kind) && rest.length ? { ...target, refPath: rest.join('/') } : target;
+  },
+
+  async getMetadata(repo, options) {
+    const data = await repoJson(repo.host, await bitbucketFetch(repo, '', options));
+    return { defaultBranch: data.mainbranch?.name || 'main', description: data.description || undefined, isPrivate: !!data.is_private, webUrl: data.links?.html?.href };
+  },
+
+  async resolveRef(repo, ref, options) {
+    // Branches and tags are looked up by name first; only a SHA falls through to the commit lookup
+    for (const path of [`/refs/branches/${encodeURIComponent(ref)}`, `/refs/tags/${encodeURIComponent(ref)}`]) {
+      const response = await bitbucketFetch(repo, path, options);
+      if (response.ok) return (await response.json()).target.hash;
+      if (response.status !== 404) throw repoError(repo.host, response);
+    }
+    const response = await bitbucketFetch(repo, `/commit/${encodeURIComponent(ref)}`, options);
+    if (response.status === 404) return null;
+    return (await repoJson(repo.host, response)).hash;
+  },
+
+  // There is no recursive listing, so every directory is opened on its own, page by page
+  listTree(repo, commitSha, scope, options) {
+    return walkDirectories({ path: '' }, scope, async ({ path }) => {
+      const files: RepoFileTree[] = [];
+      const directories: { path: string }[] = [];
+      let url: string | null = `${repo.host.apiUrl}${repoPath(repo)}/src/${commitSha}/${path ? `${encodePath(path)}/` : ''}?pagelen=100`;
+      for (let page = 0; url && page < MAX_LIST_PAGES; page++) {
+        const data = await repoJson(repo.host, await repoFetch(repo.host, url, options));
+        for (const item of data.values || []) {
+          if (item.type === 'commit_directory') directories.push({ path: item.path });
+          else files.push({ path: item.path, type: 'blob' });
+        }
+        url = data.next || null;
+      }
+      return { files, directories };
+    });
+  },
+
+  async readFile(repo, commitSha, path, options) {
+    const response = await bitbucketFetch(repo, `/src/${commitSha}/${encodePath(path)}`, options);
+    if (!response.ok) throw repoError(repo.host, response);
+    return response.text();
+  }
+};
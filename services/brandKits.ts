@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BrandKit, LogoCorner } from '../types';
+import { compositeLogo } from './imageEditing';
+
+export const BRAND_KITS_STORAGE_KEY = 'l2i_brand_kits';
+export const ACTIVE_BRAND_KIT_STORAGE_KEY = 'l2i_active_brand_kit';
+
+export const LOGO_CORNERS: { id: LogoCorner; label: string }[] = [
+    { id: 'top-left', label: 'Top left' },
+    { id: 'top-right', label: 'Top right' },
+    { id: 'bottom-left', label: 'Bottom left' },
+    { id: 'bottom-right', label: 'Bottom right' }
+];
+
+export const DEFAULT_LOGO_SCALE = 0.12;
+
+/** Logos are stored at most this many pixels on a side; at 30% of a 4K render that is still sharp. */
+export const MAX_LOGO_SIDE = 1024;
+
+export const emptyBrandKit = (name: string): BrandKit => ({
+    id: Date.now().toString(36),
+    name,
+    palette: [],
+    typography: '',
+    tone: '',
+    forbidden: '',
+    logoCorner: 'bottom-right',
+    logoScale: DEFAULT_LOGO_SCALE
+});
+
+/** '#ABC' or 'aabbcc' -> '#aabbcc'; null when the value is not a hex colour. */
+export function normalizeHex(value: string): string | null {
+    const hex = value.trim().replace(/^#/, '').toLowerCase();
+    if (/^[0-9a-f]{3}$/.test(hex)) return `#${hex.split('').map(c => c + c).join('')}`;
+    return /^[0-9a-f]{6}$/.test(hex) ? `#${hex}` : null;
+}
+
+const forbiddenItems = (kit: BrandKit) =>
+    kit.forbidden.split(/\n|;/).map(item => item.trim()).filter(Boolean);
+
+/**
+ * Visual guidelines for render prompts. Empty when no kit is active, so
+ * templates can always include the {{brand}} slot.
+ */
+export function brandKitToPrompt(kit: BrandKit | null | undefined): string {
+    if (!kit) return '';
+    const lines = [`BRAND GUIDELINES (${kit.name}; these override any conflicting style direction):`];
+    if (kit.palette.length) lines.push(`- Colour palette: use only ${kit.palette.join(', ')} (primary ${kit.palette[0]}) plus neutral white, black and greys.`);
+    if (kit.typography.trim()) lines.push(`- Typography: ${kit.typography.trim()}`);
+    if (kit.tone.trim()) lines.push(`- Visual tone: ${kit.tone.trim()}`);
+    const forbidden = forbiddenItems(kit);
+    if (forbidden.length) lines.push(`- Never include: ${forbidden.join('; ')}.`);
+    if (kit.logo) lines.push(`- Leave the ${kit.logoCorner.replace('-', ' ')} corner free of text and graphics; the brand logo is placed there afterwards. Do not draw any logo yourself.`);
+    return lines.length > 1 ? lines.join('\n') : '';
+}
+
+/** Voice and wording rules for analysis prompts, so the spec text is already on-brand. */
+export function brandToneToPrompt(kit: BrandKit | null | undefined): string {
+    if (!kit) return '';
+    const lines: string[] = [];
+    if (kit.tone.trim()) lines.push(`Write in this brand voice: ${kit.tone.trim()}`);
+    const forbidden = forbiddenItems(kit);
+    if (forbidden.length) lines.push(`Never mention or suggest: ${forbidden.join('; ')}.`);
+    return lines.join('\n');
+}
+
+/** The PNG to export: `imageData` with the kit's logo composited in its corner, when it has one. Browser only. */
+export async function withBrandLogo(imageData: string, kit: BrandKit | null | undefined): Promise<string> {
+    if (!kit?.logo) return imageData;
+    return compositeLogo(imageData, kit.logo, kit.logoCorner, kit.logoScale || DEFAULT_LOGO_SCALE);
+}
+
+const readKits = (): BrandKit[] => {
+    try {
+        if (typeof localStorage === 'undefined') return [];
+        const parsed: BrandKit[] = JSON.parse(localStorage.getItem(BRAND_KITS_STORAGE_KEY) || '[]');
+        return parsed.map(kit => ({ ...emptyBrandKit(kit.name), ...kit }));
+    } catch (e) {
+        return [];
+    }
+};
+
+const writeKits = (kits: BrandKit[]) => {
+    try {
+        localStorage.setItem(BRAND_KITS_STORAGE_KEY, JSON.stringify(kits));
+    } catch (e: any) {
+        if (e?.name === 'QuotaExceededError') throw new Error('Browser storage is full. Use a smaller logo or delete a kit you no longer need.');
+        throw e;
+    }
+};
+
+export const listBrandKits = (): BrandKit[] => readKits();
+
+export function saveBrandKit(kit: BrandKit): BrandKit[] {
+    const kits = readKits();
+    const next = kits.some(k => k.id === kit.id) ? kits.map(k => k.id === kit.id ? kit : k) : [...kits, kit];
+    writeKits(next);
+    return next;
+}
+
+export function deleteBrandKit(id: string): BrandKit[] {
+    const next = readKits().filter(k => k.id !== id);
+    writeKits(next);
+    if (getActiveBrandKitId() === id) setActiveBrandKitId(null);
+    return next;
+}
+
+export function getActiveBrandKitId(): string | null {
+    try {
+        if (typeof localStorage !== 'undefined') return localStorage.getItem(ACTIVE_BRAND_KIT_STORAGE_KEY);
+    } catch (e) { }
+    return null;
+}
+
+export function setActiveBrandKitId(id: string | null) {
+    if (id) localStorage.setItem(ACTIVE_BRAND_KIT_STORAGE_KEY, id);
+    else localStorage.removeItem(ACTIVE_BRAND_KIT_STORAGE_KEY);
+}
+
+/** The saved kit with `id`, or null when there is none, e.g. because it was deleted since. */
+export function findBrandKit(id: string | null | undefined): BrandKit | null {
+    return id ? readKits().find(k => k.id === id) ?? null : null;
+}
+
+export const loadActiveBrandKit = (): BrandKit | null => findBrandKit(getActiveBrandKitId());
@@ -0,0 +1,96 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SourceChunk, SourceCoverage } from '../types';
+
+/** Sources up to this length go to the analysis step as they are. */
+export const DIRECT_ANALYSIS_LIMIT = 5000;
+
+/** Target chunk size for the map step; a chunk only exceeds it when one sentence does. */
+export const CHUNK_CHARS = 4000;
+
+/** Most chunks summarised per run. Pinned chunks always count towards it first. */
+export const MAX_CHUNKS = 20;
+
+// Markdown headings, as produced by the article extractor or pasted from docs
+const HEADING = /^#{1,6}\s+(.+?)\s*#*$/;
+
+/** Packs `parts` into pieces of at most `limit` characters, joined with `separator`. */
+function pack(parts: string[], limit: number, separator: string): string[] {
+    const pieces: string[] = [];
+    let current = '';
+    for (const part of parts) {
+        if (current && current.length + separator.length + part.length > limit) {
+            pieces.push(current);
+            current = '';
+        }
+        current = current ? `${current}${separator}${part}` : part;
+    }
+    if (current) pieces.push(current);
+    return pieces;
+}
+
+/** Splits one heading's text by paragraphs, falling back to sentences for oversized paragraphs. */
+function splitSection(text: string): string[] {
+    const paragraphs = text.split(/\n\s*\n/).map(p => p.trim()).filter(Boolean)
+        .flatMap(p => p.length > CHUNK_CHARS ? pack(p.match(/[^.!?]+[.!?]+["')\]]*\s*|[^.!?]+$/g) || [p], CHUNK_CHARS, '') : [p]);
+    return pack(paragraphs, CHUNK_CHARS, '\n\n');
+}
+
+/**
+ * Splits a long source at its headings, then by paragraphs within any section
+ * longer than CHUNK_CHARS. Deterministic, so chunk indices can be used to pin
+ * sections before a run.
+ */
+export function splitIntoChunks(text: string): SourceChunk[] {
+    const sections: { heading: string; lines: string[] }[] = [{ heading: '', lines: [] }];
+    for (const line of text.split('\n')) {
+        const heading = HEADING.exec(line.trim());
+        if (heading) sections.push({ heading: heading[1], lines: [] });
+        else sections[sections.length - 1].lines.push(line);
+    }
+
+    const chunks: SourceChunk[] = [];
+    for (const section of sections) {
+        const body = section.lines.join('\n').trim();
+        if (!body) continue;
+        splitSection(body).forEach((piece, part) => {
+            const heading = section.heading || `Part ${chunks.length + 1}`;
+            chunks.push({ index: chunks.length, heading: part > 0 ? `${heading} (cont.)` : heading, text: piece });
+        });
+    }
+    return chunks;
+}
+
+/**
+ * The chunks a run summarises: all of them when they fit in MAX_CHUNKS,
+ * otherwise every pinned chunk plus an even spread of the rest, so a long
+ * source is sampled end to end rather than cut off after its opening.
+ */
+export function selectChunks(chunks: SourceChunk[], pinned: number[] = []): SourceChunk[] {
+    if (chunks.length <= MAX_CHUNKS) return chunks;
+    const chosen = new Set(pinned.filter(i => i >= 0 && i < chunks.length).slice(0, MAX_CHUNKS));
+    const rest = chunks.filter(c => !chosen.has(c.index));
+    const slots = MAX_CHUNKS - chosen.size;
+    for (let i = 0; i < slots; i++) chosen.add(rest[Math.floor(i * rest.length / slots)].index);
+    return chunks.filter(c => chosen.has(c.index));
+}
+
+export function measureCoverage(chunks: SourceChunk[], summarized: SourceChunk[], pinned: number[] = []): SourceCoverage {
+    return {
+        totalChars: chunks.reduce((sum, c) => sum + c.text.length, 0),
+        coveredChars: summarized.reduce((sum, c) => sum + c.text.length, 0),
+        totalChunks: chunks.length,
+        summarizedChunks: summarized.map(c => c.index),
+        pinnedChunks: pinned.filter(i => summarized.some(c => c.index === i))
+    };
+}
+
+/** Coverage of a source short enough to be analysed whole. */
+export const fullCoverage = (text: string): SourceCoverage =>
+    ({ totalChars: text.length, coveredChars: text.length, totalChunks: 1, summarizedChunks: [0], pinnedChunks: [] });
+
+export const coveragePercent = (coverage: SourceCoverage): number =>
+    coverage.totalChars ? Math.round(100 * coverage.coveredChars / coverage.totalChars) : 100;
@@ -0,0 +1,318 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type ServiceErrorKind =
+    | 'auth'
+    | 'quota'
+    | 'safety'
+    | 'network'
+    | 'rate_limit'
+    | 'not_found'
+    | 'cancelled'
+    | 'unknown';
+
+/** The code hosts repositories are read from, one per repository provider. */
+export type RepoSource = 'github' | 'gitlab' | 'bitbucket' | 'gitea';
+
+export type ServiceErrorSource = 'gemini' | RepoSource | 'web';
+
+const REPO_SOURCES: ServiceErrorSource[] = ['github', 'gitlab', 'bitbucket', 'gitea'];
+
+export const isRepoSource = (source: ServiceErrorSource): source is RepoSource => REPO_SOURCES.includes(source);
+
+/**
+ * A classified failure from geminiService, a repository provider or articleService. Studios branch on
+ * `kind` instead of substring-matching raw API messages.
+ */
+export class ServiceError extends Error {
+    readonly kind: ServiceErrorKind;
+    readonly source: ServiceErrorSource;
+    /** When a rate-limited caller may try again (GitHub X-RateLimit-Reset). */
+    readonly resetAt?: Date;
+    /** The raw error this one was classified from. */
+    readonly cause?: unknown;
+
+    constructor(kind: ServiceErrorKind, message: string, options: { source: ServiceErrorSource; resetAt?: Date; cause?: unknown }) {
+        super(message);
+        this.name = 'ServiceError';
+        this.kind = kind;
+        this.source = options.source;
+        this.resetAt = options.resetAt;
+        if (options.cause !== undefined) this.cause = options.cause;
+    }
+
+    get retryable(): boolean {
+        return this.kind === 'network';
+    }
+}
+
+const messageOf = (err: any): string =>
+    typeof err === 'string' ? err : (err?.message || JSON.stringify(err));
+
+const isAbortError = (err: any) => err?.name === 'AbortError';
+
+export const isCancellation = (err: unknown): boolean =>
+    (err instanceof ServiceError && err.kind === 'cancelled') || isAbortError(err);
+
+/** Stops a pipeline between stages once the caller has aborted. */
+export function throwIfAborted(signal?: AbortSignal, source: ServiceErrorSource = 'gemini') {
+    if (signal?.aborted) throw new ServiceError('cancelled', 'Generation cancelled.', { source });
+}
+
+/** Settles with `promise`, or rejects as cancelled the moment `signal` aborts. */
+export function raceAbort<T>(promise: Promise<T>, signal?: AbortSignal, source: ServiceErrorSource = 'gemini'): Promise<T> {
+    if (!signal) return promise;
+    throwIfAborted(signal, source);
+    return new Promise<T>((resolve, reject) => {
+        const onAbort = () => reject(new ServiceError('cancelled', 'Generation cancelled.', { source }));
+        signal.addEventListener('abort', onAbort, { once: true });
+        promise.then(resolve, reject).finally(() => signal.removeEventListener('abort', onAbort));
+    });
+}
+
+/** The `error` object of a failed Gemini response, which the SDK's ApiError carries as JSON in its message. */
+interface GeminiErrorBody {
+    code?: number;
+    status?: string;
+    details?: { reason?: string }[];
+}
+
+function geminiErrorBody(err: any): GeminiErrorBody {
+    // Streamed errors prefix the JSON with "got status: ..."
+    const message = typeof err?.message === 'string' ? err.message : '';
+    const json = message.indexOf('{');
+    if (json < 0) return {};
+    try {
+        return JSON.parse(message.slice(json))?.error ?? {};
+    } catch (e) {
+        return {};
+    }
+}
+
+/** Fetch rejects with a TypeError (carrying a `cause` in Node) when the request never got a response. */
+const isFetchFailure = (err: any) => (err instanceof TypeError && err.cause !== undefined) || err?.name === 'NetworkError';
+
+export function classifyGeminiError(err: any): ServiceError {
+    if (err instanceof ServiceError) return err;
+    if (isAbortError(err)) return new ServiceError('cancelled', 'Generation cancelled.', { source: 'gemini', cause: err });
+    const body = geminiErrorBody(err);
+    // ApiError and HTTP responses carry `status`; some clients report it as `code`
+    const status: number | undefined = [err?.status, err?.code, body.code].find(value => typeof value === 'number');
+    const keyRejected = body.details?.some(detail => detail.reason === 'API_KEY_INVALID');
+
+    if (status === 401 || keyRejected || body.status === 'UNAUTHENTICATED') {
+        return new ServiceError('auth', "Gemini rejected the API key. Select a valid key and try again.", { source: 'gemini', cause: err });
+    }
+    if (status === 403 || body.status === 'PERMISSION_DENIED') {
+        return new ServiceError('auth', "This API key cannot use this model. Gemini 3 image models need a key from a Google Cloud project with billing enabled.", { source: 'gemini', cause: err });
+    }
+    // AI Studio answers "Requested entity was not found" when the selected key's project cannot see the model
+    if (status === 404) {
+        return new ServiceError('auth', "The selected API key cannot find this model. Select a key from a project that has access to it.", { source: 'gemini', cause: err });
+    }
+    if (status === 429 || body.status === 'RESOURCE_EXHAUSTED') {
+        return new ServiceError('quota', "Gemini quota exhausted for this API key. Wait a moment or check your plan limits.", { source: 'gemini', cause: err });
+    }
+    if ((status !== undefined && status >= 500) || isFetchFailure(err)) {
+        return new ServiceError('network', "Gemini is temporarily unreachable. Please try again.", { source: 'gemini', cause: err });
+    }
+    return new ServiceError('unknown', messageOf(err) || 'An unexpected error occurred. Please try again.', { source: 'gemini', cause: err });
+}
+
+/** Maps a non-OK code host API response; `hostName` is how the host is named in messages. */
+export function classifyRepoResponse(response: Response, source: RepoSource, hostName: string): ServiceError {
+    // GitHub sends X-RateLimit-*, GitLab the unprefixed RateLimit-* headers
+    const remaining = response.headers.get('X-RateLimit-Remaining') ?? response.headers.get('RateLimit-Remaining');
+    const reset = response.headers.get('X-RateLimit-Reset') ?? response.headers.get('RateLimit-Reset');
+    const retryAfter = response.headers.get('Retry-After');
+
+    if (response.status === 429 || (response.status === 403 && (remaining === '0' || retryAfter))) {
+        const resetAt = reset
+            ? new Date(Number(reset) * 1000)
+            : retryAfter ? new Date(Date.now() + Number(retryAfter) * 1000) : undefined;
+        return new ServiceError('rate_limit', `${hostName} API rate limit exceeded.`, { source, resetAt });
+    }
+    if (response.status === 401 || response.status === 403) {
+        return new ServiceError('auth', `${hostName} denied access to this repository.`, { source });
+    }
+    if (response.status === 404) {
+        return new ServiceError('not_found', `Repository or branch not found on ${hostName}.`, { source });
+    }
+    if (response.status >= 500) {
+        return new ServiceError('network', `${hostName} is temporarily unavailable. Please try again.`, { source });
+    }
+    return new ServiceError('unknown', `${hostName} request failed with status ${response.status}.`, { source });
+}
+
+export function classifyRepoError(err: any, source: RepoSource, hostName: string): ServiceError {
+    if (err instanceof ServiceError) return err;
+    if (isAbortError(err)) return new ServiceError('cancelled', 'Generation cancelled.', { source, cause: err });
+    if (err instanceof TypeError) {
+        return new ServiceError('network', `Could not reach ${hostName}. Check your connection and try again.`, { source, cause: err });
+    }
+    return new ServiceError('unknown', messageOf(err), { source, cause: err });
+}
+
+/** Maps a non-OK response from the /fetch-page proxy (or the upstream status it passes through). */
+export function classifyPageResponse(response: Response): ServiceError {
+    switch (response.status) {
+        case 401:
+        case 403:
+            return new ServiceError('auth', 'The site refused to serve this page.', { source: 'web' });
+        case 404:
+        case 410:
+            return new ServiceError('not_found', 'Page not found. Check the URL.', { source: 'web' });
+        case 413:
+            return new ServiceError('unknown', 'The page is too large to import.', { source: 'web' });
+        case 415:
+            return new ServiceError('unknown', 'The URL does not point to an HTML page.', { source: 'web' });
+        case 400:
+            return new ServiceError('not_found', 'That does not look like a public web address.', { source: 'web' });
+        case 429:
+            return new ServiceError('rate_limit', 'The site is rate limiting requests.', { source: 'web' });
+    }
+    if (response.status >= 500) {
+        return new ServiceError('network', 'Could not load the page. The site may be down or slow.', { source: 'web' });
+    }
+    return new ServiceError('unknown', `Page request failed with status ${response.status}.`, { source: 'web' });
+}
+
+export function classifyPageError(err: any): ServiceError {
+    if (err instanceof ServiceError) return err;
+    if (isAbortError(err)) return new ServiceError('cancelled', 'Generation cancelled.', { source: 'web', cause: err });
+    if (err instanceof TypeError) {
+        return new ServiceError('network', 'Could not reach the page proxy. Check your connection and try again.', { source: 'web', cause: err });
+    }
+    return new ServiceError('unknown', messageOf(err), { source: 'web', cause: err });
+}
+
+/** A ServiceError as the generation server sends it over the wire. */
+export interface ErrorPayload {
+    kind: ServiceErrorKind;
+    message: string;
+    resetAt?: string;
+}
+
+export const toErrorPayload = (error: ServiceError): ErrorPayload => ({
+    kind: error.kind,
+    message: error.message,
+    ...(error.resetAt ? { resetAt: error.resetAt.toISOString() } : {})
+});
+
+export const fromErrorPayload = (payload: ErrorPayload): ServiceError =>
+    new ServiceError(payload.kind, payload.message, { source: 'gemini', resetAt: payload.resetAt ? new Date(payload.resetAt) : undefined });
+
+/**
+ * Maps a failure reported by the /api/generate proxy. Errors the server
+ * classified keep their kind, so a bad server key still reads as `auth`.
+ */
+export function classifyProxyResponse(response: Response, payload?: Partial<ErrorPayload>): ServiceError {
+    if (payload?.kind && payload.message) return fromErrorPayload(payload as ErrorPayload);
+    if (response.status === 429) {
+        const retryAfter = response.headers.get('Retry-After');
+        const resetAt = retryAfter ? new Date(Date.now() + Number(retryAfter) * 1000) : undefined;
+        return new ServiceError('rate_limit', 'Too many generation requests from this browser.', { source: 'gemini', resetAt });
+    }
+    if (response.status === 413) {
+        return new ServiceError('unknown', 'The request is too large for the generation server.', { source: 'gemini' });
+    }
+    if (response.status >= 500 || response.status === 404) {
+        return new ServiceError('network', 'The generation server is unreachable. Please try again.', { source: 'gemini' });
+    }
+    return new ServiceError('unknown', `Generation request failed with status ${response.status}.`, { source: 'gemini' });
+}
+
+export function classifyProxyError(err: any): ServiceError {
+    if (err instanceof ServiceError) return err;
+    if (isAbortError(err)) return new ServiceError('cancelled', 'Generation cancelled.', { source: 'gemini', cause: err });
+    if (err instanceof TypeError) {
+        return new ServiceError('network', 'Could not reach the generation server. Check your connection and try again.', { source: 'gemini', cause: err });
+    }
+    return new ServiceError('unknown', messageOf(err), { source: 'gemini', cause: err });
+}
+
+export interface RetryOptions {
+    retries?: number;
+    baseDelayMs?: number;
+    maxDelayMs?: number;
+    signal?: AbortSignal;
+    onRetry?: (attempt: number, error: ServiceError, delayMs: number) => void;
+}
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new DOMException('Aborted', 'AbortError'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs `fn`, retrying retryable failures with exponential backoff and full
+ * jitter. Every error that escapes is a classified ServiceError.
+ */
+export async function withRetry<T>(
+    fn: () => Promise<T>,
+    classify: (err: any) => ServiceError,
+    { retries = 3, baseDelayMs = 500, maxDelayMs = 8000, signal, onRetry }: RetryOptions = {}
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+            return await fn();
+        } catch (err) {
+            const error = classify(err);
+            if (!error.retryable || attempt >= retries) throw error;
+            const delayMs = Math.round(Math.random() * Math.min(maxDelayMs, baseDelayMs * 2 ** attempt));
+            onRetry?.(attempt + 1, error, delayMs);
+            try {
+                await sleep(delayMs, signal);
+            } catch (abortErr) {
+                throw classify(abortErr);
+            }
+        }
+    }
+}
+
+export type RecoveryAction = 'select_key' | 'retry' | 'edit_input' | 'wait' | 'none';
+
+export interface ErrorDescription {
+    message: string;
+    action: RecoveryAction;
+    actionLabel: string;
+}
+
+/** Maps any studio error to its message and the recovery action the UI offers. */
+export function describeError(error: ServiceError | string): ErrorDescription {
+    if (typeof error === 'string') return { message: error, action: 'none', actionLabel: '' };
+
+    switch (error.kind) {
+        case 'auth':
+            if (error.source === 'gemini') return { message: error.message, action: 'select_key', actionLabel: 'Select API Key' };
+            return isRepoSource(error.source)
+                ? { message: `${error.message} The repository may be private.`, action: 'edit_input', actionLabel: 'Edit Input' }
+                : { message: `${error.message} It may require a login or block automated requests.`, action: 'edit_input', actionLabel: 'Edit Input' };
+        case 'quota':
+        case 'network':
+            return { message: error.message, action: 'retry', actionLabel: 'Try Again' };
+        case 'rate_limit': {
+            const when = error.resetAt
+                ? `Resets at ${error.resetAt.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+                : 'Usually resets within an hour.';
+            return { message: `${error.message} ${when}`, action: 'wait', actionLabel: when };
+        }
+        case 'cancelled':
+            return { message: error.message, action: 'none', actionLabel: '' };
+        case 'safety':
+        case 'not_found':
+            return { message: error.message, action: 'edit_input', actionLabel: 'Edit Input' };
+        default:
+            return { message: error.message, action: 'retry', actionLabel: 'Try Again' };
+    }
+}
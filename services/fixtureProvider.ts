@@ -0,0 +1,191 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema, Type } from "@google/genai";
+import { RepoFileTree } from '../types';
+import { GenerationProvider, ImageEditRequest, ImageRequest, StreamTextRequest, TextRequest, VisionRequest } from './generationProvider';
+import { encodePng } from './imageService';
+import { throwIfAborted } from './errors';
+
+// Deterministic offline stand-in for Gemini: the same request always yields the same output.
+
+const CANNED_SUMMARIES = [
+    "Key takeaways: 1) The source introduces a clear problem statement. 2) Three supporting data points show a 42% improvement. 3) A step-by-step process explains the approach. 4) The conclusion recommends adopting the approach incrementally.",
+    "Overview: The content is organised into four pillars - Context, Method, Results and Next Steps. Headline stat: 3x faster turnaround. Supporting stats: 87% satisfaction, 12 regions covered.",
+    "Summary: A timeline of five milestones, a comparison between the old and new process, and a closing call-to-action inviting readers to try the workflow themselves."
+];
+
+const CANNED_VISION = {
+    prompt: "A clean, flat-design infographic on a soft neutral background, bold sans-serif headline at the top, four evenly spaced content cards with icons, muted teal and coral accents, even studio lighting, centered symmetrical composition. [SUGGESTION: Add more cinematic lighting], [SUGGESTION: Change to vaporwave style], [SUGGESTION: Use a darker high-contrast palette]",
+    ocr: "FIXTURE INFOGRAPHIC\n1. Context\n2. Method\n3. Results - 42%\n4. Next Steps\n[SUGGESTION: Increase headline contrast], [SUGGESTION: Group the statistics in one row]",
+    chat: "The image shows a structured infographic with a headline, four sections and a footer. [SUGGESTION: Add a focal illustration], [SUGGESTION: Reduce text density], [SUGGESTION: Introduce a brand accent colour]"
+};
+
+export const FIXTURE_REPO_TREE: RepoFileTree[] = [
+    'package.json',
+    'src/index.ts',
+    'src/app.tsx',
+    'src/components/Header.tsx',
+    'src/components/Dashboard.tsx',
+    'src/services/api.ts',
+    'src/services/auth.ts',
+    'src/store/index.ts',
+    'src/utils/format.ts',
+    'server/main.go',
+    'server/handlers/users.go',
+    'config/settings.yaml'
+].map(path => ({ path, type: 'blob' }));
+
+export const FIXTURE_REPO_COMMIT = 'f1c7e5a0d2b94c3e8a6f0b1d7e2c9a4b5d3f6e80';
+
+/** A saved news-style page with the usual chrome around the article, served in place of /fetch-page offline. */
+export const FIXTURE_ARTICLE_HTML = `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>City Trials Four-Day Week | The Fixture Herald</title>
+  <meta name="description" content="A six-month pilot across 12 departments reports a 42% drop in sick days.">
+  <meta property="og:title" content="City Hall's Four-Day Week Pilot Cuts Sick Days by 42%">
+  <meta property="og:image" content="/images/four-day-week.jpg">
+  <meta property="og:site_name" content="The Fixture Herald">
+  <meta name="author" content="Staff Reporter">
+  <script type="application/ld+json">
+  {"@context":"https://schema.org","@graph":[
+    {"@type":"WebSite","name":"The Fixture Herald","url":"https://herald.example.com"},
+    {"@type":"NewsArticle","headline":"City Hall&#39;s Four-Day Week Pilot Cuts Sick Days by 42%",
+     "author":[{"@type":"Person","name":"Dana Okafor"}],"datePublished":"2025-03-14T08:00:00Z",
+     "image":{"@type":"ImageObject","url":"https://herald.example.com/images/four-day-week.jpg"},
+     "publisher":{"@type":"Organization","name":"The Fixture Herald"}}
+  ]}
+  </script>
+  <script>window.analytics = { track: function () {} };</script>
+  <style>.promo { display: none; }</style>
+</head>
+<body>
+  <header class="site-header"><a href="/">The Fixture Herald</a>
+    <nav><a href="/news">News</a> <a href="/business">Business</a> <a href="/opinion">Opinion</a></nav>
+  </header>
+  <div class="cookie-banner">We use cookies to improve your experience. <button>Accept</button></div>
+  <main>
+    <article class="story">
+      <h1>City Hall&rsquo;s Four-Day Week Pilot Cuts Sick Days by 42%</h1>
+      <p class="byline">By <a href="/authors/dana">Dana Okafor</a> &middot; <time datetime="2025-03-14">March 14, 2025</time></p>
+      <div class="story-body">
+        <p>A six-month trial of a four-day working week across 12 city departments has cut sick days by 42%, according to an evaluation published on Friday.</p>
+        <p>The pilot, which involved 870 staff, kept salaries unchanged while reducing scheduled hours from 37.5 to 32 per week. Service response times, the council said, stayed within their usual targets.</p>
+        <h2>What changed</h2>
+        <p>Departments were free to choose how they compressed the week. Most closed on Fridays, while customer-facing teams staggered their days off so that offices stayed open, meetings were shortened and internal reporting was cut by a third.</p>
+        <ul><li>Meetings capped at 30 minutes<li>Two focus mornings a week<li>Shared rota for public counters</ul>
+        <blockquote>&ldquo;People came back on Monday with energy we had not seen in years,&rdquo; said one department head.</blockquote>
+        <h2>What comes next</h2>
+        <p>Councillors will vote next month on whether to extend the scheme to all 3,400 employees. Unions have welcomed the results, but the finance committee has asked for a fuller breakdown of overtime costs before committing.</p>
+      </div>
+    </article>
+    <aside class="related"><h3>Related</h3><ul><li><a href="/a">Remote work two years on</a></li><li><a href="/b">Inside the council budget</a></li></ul></aside>
+  </main>
+  <div class="newsletter-signup"><p>Get the morning briefing in your inbox, every weekday, free of charge.</p><form><input type="email"></form></div>
+  <footer><p>&copy; 2025 The Fixture Herald. All rights reserved.</p></footer>
+</body>
+</html>`;
+
+function hashString(input: string): number {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < input.length; i++) {
+        hash ^= input.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+function pick<T>(items: T[], seed: string): T {
+    return items[hashString(seed) % items.length];
+}
+
+function sizeForRatio(aspectRatio: string): [number, number] {
+    const [w, h] = aspectRatio.split(':').map(Number);
+    if (!w || !h) return [96, 96];
+    return w >= h ? [96, Math.round(96 * h / w)] : [Math.round(96 * w / h), 96];
+}
+
+function renderFixturePng(seed: string, aspectRatio: string): string {
+    const [width, height] = sizeForRatio(aspectRatio);
+    const hash = hashString(seed);
+    const accent: [number, number, number] = [hash & 0xff, (hash >>> 8) & 0xff, (hash >>> 16) & 0xff];
+    const headerEnd = Math.round(height * 0.18);
+    return encodePng(width, height, (x, y) => {
+        if (y < headerEnd) return accent;
+        const inCard = x % 24 > 3 && (y - headerEnd) % 20 > 3;
+        return inCard ? [248, 250, 252] : [226, 232, 240];
+    });
+}
+
+/** Builds a schema-conforming value so JSON-mode callers get parseable output. */
+function sampleFromSchema(schema: Schema, name: string, seed: string): unknown {
+    switch (schema.type) {
+        case Type.OBJECT: {
+            const out: Record<string, unknown> = {};
+            Object.entries(schema.properties || {}).forEach(([key, child]) => {
+                out[key] = sampleFromSchema(child, key, seed);
+            });
+            return out;
+        }
+        case Type.ARRAY:
+            return schema.items ? [1, 2, 3].map(i => sampleFromSchema(schema.items!, `${name} ${i}`, seed)) : [];
+        case Type.NUMBER:
+        case Type.INTEGER:
+            return 10 + hashString(seed + name) % 90;
+        case Type.BOOLEAN:
+            return true;
+        default:
+            return schema.enum?.length ? schema.enum[0] : `Fixture ${name}`;
+    }
+}
+
+export const fixtureProvider: GenerationProvider = {
+    id: 'fixture',
+
+    async generateText({ prompt, useSearch, responseSchema, signal }: TextRequest) {
+        throwIfAborted(signal);
+        const text = responseSchema
+            ? JSON.stringify(sampleFromSchema(responseSchema, 'value', prompt))
+            : pick(CANNED_SUMMARIES, prompt);
+        const citations = useSearch
+            ? [{ uri: 'https://example.com/fixture-source', title: 'Fixture Source (offline)' }]
+            : [];
+        return { text, citations };
+    },
+
+    async streamText(request: StreamTextRequest) {
+        const result = await this.generateText(request);
+        // Replay the canned text word by word so the streaming UI has something to show
+        const words = result.text.split(/(?<=\s)/);
+        let text = '';
+        request.onText(text);
+        for (const word of words) {
+            await new Promise(resolve => setTimeout(resolve, 15));
+            throwIfAborted(request.signal);
+            text += word;
+            request.onText(text);
+        }
+        return result;
+    },
+
+    async generateImage({ prompt, aspectRatio, candidate, settings, signal }: ImageRequest) {
+        throwIfAborted(signal);
+        const seed = settings?.seed !== undefined ? `${prompt}@${settings.seed}` : prompt;
+        return renderFixturePng(candidate ? `${seed}#${candidate}` : seed, aspectRatio);
+    },
+
+    async editImage({ prompt, aspectRatio, signal }: ImageEditRequest) {
+        throwIfAborted(signal);
+        return renderFixturePng(`edit:${prompt}`, aspectRatio || '1:1');
+    },
+
+    async analyzeImage({ prompt, task, responseSchema, signal }: VisionRequest) {
+        throwIfAborted(signal);
+        if (responseSchema) return JSON.stringify(sampleFromSchema(responseSchema, 'value', prompt));
+        return CANNED_VISION[task || 'chat'];
+    }
+};
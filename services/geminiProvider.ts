@@ -0,0 +1,157 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GoogleGenAI, Modality, GenerateContentResponse, GenerateContentParameters, GenerateContentConfig, Schema } from "@google/genai";
+import { Citation, ImageSettings } from '../types';
+import { GenerationProvider, RequestOptions } from './generationProvider';
+import { ServiceError, classifyGeminiError, withRetry } from './errors';
+import { DEFAULT_IMAGE_SETTINGS, supportedSizes } from './modelPreferences';
+
+// Only sizes the model supports are sent; temperature and seed only when set
+const imageConfigFor = (aspectRatio: string, settings: ImageSettings): GenerateContentConfig => ({
+  responseModalities: [Modality.IMAGE],
+  imageConfig: supportedSizes(settings.model).length > 1
+    ? { aspectRatio, imageSize: settings.size }
+    : { aspectRatio },
+  ...(settings.temperature !== undefined ? { temperature: settings.temperature } : {}),
+  ...(settings.seed !== undefined ? { seed: settings.seed } : {})
+});
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
+
+// Blocked prompts come back as a successful response with no content, so surface them as errors
+const assertNotBlocked = (response: GenerateContentResponse) => {
+  const blockReason = response.promptFeedback?.blockReason;
+  const finishReason = response.candidates?.[0]?.finishReason;
+  if (blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason))) {
+    throw new ServiceError('safety', "The content was flagged by safety filters. Please try different content.", { source: 'gemini' });
+  }
+};
+
+// Every SDK call goes through here so failures are classified and transient ones retried
+const callGemini = (ai: () => GoogleGenAI, params: GenerateContentParameters, { signal, onRetry }: RequestOptions = {}): Promise<GenerateContentResponse> =>
+  withRetry(async () => {
+    const response = await ai().models.generateContent({
+      ...params,
+      config: { ...params.config, abortSignal: signal }
+    });
+    assertNotBlocked(response);
+    return response;
+  }, classifyGeminiError, { signal, onRetry });
+
+const extractImageData = (response: GenerateContentResponse): string | null => {
+  let imageData: string | null = null;
+  for (const part of response.candidates?.[0]?.content?.parts || []) {
+    if (part.inlineData?.data) imageData = part.inlineData.data;
+  }
+  return imageData;
+};
+
+const extractCitations = (response: GenerateContentResponse): Citation[] => {
+  const citations: Citation[] = [];
+  const chunks = response.candidates?.[0]?.groundingMetadata?.groundingChunks;
+  if (chunks) {
+    chunks.forEach((c: any) => c.web && citations.push({ uri: c.web.uri, title: c.web.title }));
+  }
+  return citations;
+};
+
+// Search grounding cannot be combined with a JSON response schema; the schema wins,
+// so a grounded analysis searches in a call of its own first (generateArticleInfographic)
+const textConfig = (useSearch?: boolean, responseSchema?: Schema): GenerateContentConfig | undefined =>
+  responseSchema
+    ? { responseMimeType: "application/json", responseSchema }
+    : useSearch ? { tools: [{ googleSearch: {} }] } : undefined;
+
+/**
+ * A provider that calls the Gemini SDK directly with the key `getApiKey`
+ * returns. The browser uses the key AI Studio selects; the generation
+ * server uses its own.
+ */
+export function createGeminiProvider(getApiKey: () => string | undefined): GenerationProvider {
+  const ai = () => {
+    const apiKey = getApiKey();
+    if (!apiKey || apiKey === 'undefined') {
+      throw new ServiceError('auth', "No API key selected. Please use the 'Set API Key' button.", { source: 'gemini' });
+    }
+    return new GoogleGenAI({ apiKey });
+  };
+
+  return {
+    id: 'gemini',
+
+    async generateText({ model, prompt, useSearch, responseSchema, signal, onRetry }) {
+      const response = await callGemini(ai, {
+        model: model,
+        contents: prompt,
+        config: textConfig(useSearch, responseSchema)
+      }, { signal, onRetry });
+      return { text: response.text || "", citations: extractCitations(response) };
+    },
+
+    streamText({ model, prompt, useSearch, responseSchema, signal, onRetry, onText }) {
+      return withRetry(async () => {
+        const stream = await ai().models.generateContentStream({
+          model: model,
+          contents: prompt,
+          config: { ...textConfig(useSearch, responseSchema), abortSignal: signal }
+        });
+        let text = "";
+        const citations: Citation[] = [];
+        onText(text);
+        for await (const chunk of stream) {
+          assertNotBlocked(chunk);
+          text += chunk.text || "";
+          // Grounding metadata may arrive on any chunk, usually the last
+          extractCitations(chunk).forEach(c => citations.some(x => x.uri === c.uri) || citations.push(c));
+          onText(text);
+        }
+        return { text, citations };
+      }, classifyGeminiError, { signal, onRetry });
+    },
+
+    async generateImage({ prompt, aspectRatio, referenceImage, settings = DEFAULT_IMAGE_SETTINGS, signal, onRetry }) {
+      const parts: any[] = [{ text: prompt }];
+      if (referenceImage) parts.push({ inlineData: referenceImage });
+      const response = await callGemini(ai, {
+        model: settings.model,
+        contents: { parts },
+        config: imageConfigFor(aspectRatio, settings),
+      }, { signal, onRetry });
+      return extractImageData(response);
+    },
+
+    async editImage({ image, prompt, aspectRatio = "1:1", settings = DEFAULT_IMAGE_SETTINGS, signal, onRetry }) {
+      const response = await callGemini(ai, {
+        model: settings.model,
+        contents: { parts: [{ inlineData: image }, { text: prompt }] },
+        config: imageConfigFor(aspectRatio, settings),
+      }, { signal, onRetry });
+      return extractImageData(response);
+    },
+
+    async analyzeImage({ model, image, prompt, responseSchema, signal, onRetry }) {
+      const response = await callGemini(ai, {
+        model: model,
+        contents: { parts: [{ inlineData: image }, { text: prompt }] },
+        config: responseSchema ? { responseMimeType: "application/json", responseSchema } : undefined
+      }, { signal, onRetry });
+      return response.text || "";
+    }
+  };
+}
+
+/**
+ * The key for calls from the browser, read on every request. AI Studio puts
+ * the key picked with `openSelectKey` on `window.process.env` at run time;
+ * the bracket lookup keeps Vite from replacing it with the build's empty
+ * `process.env`. Builds with L2I_PROVIDER=gemini inline a fallback key.
+ */
+export function browserApiKey(): string | undefined {
+  const runtime = (globalThis as { process?: { env?: Record<string, string | undefined> } })['process'];
+  return runtime?.env?.API_KEY || process.env.L2I_BUILD_API_KEY || undefined;
+}
+
+export const geminiProvider = createGeminiProvider(browserApiKey);
@@ -1,55 +1,123 @@
-
 /**
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { RepoFileTree, Citation, GeminiModel, ImageMetadata } from '../types';
+import { Type } from "@google/genai";
+import { BrandKit, RepoFileTree, Citation, GeminiModel, ImageMetadata, ImageSettings, InfographicSpec, QualityIssue, QualityReport, SourceCoverage } from '../types';
+import { GenerationProvider, ProviderId, StreamTextRequest, TextRequest, TextResult, VisionRequest, VisionTask, resolveProviderId } from './generationProvider';
+import { fixtureProvider } from './fixtureProvider';
+import { geminiProvider } from './geminiProvider';
+import { proxyProvider } from './proxyProvider';
+import { isCancellation, raceAbort, throwIfAborted } from './errors';
+import { AnalysisHooks, ProgressListener, RetryHook, byteLength, runStage } from './progress';
+import { INFOGRAPHIC_SPEC_SCHEMA, parseSpec, specToPrompt } from './infographicSpec';
+import { renderPrompt } from './promptTemplates';
+import { mapSettled } from './concurrency';
+import { DEFAULT_IMAGE_SETTINGS } from './modelPreferences';
+import { sourceAspectRatio } from './imageEditing';
+import { correctionsToPrompt, verifyRenderedText } from './verification';
+import { brandKitToPrompt, brandToneToPrompt } from './brandKits';
+import { CacheKind, cached, contentHash } from './responseCache';
+import { DIRECT_ANALYSIS_LIMIT, fullCoverage, measureCoverage, selectChunks, splitIntoChunks } from './chunking';
 
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey || apiKey === 'undefined') {
-    throw new Error("No API key selected. Please use the 'Set API Key' button.");
-  }
-  return new GoogleGenAI({ apiKey });
+const PROVIDERS: Record<ProviderId, GenerationProvider> = {
+  gemini: geminiProvider,
+  proxy: proxyProvider,
+  fixture: fixtureProvider
+};
+
+let activeProvider: GenerationProvider = PROVIDERS[resolveProviderId()];
+
+export const getGenerationProvider = (): GenerationProvider => activeProvider;
+
+// Node entry points pass their own instance, e.g. a Gemini provider keyed from the environment
+export const setGenerationProvider = (provider: ProviderId | GenerationProvider) => {
+  activeProvider = typeof provider === 'string' ? PROVIDERS[provider] : provider;
 };
 
+export const isOfflineMode = () => activeProvider.id === 'fixture';
+
+// Progress events name the model that actually served the stage
+const modelLabel = (model: string) => isOfflineMode() ? `fixture:${model}` : model;
+
+/**
+ * Text calls whose answer depends only on model, template and prompt are
+ * answered from the response cache when possible. A cache hit replays the
+ * text through `onText` so streaming views still fill in. Offline fixtures
+ * cost nothing and bypass the cache.
+ */
+async function cachedText(kind: CacheKind, version: string, request: TextRequest | StreamTextRequest): Promise<TextResult & { cached: boolean }> {
+    const run = () => 'onText' in request ? activeProvider.streamText(request) : activeProvider.generateText(request);
+    if (isOfflineMode()) return { ...await run(), cached: false };
+    const { value, hit } = await cached(kind, [request.model, version, request.prompt, !!request.useSearch], run);
+    if (hit && 'onText' in request) request.onText(value.text);
+    return { ...value, cached: hit };
+}
+
 export interface InfographicResult {
     imageData: string | null;
+    /** Every successfully rendered variant; `imageData` is the first of these. */
+    candidates: string[];
     citations: Citation[];
+    spec: InfographicSpec;
+    /** How much of a pasted or fetched source the analysis saw; unset for search-grounded URLs. */
+    coverage?: SourceCoverage;
+}
+
+/** Re-renders an already reviewed spec, skipping analysis, with fixes for a failed check. */
+export interface RenderRevision {
+    spec: InfographicSpec;
+    corrections?: QualityIssue[];
+}
+
+const revisedSpecPrompt = (spec: InfographicSpec, corrections: QualityIssue[] = []) =>
+    [specToPrompt(spec), correctionsToPrompt(corrections)].filter(Boolean).join('\n');
+
+export const MAX_VARIANTS = 4;
+const VARIANT_CONCURRENCY = 2;
+
+/**
+ * Renders `count` candidates of the same prompt, at most VARIANT_CONCURRENCY
+ * at a time. Failed candidates are dropped; if none succeed the first error
+ * is rethrown, and a cancellation always wins.
+ */
+export async function renderVariants(count: number, render: (variant?: number) => Promise<string | null>): Promise<string[]> {
+    if (count <= 1) {
+        const image = await render();
+        return image ? [image] : [];
+    }
+    const indices = Array.from({ length: Math.min(count, MAX_VARIANTS) }, (_, i) => i);
+    const results = await mapSettled(indices, VARIANT_CONCURRENCY, i => render(i));
+    const failures = results.flatMap(r => r.status === 'rejected' ? [r.reason] : []);
+    const cancelled = failures.find(isCancellation);
+    if (cancelled) throw cancelled;
+    const images = results.flatMap(r => r.status === 'fulfilled' && r.value ? [r.value] : []);
+    if (images.length === 0 && failures.length > 0) throw failures[0];
+    return images;
 }
 
 export async function processVisionTask(
-    base64Data: string, 
-    mimeType: string, 
-    task: 'prompt' | 'chat' | 'ocr', 
+    base64Data: string,
+    mimeType: string,
+    task: VisionTask,
     userQuery?: string,
-    model: GeminiModel = 'gemini-3-flash-preview'
+    model: GeminiModel = 'gemini-3-flash-preview',
+    signal?: AbortSignal
 ): Promise<string> {
-    const ai = getAiClient();
-    const imagePart = {
-        inlineData: {
-            data: base64Data,
-            mimeType: mimeType
-        }
-    };
-
-    let prompt = "";
-    if (task === 'prompt') {
-        prompt = "Analyze this image and generate a highly detailed, professional text prompt that could be used by an AI image generator to recreate this exact scene. Focus on style, lighting, and composition. AT THE END OF YOUR RESPONSE, provide exactly 3 short improvement suggestions (how to make this image better or different) formatted strictly like this: [SUGGESTION: Add more cinematic lighting], [SUGGESTION: Change to vaporwave style], etc.";
-    } else if (task === 'ocr') {
-        prompt = "Extract all visible text from this image. Maintain the structure where possible. If there is no text, say 'No text detected'. AT THE END, provide 2 suggestions for improving the visual presentation of this text content.";
-    } else {
-        prompt = (userQuery || "Describe what you see in this image.") + " AT THE END, provide 3 short suggestions for how this image could be visually enhanced or modified for better impact, formatted strictly as [SUGGESTION: ...].";
-    }
+    const { prompt } = task === 'prompt' ? renderPrompt('vision.prompt', {})
+        : task === 'ocr' ? renderPrompt('vision.ocr', {})
+        : renderPrompt('vision.chat', { query: userQuery || "Describe what you see in this image." });
 
     try {
-        const response = await ai.models.generateContent({
+        const text = await activeProvider.analyzeImage({
             model: model,
-            contents: { parts: [imagePart, { text: prompt }] }
+            image: { data: base64Data, mimeType },
+            prompt,
+            task,
+            signal
         });
-        return response.text || "No response generated.";
+        return text || "No response generated.";
     } catch (error: any) {
         console.error("Vision task failed:", error);
         throw error;
@@ -57,113 +125,140 @@ export async function processVisionTask(
 }
 
 export async function extractImageMetadata(
-    base64Data: string, 
-    mimeType: string, 
+    base64Data: string,
+    mimeType: string,
     context: string,
-    model: GeminiModel = 'gemini-3-flash-preview'
+    model: GeminiModel = 'gemini-3-flash-preview',
+    signal?: AbortSignal,
+    onProgress?: ProgressListener
 ): Promise<Partial<ImageMetadata>> {
-    const ai = getAiClient();
-    const prompt = `Analyze this generated infographic. Context: ${context}.
-    Extract highly relevant SEO metadata and IPTC tags. 
-    Provide a professional title, a detailed 2-3 sentence description, and 10 highly relevant keywords separated by commas.
-    Return ONLY a valid JSON object with keys: title, description, keywords.`;
+    const { prompt, version } = renderPrompt('metadata', { context });
+    const request = (onRetry: RetryHook): VisionRequest => ({
+        model: model,
+        image: { data: base64Data, mimeType },
+        prompt,
+        responseSchema: {
+            type: Type.OBJECT,
+            properties: {
+                title: { type: Type.STRING },
+                description: { type: Type.STRING },
+                keywords: { type: Type.STRING }
+            },
+            required: ["title", "description", "keywords"]
+        },
+        signal,
+        onRetry
+    });
 
     try {
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: { 
-                parts: [
-                    { inlineData: { data: base64Data, mimeType } }, 
-                    { text: prompt }
-                ] 
-            },
-            config: {
-                responseMimeType: "application/json",
-                responseSchema: {
-                    type: Type.OBJECT,
-                    properties: {
-                        title: { type: Type.STRING },
-                        description: { type: Type.STRING },
-                        keywords: { type: Type.STRING }
-                    },
-                    required: ["title", "description", "keywords"]
-                }
-            }
-        });
-        return JSON.parse(response.text || '{}');
+        const { text } = await runStage(onProgress, {
+            stage: 'metadata',
+            label: 'EXTRACTING METADATA',
+            model: modelLabel(model),
+            inputBytes: byteLength(prompt, base64Data),
+            template: version
+        }, async onRetry => {
+            if (isOfflineMode()) return { text: await activeProvider.analyzeImage(request(onRetry)), cached: false };
+            // Keyed by the image's hash, so the same render is only described once
+            const imageHash = await contentHash(base64Data);
+            if (!imageHash) return { text: await activeProvider.analyzeImage(request(onRetry)), cached: false };
+            const { value, hit } = await cached('metadata', [model, version, prompt, imageHash], () => activeProvider.analyzeImage(request(onRetry)));
+            return { text: value, cached: hit };
+        }, result => ({ cached: result.cached }));
+        return JSON.parse(text || '{}');
     } catch (error) {
+        // Metadata is best-effort, but a cancelled run must still stop the pipeline
+        if (isCancellation(error)) throw error;
         console.error("Metadata extraction failed:", error);
         return {};
     }
 }
 
-export async function editImageWithGemini(base64Data: string, mimeType: string, prompt: string): Promise<string | null> {
-  const ai = getAiClient();
-  const response = await ai.models.generateContent({
-    model: 'gemini-3-pro-image-preview',
-    contents: { parts: [{ inlineData: { data: base64Data, mimeType } }, { text: prompt }] },
-    config: { 
-        responseModalities: [Modality.IMAGE],
-        imageConfig: { aspectRatio: "1:1" }
-    },
-  });
-  for (const part of response.candidates[0].content.parts) {
-    if (part.inlineData) return part.inlineData.data;
-  }
-  return null;
+/**
+ * Reads the rendered image back through the OCR vision task and checks it
+ * against its spec. Like metadata this is best-effort: a failed check
+ * returns null instead of failing a run that already produced an image.
+ */
+export async function verifyInfographic(
+    base64Data: string,
+    spec: InfographicSpec,
+    sourceText: string,
+    model: GeminiModel = 'gemini-3-flash-preview',
+    signal?: AbortSignal,
+    onProgress?: ProgressListener
+): Promise<QualityReport | null> {
+    try {
+        const ocrText = await runStage(onProgress, {
+            stage: 'verify',
+            label: 'VERIFYING RENDERED TEXT',
+            model: modelLabel(model),
+            inputBytes: byteLength(base64Data),
+            template: renderPrompt('vision.ocr', {}).version
+        }, () => processVisionTask(base64Data, 'image/png', 'ocr', undefined, model, signal));
+        return verifyRenderedText(ocrText, spec, sourceText);
+    } catch (error) {
+        if (isCancellation(error)) throw error;
+        console.error("Verification failed:", error);
+        return null;
+    }
 }
 
-export async function improvePrompt(rawInput: string, model: GeminiModel = 'gemini-3-pro-preview'): Promise<string> {
-    const ai = getAiClient();
-    const prompt = `Refine this image generation prompt into a professional, highly detailed technical description for an infographic. User input: "${rawInput}". Return only the refined prompt.`;
+// The output keeps the source's shape unless a ratio is asked for explicitly
+export async function editImageWithGemini(
+  base64Data: string,
+  mimeType: string,
+  prompt: string,
+  signal?: AbortSignal,
+  imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+  aspectRatio: string = sourceAspectRatio(base64Data)
+): Promise<string | null> {
+  return activeProvider.editImage({ image: { data: base64Data, mimeType }, prompt, aspectRatio, settings: imageSettings, signal });
+}
+
+export async function improvePrompt(rawInput: string, model: GeminiModel = 'gemini-3-pro-preview', signal?: AbortSignal): Promise<string> {
+    const { prompt } = renderPrompt('improve', { input: rawInput });
     try {
-        const response = await ai.models.generateContent({
-            model: model,
-            contents: prompt
-        });
-        return response.text?.trim() || rawInput;
+        const { text } = await activeProvider.generateText({ model, prompt, signal });
+        return text.trim() || rawInput;
     } catch (error) {
+        if (isCancellation(error)) throw error;
         return rawInput;
     }
 }
 
 export async function generateInfographic(
-  repoName: string, 
-  fileTree: RepoFileTree[], 
-  style: string, 
+  repoName: string,
+  fileTree: RepoFileTree[],
+  style: string,
   is3D: boolean = false,
   language: string = "English",
   aspectRatio: string = "16:9",
-  model: GeminiModel = 'gemini-3-pro-preview'
+  model: GeminiModel = 'gemini-3-pro-preview',
+  signal?: AbortSignal,
+  onProgress?: ProgressListener,
+  variant?: number,
+  imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+  brandKit: BrandKit | null = null
 ): Promise<string | null> {
-  const ai = getAiClient();
   const limitedTree = fileTree.slice(0, 150).map(f => f.path).join(', ');
-  const styleGuidelines = is3D 
-    ? "3D Miniature Diorama, Isometric, Tilt-shift effect, Cinematic lighting." 
+  const styleGuidelines = is3D
+    ? "3D Miniature Diorama, Isometric, Tilt-shift effect, Cinematic lighting."
     : `2D Vector Infographic, ${style} style, clean lines, professional layout.`;
 
-  const prompt = `Create a detailed technical data flow diagram infographic for: "${repoName}".
-  Style: ${styleGuidelines}.
-  Language: ${language}.
-  Aspect Ratio: ${aspectRatio}.
-  File context: ${limitedTree}...
-  Label "Input -> Processing -> Output" flows. All text must be in ${language}.`;
+  const { prompt, version } = renderPrompt('repo.infographic', { repoName, styleGuidelines, language, aspectRatio, fileTree: limitedTree, brand: brandKitToPrompt(brandKit) });
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview', // Always use the image model for the visual output
-      contents: { parts: [{ text: prompt }] },
-      config: {
-        responseModalities: [Modality.IMAGE],
-        imageConfig: { aspectRatio: aspectRatio }
-      },
-    });
-
-    for (const part of response.candidates[0].content.parts) {
-      if (part.inlineData) return part.inlineData.data;
-    }
-    return null;
+    // Always use the image model for the visual output
+    return await runStage(onProgress, {
+      stage: 'render',
+      variant,
+      label: is3D ? 'RENDERING 3D MODEL' : 'ARCHITECTURAL SYNTHESIS',
+      model: modelLabel(imageSettings.model),
+      inputBytes: byteLength(prompt),
+      template: version
+    }, onRetry => activeProvider.generateImage({ prompt, aspectRatio, candidate: variant, settings: imageSettings, signal, onRetry }));
   } catch (error) {
+    if (isCancellation(error)) throw error;
     console.error("Infographic generation failed:", error);
     throw error;
   }
@@ -173,94 +268,269 @@ export async function generateAcademicInfographic(
   topic: string,
   subject: string,
   style: string,
-  onProgress: (stage: string) => void,
+  onProgress?: ProgressListener,
   language: string = "English",
-  model: GeminiModel = 'gemini-3-pro-preview'
-): Promise<string | null> {
-    const ai = getAiClient();
-    onProgress("ANALYZING SCIENTIFIC DATA...");
-    
-    // First, get the logical structure of the concept in the target language
-    const analysisResponse = await ai.models.generateContent({
-        model: model,
-        contents: `Explain the fundamental concept of "${topic}" in the field of ${subject}. Break it down into 4 key visual components for an infographic. ALL CONTENT MUST BE IN ${language}. Use academic tone.`
-    });
-    
-    const summary = analysisResponse.text || topic;
-    
-    onProgress("RENDERING ACADEMIC VISUAL...");
-    
-    const imagePrompt = `High-quality academic educational infographic. Topic: ${topic}. Subject: ${subject}. Style: ${style}. 
-    ALL LABELS AND TEXT IN THE IMAGE MUST BE IN ${language}.
-    Visualize: ${summary}. Include cross-sections, structural labels, and professional technical annotations in ${language}. Cinematic lighting, sharp details, textbook-level accuracy.`;
-    
-    const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-image-preview',
-        contents: { parts: [{ text: imagePrompt }] },
-        config: {
-            responseModalities: [Modality.IMAGE],
-            imageConfig: { aspectRatio: "3:4" }
-        }
-    });
+  model: GeminiModel = 'gemini-3-pro-preview',
+  signal?: AbortSignal,
+  hooks: AnalysisHooks = {},
+  variants: number = 1,
+  imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+  revision?: RenderRevision,
+  brandKit: BrandKit | null = null
+): Promise<InfographicResult> {
+    let spec: InfographicSpec;
+    if (revision) {
+        spec = revision.spec;
+    } else {
+        // First, get the logical structure of the concept in the target language
+        const analysisPrompt = renderPrompt('academic.analysis', { topic, subject, language, tone: brandToneToPrompt(brandKit) });
+        const analysis = await runStage(onProgress, {
+            stage: 'analysis',
+            label: 'ANALYZING SCIENTIFIC DATA',
+            model: modelLabel(model),
+            inputBytes: byteLength(analysisPrompt.prompt),
+            template: analysisPrompt.version
+        }, onRetry => cachedText('analysis', analysisPrompt.version, {
+            model,
+            prompt: analysisPrompt.prompt,
+            responseSchema: INFOGRAPHIC_SPEC_SCHEMA,
+            signal,
+            onRetry,
+            onText: text => hooks.onAnalysisText?.(text)
+        }), result => ({ cached: result.cached }));
+        throwIfAborted(signal);
 
-    for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) return part.inlineData.data;
+        const draft = parseSpec(analysis.text, topic);
+        spec = hooks.reviewSpec ? await raceAbort(hooks.reviewSpec(draft), signal) : draft;
     }
-    return null;
+
+    const imagePrompt = renderPrompt('academic.render', { topic, subject, style, language, spec: revisedSpecPrompt(spec, revision?.corrections), brand: brandKitToPrompt(brandKit) });
+
+    const candidates = await renderVariants(variants, variant => runStage(onProgress, {
+        stage: 'render',
+        variant,
+        label: 'RENDERING ACADEMIC VISUAL',
+        model: modelLabel(imageSettings.model),
+        inputBytes: byteLength(imagePrompt.prompt),
+        template: imagePrompt.version
+    }, onRetry => activeProvider.generateImage({ prompt: imagePrompt.prompt, aspectRatio: "3:4", candidate: variant, settings: imageSettings, signal, onRetry })));
+    return { imageData: candidates[0] ?? null, candidates, citations: [], spec };
 }
 
-export async function askNodeSpecificQuestion(nodeLabel: string, question: string, fileTree: RepoFileTree[], model: GeminiModel = 'gemini-3-pro-preview'): Promise<string> {
-  const ai = getAiClient();
+export async function askNodeSpecificQuestion(nodeLabel: string, question: string, fileTree: RepoFileTree[], model: GeminiModel = 'gemini-3-pro-preview', signal?: AbortSignal): Promise<string> {
   const prompt = `Node: ${nodeLabel}. Context: ${fileTree.slice(0, 50).map(f => f.path).join(', ')}. Question: ${question}`;
-  const response = await ai.models.generateContent({
-    model: model,
-    contents: prompt
-  });
-  return response.text || "No response.";
+  const { text } = await activeProvider.generateText({ model, prompt, signal });
+  return text || "No response.";
+}
+
+const CHUNK_CONCURRENCY = 3;
+
+interface SourceDigest {
+    summaries: string;
+    /** Must-include instruction for the merge prompt, naming the pinned sections. */
+    pinned: string;
+    coverage: SourceCoverage;
+}
+
+/**
+ * Map step for long sources: summarises each selected chunk separately.
+ * Chunks that fail are left out of the digest and its coverage; if every
+ * chunk fails the first error is rethrown.
+ */
+async function summarizeSourceChunks(
+    content: string,
+    contentType: string,
+    language: string,
+    model: GeminiModel,
+    pinned: number[],
+    signal?: AbortSignal,
+    onProgress?: ProgressListener
+): Promise<SourceDigest> {
+    const chunks = splitIntoChunks(content);
+    const selected = selectChunks(chunks, pinned);
+    const results = await mapSettled(selected, CHUNK_CONCURRENCY, chunk => {
+        const prompt = renderPrompt('article.chunk', {
+            contentType,
+            language,
+            position: `${chunk.index + 1} of ${chunks.length}`,
+            heading: chunk.heading,
+            chunk: chunk.text
+        });
+        return runStage(onProgress, {
+            stage: 'summarize',
+            variant: chunk.index,
+            label: 'SUMMARIZING SECTIONS',
+            model: modelLabel(model),
+            inputBytes: byteLength(prompt.prompt),
+            template: prompt.version
+        }, onRetry => cachedText('summary', prompt.version, { model, prompt: prompt.prompt, signal, onRetry }), result => ({ cached: result.cached }));
+    });
+
+    const failures = results.flatMap(r => r.status === 'rejected' ? [r.reason] : []);
+    const cancelled = failures.find(isCancellation);
+    if (cancelled) throw cancelled;
+    const summarized = selected.filter((_, i) => results[i].status === 'fulfilled');
+    if (summarized.length === 0) throw failures[0];
+    throwIfAborted(signal);
+
+    const summaries = selected.flatMap((chunk, i) => {
+        const result = results[i];
+        return result.status === 'fulfilled' ? [`[${chunk.index + 1}/${chunks.length}] ${chunk.heading}\n${result.value.text.trim()}`] : [];
+    }).join('\n\n');
+    const pinnedHeadings = summarized.filter(c => pinned.includes(c.index)).map(c => `"${c.heading}"`);
+    return {
+        summaries,
+        pinned: pinnedHeadings.length ? `MUST INCLUDE a section for each of: ${pinnedHeadings.join(', ')}.` : '',
+        coverage: measureCoverage(chunks, summarized, pinned)
+    };
 }
 
 export async function generateArticleInfographic(
-  content: string, 
+  content: string,
   inputType: 'url' | 'text',
   contentType: 'article' | 'product',
-  style: string, 
-  onProgress?: (stage: string) => void,
+  style: string,
+  onProgress?: ProgressListener,
   language: string = "English",
   referenceImage?: { data: string, mimeType: string } | null,
   aspectRatio: string = "3:4",
-  model: GeminiModel = 'gemini-3-pro-preview'
+  model: GeminiModel = 'gemini-3-pro-preview',
+  signal?: AbortSignal,
+  hooks: AnalysisHooks = {},
+  variants: number = 1,
+  imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+  revision?: RenderRevision,
+  pinnedSections: number[] = [],
+  brandKit: BrandKit | null = null
 ): Promise<InfographicResult> {
-    const ai = getAiClient();
-    if (onProgress) onProgress("ANALYZING SOURCE...");
-    const analysisResponse = await ai.models.generateContent({
-        model: model,
-        contents: `Analyze this ${contentType} for an infographic (${language}): ${content.substring(0, 5000)}`,
-        config: inputType === 'url' ? { tools: [{ googleSearch: {} }] } : undefined
-    });
-    const summary = analysisResponse.text || "";
-    const citations: Citation[] = [];
-    const chunks = analysisResponse.candidates?.[0]?.groundingMetadata?.groundingChunks;
-    if (chunks) {
-        chunks.forEach((c: any) => c.web && citations.push({ uri: c.web.uri, title: c.web.title }));
-    }
+    let spec: InfographicSpec;
+    let citations: Citation[] = [];
+    let coverage: SourceCoverage | undefined;
+    if (revision) {
+        // The reviewed spec already carries its sources; grounding is not re-run
+        spec = revision.spec;
+    } else {
+        // Gemini drops the search tool when a response schema is set, so a bare URL is
+        // looked up in a grounded call first and the analysis shapes what it found
+        let source = content;
+        if (inputType === 'url') {
+            const researchPrompt = renderPrompt('article.research', { contentType, language, url: content });
+            const research = await runStage(onProgress, {
+                stage: 'research',
+                label: 'SEARCHING FOR SOURCE',
+                model: modelLabel(model),
+                inputBytes: byteLength(researchPrompt.prompt),
+                template: researchPrompt.version
+            }, onRetry => cachedText('summary', researchPrompt.version, {
+                model: model,
+                prompt: researchPrompt.prompt,
+                useSearch: true,
+                signal,
+                onRetry
+            }), result => ({ groundingSources: result.citations.length, cached: result.cached }));
+            citations = research.citations;
+            source = `${content}\n\n${research.text}`;
+            throwIfAborted(signal);
+        }
 
-    if (onProgress) onProgress("GENERATING VISUAL...");
-    const imagePrompt = `Professional ${contentType} infographic in ${language}. Style: ${style}. Content: ${summary}`;
-    const parts: any[] = [{ text: imagePrompt }];
-    if (referenceImage) parts.push({ inlineData: referenceImage });
-
-    const response = await ai.models.generateContent({
-        model: 'gemini-3-pro-image-preview',
-        contents: { parts },
-        config: {
-            responseModalities: [Modality.IMAGE],
-            imageConfig: { aspectRatio: aspectRatio }
-        },
-    });
+        // Long text is summarised chunk by chunk first, and the analysis merges the summaries
+        const digest = inputType === 'text' && content.length > DIRECT_ANALYSIS_LIMIT
+            ? await summarizeSourceChunks(content, contentType, language, model, pinnedSections, signal, onProgress)
+            : null;
+        if (inputType === 'text') coverage = digest ? digest.coverage : fullCoverage(content);
+        const analysisPrompt = digest
+            ? renderPrompt('article.merge', { contentType, language, pinned: digest.pinned, summaries: digest.summaries, tone: brandToneToPrompt(brandKit) })
+            : renderPrompt('article.analysis', { contentType, language, content: source, tone: brandToneToPrompt(brandKit) });
+        const analysis = await runStage(onProgress, {
+            stage: 'analysis',
+            label: 'ANALYZING SOURCE',
+            model: modelLabel(model),
+            inputBytes: byteLength(analysisPrompt.prompt),
+            template: analysisPrompt.version
+        }, onRetry => cachedText('analysis', analysisPrompt.version, {
+            model: model,
+            prompt: analysisPrompt.prompt,
+            responseSchema: INFOGRAPHIC_SPEC_SCHEMA,
+            signal,
+            onRetry,
+            onText: text => hooks.onAnalysisText?.(text)
+        }), result => ({ cached: result.cached }));
+        throwIfAborted(signal);
 
-    let imageData = null;
-    for (const part of response.candidates[0].content.parts) {
-        if (part.inlineData) imageData = part.inlineData.data;
+        const draft = parseSpec(analysis.text, contentType === 'article' ? 'Article Summary' : 'Product Overview', citations);
+        spec = hooks.reviewSpec ? await raceAbort(hooks.reviewSpec(draft), signal) : draft;
     }
-    return { imageData, citations };
+
+    const imagePrompt = renderPrompt('article.render', { contentType, language, style, spec: revisedSpecPrompt(spec, revision?.corrections), brand: brandKitToPrompt(brandKit) });
+
+    const candidates = await renderVariants(variants, variant => runStage(onProgress, {
+        stage: 'render',
+        variant,
+        label: 'GENERATING VISUAL',
+        model: modelLabel(imageSettings.model),
+        inputBytes: byteLength(imagePrompt.prompt, referenceImage?.data),
+        template: imagePrompt.version
+    }, onRetry => activeProvider.generateImage({ prompt: imagePrompt.prompt, aspectRatio, referenceImage, candidate: variant, settings: imageSettings, signal, onRetry })));
+    return { imageData: candidates[0] ?? null, candidates, citations, spec, coverage };
+}
+
+export interface RefinementResult {
+    imageData: string;
+    spec: InfographicSpec;
+}
+
+/**
+ * Produces the next version of a result from a plain-language request: the
+ * spec is updated first (so verification still has something to check),
+ * then the image is re-rendered with the previous version as reference.
+ */
+export async function refineInfographic(
+    imageData: string,
+    spec: InfographicSpec,
+    instruction: string,
+    style: string,
+    language: string = "English",
+    model: GeminiModel = 'gemini-3-pro-preview',
+    signal?: AbortSignal,
+    onProgress?: ProgressListener,
+    imageSettings: ImageSettings = DEFAULT_IMAGE_SETTINGS,
+    aspectRatio: string = sourceAspectRatio(imageData),
+    brandKit: BrandKit | null = null
+): Promise<RefinementResult> {
+    const specPrompt = renderPrompt('refine.spec', { instruction, language, spec: JSON.stringify(spec, null, 2), tone: brandToneToPrompt(brandKit) });
+    const revised = await runStage(onProgress, {
+        stage: 'analysis',
+        label: 'APPLYING CHANGE REQUEST',
+        model: modelLabel(model),
+        inputBytes: byteLength(specPrompt.prompt),
+        template: specPrompt.version
+    }, onRetry => activeProvider.generateText({
+        model,
+        prompt: specPrompt.prompt,
+        responseSchema: INFOGRAPHIC_SPEC_SCHEMA,
+        signal,
+        onRetry
+    }));
+    throwIfAborted(signal);
+    const parsed = parseSpec(revised.text, spec.title);
+    // A refinement never drops the sources the original analysis was grounded in
+    const nextSpec = { ...parsed, sources: parsed.sources.length ? parsed.sources : spec.sources };
+
+    const imagePrompt = renderPrompt('refine.render', { instruction, language, style, spec: specToPrompt(nextSpec), brand: brandKitToPrompt(brandKit) });
+    const image = await runStage(onProgress, {
+        stage: 'render',
+        label: 'RENDERING REVISION',
+        model: modelLabel(imageSettings.model),
+        inputBytes: byteLength(imagePrompt.prompt, imageData),
+        template: imagePrompt.version
+    }, onRetry => activeProvider.generateImage({
+        prompt: imagePrompt.prompt,
+        aspectRatio,
+        referenceImage: { data: imageData, mimeType: 'image/png' },
+        settings: imageSettings,
+        signal,
+        onRetry
+    }));
+    if (!image) throw new Error('Image generation failed.');
+    return { imageData: image, spec: nextSpec };
 }
@@ -0,0 +1,99 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema } from "@google/genai";
+import { Citation, GeminiModel, ImageSettings } from '../types';
+import { RetryHook } from './progress';
+
+export type ProviderId = 'gemini' | 'proxy' | 'fixture';
+
+export type VisionTask = 'prompt' | 'chat' | 'ocr';
+
+export interface InlineImage {
+    data: string;
+    mimeType: string;
+}
+
+/** Cancellation and retry reporting shared by every provider call. */
+export interface RequestOptions {
+    signal?: AbortSignal;
+    onRetry?: RetryHook;
+}
+
+export interface TextRequest extends RequestOptions {
+    model: GeminiModel;
+    prompt: string;
+    useSearch?: boolean;
+    responseSchema?: Schema;
+}
+
+export interface StreamTextRequest extends TextRequest {
+    /** Receives the full text received so far; a retried stream starts again from ''. */
+    onText: (text: string) => void;
+}
+
+export interface TextResult {
+    text: string;
+    citations: Citation[];
+}
+
+export interface ImageRequest extends RequestOptions {
+    prompt: string;
+    aspectRatio: string;
+    referenceImage?: InlineImage | null;
+    /** Index among parallel candidates of one prompt, so deterministic providers can still vary. */
+    candidate?: number;
+    settings?: ImageSettings;
+}
+
+export interface ImageEditRequest extends RequestOptions {
+    image: InlineImage;
+    prompt: string;
+    aspectRatio?: string;
+    settings?: ImageSettings;
+}
+
+export interface VisionRequest extends RequestOptions {
+    model: GeminiModel;
+    image: InlineImage;
+    prompt: string;
+    task?: VisionTask;
+    responseSchema?: Schema;
+}
+
+/**
+ * The capabilities every studio is built on. geminiService routes all
+ * of its public functions through whichever provider is active.
+ */
+export interface GenerationProvider {
+    readonly id: ProviderId;
+    generateText(request: TextRequest): Promise<TextResult>;
+    streamText(request: StreamTextRequest): Promise<TextResult>;
+    generateImage(request: ImageRequest): Promise<string | null>;
+    editImage(request: ImageEditRequest): Promise<string | null>;
+    analyzeImage(request: VisionRequest): Promise<string>;
+}
+
+export const PROVIDER_STORAGE_KEY = 'l2i_provider';
+
+const PROVIDER_IDS: ProviderId[] = ['gemini', 'proxy', 'fixture'];
+
+const isProviderId = (value: unknown): value is ProviderId => PROVIDER_IDS.includes(value as ProviderId);
+
+/**
+ * Resolves the provider to start with: a saved browser preference wins,
+ * then the L2I_PROVIDER build variable, then the browser key inside AI
+ * Studio, then the generation server that holds the key.
+ */
+export function resolveProviderId(): ProviderId {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            const saved = localStorage.getItem(PROVIDER_STORAGE_KEY);
+            if (isProviderId(saved)) return saved;
+        }
+    } catch (e) { }
+    if (isProviderId(process.env.L2I_PROVIDER)) return process.env.L2I_PROVIDER;
+    return typeof window !== 'undefined' && window.aistudio ? 'gemini' : 'proxy';
+}
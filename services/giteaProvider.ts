@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RepoFileTree } from '../types';
+import { MAX_LIST_PAGES, RepoCoordinates, RepoProvider, RepoRequestOptions, encodePath, repoError, repoFetch, repoJson } from './repoProvider';
+
+// Gitea and its fork Forgejo (Codeberg), API v1.
+
+const repoPath = ({ owner, repo }: RepoCoordinates) => `/repos/${owner}/${repo}`;
+
+const giteaFetch = (repo: RepoCoordinates, path: string, options?: RepoRequestOptions) =>
+  repoFetch(repo.host, `${repo.host.apiUrl}${repoPath(repo)}${path}`, options);
+
+export const giteaProvider: RepoProvider = {
+  kind: 'gitea',
+
+  parseWebPath([owner, repo, kind, refKind, ...rest]) {
+    if (!owner || !repo) return null;
+    const target = { owner, repo: repo.replace(/\.git$/, '') };
+    // Browse links name the kind of ref: /src/branch/main/dir, /src/tag/v1, /src/commit/<sha>
+    if (kind === 'src' && ['branch', 'tag', 'commit'].includes(refKind) && rest.length) return { ...target, refPath: rest.join('/') };
+    if (kind === 'commit' && refKind) return { ...target, refPath: refKind };
+    return target;
+  },
+
+  async getMetadata(repo, options) {
+    const data = await repoJson(repo.host, await giteaFetch(repo, '', options));
+    return { defaultBranch: data.default_branch || 'main', description: data.description || undefined, isPrivate: !!data.private, webUrl: data.html_url };
+  },
+
+  async resolveRef(repo, ref, options) {
+    // Accepts a branch, a tag or a SHA
+    const response = await giteaFetch(repo, `/git/commits/${encodeURIComponent(ref)}?stat=false&files=false&verification=false`, options);
+    if (response.status === 404 || response.status === 422) return null;
+    return (await repoJson(repo.host, response)).sha;
+  },
+
+  // Recursive trees are paginated; `truncated` means there are more pages
+  async listTree(repo, commitSha, _scope, options) {
+    const entries: RepoFileTree[] = [];
+    let truncated = true;
+    for (let page = 1; truncated && page <= MAX_LIST_PAGES; page++) {
+      const data = await repoJson(repo.host, await giteaFetch(repo, `/git/trees/${commitSha}?recursive=true&per_page=1000&page=${page}`, options));
+      entries.push(...(data.tree || []).map((item: any) => ({ path: item.path, type: item.type })));
+      truncated = !!data.truncated && (data.tree || []).length > 0;
+    }
+    return { entries, complete: !truncated };
+  },
+
+  async readFile(repo, commitSha, path, options) {
+    const response = await giteaFetch(repo, `/raw/${encodePath(path)}?ref=${commitSha}`, options);
+    if (!response.ok) throw repoError(repo.host, response);
+    return response.text();
+  }
+};
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RepoFileTree } from '../types';
+import { DEFAULT_REPO_HOSTS, RepoCoordinates, RepoHost, RepoProvider, RepoRequestOptions, encodePath, repoError, repoFetch, repoJson, walkDirectories } from './repoProvider';
+
+// GitHub and GitHub Enterprise Server, which serves the same REST API under /api/v3.
+
+/** App installation tokens start with `ghs_`; everything else is treated as a personal access token. */
+export const githubTokenKind = (token: string): 'app' | 'pat' => token.startsWith('ghs_') ? 'app' : 'pat';
+
+// --- Rate limit ------------------------------------------------------------
+
+export interface GithubRateLimit {
+  limit: number;
+  remaining: number;
+  resetAt: Date;
+}
+
+let rateLimit: GithubRateLimit | null = null;
+const rateLimitListeners = new Set<(rateLimit: GithubRateLimit) => void>();
+
+export const getGithubRateLimit = () => rateLimit;
+
+/** Calls `listener` whenever a GitHub response reports the core rate limit; returns an unsubscribe. */
+export function onGithubRateLimit(listener: (rateLimit: GithubRateLimit) => void): () => void {
+  rateLimitListeners.add(listener);
+  return () => rateLimitListeners.delete(listener);
+}
+
+function setRateLimit(next: GithubRateLimit) {
+  rateLimit = next;
+  rateLimitListeners.forEach(listener => listener(next));
+}
+
+function recordRateLimit(headers: Headers) {
+  const limit = headers.get('X-RateLimit-Limit');
+  const remaining = headers.get('X-RateLimit-Remaining');
+  const reset = headers.get('X-RateLimit-Reset');
+  // Search and GraphQL have budgets of their own; the meter tracks the REST core budget
+  const resource = headers.get('X-RateLimit-Resource');
+  if (limit === null || remaining === null || reset === null || (resource && resource !== 'core')) return;
+  setRateLimit({ limit: Number(limit), remaining: Number(remaining), resetAt: new Date(Number(reset) * 1000) });
+}
+
+async function githubFetch(host: RepoHost, path: string, options?: RepoRequestOptions, accept = 'application/vnd.github+json') {
+  const response = await repoFetch(host, `${host.apiUrl}${path}`, options, { Accept: accept });
+  recordRateLimit(response.headers);
+  return response;
+}
+
+/** Reads the current budget without spending a call: `/rate_limit` is free. */
+export async function fetchGithubRateLimit(host: RepoHost = DEFAULT_REPO_HOSTS[0], signal?: AbortSignal): Promise<GithubRateLimit | null> {
+  const { resources } = await repoJson(host, await githubFetch(host, '/rate_limit', { signal }));
+  setRateLimit({ limit: resources.core.limit, remaining: resources.core.remaining, resetAt: new Date(resources.core.reset * 1000) });
+  return rateLimit;
+}
+
+// --- Provider --------------------------------------------------------------
+
+const repoPath = ({ owner, repo }: RepoCoordinates) => `/repos/${owner}/${repo}`;
+
+export const githubProvider: RepoProvider = {
+  kind: 'github',
+
+  parseWebPath([owner, repo, kind, ...rest]) {
+    if (!owner || !repo) return null;
+    const target = { owner, repo: repo.replace(/\.git$/, '') };
+    return ['tree', 'blob', 'commit'].includes(kind) && rest.length ? { ...target, refPath: rest.join('/') } : target;
+  },
+
+  async getMetadata(repo, options) {
+    const data = await repoJson(repo.host, await githubFetch(repo.host, repoPath(repo), options));
+    return { defaultBranch: data.default_branch, description: data.description || undefined, isPrivate: !!data.private, webUrl: data.html_url };
+  },
+
+  async resolveRef(repo, ref, options) {
+    const response = await githubFetch(repo.host, `${repoPath(repo)}/commits/${encodePath(ref)}`, options, 'application/vnd.github.sha');
+    // An unknown ref is a 404, or a 422 when it looks like a SHA
+    if (response.status === 404 || response.status === 422) return null;
+    if (!response.ok) throw repoError(repo.host, response);
+    return (await response.text()).trim();
+  },
+
+  async listTree(repo, commitSha, scope, options) {
+    const data = await repoJson(repo.host, await githubFetch(repo.host, `${repoPath(repo)}/git/trees/${commitSha}?recursive=1`, options));
+    if (!data.truncated) return { entries: data.tree || [], complete: true };
+
+    // GitHub cuts recursive listings off past about 100,000 entries; open the directories one by one instead
+    return walkDirectories({ path: '', sha: data.sha as string }, scope, async ({ path, sha }) => {
+      const { tree } = await repoJson(repo.host, await githubFetch(repo.host, `${repoPath(repo)}/git/trees/${sha}`, options));
+      const prefix = path ? `${path}/` : '';
+      const files: RepoFileTree[] = [];
+      const directories: { path: string; sha: string }[] = [];
+      for (const item of tree || []) {
+        if (item.type === 'tree') directories.push({ path: prefix + item.path, sha: item.sha });
+        else files.push({ path: prefix + item.path, type: item.type });
+      }
+      return { files, directories };
+    });
+  },
+
+  async readFile(repo, commitSha, path, options) {
+    const response = await githubFetch(repo.host, `${repoPath(repo)}/contents/${encodePath(path)}?ref=${commitSha}`, options, 'application/vnd.github.raw');
+    if (!response.ok) throw repoError(repo.host, response);
+    return response.text();
+  }
+};
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RepoFileTree } from '../types';
+import { MAX_LIST_PAGES, RepoCoordinates, RepoProvider, RepoRequestOptions, repoError, repoFetch, repoJson } from './repoProvider';
+
+// gitlab.com and self-managed GitLab (API v4). Projects may sit in nested groups.
+
+const projectPath = ({ owner, repo }: RepoCoordinates) => `/projects/${encodeURIComponent(`${owner}/${repo}`)}`;
+
+const gitlabFetch = (repo: RepoCoordinates, path: string, options?: RepoRequestOptions) =>
+  repoFetch(repo.host, `${repo.host.apiUrl}${projectPath(repo)}${path}`, options);
+
+/** The `rel="next"` URL of a Link header, which GitLab sends for keyset and offset pagination alike. */
+const nextLink = (response: Response) => response.headers.get('Link')?.match(/<([^>]+)>;\s*rel="next"/)?.[1] || null;
+
+export const gitlabProvider: RepoProvider = {
+  kind: 'gitlab',
+
+  parseWebPath(segments) {
+    // Everything before `/-/` is the project path: group/subgroup/project
+    const separator = segments.indexOf('-');
+    const project = (separator >= 0 ? segments.slice(0, separator) : segments).map(s => s.replace(/\.git$/, ''));
+    if (project.length < 2) return null;
+    const target = { owner: project.slice(0, -1).join('/'), repo: project[project.length - 1] };
+    const [kind, ...rest] = separator >= 0 ? segments.slice(separator + 1) : [];
+    return ['tree', 'blob', 'commit'].includes(kind) && rest.length ? { ...target, refPath: rest.join('/') } : target;
+  },
+
+  async getMetadata(repo, options) {
+    const data = await repoJson(repo.host, await gitlabFetch(repo, '', options));
+    // An empty project has no default branch yet
+    return { defaultBranch: data.default_branch || 'main', description: data.description || undefined, isPrivate: data.visibility !== 'public', webUrl: data.web_url };
+  },
+
+  async resolveRef(repo, ref, options) {
+    const response = await gitlabFetch(repo, `/repository/commits/${encodeURIComponent(ref)}`, options);
+    if (response.status === 404) return null;
+    return (await repoJson(repo.host, response)).id;
+  },
+
+  async listTree(repo, commitSha, scope, options) {
+    const entries: RepoFileTree[] = [];
+    const query = new URLSearchParams({ ref: commitSha, recursive: 'true', per_page: '100', pagination: 'keyset' });
+    if (scope) query.set('path', scope);
+    let url: string | null = `${repo.host.apiUrl}${projectPath(repo)}/repository/tree?${query}`;
+    for (let page = 0; url && page < MAX_LIST_PAGES; page++) {
+      const response = await repoFetch(repo.host, url, options);
+      // Listing a file path rather than a directory finds nothing; the caller reports the missing scope
+      if (response.status === 404 && scope) return { entries, complete: true };
+      const items = await repoJson<{ path: string; type: string }[]>(repo.host, response);
+      entries.push(...items.map(item => ({ path: item.path, type: item.type })));
+      url = nextLink(response);
+    }
+    return { entries, complete: !url };
+  },
+
+  async readFile(repo, commitSha, path, options) {
+    const response = await gitlabFetch(repo, `/repository/files/${encodeURIComponent(path)}/raw?ref=${commitSha}`, options);
+    if (!response.ok) throw repoError(repo.host, response);
+    return response.text();
+  }
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BatchJob, GeminiModel, ImageMetadata, ImageModel, ImageSize, InfographicKind, InfographicOutput, InfographicRequest } from '../types';
+import { extractImageMetadata, generateAcademicInfographic } from './geminiService';
+import { parseRepoInput } from './repoService';
+import { runBatchJob } from './batchQueue';
+import { BATCH_RATIOS, DEFAULT_RATIOS } from './batchImport';
+import { DEFAULT_MODEL_CONFIG, IMAGE_MODELS, TEXT_MODELS } from './modelPreferences';
+import { bytesToBase64, embedPngMetadata } from './imageService';
+import { ServiceError } from './errors';
+import { ProgressListener } from './progress';
+
+export const INFOGRAPHIC_KINDS: InfographicKind[] = ['article', 'repo', 'academic'];
+
+export const DEFAULT_STYLES: Record<InfographicKind, string> = {
+    article: 'Modern Editorial',
+    repo: 'Modern Data Flow',
+    academic: 'National Geographic Poster'
+};
+
+// Each kind uses the text model its studio defaults to
+const DEFAULT_MODELS: Record<InfographicKind, GeminiModel> = {
+    article: DEFAULT_MODEL_CONFIG.drafting,
+    repo: DEFAULT_MODEL_CONFIG.code,
+    academic: DEFAULT_MODEL_CONFIG.strategy
+};
+
+export const MAX_TEXT_CHARS = 500_000;
+const MAX_FIELD_CHARS = 500;
+
+/** Options as callers send them: the HTTP API's JSON body, or the CLI's flags. */
+export interface InfographicOptions {
+    url?: string;
+    text?: string;
+    repo?: string;
+    topic?: string;
+    subject?: string;
+    style?: string;
+    language?: string;
+    aspectRatio?: string;
+    model?: string;
+    imageModel?: string;
+    imageSize?: string;
+}
+
+const OPTION_NAMES: (keyof InfographicOptions)[] = ['url', 'text', 'repo', 'topic', 'subject', 'style', 'language', 'aspectRatio', 'model', 'imageModel', 'imageSize'];
+
+/**
+ * Resolves `options` for `kind` into a request with the studio defaults
+ * filled in, or returns why it cannot be run.
+ */
+export function readInfographicRequest(kind: InfographicKind, options: unknown): InfographicRequest | string {
+    if (!options || typeof options !== 'object' || Array.isArray(options)) return 'Options must be a JSON object.';
+    const values = options as Record<string, unknown>;
+    const unknownOption = Object.keys(values).find(key => !OPTION_NAMES.includes(key as keyof InfographicOptions));
+    if (unknownOption) return `Unknown option "${unknownOption}".`;
+    const badOption = OPTION_NAMES.find(key => values[key] !== undefined && typeof values[key] !== 'string');
+    if (badOption) return `"${badOption}" must be a string.`;
+    const o = values as InfographicOptions;
+    const tooLong = OPTION_NAMES.find(key => key !== 'text' && (o[key]?.length || 0) > MAX_FIELD_CHARS);
+    if (tooLong) return `"${tooLong}" is limited to ${MAX_FIELD_CHARS} characters.`;
+
+    let input: string;
+    let sourceMode: 'url' | 'text' = 'url';
+    if (kind === 'article') {
+        if ([o.url, o.text].filter(Boolean).length !== 1) return 'An article needs exactly one of url or text.';
+        if (o.text && o.text.length > MAX_TEXT_CHARS) return `Article text is limited to ${MAX_TEXT_CHARS.toLocaleString()} characters.`;
+        input = (o.url || o.text)!;
+        sourceMode = o.url ? 'url' : 'text';
+    } else if (kind === 'repo') {
+        if (!o.repo || !parseRepoInput(o.repo)) return 'A repository needs repo as owner/name, owner/name@ref or a repository URL.';
+        input = o.repo;
+    } else {
+        if (!o.topic?.trim()) return 'An academic infographic needs a topic.';
+        if (o.aspectRatio) return 'Academic infographics are always 3:4.';
+        input = o.topic.trim();
+    }
+
+    if (o.aspectRatio && !BATCH_RATIOS.includes(o.aspectRatio)) return `Unsupported aspect ratio "${o.aspectRatio}". Use ${BATCH_RATIOS.join(', ')}.`;
+    const model = (o.model || DEFAULT_MODELS[kind]) as GeminiModel;
+    if (!TEXT_MODELS.includes(model)) return `Unknown text model "${model}". Use ${TEXT_MODELS.join(' or ')}.`;
+    const imageModel = (o.imageModel || DEFAULT_MODEL_CONFIG.image.model) as ImageModel;
+    const entry = IMAGE_MODELS.find(m => m.id === imageModel);
+    if (!entry) return `Unknown image model "${imageModel}". Use ${IMAGE_MODELS.map(m => m.id).join(' or ')}.`;
+    const imageSize = (o.imageSize || DEFAULT_MODEL_CONFIG.image.size) as ImageSize;
+    if (!entry.sizes.includes(imageSize)) return `${imageModel} supports ${entry.sizes.join(', ')}, not ${imageSize}.`;
+
+    return {
+        kind,
+        input,
+        sourceMode,
+        ...(kind === 'academic' ? { subject: o.subject || 'General' } : {}),
+        style: o.style || DEFAULT_STYLES[kind],
+        language: o.language || 'English',
+        aspectRatio: kind === 'academic' ? '3:4' : o.aspectRatio || DEFAULT_RATIOS[kind],
+        model,
+        imageSettings: { model: imageModel, size: imageSize }
+    };
+}
+
+const withEmbeddedMetadata = async (imageData: string, metadata: ImageMetadata) =>
+    bytesToBase64(new Uint8Array(await embedPngMetadata(imageData, metadata).arrayBuffer()));
+
+/**
+ * Runs a request end to end without review steps. Article and repo runs
+ * are a one-row batch, so they match batch mode exactly.
+ */
+export async function runInfographic(request: InfographicRequest, signal?: AbortSignal, onProgress?: ProgressListener): Promise<InfographicOutput> {
+    const { kind, input, style, language, model, imageSettings } = request;
+
+    if (kind === 'academic') {
+        const subject = request.subject || 'General';
+        const result = await generateAcademicInfographic(input, subject, style, onProgress, language, model, signal, {}, 1, imageSettings);
+        if (!result.imageData) throw new ServiceError('unknown', 'Failed to generate visual.', { source: 'gemini' });
+        const meta = await extractImageMetadata(result.imageData, 'image/png', `Topic: ${input}, Subject: ${subject}`, 'gemini-3-flash-preview', signal, onProgress);
+        const metadata: ImageMetadata = {
+            title: meta.title || `${input} - Academic Visual`,
+            author: 'Link2Infographic AI',
+            description: meta.description || `Academic infographic about ${input} generated in ${style} style.`,
+            keywords: meta.keywords || `infographic, academic, ${subject.toLowerCase()}`,
+            copyright: `© ${new Date().getFullYear()} Link2Infographic`,
+            date: new Date().toISOString().slice(0, 16)
+        };
+        return { png: await withEmbeddedMetadata(result.imageData, metadata), metadata, spec: result.spec };
+    }
+
+    const job: BatchJob = {
+        id: 'headless',
+        row: 1,
+        kind,
+        input,
+        sourceMode: request.sourceMode,
+        style,
+        language,
+        aspectRatio: request.aspectRatio,
+        status: 'running',
+        attempts: 1,
+        createdAt: new Date().toISOString()
+    };
+    const result = await runBatchJob(job, {
+        models: { article: model, repo: model },
+        imageSettings: { article: imageSettings, repo: imageSettings },
+        brandKit: null,
+        signal,
+        onProgress
+    });
+    return {
+        png: await withEmbeddedMetadata(result.imageData!, result.metadata!),
+        metadata: result.metadata!,
+        ...(result.spec ? { spec: result.spec } : {}),
+        ...(result.citations ? { citations: result.citations } : {})
+    };
+}
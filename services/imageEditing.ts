@@ -0,0 +1,189 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LogoCorner } from '../types';
+import { InlineImage } from './generationProvider';
+
+/** Aspect ratios the Gemini image models accept in imageConfig. */
+export const SUPPORTED_ASPECT_RATIOS = ['1:1', '2:3', '3:2', '3:4', '4:3', '4:5', '5:4', '9:16', '16:9', '21:9'];
+
+export interface ImageDimensions {
+    width: number;
+    height: number;
+}
+
+const base64ToBytes = (base64: string): Uint8Array => {
+    const binary = atob(base64.includes('base64,') ? base64.split('base64,')[1] : base64);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+};
+
+/**
+ * Reads width and height from a PNG, JPEG, GIF or WebP header without
+ * decoding the image, so it works in Node as well as the browser.
+ */
+export function readImageDimensions(base64: string): ImageDimensions | null {
+    let bytes: Uint8Array;
+    try {
+        bytes = base64ToBytes(base64);
+    } catch (e) {
+        return null;
+    }
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const ascii = (offset: number, length: number) => String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+    if (bytes.length >= 24 && bytes[0] === 0x89 && ascii(1, 3) === 'PNG') {
+        return { width: view.getUint32(16), height: view.getUint32(20) };
+    }
+    if (bytes.length >= 10 && ascii(0, 3) === 'GIF') {
+        return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+    }
+    if (bytes.length >= 30 && ascii(0, 4) === 'RIFF' && ascii(8, 4) === 'WEBP') {
+        const format = ascii(12, 4);
+        if (format === 'VP8 ') return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+        if (format === 'VP8L') {
+            const bits = view.getUint32(21, true);
+            return { width: (bits & 0x3fff) + 1, height: ((bits >>> 14) & 0x3fff) + 1 };
+        }
+        if (format === 'VP8X') {
+            const width = 1 + (bytes[24] | bytes[25] << 8 | bytes[26] << 16);
+            const height = 1 + (bytes[27] | bytes[28] << 8 | bytes[29] << 16);
+            return { width, height };
+        }
+        return null;
+    }
+    if (bytes.length >= 4 && bytes[0] === 0xff && bytes[1] === 0xd8) {
+        // Walk the segments until a start-of-frame marker (SOF0-SOF15, minus DHT/JPG/DAC)
+        let pos = 2;
+        while (pos + 9 < bytes.length) {
+            if (bytes[pos] !== 0xff) return null;
+            const marker = bytes[pos + 1];
+            if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+                return { width: view.getUint16(pos + 7), height: view.getUint16(pos + 5) };
+            }
+            pos += 2 + view.getUint16(pos + 2);
+        }
+    }
+    return null;
+}
+
+/** The supported ratio closest to the given size, compared on a log scale so 2:1 and 1:2 are equally far from 1:1. */
+export function closestAspectRatio(width: number, height: number): string {
+    const target = Math.log(width / height);
+    let best = SUPPORTED_ASPECT_RATIOS[0];
+    let bestDistance = Infinity;
+    for (const ratio of SUPPORTED_ASPECT_RATIOS) {
+        const [w, h] = ratio.split(':').map(Number);
+        const distance = Math.abs(Math.log(w / h) - target);
+        if (distance < bestDistance) {
+            best = ratio;
+            bestDistance = distance;
+        }
+    }
+    return best;
+}
+
+/** Aspect ratio to request when editing `base64` so the output keeps the source shape. */
+export function sourceAspectRatio(base64: string): string {
+    const size = readImageDimensions(base64);
+    return size && size.width > 0 && size.height > 0 ? closestAspectRatio(size.width, size.height) : '1:1';
+}
+
+/**
+ * Where to draw an image of size `source` so it covers `target` without
+ * distortion: scaled to fit the tighter side, centred, and the overflow on
+ * the other side cropped by the canvas.
+ */
+export function coverRect(source: ImageDimensions, target: ImageDimensions): { x: number; y: number; width: number; height: number } {
+    const scale = Math.max(target.width / source.width, target.height / source.height);
+    const width = source.width * scale;
+    const height = source.height * scale;
+    return { x: (target.width - width) / 2, y: (target.height - height) / 2, width, height };
+}
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => reject(new Error("Could not decode image for compositing."));
+        img.src = src;
+    });
+
+/**
+ * Pastes the masked region of `edited` over `original` at the original's
+ * resolution. `mask` is a PNG whose alpha marks the region to replace;
+ * every pixel outside it comes from the original unchanged. The model may
+ * return a different shape than it was given, so the edit is scaled to
+ * cover the original and centre-cropped rather than stretched. Browser only.
+ */
+export async function compositeMaskedEdit(original: InlineImage, edited: string, mask: string): Promise<string> {
+    const [base, edit, region] = await Promise.all([
+        loadImage(`data:${original.mimeType};base64,${original.data}`),
+        loadImage(`data:image/png;base64,${edited}`),
+        loadImage(`data:image/png;base64,${mask}`)
+    ]);
+    const width = base.naturalWidth;
+    const height = base.naturalHeight;
+
+    // The edit is clipped to the mask on its own layer first
+    const layer = document.createElement('canvas');
+    layer.width = width;
+    layer.height = height;
+    const layerCtx = layer.getContext('2d')!;
+    layerCtx.drawImage(region, 0, 0, width, height);
+    layerCtx.globalCompositeOperation = 'source-in';
+    const fit = coverRect({ width: edit.naturalWidth, height: edit.naturalHeight }, { width, height });
+    layerCtx.drawImage(edit, fit.x, fit.y, fit.width, fit.height);
+
+    const output = document.createElement('canvas');
+    output.width = width;
+    output.height = height;
+    const ctx = output.getContext('2d')!;
+    ctx.drawImage(base, 0, 0);
+    ctx.drawImage(layer, 0, 0);
+    return output.toDataURL('image/png').split(',')[1];
+}
+
+/**
+ * `image` as a PNG no larger than `maxSide` on either side, or unchanged
+ * when it already fits. SVGs are kept as they are, since they scale without
+ * growing. Browser only.
+ */
+export async function downscaleImage(image: InlineImage, maxSide: number): Promise<InlineImage> {
+    if (image.mimeType === 'image/svg+xml') return image;
+    const img = await loadImage(`data:${image.mimeType};base64,${image.data}`);
+    const scale = maxSide / Math.max(img.naturalWidth, img.naturalHeight);
+    if (scale >= 1) return image;
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.naturalWidth * scale);
+    canvas.height = Math.round(img.naturalHeight * scale);
+    canvas.getContext('2d')!.drawImage(img, 0, 0, canvas.width, canvas.height);
+    return { data: canvas.toDataURL('image/png').split(',')[1], mimeType: 'image/png' };
+}
+
+/**
+ * Draws `logo` into one corner of a PNG, `scale` of the image width wide and
+ * inset by a margin proportional to the image. Browser only.
+ */
+export async function compositeLogo(imageData: string, logo: InlineImage, corner: LogoCorner, scale: number): Promise<string> {
+    const [base, mark] = await Promise.all([
+        loadImage(`data:image/png;base64,${imageData}`),
+        loadImage(`data:${logo.mimeType};base64,${logo.data}`)
+    ]);
+    const canvas = document.createElement('canvas');
+    canvas.width = base.naturalWidth;
+    canvas.height = base.naturalHeight;
+    const ctx = canvas.getContext('2d')!;
+    ctx.drawImage(base, 0, 0);
+
+    const width = Math.round(canvas.width * scale);
+    const height = Math.round(width * mark.naturalHeight / mark.naturalWidth);
+    const margin = Math.round(Math.min(canvas.width, canvas.height) * 0.03);
+    const x = corner.endsWith('left') ? margin : canvas.width - width - margin;
+    const y = corner.startsWith('top') ? margin : canvas.height - height - margin;
+    ctx.drawImage(mark, x, y, width, height);
+    return canvas.toDataURL('image/png').split(',')[1];
+}
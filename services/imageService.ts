@@ -17,7 +17,7 @@ for (let n = 0; n < 256; n++) {
     crcTable[n] = c;
 }
 
-function crc32(buf: Uint8Array): number {
+export function crc32(buf: Uint8Array): number {
     let crc = -1;
     for (let i = 0; i < buf.length; i++) {
         crc = (crc >>> 8) ^ crcTable[(crc ^ buf[i]) & 0xff];
@@ -25,105 +25,182 @@ function crc32(buf: Uint8Array): number {
     return (crc ^ -1) >>> 0;
 }
 
+function createChunk(type: string, data: Uint8Array): Uint8Array {
+    const buf = new Uint8Array(12 + data.length);
+    const view = new DataView(buf.buffer);
+    // Lungime (4 bytes)
+    view.setUint32(0, data.length, false);
+    // Tip (4 bytes)
+    for (let i = 0; i < 4; i++) buf[4 + i] = type.charCodeAt(i);
+    // Date
+    buf.set(data, 8);
+    // CRC (4 bytes)
+    const crc = crc32(buf.subarray(4, 8 + data.length));
+    view.setUint32(8 + data.length, crc, false);
+    return buf;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+}
+
+/**
+ * Construiește un PNG RGB necomprimat (blocuri deflate "stored"), fără canvas,
+ * astfel încât să funcționeze atât în browser cât și în Node.
+ */
+export function encodePng(
+    width: number,
+    height: number,
+    pixel: (x: number, y: number) => [number, number, number]
+): string {
+    // Date brute: fiecare rând începe cu octetul de filtru 0
+    const rowLen = width * 3 + 1;
+    const raw = new Uint8Array(rowLen * height);
+    for (let y = 0; y < height; y++) {
+        raw[y * rowLen] = 0;
+        for (let x = 0; x < width; x++) {
+            const [r, g, b] = pixel(x, y);
+            const o = y * rowLen + 1 + x * 3;
+            raw[o] = r; raw[o + 1] = g; raw[o + 2] = b;
+        }
+    }
+
+    // Flux zlib cu blocuri stored de maxim 65535 bytes
+    const blockCount = Math.max(1, Math.ceil(raw.length / 0xffff));
+    const zlib = new Uint8Array(2 + raw.length + blockCount * 5 + 4);
+    zlib[0] = 0x78; zlib[1] = 0x01;
+    let zp = 2;
+    for (let b = 0; b < blockCount; b++) {
+        const start = b * 0xffff;
+        const len = Math.min(0xffff, raw.length - start);
+        zlib[zp++] = b === blockCount - 1 ? 1 : 0;
+        zlib[zp++] = len & 0xff; zlib[zp++] = len >>> 8;
+        zlib[zp++] = ~len & 0xff; zlib[zp++] = (~len >>> 8) & 0xff;
+        zlib.set(raw.subarray(start, start + len), zp);
+        zp += len;
+    }
+    let a = 1, c = 0;
+    for (let i = 0; i < raw.length; i++) {
+        a = (a + raw[i]) % 65521;
+        c = (c + a) % 65521;
+    }
+    new DataView(zlib.buffer).setUint32(zp, ((c << 16) | a) >>> 0, false);
+
+    const ihdr = new Uint8Array(13);
+    const ihdrView = new DataView(ihdr.buffer);
+    ihdrView.setUint32(0, width, false);
+    ihdrView.setUint32(4, height, false);
+    ihdr[8] = 8;  // Adâncime de culoare
+    ihdr[9] = 2;  // RGB
+
+    const parts = [
+        new Uint8Array([137, 80, 78, 71, 13, 10, 26, 10]),
+        createChunk('IHDR', ihdr),
+        createChunk('IDAT', zlib),
+        createChunk('IEND', new Uint8Array(0))
+    ];
+    const total = parts.reduce((sum, p) => sum + p.length, 0);
+    const png = new Uint8Array(total);
+    let offset = 0;
+    parts.forEach(p => { png.set(p, offset); offset += p.length; });
+    return bytesToBase64(png);
+}
+
 /**
  * Inserează meta-date în fișierul PNG folosind chunk-uri iTXt (UTF-8).
  */
+export function embedPngMetadata(
+    base64Data: string,
+    metadata: ImageMetadata
+): Blob {
+    // Curățare Base64
+    const cleanBase64 = base64Data.includes('base64,') 
+        ? base64Data.split('base64,')[1] 
+        : base64Data;
+
+    // Decodare în buffer binar
+    const binaryString = atob(cleanBase64);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) {
+        bytes[i] = binaryString.charCodeAt(i);
+    }
+
+    // Verificare semnătură PNG (8 bytes)
+    const signature = [137, 80, 78, 71, 13, 10, 26, 10];
+    if (bytes.length < 8) throw new Error("Fișier prea mic");
+    for (let i = 0; i < 8; i++) {
+        if (bytes[i] !== signature[i]) throw new Error("Format PNG invalid");
+    }
+
+    const createITXtChunk = (keyword: string, text: string) => {
+        const encoder = new TextEncoder();
+        const kwBytes = encoder.encode(keyword.substring(0, 79));
+        const textBytes = encoder.encode(text);
+        
+        // Format: Keyword (null) Compression(0) Method(0) Language(null) Translated(null) Text
+        const data = new Uint8Array(kwBytes.length + 5 + textBytes.length);
+        data.set(kwBytes, 0);
+        data[kwBytes.length] = 0;
+        data[kwBytes.length + 1] = 0; // Fără compresie
+        data[kwBytes.length + 2] = 0;
+        data[kwBytes.length + 3] = 0; // Limbă goală
+        data[kwBytes.length + 4] = 0; // Traducere goală
+        data.set(textBytes, kwBytes.length + 5);
+        
+        return createChunk('iTXt', data);
+    };
+
+    const chunks: Uint8Array[] = [bytes.slice(0, 8)];
+    let pos = 8;
+    let inserted = false;
+
+    // Procesare chunk-uri existente
+    while (pos + 8 <= bytes.length) {
+        const view = new DataView(bytes.buffer, bytes.byteOffset + pos, 8);
+        const length = view.getUint32(0, false);
+        const type = String.fromCharCode(bytes[pos+4], bytes[pos+5], bytes[pos+6], bytes[pos+7]);
+        const totalLen = length + 12;
+
+        if (pos + totalLen > bytes.length) break;
+
+        const chunkData = bytes.slice(pos, pos + totalLen);
+        chunks.push(chunkData);
+
+        // Inserăm meta-datele imediat după IHDR
+        if (type === 'IHDR' && !inserted) {
+            const metaTags = [
+                { k: 'Title', v: metadata.title },
+                { k: 'Author', v: metadata.author },
+                { k: 'Description', v: metadata.description },
+                { k: 'Copyright', v: metadata.copyright },
+                { k: 'Creation Time', v: metadata.date },
+                { k: 'Comment', v: metadata.keywords }
+            ];
+
+            metaTags.forEach(tag => {
+                if (tag.v && tag.v.trim()) {
+                    chunks.push(createITXtChunk(tag.k, tag.v.trim()));
+                }
+            });
+            inserted = true;
+        }
+        pos += totalLen;
+    }
+
+    return new Blob(chunks, { type: 'image/png' });
+}
+
 export function downloadWithMetadata(
     base64Data: string,
     metadata: ImageMetadata,
     filename: string
 ) {
     try {
-        // Curățare Base64
-        const cleanBase64 = base64Data.includes('base64,') 
-            ? base64Data.split('base64,')[1] 
-            : base64Data;
-
-        // Decodare în buffer binar
-        const binaryString = atob(cleanBase64);
-        const bytes = new Uint8Array(binaryString.length);
-        for (let i = 0; i < binaryString.length; i++) {
-            bytes[i] = binaryString.charCodeAt(i);
-        }
-
-        // Verificare semnătură PNG (8 bytes)
-        const signature = [137, 80, 78, 71, 13, 10, 26, 10];
-        if (bytes.length < 8) throw new Error("Fișier prea mic");
-        for (let i = 0; i < 8; i++) {
-            if (bytes[i] !== signature[i]) throw new Error("Format PNG invalid");
-        }
-
-        const createChunk = (type: string, data: Uint8Array) => {
-            const buf = new Uint8Array(12 + data.length);
-            const view = new DataView(buf.buffer);
-            // Lungime (4 bytes)
-            view.setUint32(0, data.length, false);
-            // Tip (4 bytes)
-            for (let i = 0; i < 4; i++) buf[4 + i] = type.charCodeAt(i);
-            // Date
-            buf.set(data, 8);
-            // CRC (4 bytes)
-            const crc = crc32(buf.subarray(4, 8 + data.length));
-            view.setUint32(8 + data.length, crc, false);
-            return buf;
-        };
-
-        const createITXtChunk = (keyword: string, text: string) => {
-            const encoder = new TextEncoder();
-            const kwBytes = encoder.encode(keyword.substring(0, 79));
-            const textBytes = encoder.encode(text);
-            
-            // Format: Keyword (null) Compression(0) Method(0) Language(null) Translated(null) Text
-            const data = new Uint8Array(kwBytes.length + 5 + textBytes.length);
-            data.set(kwBytes, 0);
-            data[kwBytes.length] = 0;
-            data[kwBytes.length + 1] = 0; // Fără compresie
-            data[kwBytes.length + 2] = 0;
-            data[kwBytes.length + 3] = 0; // Limbă goală
-            data[kwBytes.length + 4] = 0; // Traducere goală
-            data.set(textBytes, kwBytes.length + 5);
-            
-            return createChunk('iTXt', data);
-        };
-
-        const chunks: Uint8Array[] = [bytes.slice(0, 8)];
-        let pos = 8;
-        let inserted = false;
-
-        // Procesare chunk-uri existente
-        while (pos + 8 <= bytes.length) {
-            const view = new DataView(bytes.buffer, bytes.byteOffset + pos, 8);
-            const length = view.getUint32(0, false);
-            const type = String.fromCharCode(bytes[pos+4], bytes[pos+5], bytes[pos+6], bytes[pos+7]);
-            const totalLen = length + 12;
-
-            if (pos + totalLen > bytes.length) break;
-
-            const chunkData = bytes.slice(pos, pos + totalLen);
-            chunks.push(chunkData);
-
-            // Inserăm meta-datele imediat după IHDR
-            if (type === 'IHDR' && !inserted) {
-                const metaTags = [
-                    { k: 'Title', v: metadata.title },
-                    { k: 'Author', v: metadata.author },
-                    { k: 'Description', v: metadata.description },
-                    { k: 'Copyright', v: metadata.copyright },
-                    { k: 'Creation Time', v: metadata.date },
-                    { k: 'Comment', v: metadata.keywords }
-                ];
-
-                metaTags.forEach(tag => {
-                    if (tag.v && tag.v.trim()) {
-                        chunks.push(createITXtChunk(tag.k, tag.v.trim()));
-                    }
-                });
-                inserted = true;
-            }
-            pos += totalLen;
-        }
-
-        const blob = new Blob(chunks, { type: 'image/png' });
+        const blob = embedPngMetadata(base64Data, metadata);
         const url = URL.createObjectURL(blob);
         const link = document.createElement('a');
         link.href = url;
@@ -0,0 +1,474 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { D3Link, D3Node, DataFlowGraph, RepoFileTree } from '../types';
+import { mapSettled } from './concurrency';
+import { ServiceError, isCancellation } from './errors';
+import { ProgressListener, runStage } from './progress';
+
+// Static import tracing: source files are read and their import statements
+// matched with regular expressions, then resolved against the file tree.
+// Nothing is executed or type-checked, so dynamic imports with computed
+// specifiers and build-tool aliases beyond `@/` are not followed.
+
+export type ImportLanguage = 'typescript' | 'python' | 'go' | 'rust' | 'java';
+
+/** Reads one file of the tree being traced, as readRepoFile or LocalSource.readFile do. */
+export type SourceReader = (path: string, signal?: AbortSignal) => Promise<string>;
+
+export interface UnresolvedImport {
+  /** File the import appears in. */
+  file: string;
+  specifier: string;
+}
+
+export interface ImportGraph {
+  /** Files grouped by directory (group 0 holds packages), links weighted by import count. */
+  graph: DataFlowGraph;
+  /** Source files read and parsed. */
+  traced: number;
+  /** Source files left unread by the file budget. */
+  skipped: number;
+  /** Source files that could not be read. */
+  failed: string[];
+  /** Imports that point into the codebase but match no file in the tree. */
+  unresolved: UnresolvedImport[];
+}
+
+export const DEFAULT_IMPORT_BUDGET = 150;
+
+const READ_CONCURRENCY = 6;
+
+// Errors that would fail every other read too
+const FATAL_KINDS = ['auth', 'rate_limit', 'quota'];
+
+const EXTENSIONS: Record<ImportLanguage, RegExp> = {
+  typescript: /\.(ts|tsx|js|jsx|mjs|cjs)$/i,
+  python: /\.py$/i,
+  go: /\.go$/i,
+  rust: /\.rs$/i,
+  java: /\.java$/i
+};
+
+export const languageOf = (path: string): ImportLanguage | null =>
+  (Object.keys(EXTENSIONS) as ImportLanguage[]).find(language => EXTENSIONS[language].test(path)) || null;
+
+const isTestFile = (path: string) => /(^|\/)(tests?|__tests__|spec)\/|[._-](test|spec)\.\w+$|_test\.go$|Tests?\.java$/.test(path);
+
+// --- Paths ---
+
+const directoryOf = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+const basename = (path: string) => path.slice(path.lastIndexOf('/') + 1);
+
+/** Joins and normalises `.` and `..`; null when the path climbs above the root. */
+function joinPath(directory: string, relative: string): string | null {
+  const segments = directory ? directory.split('/') : [];
+  for (const segment of relative.split('/')) {
+    if (segment === '' || segment === '.') continue;
+    if (segment === '..') {
+      if (!segments.length) return null;
+      segments.pop();
+    } else {
+      segments.push(segment);
+    }
+  }
+  return segments.join('/');
+}
+
+/** Of several matches, the one sharing the longest directory prefix with the importing file. */
+function closest(from: string, candidates: string[]): string {
+  const shared = (path: string) => {
+    const a = from.split('/'), b = path.split('/');
+    let i = 0;
+    while (i < a.length && i < b.length && a[i] === b[i]) i++;
+    return i;
+  };
+  return [...candidates].sort((a, b) => shared(b) - shared(a) || a.length - b.length)[0];
+}
+
+// --- Tree index ---
+
+interface TreeIndex {
+  paths: Set<string>;
+  /** Source files per directory, by language. */
+  directories: Map<string, string[]>;
+  /** Every `/`-joined tail of a path without its extension, e.g. `util/strings` for `src/util/strings.py`. */
+  suffixes: Map<string, string[]>;
+  /** Module path from go.mod, and the directory holding it. */
+  goModule: { path: string; root: string } | null;
+}
+
+function addSuffixes(index: Map<string, string[]>, language: ImportLanguage, key: string, path: string) {
+  const segments = key.split('/');
+  for (let i = 0; i < segments.length; i++) {
+    const suffix = `${language}:${segments.slice(i).join('/')}`;
+    index.set(suffix, [...(index.get(suffix) || []), path]);
+  }
+}
+
+function indexTree(files: RepoFileTree[]): TreeIndex {
+  const paths = new Set(files.map(file => file.path));
+  const directories = new Map<string, string[]>();
+  const suffixes = new Map<string, string[]>();
+  for (const path of paths) {
+    const language = languageOf(path);
+    if (!language) continue;
+    const directory = `${language}:${directoryOf(path)}`;
+    directories.set(directory, [...(directories.get(directory) || []), path]);
+    // A package's __init__.py and a Rust mod.rs stand for their directory
+    const key = path.replace(/\/(__init__\.py|mod\.rs)$/, '').replace(/\.\w+$/, '');
+    addSuffixes(suffixes, language, key, path);
+  }
+  return { paths, directories, suffixes, goModule: null };
+}
+
+const bySuffix = (index: TreeIndex, language: ImportLanguage, suffix: string) => index.suffixes.get(`${language}:${suffix}`) || [];
+
+const sourcesIn = (index: TreeIndex, language: ImportLanguage, directory: string) =>
+  (index.directories.get(`${language}:${directory}`) || []).filter(path => !isTestFile(path));
+
+/** Directories holding `language` sources whose path ends in `suffix`, e.g. Java packages under src/main/java. */
+const directoriesEndingIn = (index: TreeIndex, language: ImportLanguage, suffix: string) =>
+  [...index.directories.keys()]
+    .filter(key => key === `${language}:${suffix}` || (key.startsWith(`${language}:`) && key.endsWith(`/${suffix}`)))
+    .map(key => key.slice(language.length + 1));
+
+// --- Parsing ---
+
+interface RawImport {
+  specifier: string;
+  /** Names imported from a module, which may be submodules (Python). */
+  members?: string[];
+  /** `mod name;` declarations (Rust). */
+  declaration?: boolean;
+}
+
+const stripCComments = (text: string) => text.replace(/\/\*[\s\S]*?\*\//g, '').replace(/(^|[^:'"])\/\/.*$/gm, '$1');
+
+const JS_IMPORT = /(?:\bimport\s+(?:type\s+)?(?:[\w*${}\s,]+?\s+from\s+)?|\bexport\s+(?:type\s+)?(?:\*(?:\s+as\s+\w+)?|\{[^}]*\})\s+from\s+|\brequire\s*\(\s*|\bimport\s*\(\s*)['"]([^'"\n]+)['"]/g;
+
+const PY_FROM = /^[ \t]*from[ \t]+(\.*[\w.]*)[ \t]+import[ \t]+(\([^)]*\)|[^\n#]+)/gm;
+const PY_IMPORT = /^[ \t]*import[ \t]+([^\n#]+)/gm;
+
+const GO_BLOCK = /\bimport\s*\(([^)]*)\)/g;
+const GO_SINGLE = /\bimport\s+(?:[\w.]+\s+)?"([^"]+)"/g;
+
+const RUST_USE = /\buse\s+([^;]+);/g;
+const RUST_MOD = /^[ \t]*(?:pub(?:\([^)]*\))?\s+)?mod\s+(\w+)\s*;/gm;
+const RUST_EXTERN = /\bextern\s+crate\s+(\w+)/g;
+
+const JAVA_IMPORT = /^[ \t]*import\s+(static\s+)?([\w.]+(?:\.\*)?)\s*;/gm;
+
+const names = (list: string) => list.replace(/[()\\]/g, '').split(',').map(name => name.trim().split(/\s+as\s+/)[0]).filter(Boolean);
+
+/** `a::{b, c::{d, e}}` → `a::b`, `a::c::d`, `a::c::e`; `self` in a group stands for its prefix. */
+function expandRustUse(tree: string): string[] {
+  const open = tree.indexOf('{');
+  if (open < 0) return [tree.trim().split(/\s+as\s+/)[0]];
+  const prefix = tree.slice(0, open).trim();
+  const inner = tree.slice(open + 1, tree.lastIndexOf('}'));
+  const items: string[] = [];
+  let depth = 0, start = 0;
+  for (let i = 0; i <= inner.length; i++) {
+    if (inner[i] === '{') depth++;
+    else if (inner[i] === '}') depth--;
+    else if ((inner[i] === ',' && depth === 0) || i === inner.length) {
+      if (inner.slice(start, i).trim()) items.push(inner.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  return items.flatMap(item => item === 'self' ? [prefix.replace(/::$/, '')] : expandRustUse(`${prefix}${item}`));
+}
+
+function parseImports(language: ImportLanguage, text: string): RawImport[] {
+  const imports: RawImport[] = [];
+  switch (language) {
+    case 'typescript':
+      for (const match of stripCComments(text).matchAll(JS_IMPORT)) imports.push({ specifier: match[1] });
+      break;
+    case 'python': {
+      const code = text.replace(/("""|''')[\s\S]*?\1/g, '').replace(/#.*$/gm, '');
+      for (const match of code.matchAll(PY_FROM)) imports.push({ specifier: match[1], members: names(match[2]) });
+      for (const match of code.matchAll(PY_IMPORT)) imports.push(...names(match[1]).map(specifier => ({ specifier })));
+      break;
+    }
+    case 'go': {
+      const code = stripCComments(text);
+      for (const block of code.matchAll(GO_BLOCK)) {
+        for (const match of block[1].matchAll(/"([^"]+)"/g)) imports.push({ specifier: match[1] });
+      }
+      for (const match of code.matchAll(GO_SINGLE)) imports.push({ specifier: match[1] });
+      break;
+    }
+    case 'rust': {
+      const code = stripCComments(text);
+      for (const match of code.matchAll(RUST_USE)) imports.push(...expandRustUse(match[1].replace(/\s+/g, ' ')).map(specifier => ({ specifier })));
+      for (const match of code.matchAll(RUST_MOD)) imports.push({ specifier: match[1], declaration: true });
+      for (const match of code.matchAll(RUST_EXTERN)) imports.push({ specifier: match[1] });
+      break;
+    }
+    case 'java':
+      for (const match of stripCComments(text).matchAll(JAVA_IMPORT)) {
+        // A static import names a member; the class is one segment up
+        imports.push({ specifier: match[1] ? match[2].replace(/\.[^.]+$/, '') : match[2] });
+      }
+      break;
+  }
+  return imports;
+}
+
+// --- Resolution ---
+
+/** Files the import points at, an external package, or null when it should be local but is missing. */
+type Resolution = { files: string[] } | { package: string } | null;
+
+const JS_EXTENSIONS = ['.ts', '.tsx', '.js', '.jsx', '.mjs', '.cjs', '.d.ts'];
+
+// Stylesheets, images and the like are imported for bundlers, not traced
+const ASSET = /\.(css|scss|sass|less|svg|png|jpe?g|gif|webp|ico|woff2?|ttf|md|html)(\?.*)?$/i;
+
+function resolveScript(index: TreeIndex, from: string, specifier: string): Resolution | undefined {
+  const alias = specifier.match(/^[@~]\/(.*)$/);
+  if (!alias && !specifier.startsWith('.') && !specifier.startsWith('/')) {
+    const parts = specifier.split('/');
+    return { package: specifier.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0] };
+  }
+  // `@/` and `~/` conventionally point at the project root or its src directory
+  const bases = alias ? [alias[1], `src/${alias[1]}`] : [joinPath(specifier.startsWith('/') ? '' : directoryOf(from), specifier)];
+  for (const base of bases) {
+    if (base === null) continue;
+    // TypeScript sources import the compiled name: './util.js' is util.ts
+    const stem = base.replace(/\.(js|jsx|mjs|cjs)$/, '');
+    const candidates = [base, ...JS_EXTENSIONS.map(extension => stem + extension), ...JS_EXTENSIONS.map(extension => `${base}/index${extension}`)];
+    const hit = candidates.find(candidate => index.paths.has(candidate));
+    if (hit) return { files: [hit] };
+  }
+  return ASSET.test(specifier) ? undefined : null;
+}
+
+function resolvePython(index: TreeIndex, from: string, { specifier, members = [] }: RawImport): Resolution {
+  const dots = specifier.match(/^\.*/)![0].length;
+  const module = specifier.slice(dots).split('.').filter(Boolean);
+
+  const lookup = (segments: string[]): string | null => {
+    if (dots) {
+      // One dot is the importing file's package, each further dot one package up
+      let directory: string | null = directoryOf(from);
+      for (let i = 1; i < dots && directory !== null; i++) directory = directory ? directoryOf(directory) : null;
+      if (directory === null) return null;
+      const base = [directory, ...segments].filter(Boolean).join('/');
+      return [`${base}.py`, `${base}/__init__.py`].find(path => index.paths.has(path)) || null;
+    }
+    const matches = bySuffix(index, 'python', segments.join('/'));
+    return matches.length ? closest(from, matches) : null;
+  };
+
+  // `from pkg import mod` may name submodules; anything else comes from the module itself
+  const files = new Set<string>();
+  let needsModule = members.length === 0;
+  for (const member of members) {
+    const submodule = member === '*' ? null : lookup([...module, member]);
+    if (submodule) files.add(submodule);
+    else needsModule = true;
+  }
+  if (needsModule && module.length) {
+    const file = lookup(module);
+    if (file) files.add(file);
+  }
+  if (files.size) return { files: [...files] };
+  return dots ? null : { package: module[0] };
+}
+
+function resolveGo(index: TreeIndex, specifier: string): Resolution {
+  const { goModule } = index;
+  if (goModule && (specifier === goModule.path || specifier.startsWith(`${goModule.path}/`))) {
+    const directory = [goModule.root, specifier.slice(goModule.path.length + 1)].filter(Boolean).join('/');
+    const files = sourcesIn(index, 'go', directory);
+    return files.length ? { files } : null;
+  }
+  if (!goModule) {
+    // Without go.mod, the longest tail of the import path that is a package directory in the tree
+    const segments = specifier.split('/');
+    for (let i = 1; i < segments.length; i++) {
+      const files = sourcesIn(index, 'go', segments.slice(i).join('/'));
+      if (files.length) return { files };
+    }
+  }
+  // The standard library has no dot in its first segment; modules are named by host/owner/repo
+  const segments = specifier.split('/');
+  return { package: segments[0].includes('.') ? segments.slice(0, 3).join('/') : specifier };
+}
+
+function resolveRust(index: TreeIndex, from: string, { specifier, declaration }: RawImport): Resolution {
+  // The directory a file's child modules live in
+  const moduleDirectory = (file: string) => /(^|\/)(mod|lib|main)\.rs$/.test(file) ? directoryOf(file) : file.replace(/\.rs$/, '');
+  const crateSource = from.match(/^(.*?\/)?src\//) ? from.match(/^(.*?\/)?src\//)![0].replace(/\/$/, '') : directoryOf(from);
+  const moduleFile = (directory: string, segments: string[]) => {
+    // The longest prefix that is a module file; the rest names items inside it
+    for (let i = segments.length; i > 0; i--) {
+      const base = [directory, ...segments.slice(0, i)].filter(Boolean).join('/');
+      const hit = [`${base}.rs`, `${base}/mod.rs`].find(path => index.paths.has(path));
+      if (hit) return hit;
+    }
+    return null;
+  };
+  const crateRoot = () => [`${crateSource}/lib.rs`, `${crateSource}/main.rs`].find(path => index.paths.has(path)) || null;
+
+  if (declaration) {
+    const file = moduleFile(moduleDirectory(from), [specifier]);
+    return file ? { files: [file] } : null;
+  }
+
+  const [first, ...rest] = specifier.split('::').filter(Boolean);
+  let file: string | null;
+  if (first === 'crate') {
+    file = moduleFile(crateSource, rest) || crateRoot();
+  } else if (first === 'self') {
+    file = moduleFile(moduleDirectory(from), rest);
+    if (!file) return { files: [] };
+  } else if (first === 'super') {
+    const parent = directoryOf(moduleDirectory(from));
+    file = moduleFile(parent, rest) || (parent === crateSource ? crateRoot() : moduleFile(directoryOf(parent), [basename(parent)]));
+  } else {
+    // A sibling module named without `self::`, otherwise an external crate
+    file = moduleFile(moduleDirectory(from), [first, ...rest]);
+    if (!file) return { package: ['core', 'alloc'].includes(first) ? 'std' : first };
+  }
+  return file ? { files: [file] } : null;
+}
+
+function resolveJava(index: TreeIndex, from: string, specifier: string): Resolution {
+  const segments = specifier.split('.');
+  if (segments[segments.length - 1] === '*') {
+    const packageSegments = segments.slice(0, -1);
+    // `a.b.*` imports a package, `a.b.C.*` the nested classes of C
+    const directories = directoriesEndingIn(index, 'java', packageSegments.join('/'));
+    if (directories.length) return { files: sourcesIn(index, 'java', closest(from, directories)) };
+    const classFile = bySuffix(index, 'java', packageSegments.join('/'));
+    if (classFile.length) return { files: [closest(from, classFile)] };
+  } else {
+    // Nested classes: a.b.Outer.Inner lives in a/b/Outer.java
+    for (let i = segments.length; i > 1; i--) {
+      const matches = bySuffix(index, 'java', segments.slice(0, i).join('/'));
+      if (matches.length) return { files: [closest(from, matches)] };
+    }
+  }
+  const packageName = segments.slice(0, Math.max(1, segments.findIndex(segment => /^[A-Z*]/.test(segment)))).join('.');
+  // A package that exists in the tree but lacks the class is a broken local import
+  return directoriesEndingIn(index, 'java', packageName.replace(/\./g, '/')).length ? null : { package: packageName };
+}
+
+function resolveImport(index: TreeIndex, language: ImportLanguage, from: string, raw: RawImport): Resolution | undefined {
+  switch (language) {
+    case 'typescript': return resolveScript(index, from, raw.specifier);
+    case 'python': return resolvePython(index, from, raw);
+    case 'go': return resolveGo(index, raw.specifier);
+    case 'rust': return resolveRust(index, from, raw);
+    case 'java': return resolveJava(index, from, raw.specifier);
+  }
+}
+
+// --- Graph ---
+
+/**
+ * Reads up to `maxFiles` source files (non-test files and shallow paths
+ * first), resolves their imports against `files`, and builds a graph of
+ * files and packages. Reads that fail are reported rather than fatal, unless
+ * the failure would repeat for every file (auth, rate limits) or the run was
+ * cancelled.
+ */
+export async function buildImportGraph(
+  files: RepoFileTree[],
+  readFile: SourceReader,
+  maxFiles: number = DEFAULT_IMPORT_BUDGET,
+  signal?: AbortSignal,
+  onProgress?: ProgressListener
+): Promise<ImportGraph> {
+  return runStage(onProgress, { stage: 'trace_imports', label: 'TRACING IMPORTS' }, () => traceImports(files, readFile, maxFiles, signal));
+}
+
+async function traceImports(files: RepoFileTree[], readFile: SourceReader, maxFiles: number, signal?: AbortSignal): Promise<ImportGraph> {
+  const index = indexTree(files);
+  const depth = (path: string) => path.split('/').length;
+  const sources = files
+    .map(file => file.path)
+    .filter(path => languageOf(path))
+    .sort((a, b) => Number(isTestFile(a)) - Number(isTestFile(b)) || depth(a) - depth(b) || a.localeCompare(b));
+  const selected = sources.slice(0, maxFiles);
+
+  const rethrowFatal = (error: unknown) => {
+    if (isCancellation(error) || signal?.aborted || (error instanceof ServiceError && FATAL_KINDS.includes(error.kind))) throw error;
+  };
+
+  // go.mod is not in the filtered tree, but it names the module local imports start with
+  const goDirectories = selected.filter(path => languageOf(path) === 'go').map(directoryOf);
+  if (goDirectories.length) {
+    // The module root is an ancestor of every package; try the top few levels above the shallowest one
+    const shallowest = goDirectories.reduce((a, b) => depth(a) <= depth(b) ? a : b).split('/').filter(Boolean);
+    const roots = [0, 1, 2].filter(i => i <= shallowest.length).map(i => shallowest.slice(0, i).join('/'));
+    for (const directory of roots) {
+      try {
+        const goMod = await readFile(directory ? `${directory}/go.mod` : 'go.mod', signal);
+        const module = goMod.match(/^\s*module\s+(\S+)/m)?.[1];
+        if (module) { index.goModule = { path: module, root: directory }; break; }
+      } catch (error) {
+        rethrowFatal(error);
+      }
+    }
+  }
+
+  const results = await mapSettled(selected, READ_CONCURRENCY, path => readFile(path, signal));
+
+  const links = new Map<string, number>();
+  const fileNodes = new Set<string>();
+  const packages = new Set<string>();
+  const unresolved: UnresolvedImport[] = [];
+  const failed: string[] = [];
+
+  results.forEach((result, i) => {
+    const from = selected[i];
+    if (result.status === 'rejected') {
+      rethrowFatal(result.reason);
+      failed.push(from);
+      return;
+    }
+    fileNodes.add(from);
+    const language = languageOf(from)!;
+    for (const raw of parseImports(language, result.value)) {
+      const resolution = resolveImport(index, language, from, raw);
+      if (resolution === undefined) continue;
+      if (resolution === null) {
+        unresolved.push({ file: from, specifier: raw.specifier });
+        continue;
+      }
+      const targets = 'package' in resolution ? [`package:${resolution.package}`] : resolution.files.filter(file => file !== from);
+      if ('package' in resolution) packages.add(resolution.package);
+      for (const target of targets) {
+        if (!target.startsWith('package:')) fileNodes.add(target);
+        const key = `${from}\n${target}`;
+        links.set(key, (links.get(key) || 0) + 1);
+      }
+    }
+  });
+
+  // Group 0 holds the packages; every directory gets its own group after that
+  const directories = [...new Set([...fileNodes].map(directoryOf))].sort();
+  const nodes: D3Node[] = [
+    ...[...fileNodes].sort().map(path => ({ id: path, label: basename(path), group: directories.indexOf(directoryOf(path)) + 1 })),
+    ...[...packages].sort().map(name => ({ id: `package:${name}`, label: name, group: 0 }))
+  ];
+  const graphLinks: D3Link[] = [...links].map(([key, value]) => {
+    const [source, target] = key.split('\n');
+    return { source, target, value };
+  });
+
+  return {
+    graph: { nodes, links: graphLinks },
+    traced: selected.length - failed.length,
+    skipped: sources.length - selected.length,
+    failed,
+    unresolved
+  };
+}
@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// A database with a single object store, shared by the batch queue and the response cache.
+
+export type WithStore = <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void) => Promise<T | undefined>;
+
+/**
+ * Opens `dbName` on first use and returns a helper that runs one transaction
+ * on `storeName`. The helper settles when the transaction completes, and
+ * rejects when it fails or aborts, e.g. once the storage quota is exceeded,
+ * so callers never wait on a write that will not happen.
+ */
+export function createIndexedDbStore(dbName: string, storeName: string, keyPath: string): WithStore {
+    let dbPromise: Promise<IDBDatabase> | null = null;
+
+    const openDb = (): Promise<IDBDatabase> => {
+        dbPromise ??= new Promise((resolve, reject) => {
+            const request = indexedDB.open(dbName, 1);
+            request.onupgradeneeded = () => request.result.createObjectStore(storeName, { keyPath });
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => {
+                dbPromise = null;
+                reject(request.error);
+            };
+        });
+        return dbPromise;
+    };
+
+    return async (mode, run) => {
+        const db = await openDb();
+        return new Promise((resolve, reject) => {
+            const tx = db.transaction(storeName, mode);
+            const request = run(tx.objectStore(storeName));
+            tx.oncomplete = () => resolve(request ? request.result : undefined);
+            tx.onerror = () => reject(tx.error);
+            // Quota errors abort the transaction, sometimes without an error event first
+            tx.onabort = () => reject(tx.error || new DOMException(`The ${dbName} transaction was aborted.`, 'AbortError'));
+        });
+    };
+}
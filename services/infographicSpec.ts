@@ -0,0 +1,167 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { Schema, Type } from "@google/genai";
+import { Citation, InfographicSpec } from '../types';
+
+export const MAX_SECTIONS = 6;
+export const MAX_STATS = 6;
+
+export const INFOGRAPHIC_SPEC_SCHEMA: Schema = {
+    type: Type.OBJECT,
+    properties: {
+        title: { type: Type.STRING, description: "Headline shown at the top of the infographic." },
+        subtitle: { type: Type.STRING, description: "One-line framing under the headline." },
+        sections: {
+            type: Type.ARRAY,
+            description: `Between 3 and ${MAX_SECTIONS} content blocks, in reading order.`,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    heading: { type: Type.STRING },
+                    body: { type: Type.STRING, description: "At most two short sentences." },
+                    icon: { type: Type.STRING, description: "A concrete icon or visual metaphor, e.g. 'magnifying glass'." }
+                },
+                required: ["heading", "body", "icon"]
+            }
+        },
+        stats: {
+            type: Type.ARRAY,
+            description: `Up to ${MAX_STATS} key figures taken verbatim from the source. Leave empty rather than invent numbers.`,
+            items: {
+                type: Type.OBJECT,
+                properties: {
+                    label: { type: Type.STRING },
+                    value: { type: Type.STRING, description: "The number only, e.g. '42' or '3.5'." },
+                    unit: { type: Type.STRING, description: "Unit or suffix, e.g. '%', 'ms', 'x'. Empty if none." }
+                },
+                required: ["label", "value", "unit"]
+            }
+        },
+        callToAction: { type: Type.STRING, description: "Closing line inviting the reader to act." },
+        sources: { type: Type.ARRAY, items: { type: Type.STRING }, description: "URLs or publication names the content came from." }
+    },
+    required: ["title", "subtitle", "sections", "stats", "callToAction", "sources"]
+};
+
+export const emptySpec = (title = ''): InfographicSpec => ({
+    title,
+    subtitle: '',
+    sections: [],
+    stats: [],
+    callToAction: '',
+    sources: []
+});
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Checks a value against INFOGRAPHIC_SPEC_SCHEMA. Returns one message per
+ * problem, so the JSON editor can show them all at once; empty means valid.
+ */
+export function validateSpec(value: unknown): string[] {
+    if (!isRecord(value)) return ['Spec must be a JSON object.'];
+    const errors: string[] = [];
+    const expectString = (v: unknown, path: string) => {
+        if (typeof v !== 'string') errors.push(`${path} must be a string.`);
+    };
+    const expectList = (v: unknown, path: string, max: number, check: (item: unknown, itemPath: string) => void) => {
+        if (!Array.isArray(v)) {
+            errors.push(`${path} must be an array.`);
+            return;
+        }
+        if (v.length > max) errors.push(`${path} has ${v.length} entries; the maximum is ${max}.`);
+        v.forEach((item, i) => check(item, `${path}[${i}]`));
+    };
+    const expectFields = (item: unknown, itemPath: string, fields: string[]) => {
+        if (!isRecord(item)) {
+            errors.push(`${itemPath} must be an object.`);
+            return;
+        }
+        fields.forEach(field => expectString(item[field], `${itemPath}.${field}`));
+    };
+
+    expectString(value.title, 'title');
+    if (typeof value.title === 'string' && !value.title.trim()) errors.push('title must not be empty.');
+    expectString(value.subtitle, 'subtitle');
+    expectList(value.sections, 'sections', MAX_SECTIONS, (item, path) => expectFields(item, path, ['heading', 'body', 'icon']));
+    expectList(value.stats, 'stats', MAX_STATS, (item, path) => expectFields(item, path, ['label', 'value', 'unit']));
+    expectString(value.callToAction, 'callToAction');
+    expectList(value.sources, 'sources', Infinity, expectString);
+    return errors;
+}
+
+/**
+ * Turns raw analysis output into a usable spec. Missing or mistyped fields are
+ * filled with defaults; text that is not JSON at all becomes a single section
+ * so the user can restructure it in the editor.
+ */
+export function parseSpec(text: string, fallbackTitle: string, citations: Citation[] = []): InfographicSpec {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(text);
+    } catch (e) {
+        const spec = emptySpec(fallbackTitle);
+        if (text.trim()) spec.sections.push({ heading: fallbackTitle, body: text.trim(), icon: '' });
+        spec.sources = citations.map(c => c.uri);
+        return spec;
+    }
+
+    const obj = isRecord(raw) ? raw : {};
+    const str = (v: unknown) => typeof v === 'string' ? v : typeof v === 'number' ? String(v) : '';
+    const list = (v: unknown) => Array.isArray(v) ? v.filter(isRecord) : [];
+
+    const sources = Array.isArray(obj.sources) ? obj.sources.map(str).filter(Boolean) : [];
+    // Grounding citations are authoritative; keep any the model forgot to list
+    citations.forEach(c => sources.includes(c.uri) || sources.push(c.uri));
+
+    return {
+        title: str(obj.title) || fallbackTitle,
+        subtitle: str(obj.subtitle),
+        sections: list(obj.sections).slice(0, MAX_SECTIONS).map(s => ({ heading: str(s.heading), body: str(s.body), icon: str(s.icon) })),
+        stats: list(obj.stats).slice(0, MAX_STATS).map(s => ({ label: str(s.label), value: str(s.value), unit: str(s.unit) })),
+        callToAction: str(obj.callToAction),
+        sources
+    };
+}
+
+const quote = (text: string) => `"${text.trim().replace(/"/g, "'")}"`;
+
+/** '42' + '%' reads as 42%, '12' + 'users' as 12 users. */
+export const formatStat = (value: string, unit: string) =>
+    /^[a-z]{2,}/i.test(unit.trim()) ? `${value.trim()} ${unit.trim()}` : `${value.trim()}${unit.trim()}`;
+
+/**
+ * Renders a spec as the content block of an image prompt. The output depends
+ * only on the spec, so the same spec always produces the same prompt.
+ */
+export function specToPrompt(spec: InfographicSpec): string {
+    const lines: string[] = [
+        'Render every label exactly as written below. Do not add, change or invent any numbers or text.',
+        `TITLE: ${quote(spec.title)}`
+    ];
+    if (spec.subtitle.trim()) lines.push(`SUBTITLE: ${quote(spec.subtitle)}`);
+
+    const sections = spec.sections.filter(s => s.heading.trim() || s.body.trim());
+    if (sections.length) {
+        lines.push(`SECTIONS (${sections.length}, in reading order):`);
+        sections.forEach((s, i) => {
+            const visual = s.icon.trim() ? ` [visual: ${s.icon.trim()}]` : '';
+            lines.push(`${i + 1}. ${quote(s.heading)} - ${quote(s.body)}${visual}`);
+        });
+    }
+
+    const stats = spec.stats.filter(s => s.value.trim());
+    if (stats.length) {
+        lines.push('KEY STATS (show as large callout numbers):');
+        stats.forEach(s => lines.push(`- ${quote(formatStat(s.value, s.unit))} ${quote(s.label)}`));
+    }
+
+    if (spec.callToAction.trim()) lines.push(`CALL TO ACTION (footer): ${quote(spec.callToAction)}`);
+    const sources = spec.sources.filter(s => s.trim());
+    if (sources.length) lines.push(`SOURCES (small print): ${sources.map(s => s.trim()).join('; ')}`);
+    return lines.join('\n');
+}
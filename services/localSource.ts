@@ -0,0 +1,295 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RepoFileTree } from '../types';
+import { isRelevantFile } from './repoService';
+
+// Codebases read from the user's disk. Everything happens in the browser: the
+// file list goes to the model like a remote tree, file contents stay local.
+
+/** A dropped folder or ZIP archive, filtered like a remote tree. */
+export interface LocalSource {
+  /** Folder or archive name, used where a remote run uses the repository name. */
+  name: string;
+  files: RepoFileTree[];
+  /**
+   * Paths left out by .gitignore rules: each ignored file, and each
+   * outermost ignored directory once, however many files it holds.
+   */
+  ignored: number;
+  readFile(path: string): Promise<string>;
+}
+
+interface LocalEntry {
+  path: string;
+  read: () => Promise<string>;
+}
+
+// Archives are read into memory whole
+const MAX_ARCHIVE_BYTES = 256 * 1024 * 1024;
+
+// --- .gitignore ---
+
+interface IgnoreRule {
+  /** Directory holding the .gitignore, '' for the root. */
+  base: string;
+  pattern: RegExp;
+  negate: boolean;
+  directoryOnly: boolean;
+}
+
+/** Translates a gitignore glob into a regular expression body. */
+function globToRegExp(glob: string): string {
+  let source = '';
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === '*' && glob[i + 1] === '*') {
+      // `**/` matches any number of directories, a trailing `/**` everything inside
+      if (glob[i + 2] === '/') { source += '(?:.*/)?'; i += 2; }
+      else { source += '.*'; i++; }
+    } else if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[') {
+      const end = glob.indexOf(']', i + 2);
+      if (end < 0) { source += '\\['; continue; }
+      const body = glob.slice(i + 1, end).replace(/^!/, '^').replace(/\\/g, '\\\\');
+      source += `[${body}]`;
+      i = end;
+    } else if (char === '\\' && i + 1 < glob.length) {
+      source += glob[++i].replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+  }
+  return source;
+}
+
+function parseGitignore(base: string, text: string): IgnoreRule[] {
+  const rules: IgnoreRule[] = [];
+  for (const rawLine of text.split(/\r?\n/)) {
+    let line = rawLine.replace(/(?<!\\)\s+$/, '');
+    if (!line || line.startsWith('#')) continue;
+    const negate = line.startsWith('!');
+    if (negate) line = line.slice(1);
+    if (line.startsWith('\\#') || line.startsWith('\\!')) line = line.slice(1);
+    const directoryOnly = line.endsWith('/');
+    if (directoryOnly) line = line.slice(0, -1);
+    if (!line) continue;
+    // A slash anywhere but the end anchors the pattern to the .gitignore's directory
+    const anchored = line.includes('/');
+    const body = globToRegExp(line.replace(/^\//, ''));
+    rules.push({ base, pattern: new RegExp(`^${anchored ? '' : '(?:.*/)?'}${body}$`), negate, directoryOnly });
+  }
+  return rules;
+}
+
+/**
+ * Git's ignore rules across nested .gitignore files: rules from deeper files
+ * and later lines win, and nothing inside an ignored directory can be
+ * re-included.
+ */
+function createIgnoreMatcher() {
+  const rules: IgnoreRule[] = [];
+
+  const matches = (path: string, isDirectory: boolean) => {
+    let ignored = false;
+    for (const rule of rules) {
+      if (rule.directoryOnly && !isDirectory) continue;
+      if (rule.base && !path.startsWith(`${rule.base}/`)) continue;
+      if (rule.pattern.test(rule.base ? path.slice(rule.base.length + 1) : path)) ignored = !rule.negate;
+    }
+    return ignored;
+  };
+
+  return {
+    add(base: string, text: string) {
+      rules.push(...parseGitignore(base, text));
+    },
+    isIgnored(path: string, isDirectory = false) {
+      const segments = path.split('/');
+      if (segments.includes('.git')) return true;
+      for (let i = 1; i < segments.length; i++) {
+        if (matches(segments.slice(0, i).join('/'), true)) return true;
+      }
+      return matches(path, isDirectory);
+    }
+  };
+}
+
+// --- Sources ---
+
+const directoryOf = (path: string) => path.includes('/') ? path.slice(0, path.lastIndexOf('/')) : '';
+
+function toLocalSource(name: string, entries: LocalEntry[], ignored: number): LocalSource {
+  const readers = new Map(entries.map(entry => [entry.path, entry.read]));
+  const files = entries
+    .map(entry => ({ path: entry.path, type: 'blob' }))
+    .filter(isRelevantFile)
+    .sort((a, b) => a.path.localeCompare(b.path));
+  return {
+    name,
+    files,
+    ignored,
+    async readFile(path) {
+      const read = readers.get(path);
+      if (!read) throw new Error(`${path} is not part of ${name}.`);
+      return read();
+    }
+  };
+}
+
+/** Applies every .gitignore in a flat listing, shallowest first so deeper files take precedence. */
+async function fromEntries(name: string, entries: LocalEntry[]): Promise<LocalSource> {
+  const ignore = createIgnoreMatcher();
+  const gitignores = entries
+    .filter(entry => entry.path.split('/').pop() === '.gitignore')
+    .sort((a, b) => a.path.split('/').length - b.path.split('/').length);
+  for (const gitignore of gitignores) {
+    ignore.add(directoryOf(gitignore.path), await gitignore.read());
+  }
+  const kept: LocalEntry[] = [];
+  const ignored = new Set<string>();
+  for (const entry of entries) {
+    if (!ignore.isIgnored(entry.path)) {
+      kept.push(entry);
+      continue;
+    }
+    // Counted like a dropped folder, which stops at the outermost ignored directory
+    const segments = entry.path.split('/');
+    let depth = 1;
+    while (depth < segments.length && !ignore.isIgnored(segments.slice(0, depth).join('/'), true)) depth++;
+    ignored.add(segments.slice(0, depth).join('/'));
+  }
+  return toLocalSource(name, kept, ignored.size);
+}
+
+/** Drops a folder name every path starts with, as in "Download ZIP" archives and folder pickers. */
+function stripCommonRoot(entries: LocalEntry[]): { root: string | null; entries: LocalEntry[] } {
+  const root = entries[0]?.path.split('/')[0];
+  if (!root || !entries.every(entry => entry.path.startsWith(`${root}/`))) return { root: null, entries };
+  return { root, entries: entries.map(entry => ({ ...entry, path: entry.path.slice(root.length + 1) })) };
+}
+
+/** Files from an `<input webkitdirectory>` picker. */
+export function readFolderInput(fileList: FileList): Promise<LocalSource> {
+  const files = Array.from(fileList);
+  const { root, entries } = stripCommonRoot(files.map(file => ({ path: file.webkitRelativePath || file.name, read: () => file.text() })));
+  return fromEntries(root || 'local', entries);
+}
+
+const readEntries = (directory: FileSystemDirectoryEntry) => new Promise<FileSystemEntry[]>((resolve, reject) => {
+  const reader = directory.createReader();
+  const all: FileSystemEntry[] = [];
+  // Browsers hand out directory listings in batches until an empty one
+  const next = () => reader.readEntries(batch => {
+    if (!batch.length) return resolve(all);
+    all.push(...batch);
+    next();
+  }, reject);
+  next();
+});
+
+const entryFile = (entry: FileSystemFileEntry) => new Promise<File>((resolve, reject) => entry.file(resolve, reject));
+
+/**
+ * A dropped folder, or a dropped .zip. The entries are taken from the
+ * DataTransfer before the first await, because the browser empties it once
+ * the drop event returns.
+ */
+export async function readDroppedItems(items: DataTransferItemList): Promise<LocalSource> {
+  const dropped = Array.from(items).map(item => item.webkitGetAsEntry()).filter((entry): entry is FileSystemEntry => !!entry);
+  if (dropped.length === 1 && dropped[0].isFile && /\.zip$/i.test(dropped[0].name)) {
+    return readZipArchive(await entryFile(dropped[0] as FileSystemFileEntry));
+  }
+  if (!dropped.length) throw new Error('Drop a folder or a .zip archive.');
+
+  // Ignored directories are pruned while walking, so node_modules is never opened
+  const ignore = createIgnoreMatcher();
+  const entries: LocalEntry[] = [];
+  let ignored = 0;
+  const visit = async (children: FileSystemEntry[], path: string) => {
+    const gitignore = children.find(child => child.isFile && child.name === '.gitignore');
+    if (gitignore) ignore.add(path, await (await entryFile(gitignore as FileSystemFileEntry)).text());
+    for (const child of children) {
+      const childPath = path ? `${path}/${child.name}` : child.name;
+      if (ignore.isIgnored(childPath, child.isDirectory)) {
+        ignored++;
+      } else if (child.isDirectory) {
+        await visit(await readEntries(child as FileSystemDirectoryEntry), childPath);
+      } else {
+        entries.push({ path: childPath, read: () => entryFile(child as FileSystemFileEntry).then(file => file.text()) });
+      }
+    }
+  };
+
+  // A single folder is the codebase itself; loose files and folders form one together
+  if (dropped.length === 1 && dropped[0].isDirectory) {
+    await visit(await readEntries(dropped[0] as FileSystemDirectoryEntry), '');
+    return toLocalSource(dropped[0].name, entries, ignored);
+  }
+  await visit(dropped, '');
+  return toLocalSource('local', entries, ignored);
+}
+
+// --- ZIP ---
+
+const textDecoder = new TextDecoder();
+
+async function inflateRaw(data: Uint8Array): Promise<string> {
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+}
+
+/**
+ * Reads a .zip from its central directory. Stored and deflated entries are
+ * supported, which covers archives from code hosts and the usual zip tools;
+ * entries are only inflated when read.
+ */
+export async function readZipArchive(file: File): Promise<LocalSource> {
+  if (file.size > MAX_ARCHIVE_BYTES) throw new Error(`${file.name} is larger than ${MAX_ARCHIVE_BYTES / 1024 / 1024} MB.`);
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  const view = new DataView(bytes.buffer);
+
+  // The end-of-central-directory record sits in the last 64 KB, after an optional comment
+  let end = -1;
+  for (let i = bytes.length - 22; i >= Math.max(0, bytes.length - 22 - 0xffff); i--) {
+    if (view.getUint32(i, true) === 0x06054b50) { end = i; break; }
+  }
+  if (end < 0) throw new Error(`${file.name} is not a ZIP archive.`);
+  const count = view.getUint16(end + 10, true);
+  let offset = view.getUint32(end + 16, true);
+  if (count === 0xffff || offset === 0xffffffff) throw new Error(`${file.name} is a ZIP64 archive, which is not supported.`);
+
+  const entries: LocalEntry[] = [];
+  for (let i = 0; i < count; i++) {
+    if (view.getUint32(offset, true) !== 0x02014b50) throw new Error(`${file.name} is damaged.`);
+    const flags = view.getUint16(offset + 8, true);
+    const method = view.getUint16(offset + 10, true);
+    const compressedSize = view.getUint32(offset + 20, true);
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const localOffset = view.getUint32(offset + 42, true);
+    const path = textDecoder.decode(bytes.subarray(offset + 46, offset + 46 + nameLength));
+    offset += 46 + nameLength + extraLength + commentLength;
+
+    // Directories, encrypted entries and methods other than stored or deflate are left out
+    if (path.endsWith('/') || flags & 1 || (method !== 0 && method !== 8)) continue;
+    entries.push({
+      path,
+      read: async () => {
+        // The local header repeats the name and has its own extra field
+        const start = localOffset + 30 + view.getUint16(localOffset + 26, true) + view.getUint16(localOffset + 28, true);
+        const data = bytes.subarray(start, start + compressedSize);
+        return method === 8 ? inflateRaw(data) : textDecoder.decode(data);
+      }
+    });
+  }
+
+  const { root, entries: relative } = stripCommonRoot(entries);
+  return fromEntries(root || file.name.replace(/\.zip$/i, ''), relative);
+}
@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GeminiModel, ImageModel, ImageSettings, ImageSize, ModelConfig, ModelPreset, StudioId } from '../types';
+
+export const MODEL_CONFIG_STORAGE_KEY = 'l2i_model_config';
+export const MODEL_PRESETS_STORAGE_KEY = 'l2i_model_presets';
+
+export const TEXT_MODELS: GeminiModel[] = ['gemini-3-flash-preview', 'gemini-3-pro-preview'];
+
+export const IMAGE_MODELS: { id: ImageModel; label: string; sizes: ImageSize[] }[] = [
+    { id: 'gemini-3-pro-image-preview', label: 'Gemini 3 Pro Image', sizes: ['1K', '2K', '4K'] },
+    // Flash image renders at a fixed 1K and rejects imageSize
+    { id: 'gemini-2.5-flash-image', label: 'Gemini 2.5 Flash Image', sizes: ['1K'] }
+];
+
+export const STUDIO_LABELS: Record<StudioId, string> = {
+    repo: 'GitFlow',
+    article: 'SiteSketch',
+    academic: 'EduVision',
+    vision: 'Vision'
+};
+
+export const DEFAULT_IMAGE_SETTINGS: ImageSettings = {
+    model: 'gemini-3-pro-image-preview',
+    size: '1K'
+};
+
+export const DEFAULT_MODEL_CONFIG: ModelConfig = {
+    strategy: 'gemini-3-pro-preview',
+    drafting: 'gemini-3-flash-preview',
+    code: 'gemini-3-pro-preview',
+    image: DEFAULT_IMAGE_SETTINGS
+};
+
+export const BUILT_IN_PRESETS: ModelPreset[] = [
+    {
+        name: 'draft fast',
+        builtIn: true,
+        config: {
+            strategy: 'gemini-3-flash-preview',
+            drafting: 'gemini-3-flash-preview',
+            code: 'gemini-3-flash-preview',
+            image: { model: 'gemini-2.5-flash-image', size: '1K' }
+        }
+    },
+    {
+        name: 'final print',
+        builtIn: true,
+        config: {
+            strategy: 'gemini-3-pro-preview',
+            drafting: 'gemini-3-pro-preview',
+            code: 'gemini-3-pro-preview',
+            image: { model: 'gemini-3-pro-image-preview', size: '4K' }
+        }
+    }
+];
+
+export const supportedSizes = (model: ImageModel): ImageSize[] =>
+    IMAGE_MODELS.find(m => m.id === model)?.sizes ?? ['1K'];
+
+/** Fills in fields missing from configs saved before image settings existed. */
+export function normalizeModelConfig(value: Partial<ModelConfig> | null | undefined): ModelConfig {
+    return {
+        ...DEFAULT_MODEL_CONFIG,
+        ...value,
+        image: { ...DEFAULT_IMAGE_SETTINGS, ...value?.image }
+    };
+}
+
+/** The shared image settings with the studio's overrides applied, clamped to what the model supports. */
+export function resolveImageSettings(config: ModelConfig, studio: StudioId): ImageSettings {
+    // A cleared override field inherits the shared value, as it would after a JSON round-trip
+    const override = Object.fromEntries(Object.entries(config.studioOverrides?.[studio] || {}).filter(([, v]) => v !== undefined));
+    const settings: ImageSettings = { ...DEFAULT_IMAGE_SETTINGS, ...config.image, ...override };
+    if (!supportedSizes(settings.model).includes(settings.size)) settings.size = '1K';
+    return settings;
+}
+
+export function loadModelConfig(): ModelConfig {
+    try {
+        if (typeof localStorage !== 'undefined') {
+            return normalizeModelConfig(JSON.parse(localStorage.getItem(MODEL_CONFIG_STORAGE_KEY) || 'null'));
+        }
+    } catch (e) {
+        console.error("Failed to parse saved config", e);
+    }
+    return DEFAULT_MODEL_CONFIG;
+}
+
+const readUserPresets = (): ModelPreset[] => {
+    try {
+        if (typeof localStorage === 'undefined') return [];
+        const parsed: ModelPreset[] = JSON.parse(localStorage.getItem(MODEL_PRESETS_STORAGE_KEY) || '[]');
+        return parsed.map(p => ({ name: p.name, config: normalizeModelConfig(p.config) }));
+    } catch (e) {
+        return [];
+    }
+};
+
+const writeUserPresets = (presets: ModelPreset[]) => {
+    localStorage.setItem(MODEL_PRESETS_STORAGE_KEY, JSON.stringify(presets));
+};
+
+/** Built-in presets first, then saved ones. A saved preset may shadow a built-in name. */
+export function listPresets(): ModelPreset[] {
+    const saved = readUserPresets();
+    return [...BUILT_IN_PRESETS.filter(b => !saved.some(p => p.name === b.name)), ...saved];
+}
+
+export function savePreset(name: string, config: ModelConfig): ModelPreset[] {
+    const preset: ModelPreset = { name: name.trim(), config };
+    writeUserPresets([...readUserPresets().filter(p => p.name !== preset.name), preset]);
+    return listPresets();
+}
+
+export function deletePreset(name: string): ModelPreset[] {
+    writeUserPresets(readUserPresets().filter(p => p.name !== name));
+    return listPresets();
+}
@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { InfographicSpec, PipelineStage, ProgressEvent, StageTiming } from '../types';
+import { RetryOptions } from './errors';
+
+export type ProgressListener = (event: ProgressEvent) => void;
+
+export type RetryHook = NonNullable<RetryOptions['onRetry']>;
+
+interface StageInfo {
+    stage: PipelineStage;
+    variant?: number;
+    label: string;
+    model?: string;
+    inputBytes?: number;
+    template?: string;
+}
+
+/**
+ * Optional studio hooks into the analysis stage: watch the spec stream in,
+ * and amend it before the (paid) image stage runs.
+ */
+export interface AnalysisHooks {
+    onAnalysisText?: (text: string) => void;
+    reviewSpec?: (spec: InfographicSpec) => Promise<InfographicSpec>;
+}
+
+/** UTF-8 size of a prompt, plus the decoded size of any base64 payloads sent with it. */
+export const byteLength = (text: string, ...base64Payloads: (string | undefined | null)[]): number =>
+    new TextEncoder().encode(text).length +
+    base64Payloads.reduce((sum, b64) => sum + (b64 ? Math.floor(b64.length * 3 / 4) : 0), 0);
+
+/**
+ * Wraps one pipeline stage so it reports start, end (with elapsed time) and
+ * every retry the stage's network calls make along the way.
+ */
+export async function runStage<T>(
+    onProgress: ProgressListener | undefined,
+    info: StageInfo,
+    task: (onRetry: RetryHook) => Promise<T>,
+    summarize?: (result: T) => { groundingSources?: number; cached?: boolean }
+): Promise<T> {
+    const startedAt = Date.now();
+    onProgress?.({ type: 'stage_start', ...info, at: startedAt });
+    const { stage, variant } = info;
+    const onRetry: RetryHook = (attempt, error, delayMs) =>
+        onProgress?.({ type: 'retry', stage, variant, at: Date.now(), attempt, delayMs, reason: error.message });
+
+    try {
+        const result = await task(onRetry);
+        const now = Date.now();
+        onProgress?.({ type: 'stage_end', stage, variant, at: now, elapsedMs: now - startedAt, ok: true, ...summarize?.(result) });
+        return result;
+    } catch (error) {
+        const now = Date.now();
+        onProgress?.({ type: 'stage_end', stage, variant, at: now, elapsedMs: now - startedAt, ok: false });
+        throw error;
+    }
+}
+
+/** Folds a run's event stream into the per-stage timings stored on history items. */
+export function summarizeTimings(events: ProgressEvent[]): StageTiming[] {
+    const timings: StageTiming[] = [];
+    // Parallel variants interleave their events, so track each open stage separately
+    const open = new Map<string, StageTiming>();
+    const keyOf = (event: ProgressEvent) => `${event.stage}#${event.variant ?? ''}`;
+    events.forEach(event => {
+        if (event.type === 'stage_start') {
+            const timing: StageTiming = { stage: event.stage, variant: event.variant, label: event.label, model: event.model, inputBytes: event.inputBytes, template: event.template, elapsedMs: 0, retries: 0 };
+            open.set(keyOf(event), timing);
+            timings.push(timing);
+            return;
+        }
+        const current = open.get(keyOf(event));
+        if (!current) return;
+        if (event.type === 'retry') current.retries++;
+        else {
+            current.elapsedMs = event.elapsedMs;
+            if (event.groundingSources !== undefined) current.groundingSources = event.groundingSources;
+            if (event.cached) current.cached = true;
+            open.delete(keyOf(event));
+        }
+    });
+    return timings;
+}
@@ -0,0 +1,346 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PromptOverride } from '../types';
+
+/** Variables each template is rendered with. Keys double as template ids. */
+export interface TemplateVariables {
+    'vision.prompt': {};
+    'vision.ocr': {};
+    'vision.chat': { query: string };
+    'metadata': { context: string };
+    'improve': { input: string };
+    'repo.infographic': { repoName: string; styleGuidelines: string; language: string; aspectRatio: string; fileTree: string; brand: string };
+    'academic.analysis': { topic: string; subject: string; language: string; tone: string };
+    'academic.render': { topic: string; subject: string; style: string; language: string; spec: string; brand: string };
+    'article.research': { contentType: string; language: string; url: string };
+    'article.analysis': { contentType: string; language: string; content: string; tone: string };
+    'article.chunk': { contentType: string; language: string; position: string; heading: string; chunk: string };
+    'article.merge': { contentType: string; language: string; pinned: string; summaries: string; tone: string };
+    'article.render': { contentType: string; language: string; style: string; spec: string; brand: string };
+    'refine.spec': { instruction: string; language: string; spec: string; tone: string };
+    'refine.render': { instruction: string; language: string; style: string; spec: string; brand: string };
+}
+
+export type PromptTemplateId = keyof TemplateVariables;
+
+export interface PromptTemplate<Id extends PromptTemplateId = PromptTemplateId> {
+    id: Id;
+    version: number;
+    title: string;
+    /** Variable name -> what the pipeline fills it with. */
+    variables: Record<keyof TemplateVariables[Id], string>;
+    /** Values used by the preview when no real run is at hand. */
+    sample: TemplateVariables[Id];
+    body: string;
+}
+
+const SAMPLE_SPEC = 'Render every label exactly as written below. Do not add, change or invent any numbers or text.\nTITLE: "Sample Title"\nSECTIONS (1, in reading order):\n1. "Context" - "Why this matters." [visual: compass]';
+
+/**
+ * The built-in prompts. Bump `version` whenever a body changes so history
+ * items keep pointing at the wording that produced them.
+ */
+export const DEFAULT_TEMPLATES: { [Id in PromptTemplateId]: PromptTemplate<Id> } = {
+    'vision.prompt': {
+        id: 'vision.prompt',
+        version: 1,
+        title: 'Vision: Reverse-engineer prompt',
+        variables: {},
+        sample: {},
+        body: "Analyze this image and generate a highly detailed, professional text prompt that could be used by an AI image generator to recreate this exact scene. Focus on style, lighting, and composition. AT THE END OF YOUR RESPONSE, provide exactly 3 short improvement suggestions (how to make this image better or different) formatted strictly like this: [SUGGESTION: Add more cinematic lighting], [SUGGESTION: Change to vaporwave style], etc."
+    },
+    'vision.ocr': {
+        id: 'vision.ocr',
+        version: 1,
+        title: 'Vision: Extract text',
+        variables: {},
+        sample: {},
+        body: "Extract all visible text from this image. Maintain the structure where possible. If there is no text, say 'No text detected'. AT THE END, provide 2 suggestions for improving the visual presentation of this text content."
+    },
+    'vision.chat': {
+        id: 'vision.chat',
+        version: 1,
+        title: 'Vision: Ask about image',
+        variables: { query: "The user's question, or a request to describe the image" },
+        sample: { query: 'Describe what you see in this image.' },
+        body: "{{query}} AT THE END, provide 3 short suggestions for how this image could be visually enhanced or modified for better impact, formatted strictly as [SUGGESTION: ...]."
+    },
+    'metadata': {
+        id: 'metadata',
+        version: 1,
+        title: 'SEO metadata extraction',
+        variables: { context: 'What the infographic was generated from' },
+        sample: { context: 'Article: example.com' },
+        body: `Analyze this generated infographic. Context: {{context}}.
+    Extract highly relevant SEO metadata and IPTC tags.
+    Provide a professional title, a detailed 2-3 sentence description, and 10 highly relevant keywords separated by commas.
+    Return ONLY a valid JSON object with keys: title, description, keywords.`
+    },
+    'improve': {
+        id: 'improve',
+        version: 1,
+        title: 'Prompt refinement',
+        variables: { input: 'The raw prompt typed by the user' },
+        sample: { input: 'a cat explaining taxes' },
+        body: 'Refine this image generation prompt into a professional, highly detailed technical description for an infographic. User input: "{{input}}". Return only the refined prompt.'
+    },
+    'repo.infographic': {
+        id: 'repo.infographic',
+        version: 2,
+        title: 'GitFlow: Repository diagram',
+        variables: {
+            repoName: 'Repository name',
+            styleGuidelines: '2D or 3D style direction',
+            language: 'Output language',
+            aspectRatio: 'Requested aspect ratio',
+            fileTree: 'First 150 file paths, comma separated',
+            brand: 'Active brand kit guidelines (palette, typography, forbidden elements); empty when none'
+        },
+        sample: {
+            repoName: 'example-repo',
+            styleGuidelines: '2D Vector Infographic, Modern Data Flow style, clean lines, professional layout.',
+            language: 'English',
+            aspectRatio: '16:9',
+            fileTree: 'src/index.ts, src/app.tsx, server/main.go',
+            brand: 'BRAND GUIDELINES (Acme):\n- Colour palette: use only #0b5fff, #ffb400'
+        },
+        body: `Create a detailed technical data flow diagram infographic for: "{{repoName}}".
+  Style: {{styleGuidelines}}.
+  Language: {{language}}.
+  Aspect Ratio: {{aspectRatio}}.
+  File context: {{fileTree}}...
+  Label "Input -> Processing -> Output" flows. All text must be in {{language}}.
+{{brand}}`
+    },
+    'academic.analysis': {
+        id: 'academic.analysis',
+        version: 2,
+        title: 'EduVision: Concept analysis',
+        variables: { topic: 'Topic to explain', subject: 'Academic subject', language: 'Output language', tone: 'Active brand kit voice and forbidden topics; empty when none' },
+        sample: { topic: 'Photosynthesis', subject: 'Biology', language: 'English', tone: 'Write in this brand voice: confident, plain English' },
+        body: 'Explain the fundamental concept of "{{topic}}" in the field of {{subject}}. Break it down into 4 key visual components for an infographic, returned as sections. ALL CONTENT MUST BE IN {{language}}. Use academic tone.\n{{tone}}'
+    },
+    'academic.render': {
+        id: 'academic.render',
+        version: 2,
+        title: 'EduVision: Render',
+        variables: {
+            topic: 'Topic to explain',
+            subject: 'Academic subject',
+            style: 'Visual style',
+            language: 'Output language',
+            spec: 'The reviewed InfographicSpec, rendered as labelled lines',
+            brand: 'Active brand kit guidelines (palette, typography, forbidden elements); empty when none'
+        },
+        sample: { topic: 'Photosynthesis', subject: 'Biology', style: 'Textbook Illustration', language: 'English', spec: SAMPLE_SPEC, brand: 'BRAND GUIDELINES (Acme):\n- Colour palette: use only #0b5fff, #ffb400' },
+        body: `High-quality academic educational infographic. Topic: {{topic}}. Subject: {{subject}}. Style: {{style}}.
+    ALL LABELS AND TEXT IN THE IMAGE MUST BE IN {{language}}.
+{{spec}}
+    Include cross-sections, structural labels, and professional technical annotations in {{language}}. Cinematic lighting, sharp details, textbook-level accuracy.
+{{brand}}`
+    },
+    'article.research': {
+        id: 'article.research',
+        version: 1,
+        title: 'SiteSketch: Find a page by URL (search grounded)',
+        variables: { contentType: "'article' or 'product'", language: 'Output language', url: 'The URL the page could not be fetched from' },
+        sample: { contentType: 'article', language: 'English', url: 'https://example.com/post' },
+        body: `Use Google Search to find the {{contentType}} published at {{url}} and report what it says, in {{language}}: its title, author and date, then the key points of each section.
+Keep every figure, date and name exactly as published. If the page cannot be found, say so plainly instead of guessing what it contains.`
+    },
+    'article.analysis': {
+        id: 'article.analysis',
+        version: 2,
+        title: 'SiteSketch: Source analysis',
+        variables: { contentType: "'article' or 'product'", language: 'Output language', content: 'The URL, or pasted or fetched text of up to 5000 characters', tone: 'Active brand kit voice and forbidden topics; empty when none' },
+        sample: { contentType: 'article', language: 'English', content: 'https://example.com/post', tone: 'Write in this brand voice: confident, plain English' },
+        body: 'Analyze this {{contentType}} for an infographic ({{language}}).\n{{tone}}\nOnly use figures that appear in the source: {{content}}'
+    },
+    'article.chunk': {
+        id: 'article.chunk',
+        version: 1,
+        title: 'SiteSketch: Section summary (long sources)',
+        variables: {
+            contentType: "'article' or 'product'",
+            language: 'Output language',
+            position: "Which chunk this is, e.g. '3 of 12'",
+            heading: 'Heading of the section the chunk belongs to',
+            chunk: 'Up to 4000 characters of the source'
+        },
+        sample: { contentType: 'article', language: 'English', position: '1 of 3', heading: 'Introduction', chunk: 'The pilot involved 870 staff across 12 departments.' },
+        body: `This is part {{position}} ("{{heading}}") of a longer {{contentType}}. Summarise it in {{language}} as at most 6 short bullet points for an infographic brief.
+Keep every figure, date and name exactly as written. Do not add anything that is not in this part.
+
+{{chunk}}`
+    },
+    'article.merge': {
+        id: 'article.merge',
+        version: 2,
+        title: 'SiteSketch: Merge section summaries',
+        variables: {
+            contentType: "'article' or 'product'",
+            language: 'Output language',
+            pinned: 'Headings the user pinned, as a must-include instruction (empty when none)',
+            summaries: 'Per-section summaries in source order',
+            tone: 'Active brand kit voice and forbidden topics; empty when none'
+        },
+        sample: { contentType: 'article', language: 'English', pinned: 'MUST INCLUDE a section for each of: "Results".', summaries: '[1/2] Introduction\n- 870 staff took part\n\n[2/2] Results\n- Sick days fell 42%', tone: 'Write in this brand voice: confident, plain English' },
+        body: `Below are summaries of consecutive sections of one {{contentType}}. Merge them into a single infographic brief ({{language}}) that reflects the whole source, not just its opening.
+Only use figures that appear in the summaries. {{pinned}}
+{{tone}}
+
+{{summaries}}`
+    },
+    'article.render': {
+        id: 'article.render',
+        version: 2,
+        title: 'SiteSketch: Render',
+        variables: {
+            contentType: "'article' or 'product'",
+            language: 'Output language',
+            style: 'Visual style',
+            spec: 'The reviewed InfographicSpec, rendered as labelled lines',
+            brand: 'Active brand kit guidelines (palette, typography, forbidden elements); empty when none'
+        },
+        sample: { contentType: 'article', language: 'English', style: 'Modern Editorial', spec: SAMPLE_SPEC, brand: 'BRAND GUIDELINES (Acme):\n- Colour palette: use only #0b5fff, #ffb400' },
+        body: `Professional {{contentType}} infographic in {{language}}. Style: {{style}}.
+{{spec}}
+{{brand}}`
+    },
+    'refine.spec': {
+        id: 'refine.spec',
+        version: 2,
+        title: 'Refinement: Update spec',
+        variables: {
+            instruction: "The user's refinement request",
+            language: 'Output language',
+            spec: 'The current InfographicSpec as JSON',
+            tone: 'Active brand kit voice and forbidden topics; empty when none'
+        },
+        sample: { instruction: 'Make the headline shorter', language: 'English', spec: '{"title": "Sample Title", "sections": []}', tone: 'Write in this brand voice: confident, plain English' },
+        body: `Here is the content spec of an existing infographic:
+{{spec}}
+
+Apply this change request and return the complete updated spec: "{{instruction}}".
+Change only what the request asks for and keep everything else exactly as it is. All text must stay in {{language}}. Do not invent figures; a new statistic must come from the request itself.
+{{tone}}`
+    },
+    'refine.render': {
+        id: 'refine.render',
+        version: 2,
+        title: 'Refinement: Re-render from previous image',
+        variables: {
+            instruction: "The user's refinement request",
+            language: 'Output language',
+            style: 'Visual style of the original render',
+            spec: 'The updated InfographicSpec, rendered as labelled lines',
+            brand: 'Active brand kit guidelines (palette, typography, forbidden elements); empty when none'
+        },
+        sample: { instruction: 'Swap to a blue palette', language: 'English', style: 'Modern Editorial', spec: SAMPLE_SPEC, brand: 'BRAND GUIDELINES (Acme):\n- Colour palette: use only #0b5fff, #ffb400' },
+        body: `Revise the attached infographic. Change request: "{{instruction}}".
+Keep the layout, composition and everything the request does not mention as close to the attached image as possible. Style: {{style}}. All text in {{language}}.
+{{spec}}
+{{brand}}`
+    }
+};
+
+export const TEMPLATE_IDS = Object.keys(DEFAULT_TEMPLATES) as PromptTemplateId[];
+
+export const DEFAULT_WORKSPACE = 'default';
+export const WORKSPACE_STORAGE_KEY = 'l2i_workspace';
+export const OVERRIDES_STORAGE_KEY = 'l2i_prompt_overrides';
+
+type OverrideStore = Record<string, Partial<Record<PromptTemplateId, PromptOverride>>>;
+
+const readStore = (): OverrideStore => {
+    try {
+        if (typeof localStorage === 'undefined') return {};
+        return JSON.parse(localStorage.getItem(OVERRIDES_STORAGE_KEY) || '{}');
+    } catch (e) {
+        return {};
+    }
+};
+
+const writeStore = (store: OverrideStore) => {
+    localStorage.setItem(OVERRIDES_STORAGE_KEY, JSON.stringify(store));
+};
+
+export function getActiveWorkspace(): string {
+    try {
+        if (typeof localStorage !== 'undefined') return localStorage.getItem(WORKSPACE_STORAGE_KEY) || DEFAULT_WORKSPACE;
+    } catch (e) { }
+    return DEFAULT_WORKSPACE;
+}
+
+export function setActiveWorkspace(workspace: string) {
+    localStorage.setItem(WORKSPACE_STORAGE_KEY, workspace);
+}
+
+/** Every workspace that has overrides, plus the active and default ones. */
+export function listWorkspaces(): string[] {
+    return Array.from(new Set([DEFAULT_WORKSPACE, getActiveWorkspace(), ...Object.keys(readStore())]));
+}
+
+export function getOverride(id: PromptTemplateId, workspace = getActiveWorkspace()): PromptOverride | undefined {
+    return readStore()[workspace]?.[id];
+}
+
+/** Saves a new revision of a workspace's override; revisions only ever go up. */
+export function saveOverride(id: PromptTemplateId, body: string, workspace = getActiveWorkspace()): PromptOverride {
+    const store = readStore();
+    const previous = store[workspace]?.[id];
+    const override: PromptOverride = {
+        body,
+        baseVersion: DEFAULT_TEMPLATES[id].version,
+        revision: (previous?.revision || 0) + 1,
+        updatedAt: new Date().toISOString()
+    };
+    store[workspace] = { ...store[workspace], [id]: override };
+    writeStore(store);
+    return override;
+}
+
+export function resetOverride(id: PromptTemplateId, workspace = getActiveWorkspace()) {
+    const store = readStore();
+    if (!store[workspace]?.[id]) return;
+    delete store[workspace][id];
+    writeStore(store);
+}
+
+/** 'article.render@v1' for a built-in, 'article.render@v1+acme.3' for revision 3 of an override. */
+export const formatTemplateVersion = (id: PromptTemplateId, override?: PromptOverride, workspace = getActiveWorkspace()) =>
+    override
+        ? `${id}@v${override.baseVersion}+${workspace}.${override.revision}`
+        : `${id}@v${DEFAULT_TEMPLATES[id].version}`;
+
+const PLACEHOLDER = /\{\{\s*(\w+)\s*\}\}/g;
+
+/** Placeholders in `body` that the template does not declare, e.g. after a typo in an override. */
+export function unknownVariables(id: PromptTemplateId, body: string): string[] {
+    const known = Object.keys(DEFAULT_TEMPLATES[id].variables);
+    const found = Array.from(body.matchAll(PLACEHOLDER), m => m[1]);
+    return Array.from(new Set(found.filter(name => !known.includes(name))));
+}
+
+export const fillTemplate = (body: string, vars: Record<string, string>): string =>
+    body.replace(PLACEHOLDER, (match, name: string) => name in vars ? vars[name] : match);
+
+export interface RenderedPrompt {
+    prompt: string;
+    version: string;
+}
+
+/** Renders the active workspace's version of a template. */
+export function renderPrompt<Id extends PromptTemplateId>(id: Id, vars: TemplateVariables[Id]): RenderedPrompt {
+    const workspace = getActiveWorkspace();
+    const override = getOverride(id, workspace);
+    const body = override?.body ?? DEFAULT_TEMPLATES[id].body;
+    // Optional slots such as {{brand}} render empty, so drop the blank lines they leave at the ends
+    return {
+        prompt: fillTemplate(body, vars as Record<string, string>).trim(),
+        version: formatTemplateVersion(id, override, workspace)
+    };
+}
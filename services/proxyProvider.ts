@@ -0,0 +1,119 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import {
+    GenerationProvider,
+    ImageEditRequest,
+    ImageRequest,
+    RequestOptions,
+    StreamTextRequest,
+    TextRequest,
+    TextResult,
+    VisionRequest
+} from './generationProvider';
+import { ErrorPayload, ServiceError, classifyProxyError, classifyProxyResponse, fromErrorPayload, withRetry } from './errors';
+
+export const PROXY_ENDPOINT = '/api/generate';
+
+// Requests cross the wire without their signal and hooks
+type Wire<T> = Omit<T, keyof RequestOptions | 'onText'>;
+
+/** Body of a POST to /api/generate. */
+export type ProxyRequest =
+    | { task: 'text'; request: Wire<TextRequest> }
+    | { task: 'stream'; request: Wire<StreamTextRequest> }
+    | { task: 'image'; request: Wire<ImageRequest> }
+    | { task: 'edit'; request: Wire<ImageEditRequest> }
+    | { task: 'vision'; request: Wire<VisionRequest> };
+
+export type ProxyTask = ProxyRequest['task'];
+
+/**
+ * One line of the NDJSON the route answers with. `text` events carry the
+ * streamed text as deltas; `reset` starts it over after a server-side retry.
+ */
+export type ProxyEvent =
+    | { type: 'text'; delta: string; reset?: boolean }
+    | { type: 'retry'; attempt: number; delayMs: number; error: ErrorPayload }
+    | { type: 'result'; result: unknown }
+    | { type: 'error'; error: ErrorPayload };
+
+async function* readEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ProxyEvent> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    while (true) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop()!;
+        for (const line of lines) if (line.trim()) yield JSON.parse(line);
+        if (done) return;
+    }
+}
+
+function callProxy<T>(body: ProxyRequest, { signal, onRetry }: RequestOptions, onText?: (text: string) => void): Promise<T> {
+    // The server already retries Gemini itself, so only a dropped connection to it is retried here
+    return withRetry(async () => {
+        const response = await fetch(PROXY_ENDPOINT, {
+            method: 'POST',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(body),
+            signal
+        });
+        if (!response.ok || !response.body) {
+            const payload = await response.json().catch(() => undefined);
+            throw classifyProxyResponse(response, payload?.error);
+        }
+
+        // A retried stream starts again from '', as with the Gemini provider
+        let text = '';
+        onText?.(text);
+        for await (const event of readEvents(response.body)) {
+            switch (event.type) {
+                case 'text':
+                    text = event.reset ? event.delta : text + event.delta;
+                    onText?.(text);
+                    break;
+                case 'retry':
+                    onRetry?.(event.attempt, fromErrorPayload(event.error), event.delayMs);
+                    break;
+                case 'error':
+                    throw fromErrorPayload(event.error);
+                case 'result':
+                    return event.result as T;
+            }
+        }
+        throw new ServiceError('network', 'The generation server closed the connection early.', { source: 'gemini' });
+    }, classifyProxyError, { signal, onRetry, retries: 1 });
+}
+
+/**
+ * Calls Gemini through the app's own /api/generate route, which holds the
+ * API key on the server. Requests and results match the Gemini provider's.
+ */
+export const proxyProvider: GenerationProvider = {
+    id: 'proxy',
+
+    generateText({ signal, onRetry, ...request }: TextRequest) {
+        return callProxy<TextResult>({ task: 'text', request }, { signal, onRetry });
+    },
+
+    streamText({ signal, onRetry, onText, ...request }: StreamTextRequest) {
+        return callProxy<TextResult>({ task: 'stream', request }, { signal, onRetry }, onText);
+    },
+
+    generateImage({ signal, onRetry, ...request }: ImageRequest) {
+        return callProxy<string | null>({ task: 'image', request }, { signal, onRetry });
+    },
+
+    editImage({ signal, onRetry, ...request }: ImageEditRequest) {
+        return callProxy<string | null>({ task: 'edit', request }, { signal, onRetry });
+    },
+
+    analyzeImage({ signal, onRetry, ...request }: VisionRequest) {
+        return callProxy<string>({ task: 'vision', request }, { signal, onRetry });
+    }
+};
@@ -0,0 +1,240 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { RepoFileTree } from '../types';
+import { RepoSource, ServiceError, classifyRepoError, classifyRepoResponse, withRetry } from './errors';
+import { RetryHook } from './progress';
+import { mapSettled } from './concurrency';
+
+export type RepoHostKind = RepoSource;
+
+export const REPO_HOST_KINDS: { id: RepoHostKind; label: string }[] = [
+  { id: 'github', label: 'GitHub / GitHub Enterprise' },
+  { id: 'gitlab', label: 'GitLab' },
+  { id: 'bitbucket', label: 'Bitbucket Cloud' },
+  { id: 'gitea', label: 'Gitea / Forgejo' }
+];
+
+export interface RepoHost {
+  kind: RepoHostKind;
+  name: string;
+  /** Where repositories are browsed, e.g. https://gitlab.example.com; also identifies the host. */
+  webUrl: string;
+  apiUrl: string;
+}
+
+/** A repository on a host. GitLab owners may be nested groups (`group/subgroup`). */
+export interface RepoCoordinates {
+  host: RepoHost;
+  owner: string;
+  repo: string;
+}
+
+export interface RepoMetadata {
+  defaultBranch: string;
+  description?: string;
+  isPrivate: boolean;
+  webUrl: string;
+}
+
+export interface RepoListing {
+  /** Files and directories, with paths from the repository root. */
+  entries: RepoFileTree[];
+  /** False when the listing was cut short, by the host or by the walk budget. */
+  complete: boolean;
+}
+
+export interface RepoRequestOptions {
+  signal?: AbortSignal;
+  onRetry?: RetryHook;
+}
+
+/**
+ * What the repository pipeline needs from a code host. repoService picks
+ * the provider for whichever host a repository input names.
+ */
+export interface RepoProvider {
+  readonly kind: RepoHostKind;
+  /** Reads the path of a repository web URL on this host, e.g. `o/r/tree/v2/dir`; null when it names no repository. */
+  parseWebPath(segments: string[]): { owner: string; repo: string; refPath?: string } | null;
+  getMetadata(repo: RepoCoordinates, options?: RepoRequestOptions): Promise<RepoMetadata>;
+  /** The commit a branch, tag or SHA points at, or null when the host has no such ref. */
+  resolveRef(repo: RepoCoordinates, ref: string, options?: RepoRequestOptions): Promise<string | null>;
+  /** Every file and directory at `commitSha`. With a `scope`, entries outside it may be left out. */
+  listTree(repo: RepoCoordinates, commitSha: string, scope: string, options?: RepoRequestOptions): Promise<RepoListing>;
+  readFile(repo: RepoCoordinates, commitSha: string, path: string, options?: RepoRequestOptions): Promise<string>;
+}
+
+// --- Hosts -----------------------------------------------------------------
+
+export const REPO_HOSTS_STORAGE_KEY = 'l2i_repo_hosts';
+export const REPO_TOKENS_STORAGE_KEY = 'l2i_repo_tokens';
+export const GITHUB_TOKEN_STORAGE_KEY = 'l2i_github_token';
+
+export const DEFAULT_REPO_HOSTS: RepoHost[] = [
+  { kind: 'github', name: 'GitHub', webUrl: 'https://github.com', apiUrl: 'https://api.github.com' },
+  { kind: 'gitlab', name: 'GitLab', webUrl: 'https://gitlab.com', apiUrl: 'https://gitlab.com/api/v4' },
+  { kind: 'bitbucket', name: 'Bitbucket', webUrl: 'https://bitbucket.org', apiUrl: 'https://api.bitbucket.org/2.0' },
+  { kind: 'gitea', name: 'Codeberg', webUrl: 'https://codeberg.org', apiUrl: 'https://codeberg.org/api/v1' }
+];
+
+// Where each product serves its REST API on a self-hosted instance
+const API_PATHS: Record<RepoHostKind, string> = {
+  github: '/api/v3',
+  gitlab: '/api/v4',
+  bitbucket: '/!api/2.0',
+  gitea: '/api/v1'
+};
+
+/** A self-hosted instance at `webUrl`; the API root defaults to where the product serves it. Null for a bad URL. */
+export function createRepoHost(kind: RepoHostKind, webUrl: string, apiUrl?: string): RepoHost | null {
+  try {
+    const web = new URL(webUrl.trim());
+    if (web.protocol !== 'https:' && web.protocol !== 'http:') return null;
+    const base = `${web.origin}${web.pathname}`.replace(/\/+$/, '');
+    const api = apiUrl?.trim() ? new URL(apiUrl.trim()).href.replace(/\/+$/, '') : base + API_PATHS[kind];
+    return { kind, name: web.host, webUrl: base, apiUrl: api };
+  } catch (e) {
+    return null;
+  }
+}
+
+// Node entry points have no localStorage; they pass their hosts and tokens in once
+let hostsOverride: RepoHost[] | null = null;
+let tokensOverride: Partial<Record<RepoHostKind, string>> | null = null;
+
+/** Sets self-hosted instances and one token per kind of host, e.g. from GITLAB_TOKEN under the CLI. */
+export function configureRepoAccess(hosts: RepoHost[], tokens: Partial<Record<RepoHostKind, string>>) {
+  hostsOverride = hosts;
+  tokensOverride = tokens;
+}
+
+function readStorage<T>(key: string, fallback: T): T {
+  try {
+    if (typeof localStorage === 'undefined') return fallback;
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : fallback;
+  } catch (e) {
+    return fallback;
+  }
+}
+
+/** Self-hosted instances the user added. */
+export const loadCustomRepoHosts = (): RepoHost[] => hostsOverride || readStorage<RepoHost[]>(REPO_HOSTS_STORAGE_KEY, []);
+
+export function saveCustomRepoHosts(hosts: RepoHost[]) {
+  localStorage.setItem(REPO_HOSTS_STORAGE_KEY, JSON.stringify(hosts));
+}
+
+/** Every host repository inputs are matched against; github.com first, as the default for `owner/repo`. */
+export const loadRepoHosts = (): RepoHost[] => [...DEFAULT_REPO_HOSTS, ...loadCustomRepoHosts()];
+
+// --- Tokens ----------------------------------------------------------------
+
+/** The token calls to `host` are made with, if any. github.com keeps the key it has always used. */
+export function loadRepoToken(host: RepoHost): string | null {
+  if (tokensOverride) return tokensOverride[host.kind] || null;
+  try {
+    if (typeof localStorage === 'undefined') return null;
+    if (host.webUrl === DEFAULT_REPO_HOSTS[0].webUrl) return localStorage.getItem(GITHUB_TOKEN_STORAGE_KEY);
+    return readStorage<Record<string, string>>(REPO_TOKENS_STORAGE_KEY, {})[host.webUrl] || null;
+  } catch (e) {
+    return null;
+  }
+}
+
+export function saveRepoToken(host: RepoHost, token: string | null) {
+  if (host.webUrl === DEFAULT_REPO_HOSTS[0].webUrl) {
+    if (token) localStorage.setItem(GITHUB_TOKEN_STORAGE_KEY, token);
+    else localStorage.removeItem(GITHUB_TOKEN_STORAGE_KEY);
+    return;
+  }
+  const { [host.webUrl]: _, ...tokens } = readStorage<Record<string, string>>(REPO_TOKENS_STORAGE_KEY, {});
+  localStorage.setItem(REPO_TOKENS_STORAGE_KEY, JSON.stringify(token ? { ...tokens, [host.webUrl]: token } : tokens));
+}
+
+const AUTH_HEADERS: Record<RepoHostKind, (token: string) => Record<string, string>> = {
+  github: token => ({ Authorization: `Bearer ${token}` }),
+  gitlab: token => ({ 'PRIVATE-TOKEN': token }),
+  // App passwords are sent as `user:password`; access tokens as bearer tokens
+  bitbucket: token => ({ Authorization: token.includes(':') ? `Basic ${btoa(token)}` : `Bearer ${token}` }),
+  gitea: token => ({ Authorization: `token ${token}` })
+};
+
+// --- Requests --------------------------------------------------------------
+
+export const repoError = (host: RepoHost, response: Response) => classifyRepoResponse(response, host.kind, host.name);
+
+/**
+ * GETs `url` on `host` with its token. Server errors and dropped connections
+ * are retried, and a rejected token is reported as such; any other status is
+ * left to the caller.
+ */
+export function repoFetch(host: RepoHost, url: string, { signal, onRetry }: RepoRequestOptions = {}, headers: Record<string, string> = {}): Promise<Response> {
+  const token = loadRepoToken(host);
+  const allHeaders = token ? { ...headers, ...AUTH_HEADERS[host.kind](token) } : headers;
+  return withRetry(async () => {
+    const res = await fetch(url, { signal, headers: allHeaders });
+    if (res.status >= 500) throw repoError(host, res);
+    if (res.status === 401 && token) {
+      throw new ServiceError('auth', `${host.name} rejected the token. Check that it has not expired or been revoked.`, { source: host.kind });
+    }
+    return res;
+  }, err => classifyRepoError(err, host.kind, host.name), { signal, onRetry });
+}
+
+/** `response` as JSON when it is OK; otherwise throws it classified. */
+export async function repoJson<T = any>(host: RepoHost, response: Response): Promise<T> {
+  if (!response.ok) throw repoError(host, response);
+  return response.json();
+}
+
+/** Each path segment encoded, the slashes kept. */
+export const encodePath = (path: string) => path.split('/').map(encodeURIComponent).join('/');
+
+// --- Directory walks -------------------------------------------------------
+
+export const inSubdirectory = (path: string) => (item: RepoFileTree) => !path || item.path === path || item.path.startsWith(`${path}/`);
+
+// Directories never worth opening one call at a time
+const isSkippedDirectory = (path: string) => /(^|\/)(node_modules|dist|build)$/.test(path) || path.startsWith('.');
+
+// Paginated listings stop after this many pages and report themselves incomplete
+export const MAX_LIST_PAGES = 100;
+
+const WALK_CONCURRENCY = 4;
+// Each directory costs at least one call, so a huge monorepo stops here rather than draining the rate limit
+const MAX_WALK_DIRECTORIES = 400;
+
+/**
+ * Lists a tree one directory at a time, a page of directories per round,
+ * for hosts (or repositories) with no usable recursive listing. Only
+ * directories inside `scope`, or on the way to it, are opened.
+ */
+export async function walkDirectories<D extends { path: string }>(
+  root: D,
+  scope: string,
+  listDirectory: (directory: D) => Promise<{ files: RepoFileTree[]; directories: D[] }>
+): Promise<RepoListing> {
+  const entries: RepoFileTree[] = [];
+  let pending = [root];
+  let walked = 0;
+  while (pending.length && walked < MAX_WALK_DIRECTORIES) {
+    const page = pending.slice(0, Math.min(WALK_CONCURRENCY * 5, MAX_WALK_DIRECTORIES - walked));
+    pending = pending.slice(page.length);
+    walked += page.length;
+    const results = await mapSettled(page, WALK_CONCURRENCY, listDirectory);
+    for (const result of results) {
+      if (result.status === 'rejected') throw result.reason;
+      entries.push(...result.value.files);
+      for (const directory of result.value.directories) {
+        entries.push({ path: directory.path, type: 'tree' });
+        const wanted = inSubdirectory(scope)({ path: directory.path, type: 'tree' }) || scope.startsWith(`${directory.path}/`);
+        if (wanted && !isSkippedDirectory(directory.path)) pending.push(directory);
+      }
+    }
+  }
+  return { entries, complete: pending.length === 0 };
+}
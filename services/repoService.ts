@@ -0,0 +1,153 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { RepoFileTree, RepoSnapshot } from '../types';
+import { isOfflineMode } from './geminiService';
+import { FIXTURE_REPO_COMMIT, FIXTURE_REPO_TREE } from './fixtureProvider';
+import { ServiceError } from './errors';
+import { ProgressListener, runStage } from './progress';
+import { RepoCoordinates, RepoHost, RepoHostKind, RepoProvider, RepoRequestOptions, inSubdirectory, loadRepoHosts, loadRepoToken } from './repoProvider';
+import { githubProvider } from './githubProvider';
+import { gitlabProvider } from './gitlabProvider';
+import { bitbucketProvider } from './bitbucketProvider';
+import { giteaProvider } from './giteaProvider';
+
+const PROVIDERS: Record<RepoHostKind, RepoProvider> = {
+  github: githubProvider,
+  gitlab: gitlabProvider,
+  bitbucket: bitbucketProvider,
+  gitea: giteaProvider
+};
+
+export const repoProviderFor = (host: RepoHost): RepoProvider => PROVIDERS[host.kind];
+
+/**
+ * A parsed repository input. Branch names may contain slashes, so a ref and
+ * subdirectory written as one path (`/tree/release/v2/packages/core`) stay
+ * joined in `refPath` until the ref is resolved against the host.
+ */
+export interface RepoTarget extends RepoCoordinates {
+  refPath?: string;
+}
+
+// The host whose web address `url` is under, longest match first for instances served from a subpath
+const hostForUrl = (url: URL, hosts: RepoHost[]) =>
+  hosts
+    .filter(host => {
+      const base = new URL(host.webUrl);
+      const hostname = url.hostname.replace(/^www\./, '');
+      return hostname === base.hostname && (url.pathname === base.pathname || url.pathname.startsWith(base.pathname.replace(/\/?$/, '/')));
+    })
+    .sort((a, b) => b.webUrl.length - a.webUrl.length)[0];
+
+function parseRepoUrl(url: URL, hosts: RepoHost[]): RepoTarget | null {
+  const host = hostForUrl(url, hosts);
+  if (!host) return null;
+  const segments = url.pathname.slice(new URL(host.webUrl).pathname.replace(/\/$/, '').length).split('/').filter(Boolean).map(decodeURIComponent);
+  const parsed = repoProviderFor(host).parseWebPath(segments);
+  return parsed && { host, ...parsed };
+}
+
+/**
+ * Reads `owner/repo`, `owner/repo@ref` or `owner/repo@ref/sub/dir` (on
+ * GitHub), the same after a host name (`gitlab.com/group/project@v2`), or a
+ * repository URL on any configured host, including links to a branch, tag,
+ * commit or directory; null for anything else.
+ */
+export function parseRepoInput(input: string, hosts: RepoHost[] = loadRepoHosts()): RepoTarget | null {
+  const cleanInput = input.trim().replace(/\/$/, '');
+  try {
+    return parseRepoUrl(new URL(cleanInput), hosts);
+  } catch (e) { }
+
+  const [location, refPath] = cleanInput.split(/@(.*)/s);
+  // A host name in front of the path, without the scheme
+  if (/^[\w-]+(\.[\w-]+)+(:\d+)?\//.test(location)) {
+    try {
+      const target = parseRepoUrl(new URL(`https://${location}`), hosts);
+      if (target) return refPath && !target.refPath ? { ...target, refPath } : target;
+    } catch (e) { }
+  }
+  // Owners never contain a dot, so `medium.com/my-post` is left to be read as an article URL
+  const match = location.match(/^([\w-]+)\/([\w.-]+)$/);
+  if (!match) return null;
+  const target = { host: hosts[0], owner: match[1], repo: match[2] };
+  return refPath ? { ...target, refPath } : target;
+}
+
+export async function fetchRepoFileTree(target: RepoTarget, signal?: AbortSignal, onProgress?: ProgressListener): Promise<RepoSnapshot> {
+  return runStage(onProgress, { stage: 'fetch_tree', label: `CONNECTING TO ${target.host.name.toUpperCase()}` }, onRetry => fetchTree(target, { signal, onRetry }));
+}
+
+/** A file's text at a resolved commit. */
+export async function readRepoFile(target: RepoTarget, commitSha: string, path: string, signal?: AbortSignal): Promise<string> {
+  // The offline fixture is a tree without contents
+  if (isOfflineMode()) throw new ServiceError('network', `Offline mode does not read ${path} from ${target.host.name}.`, { source: target.host.kind });
+  return repoProviderFor(target.host).readFile(target, commitSha, path, { signal });
+}
+
+async function fetchDefaultBranch(target: RepoTarget, options: RepoRequestOptions): Promise<string> {
+  try {
+    return (await repoProviderFor(target.host).getMetadata(target, options)).defaultBranch;
+  } catch (error) {
+    if (!(error instanceof ServiceError) || error.kind !== 'not_found') throw error;
+    const { host, owner, repo } = target;
+    const hint = loadRepoToken(host) ? 'The token might not have access to it, or the name is misspelled.' : `It might be private (add a ${host.name} token) or misspelled.`;
+    throw new ServiceError('not_found', `Repository ${owner}/${repo} was not found on ${host.name}. ${hint}`, { source: host.kind });
+  }
+}
+
+/**
+ * Splits `refPath` into a ref and a subdirectory by trying the shortest
+ * prefix first: `v2/packages/core` is tried as `v2`, then `v2/packages`,
+ * and so on.
+ */
+async function resolveRefPath(target: RepoTarget, refPath: string, options: RepoRequestOptions) {
+  const segments = refPath.split('/').filter(Boolean);
+  for (let i = 1; i <= segments.length; i++) {
+    const ref = segments.slice(0, i).join('/');
+    const commitSha = await repoProviderFor(target.host).resolveRef(target, ref, options);
+    if (commitSha) return { ref, commitSha, path: segments.slice(i).join('/') };
+  }
+  // Tell a missing repository apart from a missing ref
+  await fetchDefaultBranch(target, options);
+  throw new ServiceError('not_found', `No branch, tag or commit "${segments[0]}" in ${target.owner}/${target.repo}.`, { source: target.host.kind });
+}
+
+/** Relevant code and config files, to reduce noise for the AI. */
+export const isRelevantFile = (item: RepoFileTree) =>
+  item.type === 'blob' &&
+  /\.(js|jsx|ts|tsx|py|go|rs|java|c|cpp|h|hpp|cs|php|rb|swift|kt|dart|json|yaml|yml|toml|xml|html|css)$/i.test(item.path) &&
+  !item.path.includes('node_modules') &&
+  !item.path.includes('dist/') &&
+  !item.path.includes('build/') &&
+  !item.path.startsWith('.');
+
+async function fetchTree(target: RepoTarget, options: RepoRequestOptions): Promise<RepoSnapshot> {
+  // Offline fixture mode never touches the network
+  if (isOfflineMode()) {
+    const [ref = 'main', ...path] = (target.refPath || '').split('/').filter(Boolean);
+    const subdirectory = path.join('/');
+    return { ref, commitSha: FIXTURE_REPO_COMMIT, path: subdirectory, files: FIXTURE_REPO_TREE.filter(inSubdirectory(subdirectory)) };
+  }
+
+  let resolved: { ref: string; commitSha: string; path: string };
+  if (target.refPath) {
+    resolved = await resolveRefPath(target, target.refPath, options);
+  } else {
+    const ref = await fetchDefaultBranch(target, options);
+    const commitSha = await repoProviderFor(target.host).resolveRef(target, ref, options);
+    if (!commitSha) throw new ServiceError('not_found', `${target.owner}/${target.repo} has no commits on ${ref}.`, { source: target.host.kind });
+    resolved = { ref, commitSha, path: '' };
+  }
+
+  // Trees are read at the commit, so every file comes from the same snapshot
+  const { entries, complete } = await repoProviderFor(target.host).listTree(target, resolved.commitSha, resolved.path, options);
+
+  const files = entries.filter(isRelevantFile).filter(inSubdirectory(resolved.path));
+  if (resolved.path && !entries.some(inSubdirectory(resolved.path))) {
+    throw new ServiceError('not_found', `${resolved.path} does not exist at ${resolved.ref}.`, { source: target.host.kind });
+  }
+  return { ...resolved, files, ...(complete ? {} : { truncated: true }) };
+}
@@ -0,0 +1,225 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Text answers (analysis, chunk summaries with their grounding citations, image metadata) are
+// cached by a hash of model, template version and the rendered prompt, which carries the input.
+// Renders are never cached: asking again for an image is usually asking for a different one.
+
+import { createIndexedDbStore } from './indexedDb';
+
+export type CacheKind = 'analysis' | 'summary' | 'metadata';
+
+export const CACHE_KINDS: CacheKind[] = ['analysis', 'summary', 'metadata'];
+
+export interface CacheEntry {
+    key: string;
+    kind: CacheKind;
+    value: unknown;
+    /** Serialised size, counted against the size cap. */
+    bytes: number;
+    createdAt: number;
+    lastUsedAt: number;
+    /** How long the original call took; credited as time saved on every hit. */
+    elapsedMs: number;
+    /** Rough token count of the original prompt and answer (4 characters a token). */
+    tokens: number;
+}
+
+/** Where entries live: IndexedDB in the browser, a directory for the CLI and server. */
+export interface CacheStore {
+    get(key: string): Promise<CacheEntry | undefined>;
+    put(entry: CacheEntry): Promise<void>;
+    list(): Promise<CacheEntry[]>;
+    delete(keys: string[]): Promise<void>;
+    clear(): Promise<void>;
+}
+
+export interface CacheSettings {
+    /** Off bypasses the cache entirely: nothing is read or written. */
+    enabled: boolean;
+    ttlHours: number;
+    maxMegabytes: number;
+}
+
+export interface CacheStats {
+    hits: number;
+    misses: number;
+    savedMs: number;
+    savedTokens: number;
+    byKind: Partial<Record<CacheKind, { hits: number; misses: number }>>;
+    since: string;
+}
+
+export const CACHE_SETTINGS_STORAGE_KEY = 'l2i_cache_settings';
+export const CACHE_STATS_STORAGE_KEY = 'l2i_cache_stats';
+
+export const DEFAULT_CACHE_SETTINGS: CacheSettings = { enabled: true, ttlHours: 24 * 7, maxMegabytes: 50 };
+
+const HOUR_MS = 60 * 60 * 1000;
+// Pruning lists every entry, so it runs every few writes rather than on each one
+const PRUNE_EVERY = 20;
+
+const emptyStats = (): CacheStats => ({ hits: 0, misses: 0, savedMs: 0, savedTokens: 0, byKind: {}, since: new Date().toISOString() });
+
+// --- IndexedDB store -------------------------------------------------------
+
+const DB_NAME = 'l2i_cache';
+const STORE = 'entries';
+
+const withStore = createIndexedDbStore(DB_NAME, STORE, 'key');
+
+export const indexedDbCacheStore: CacheStore = {
+    get: key => withStore<CacheEntry>('readonly', store => store.get(key)),
+    put: async entry => {
+        await withStore('readwrite', store => store.put(entry));
+    },
+    list: async () => (await withStore<CacheEntry[]>('readonly', store => store.getAll())) || [],
+    delete: async keys => {
+        await withStore('readwrite', store => keys.forEach(key => store.delete(key)));
+    },
+    clear: async () => {
+        await withStore('readwrite', store => store.clear());
+    }
+};
+
+// --- Configuration ---------------------------------------------------------
+
+let activeStore: CacheStore | null = typeof indexedDB !== 'undefined' ? indexedDbCacheStore : null;
+// Node entry points have no localStorage; they configure settings once and keep stats in memory
+let settingsOverride: CacheSettings | null = null;
+let memoryStats = emptyStats();
+let writes = 0;
+
+/** Swaps the store and settings, e.g. for the filesystem store under the CLI and server. */
+export function configureResponseCache(store: CacheStore | null, settings?: Partial<CacheSettings>) {
+    activeStore = store;
+    if (settings) settingsOverride = { ...DEFAULT_CACHE_SETTINGS, ...settings };
+}
+
+export function loadCacheSettings(): CacheSettings {
+    if (settingsOverride) return settingsOverride;
+    try {
+        if (typeof localStorage === 'undefined') return DEFAULT_CACHE_SETTINGS;
+        return { ...DEFAULT_CACHE_SETTINGS, ...JSON.parse(localStorage.getItem(CACHE_SETTINGS_STORAGE_KEY) || '{}') };
+    } catch (e) {
+        return DEFAULT_CACHE_SETTINGS;
+    }
+}
+
+export function saveCacheSettings(settings: CacheSettings) {
+    localStorage.setItem(CACHE_SETTINGS_STORAGE_KEY, JSON.stringify(settings));
+}
+
+export function loadCacheStats(): CacheStats {
+    try {
+        if (typeof localStorage === 'undefined') return memoryStats;
+        return { ...emptyStats(), ...JSON.parse(localStorage.getItem(CACHE_STATS_STORAGE_KEY) || '{}') };
+    } catch (e) {
+        return emptyStats();
+    }
+}
+
+function saveCacheStats(stats: CacheStats) {
+    if (typeof localStorage === 'undefined') memoryStats = stats;
+    else localStorage.setItem(CACHE_STATS_STORAGE_KEY, JSON.stringify(stats));
+}
+
+export const resetCacheStats = () => saveCacheStats(emptyStats());
+
+function record(kind: CacheKind, hit?: CacheEntry) {
+    const stats = loadCacheStats();
+    const counts = stats.byKind[kind] || { hits: 0, misses: 0 };
+    if (hit) {
+        stats.hits++;
+        stats.savedMs += hit.elapsedMs;
+        stats.savedTokens += hit.tokens;
+        counts.hits++;
+    } else {
+        stats.misses++;
+        counts.misses++;
+    }
+    saveCacheStats({ ...stats, byKind: { ...stats.byKind, [kind]: counts } });
+}
+
+// --- Lookups ---------------------------------------------------------------
+
+/**
+ * SHA-256 hex of `text`; also shortens large key parts such as images. Null
+ * where Web Crypto is missing, as on pages served over plain http:// from
+ * another machine (e.g. the dev server opened over the LAN); callers then
+ * skip the cache rather than fail.
+ */
+export async function contentHash(text: string): Promise<string | null> {
+    const subtle = globalThis.crypto?.subtle;
+    if (!subtle) return null;
+    try {
+        const digest = await subtle.digest('SHA-256', new TextEncoder().encode(text));
+        return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+    } catch (e) {
+        return null;
+    }
+}
+
+const isFresh = (entry: CacheEntry, settings: CacheSettings, now = Date.now()) => now - entry.createdAt < settings.ttlHours * HOUR_MS;
+
+/** Drops expired entries, then the least recently used until the cache fits its cap. */
+export async function pruneCache(settings: CacheSettings = loadCacheSettings()) {
+    if (!activeStore) return;
+    const entries = await activeStore.list();
+    const now = Date.now();
+    const expired = entries.filter(entry => !isFresh(entry, settings, now));
+    const live = entries.filter(entry => isFresh(entry, settings, now)).sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+    let total = 0;
+    const evicted = live.filter(entry => (total += entry.bytes) > settings.maxMegabytes * 1024 * 1024);
+    const stale = [...expired, ...evicted].map(entry => entry.key);
+    if (stale.length) await activeStore.delete(stale);
+}
+
+/** Entry counts and sizes per kind, for the cache view. */
+export async function describeCache(): Promise<{ entries: number; bytes: number; byKind: Partial<Record<CacheKind, { entries: number; bytes: number }>> }> {
+    const entries = activeStore ? await activeStore.list() : [];
+    const byKind: Partial<Record<CacheKind, { entries: number; bytes: number }>> = {};
+    entries.forEach(entry => {
+        const summary = byKind[entry.kind] || { entries: 0, bytes: 0 };
+        byKind[entry.kind] = { entries: summary.entries + 1, bytes: summary.bytes + entry.bytes };
+    });
+    return { entries: entries.length, bytes: entries.reduce((sum, entry) => sum + entry.bytes, 0), byKind };
+}
+
+export async function clearCache() {
+    await activeStore?.clear();
+}
+
+/**
+ * Answers from the cache when an entry for `parts` is fresh; otherwise runs
+ * `compute` and stores its result. Failures are never cached, and a broken
+ * store only costs the lookup, never the call.
+ */
+export async function cached<T>(kind: CacheKind, parts: unknown[], compute: () => Promise<T>): Promise<{ value: T; hit: boolean }> {
+    const settings = loadCacheSettings();
+    const store = activeStore;
+    if (!settings.enabled || !store) return { value: await compute(), hit: false };
+
+    const serialized = JSON.stringify([kind, ...parts]);
+    const key = await contentHash(serialized);
+    // Hashing must never cost the call itself
+    if (!key) return { value: await compute(), hit: false };
+    const entry = await store.get(key).catch(() => undefined);
+    if (entry && isFresh(entry, settings)) {
+        record(kind, entry);
+        store.put({ ...entry, lastUsedAt: Date.now() }).catch(() => { });
+        return { value: entry.value as T, hit: true };
+    }
+
+    record(kind);
+    const startedAt = Date.now();
+    const value = await compute();
+    const json = JSON.stringify(value);
+    const now = Date.now();
+    store.put({ key, kind, value, bytes: json.length, createdAt: now, lastUsedAt: now, elapsedMs: now - startedAt, tokens: Math.round((serialized.length + json.length) / 4) })
+        .then(() => ++writes % PRUNE_EVERY === 0 ? pruneCache(settings) : undefined)
+        .catch(err => console.warn("Response cache write failed:", err));
+    return { value, hit: false };
+}
@@ -0,0 +1,24 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { InfographicRevision, InfographicSpec } from '../types';
+
+/**
+ * Every version of a result. Items are only given a revision list once they
+ * are first refined, so until then the original image stands in as version 1.
+ */
+export function versionsOf(imageData: string, spec: InfographicSpec | null | undefined, revisions?: InfographicRevision[], createdAt?: Date): InfographicRevision[] {
+    if (revisions?.length) return revisions;
+    return [{ version: 1, imageData, spec: spec ?? undefined, createdAt: (createdAt ?? new Date()).toISOString() }];
+}
+
+/** Appends the next numbered version; numbers are never reused, even after a revert. */
+export function appendRevision(versions: InfographicRevision[], imageData: string, spec: InfographicSpec, instruction: string, basedOn: number): InfographicRevision[] {
+    const version = Math.max(0, ...versions.map(v => v.version)) + 1;
+    return [...versions, { version, imageData, spec, instruction, basedOn, createdAt: new Date().toISOString() }];
+}
+
+export const findVersion = (versions: InfographicRevision[], version: number): InfographicRevision | undefined =>
+    versions.find(v => v.version === version);
@@ -0,0 +1,136 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { InfographicSpec, QualityIssue, QualityReport } from '../types';
+import { formatStat, specToPrompt } from './infographicSpec';
+
+/** Below this similarity a label counts as missing rather than misspelled. */
+const MISSPELLING_THRESHOLD = 0.6;
+
+const PENALTIES: Record<QualityIssue['kind'], number> = {
+    missing_text: 15,
+    misspelling: 8,
+    invented_number: 12
+};
+
+/** Lowercase, accents stripped, punctuation collapsed to single spaces. */
+export const normalizeText = (text: string): string =>
+    text.normalize('NFKD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .toLowerCase()
+        .replace(/[^\p{L}\p{N}]+/gu, ' ')
+        .trim();
+
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
+
+const similarity = (a: string, b: string) =>
+    a.length || b.length ? 1 - levenshtein(a, b) / Math.max(a.length, b.length) : 1;
+
+/** The run of OCR words (one shorter to one longer than the label) that reads most like `label`. */
+function closestRun(label: string, words: string[]): { text: string; score: number } {
+    const size = label.split(' ').length;
+    let best = { text: '', score: 0 };
+    for (let n = Math.max(1, size - 1); n <= size + 1; n++) {
+        for (let i = 0; i + n <= words.length; i++) {
+            const text = words.slice(i, i + n).join(' ');
+            const score = similarity(label, text);
+            if (score > best.score) best = { text, score };
+        }
+    }
+    return best;
+}
+
+/** Numbers with their separators removed, so '1,200' and '1.200' compare equal. */
+export const extractNumbers = (text: string): string[] =>
+    Array.from(text.matchAll(/\d+(?:[.,]\d+)*/g), m => m[0].replace(/[.,]/g, ''));
+
+/**
+ * Compares OCR output of a rendered infographic with the spec it was drawn
+ * from. Every title, heading and stat label must appear (close matches are
+ * reported as misspellings) and every number must come from the spec or
+ * `sourceText`. Small integers up to the section count are allowed, since
+ * renders often number their sections.
+ */
+export function verifyRenderedText(ocrText: string, spec: InfographicSpec, sourceText: string = ''): QualityReport {
+    // The OCR prompt appends presentation suggestions; they are not part of the image
+    const cleaned = ocrText.split('[SUGGESTION')[0].trim();
+    const normalized = normalizeText(cleaned);
+    const haystack = ` ${normalized} `;
+    const words = normalized.split(' ').filter(Boolean);
+    const issues: QualityIssue[] = [];
+
+    const labels: { field: string; text: string }[] = [
+        { field: 'Title', text: spec.title },
+        ...spec.sections.map((s, i) => ({ field: `Section ${i + 1}`, text: s.heading })),
+        ...spec.stats.map(s => ({ field: `Stat "${s.label}"`, text: s.label }))
+    ];
+    for (const { field, text } of labels) {
+        const label = normalizeText(text);
+        if (!label || haystack.includes(` ${label} `)) continue;
+        const match = closestRun(label, words);
+        issues.push(match.score >= MISSPELLING_THRESHOLD
+            ? { kind: 'misspelling', field, expected: text.trim(), found: match.text }
+            : { kind: 'missing_text', field, expected: text.trim() });
+    }
+
+    const rendered = new Set(extractNumbers(cleaned));
+    for (const stat of spec.stats) {
+        const value = extractNumbers(stat.value);
+        if (value.length && !value.every(n => rendered.has(n))) {
+            issues.push({ kind: 'missing_text', field: `Stat "${stat.label}"`, expected: formatStat(stat.value, stat.unit) });
+        }
+    }
+
+    const allowed = new Set(extractNumbers(`${specToPrompt(spec)}\n${sourceText}`));
+    for (const number of rendered) {
+        if (allowed.has(number)) continue;
+        if (/^\d{1,2}$/.test(number) && Number(number) <= spec.sections.length) continue;
+        issues.push({ kind: 'invented_number', field: 'Image text', found: number });
+    }
+
+    const score = Math.max(0, 100 - issues.reduce((sum, issue) => sum + PENALTIES[issue.kind], 0));
+    return { score, issues, ocrText: cleaned, checkedAt: new Date().toISOString() };
+}
+
+export function describeIssue(issue: QualityIssue): string {
+    switch (issue.kind) {
+        case 'misspelling':
+            return `${issue.field} reads "${issue.found}" instead of "${issue.expected}"`;
+        case 'missing_text':
+            return `${issue.field} is missing "${issue.expected}"`;
+        case 'invented_number':
+            return `"${issue.found}" does not appear in the source`;
+    }
+}
+
+/** Extra instructions appended to the render prompt when regenerating after a failed check. */
+export function correctionsToPrompt(issues: QualityIssue[]): string {
+    if (issues.length === 0) return '';
+    const lines = issues.map(issue => {
+        switch (issue.kind) {
+            case 'misspelling':
+                return `- The previous render misspelled "${issue.expected}" as "${issue.found}". Spell it exactly as "${issue.expected}".`;
+            case 'missing_text':
+                return `- The previous render left out "${issue.expected}" (${issue.field}). Include it.`;
+            case 'invented_number':
+                return `- The previous render showed the number "${issue.found}", which is not in the source. Do not show it.`;
+        }
+    });
+    return ['CORRECTIONS (the previous render had these errors; fix every one):', ...lines].join('\n');
+}
@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it, vi } from 'vitest';
+import { ProgressEvent } from '../types';
+import { generateArticleInfographic, getGenerationProvider, setGenerationProvider } from '../services/geminiService';
+
+setGenerationProvider('fixture');
+
+describe('generateArticleInfographic', () => {
+  it('searches for a bare URL in its own call and keeps the grounding sources', async () => {
+    const provider = getGenerationProvider();
+    const generateText = vi.spyOn(provider, 'generateText');
+    const events: ProgressEvent[] = [];
+
+    const result = await generateArticleInfographic('https://news.example.com/story', 'url', 'article', 'Clean Minimalist', event => events.push(event));
+
+    // The grounded call has no schema, and the schema-shaped analysis no search tool.
+    // The fixture's streamText goes through generateText, so every request shows up here.
+    const requests = generateText.mock.calls.map(([request]) => request);
+    expect(requests.filter(request => request.useSearch)).toHaveLength(1);
+    expect(requests.filter(request => request.responseSchema)).toHaveLength(1);
+    expect(requests.some(request => request.useSearch && request.responseSchema)).toBe(false);
+    expect(result.citations).toEqual([{ uri: 'https://example.com/fixture-source', title: 'Fixture Source (offline)' }]);
+    expect(events.filter(e => e.type === 'stage_start').map(e => e.stage)).toEqual(['research', 'analysis', 'render']);
+  });
+
+  it('analyses pasted text without searching', async () => {
+    const streamText = vi.spyOn(getGenerationProvider(), 'streamText');
+    streamText.mockClear();
+    const result = await generateArticleInfographic('The pilot cut sick days by 42%, the council said on Friday.', 'text', 'article', 'Clean Minimalist');
+    expect(streamText).toHaveBeenCalledTimes(1);
+    expect(streamText.mock.calls[0][0].useSearch).toBeFalsy();
+    expect(result.citations).toEqual([]);
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { readdirSync, readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { extractArticle } from '../services/articleExtractor';
+import { FIXTURE_ARTICLE_HTML } from '../services/fixtureProvider';
+
+// Saved pages next to the metadata and body text they should yield
+interface Expected {
+  url: string;
+  title: string;
+  author?: string;
+  publishedAt?: string;
+  siteName?: string;
+  image?: string;
+  bodyIncludes: string[];
+  bodyExcludes: string[];
+}
+
+const FIXTURES = new URL('./fixtures/articles/', import.meta.url);
+
+const pages = readdirSync(FIXTURES)
+  .filter(name => name.endsWith('.html'))
+  .map(name => ({
+    name: name.replace(/\.html$/, ''),
+    html: readFileSync(new URL(name, FIXTURES), 'utf8'),
+    expected: JSON.parse(readFileSync(new URL(name.replace(/\.html$/, '.json'), FIXTURES), 'utf8')) as Expected
+  }));
+
+describe('extractArticle on saved pages', () => {
+  it.each(pages)('$name', ({ html, expected }) => {
+    const article = extractArticle(html, expected.url);
+    expect(article.title).toBe(expected.title);
+    expect(article.author).toBe(expected.author);
+    expect(article.publishedAt).toBe(expected.publishedAt);
+    if (expected.siteName) expect(article.siteName).toBe(expected.siteName);
+    if (expected.image) expect(article.image).toBe(expected.image);
+    for (const text of expected.bodyIncludes) expect(article.text).toContain(text);
+    for (const text of expected.bodyExcludes) expect(article.text).not.toContain(text);
+    expect(article.wordCount).toBe(article.text.split(/\s+/).filter(Boolean).length);
+  });
+});
+
+describe('extractArticle', () => {
+  it('reads the offline fixture page', () => {
+    const article = extractArticle(FIXTURE_ARTICLE_HTML, 'https://fixture.example/news/four-day-week');
+    expect(article.title).toBe("City Hall's Four-Day Week Pilot Cuts Sick Days by 42%");
+    expect(article.author).toBe('Dana Okafor');
+    expect(article.publishedAt).toBe('2025-03-14T08:00:00Z');
+    expect(article.wordCount).toBeGreaterThan(100);
+  });
+
+  it('keeps each text-only div as its own paragraph, split at <br><br>', () => {
+    const article = extractArticle(`<html><body><div class="content">
+      <div>The first paragraph is long enough to count as article text, with a comma or two, and then some.</div>
+      <div>The second paragraph also sits in a plain div<br><br>and carries a second block after a double break.</div>
+      <h6>A small heading</h6>
+    </div></body></html>`, 'https://example.com/a');
+    expect(article.text.split('\n\n')).toEqual([
+      'The first paragraph is long enough to count as article text, with a comma or two, and then some.',
+      'The second paragraph also sits in a plain div',
+      'and carries a second block after a double break.',
+      '## A small heading'
+    ]);
+  });
+
+  it('takes the author from a visible byline when the metadata has none', () => {
+    const article = extractArticle(`<html><body><article>
+      <header><p class="byline">By Jo Marsh · 3 May 2024</p></header>
+      <p>Enough body text to be picked as the article, with commas, clauses, and a little more length to it.</p>
+    </article></body></html>`, 'https://example.com/b');
+    expect(article.author).toBe('Jo Marsh');
+  });
+});
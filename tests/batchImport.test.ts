@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { inferKind, parseBatchList } from '../services/batchImport';
+
+const defaults = { articleStyle: 'Clean Minimalist', repoStyle: 'Blueprint', language: 'English', aspectRatio: 'auto' };
+
+describe('inferKind', () => {
+  it.each([
+    ['acme/widgets', 'repo', 'url'],
+    ['https://gitlab.com/acme/platform/widgets', 'repo', 'url'],
+    ['codeberg.org/acme/widgets', 'repo', 'url'],
+    ['https://medium.com/@writer/my-post', 'article', 'url'],
+    ['medium.com/my-post', 'article', 'url'],
+    ['www.example.com/blog', 'article', 'url'],
+    ['news.example.co.uk', 'article', 'url'],
+    ['The council met on Tuesday. It approved the budget.', 'article', 'text']
+  ])('reads %s as %s (%s)', (input, kind, sourceMode) => {
+    expect(inferKind(input)).toEqual({ kind, sourceMode });
+  });
+});
+
+describe('parseBatchList', () => {
+  it('queues dotted paths as article URLs', () => {
+    const { jobs, skipped } = parseBatchList('acme/widgets\nmedium.com/my-post\n', defaults);
+    expect(skipped).toEqual([]);
+    expect(jobs.map(job => [job.input, job.kind, job.sourceMode])).toEqual([
+      ['acme/widgets', 'repo', 'url'],
+      ['medium.com/my-post', 'article', 'url']
+    ]);
+  });
+
+  it('names every supported host when a repo row cannot be read', () => {
+    const { jobs, skipped } = parseBatchList('input,kind\nmedium.com/my-post,repo\n', defaults);
+    expect(jobs).toEqual([]);
+    expect(skipped).toEqual([{ row: 1, reason: '"medium.com/my-post" is not a repository. Use owner/repo, or a repository URL on GitHub, GitLab, Bitbucket, Codeberg or a configured instance.' }]);
+  });
+});
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ApiError } from '@google/genai';
+import { describe, expect, it } from 'vitest';
+import { classifyGeminiError } from '../services/errors';
+
+const apiError = (code: number, status: string, message: string, details: object[] = []) =>
+  new ApiError({ status: code, message: JSON.stringify({ error: { code, message, status, details } }) });
+
+describe('classifyGeminiError', () => {
+  it.each([
+    ['an invalid key', apiError(400, 'INVALID_ARGUMENT', 'API key not valid.', [{ reason: 'API_KEY_INVALID' }]), 'auth'],
+    ['a key without access', apiError(403, 'PERMISSION_DENIED', 'Permission denied.'), 'auth'],
+    ['a model the key cannot see', apiError(404, 'NOT_FOUND', 'Requested entity was not found.'), 'auth'],
+    ['an exhausted quota', apiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded.'), 'quota'],
+    ['an overloaded model', apiError(503, 'UNAVAILABLE', 'The model is overloaded.'), 'network'],
+    ['a failed fetch', new TypeError('fetch failed', { cause: new Error('ECONNRESET') }), 'network'],
+    ['a bad request', apiError(400, 'INVALID_ARGUMENT', 'Request payload size exceeds the limit.'), 'unknown']
+  ])('reads %s by its status', (_, err, kind) => {
+    expect(classifyGeminiError(err).kind).toBe(kind);
+  });
+
+  it.each([
+    ['a message that mentions a status code', new Error('Rendered 403 of 429 panels within quota')],
+    ['a programming error', new TypeError("Cannot read properties of undefined (reading 'parts')")]
+  ])('does not guess from %s', (_, err) => {
+    expect(classifyGeminiError(err).kind).toBe('unknown');
+  });
+
+  it('only blames billing when the key lacks permission', () => {
+    expect(classifyGeminiError(apiError(401, 'UNAUTHENTICATED', 'Invalid credentials.')).message).not.toMatch(/billing/);
+    expect(classifyGeminiError(apiError(403, 'PERMISSION_DENIED', 'Permission denied.')).message).toMatch(/billing/);
+  });
+
+  it('keeps the raw error as its cause', () => {
+    const err = apiError(429, 'RESOURCE_EXHAUSTED', 'Quota exceeded.');
+    expect(classifyGeminiError(err).cause).toBe(err);
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+// Names resolve through this table instead of the network
+const DNS: Record<string, string[]> = {
+  'news.example.com': ['93.184.216.34'],
+  'short.example.com': ['93.184.216.35'],
+  '127.0.0.1.nip.io': ['127.0.0.1'],
+  'mixed.example.com': ['93.184.216.36', '10.0.0.5']
+};
+
+vi.mock('node:dns/promises', () => ({
+  lookup: vi.fn(async (host: string) => {
+    if (!DNS[host]) throw Object.assign(new Error(`getaddrinfo ENOTFOUND ${host}`), { code: 'ENOTFOUND' });
+    return DNS[host].map(address => ({ address, family: address.includes(':') ? 6 : 4 }));
+  })
+}));
+
+// Records the options each connection pool is created with
+const agents: { options: any; close: () => Promise<void> }[] = [];
+vi.mock('undici', () => ({
+  Agent: vi.fn(function (this: any, options: any) {
+    this.options = options;
+    this.close = vi.fn(async () => {});
+    agents.push(this);
+  })
+}));
+
+const { GET, isPrivateAddress } = await import('../fetch-page');
+
+const get = (url: string) => GET(new Request(`http://localhost/fetch-page?url=${encodeURIComponent(url)}`));
+
+const html = (body: string) => new Response(body, { headers: { 'Content-Type': 'text/html; charset=utf-8' } });
+const redirect = (location: string) => new Response(null, { status: 302, headers: { Location: location } });
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  agents.length = 0;
+});
+
+describe('isPrivateAddress', () => {
+  it.each(['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', '::', 'fe80::1', 'fd12::1', '::ffff:7f00:1', '::ffff:127.0.0.1', '::ffff:8.8.8.8', '64:ff9b::7f00:1'])('refuses %s', address => {
+    expect(isPrivateAddress(address)).toBe(true);
+  });
+
+  it.each(['93.184.216.34', '8.8.8.8', '2606:4700::6810:85e5'])('allows %s', address => {
+    expect(isPrivateAddress(address)).toBe(false);
+  });
+});
+
+describe('GET /fetch-page', () => {
+  it('fetches a public page', async () => {
+    const fetchMock = vi.fn(async (_input: string | URL, _init?: RequestInit) => html('<h1>Hi</h1>'));
+    vi.stubGlobal('fetch', fetchMock);
+    const response = await get('https://news.example.com/story');
+    expect(response.status).toBe(200);
+    expect(await response.text()).toBe('<h1>Hi</h1>');
+    expect(response.headers.get('X-Final-Url')).toBe('https://news.example.com/story');
+    expect(fetchMock.mock.calls[0][1]).toMatchObject({ redirect: 'manual' });
+  });
+
+  it.each([
+    ['a loopback literal', 'http://127.0.0.1/'],
+    ['an IPv4-mapped IPv6 literal', 'http://[::ffff:7f00:1]/'],
+    ['a name that resolves to loopback', 'http://127.0.0.1.nip.io/'],
+    ['a name with one private address among public ones', 'http://mixed.example.com/'],
+    ['localhost', 'http://localhost:3000/']
+  ])('refuses %s without requesting it', async (_, url) => {
+    const fetchMock = vi.fn();
+    vi.stubGlobal('fetch', fetchMock);
+    expect((await get(url)).status).toBe(403);
+    expect(fetchMock).not.toHaveBeenCalled();
+  });
+
+  it('checks every redirect hop before requesting it', async () => {
+    const fetchMock = vi.fn(async () => redirect('http://169.254.169.254/latest/meta-data/'));
+    vi.stubGlobal('fetch', fetchMock);
+    expect((await get('https://short.example.com/x')).status).toBe(403);
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('follows public redirects, resolving relative locations', async () => {
+    const fetchMock = vi.fn()
+      .mockResolvedValueOnce(redirect('https://news.example.com/a'))
+      .mockResolvedValueOnce(redirect('/b'))
+      .mockResolvedValueOnce(html('ok'));
+    vi.stubGlobal('fetch', fetchMock);
+    const response = await get('https://short.example.com/x');
+    expect(response.status).toBe(200);
+    expect(response.headers.get('X-Final-Url')).toBe('https://news.example.com/b');
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('stops after too many redirects', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => redirect('https://news.example.com/loop')));
+    expect((await get('https://news.example.com/loop')).status).toBe(502);
+  });
+
+  it('connects to the checked address even if the name resolves elsewhere later', async () => {
+    const fetchMock = vi.fn(async (_input: string | URL, _init?: RequestInit) => {
+      DNS['news.example.com'] = ['127.0.0.1'];
+      return html('ok');
+    });
+    vi.stubGlobal('fetch', fetchMock);
+    try {
+      expect((await get('https://news.example.com/story')).status).toBe(200);
+    } finally {
+      DNS['news.example.com'] = ['93.184.216.34'];
+    }
+    const [agent] = agents;
+    expect((fetchMock.mock.calls[0][1] as any).dispatcher).toBe(agent);
+    const resolved = await new Promise(resolve => agent.options.connect.lookup('news.example.com', { all: true }, (_: unknown, addresses: unknown) => resolve(addresses)));
+    expect(resolved).toEqual([{ address: '93.184.216.34', family: 4 }]);
+    const single = await new Promise(resolve => agent.options.connect.lookup('news.example.com', {}, (_: unknown, address: unknown, family: unknown) => resolve([address, family])));
+    expect(single).toEqual(['93.184.216.34', 4]);
+    expect(agent.close).toHaveBeenCalled();
+  });
+
+  it('aborts the upstream request when the client disconnects', async () => {
+    const controller = new AbortController();
+    vi.stubGlobal('fetch', vi.fn((_input: string | URL, init?: RequestInit) => new Promise<Response>((_, reject) => {
+      init!.signal!.addEventListener('abort', () => reject(init!.signal!.reason));
+      controller.abort();
+    })));
+    const request = new Request(`http://localhost/fetch-page?url=${encodeURIComponent('https://news.example.com/story')}`, { signal: controller.signal });
+    expect((await GET(request)).status).toBe(499);
+  });
+
+  it('refuses a redirect to another scheme', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => redirect('file:///etc/passwd')));
+    expect((await get('https://news.example.com/')).status).toBe(400);
+  });
+});
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { createFileCacheStore } from '../server/fileCache';
+import { CacheEntry } from '../services/responseCache';
+
+const entry = (key: string): CacheEntry => ({ key, kind: 'summary', value: { text: key }, bytes: 10, createdAt: 1, lastUsedAt: 1, elapsedMs: 5, tokens: 3 });
+
+let root: string;
+beforeEach(async () => { root = await mkdtemp(path.join(tmpdir(), 'l2i-cache-')); });
+afterEach(() => rm(root, { recursive: true, force: true }));
+
+describe('createFileCacheStore', () => {
+  it('creates its directory on first use', async () => {
+    const store = createFileCacheStore(path.join(root, 'nested', 'cache'));
+    await store.put(entry('ab12'));
+    expect(await store.get('ab12')).toEqual(entry('ab12'));
+    expect((await store.list()).map(e => e.key)).toEqual(['ab12']);
+  });
+
+  it('rejects the operation, not the process, when the directory cannot be made', async () => {
+    const blocker = path.join(root, 'file');
+    await writeFile(blocker, '');
+    const store = createFileCacheStore(path.join(blocker, 'cache'));
+    await expect(store.put(entry('ab12'))).rejects.toThrow();
+    await expect(store.list()).rejects.toThrow();
+  });
+});
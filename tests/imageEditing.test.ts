@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { closestAspectRatio, coverRect } from '../services/imageEditing';
+
+describe('coverRect', () => {
+  it('draws a same-shaped edit over the whole image', () => {
+    expect(coverRect({ width: 512, height: 384 }, { width: 1024, height: 768 })).toEqual({ x: 0, y: 0, width: 1024, height: 768 });
+  });
+
+  it('crops the sides of a wider edit instead of squeezing it', () => {
+    expect(coverRect({ width: 1600, height: 900 }, { width: 1000, height: 1000 })).toEqual({ x: -(1000 * 16 / 9 - 1000) / 2, y: 0, width: 1000 * 16 / 9, height: 1000 });
+  });
+
+  it('crops the top and bottom of a taller edit', () => {
+    const fit = coverRect({ width: 768, height: 1024 }, { width: 900, height: 900 });
+    expect(fit.width).toBe(900);
+    expect(fit.height).toBe(1200);
+    expect(fit.y).toBe(-150);
+    // The aspect ratio of the edit is kept
+    expect(fit.width / fit.height).toBeCloseTo(768 / 1024);
+  });
+});
+
+describe('closestAspectRatio', () => {
+  it.each([[1024, 1024, '1:1'], [1920, 1080, '16:9'], [768, 1024, '3:4'], [2520, 1080, '21:9']])('reads %ix%i as %s', (width, height, ratio) => {
+    expect(closestAspectRatio(width, height)).toBe(ratio);
+  });
+});
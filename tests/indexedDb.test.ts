@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createIndexedDbStore } from '../services/indexedDb';
+
+/** An indexedDB whose transactions end the way `outcome` says, after the request ran. */
+function fakeIndexedDb(outcome: 'complete' | 'abort' | 'error') {
+  const tx: any = {
+    error: outcome === 'complete' ? null : new DOMException('Quota exceeded', 'QuotaExceededError'),
+    objectStore: () => ({ put: () => ({ result: 'saved' }) })
+  };
+  const db = { transaction: () => { setTimeout(() => tx[`on${outcome}`]?.()); return tx; } };
+  return {
+    open: () => {
+      const request: any = { result: db };
+      setTimeout(() => request.onsuccess());
+      return request;
+    }
+  };
+}
+
+afterEach(() => vi.unstubAllGlobals());
+
+describe('createIndexedDbStore', () => {
+  it('resolves with the request result once the transaction completes', async () => {
+    vi.stubGlobal('indexedDB', fakeIndexedDb('complete'));
+    const withStore = createIndexedDbStore('db', 'store', 'id');
+    await expect(withStore('readwrite', store => store.put({ id: 1 }))).resolves.toBe('saved');
+  });
+
+  it.each(['abort', 'error'] as const)('rejects when the transaction ends with %s', async outcome => {
+    vi.stubGlobal('indexedDB', fakeIndexedDb(outcome));
+    const withStore = createIndexedDbStore('db', 'store', 'id');
+    await expect(withStore('readwrite', store => store.put({ id: 1 }))).rejects.toThrow('Quota exceeded');
+  });
+});
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it, vi } from 'vitest';
+import { InfographicRequest } from '../types';
+
+// Each run finishes at once with a 1,000-character image
+vi.mock('../services/headless', () => ({
+  runInfographic: vi.fn(async () => ({ png: 'A'.repeat(1000), metadata: {} }))
+}));
+
+const { createJobQueue } = await import('../server/jobs');
+
+const request = { kind: 'article', url: 'https://news.example.com/story' } as unknown as InfographicRequest;
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+describe('createJobQueue', () => {
+  it('drops the oldest finished jobs once their images pass the size cap', async () => {
+    const queue = createJobQueue({ concurrency: 1, maxQueued: 10, ttlMs: 60_000, maxResultBytes: 2500 });
+    const ids: string[] = [];
+    for (let i = 0; i < 4; i++) {
+      ids.push(queue.submit('caller', request)!.id);
+      await settle();
+    }
+    expect(ids.map(id => queue.get(id, 'caller')?.status)).toEqual([undefined, undefined, 'done', 'done']);
+  });
+
+  it('keeps finished jobs under the cap until their time is up', async () => {
+    vi.useFakeTimers({ toFake: ['Date'] });
+    try {
+      const queue = createJobQueue({ concurrency: 2, maxQueued: 10, ttlMs: 60_000, maxResultBytes: 10_000 });
+      const id = queue.submit('caller', request)!.id;
+      await settle();
+      expect(queue.get(id, 'caller')?.status).toBe('done');
+      expect(queue.get(id, 'someone else')).toBeUndefined();
+      vi.advanceTimersByTime(61_000);
+      expect(queue.get(id, 'caller')).toBeUndefined();
+    } finally {
+      vi.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { readFolderInput } from '../services/localSource';
+
+/** A FileList as an `<input webkitdirectory>` picker returns it, every path under `root`. */
+const folder = (root: string, files: Record<string, string>) =>
+  Object.entries(files).map(([path, text]) =>
+    Object.defineProperty(new File([text], path.split('/').pop()!), 'webkitRelativePath', { value: `${root}/${path}` })
+  ) as unknown as FileList;
+
+describe('readFolderInput', () => {
+  it('counts an ignored directory once, as a dropped folder does', async () => {
+    const source = await readFolderInput(folder('widgets', {
+      '.gitignore': 'node_modules/\n*.log\n',
+      'src/index.ts': "export * from './widget';\n",
+      'node_modules/left-pad/index.js': 'module.exports = {};\n',
+      'node_modules/left-pad/package.json': '{}\n',
+      'node_modules/.bin/tsc': '#!/usr/bin/env node\n',
+      'debug.log': 'boot\n'
+    }));
+    expect(source.name).toBe('widgets');
+    expect(source.files.map(f => f.path)).toEqual(['src/index.ts']);
+    expect(source.ignored).toBe(2);
+    expect(await source.readFile('src/index.ts')).toBe("export * from './widget';\n");
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { readFileSync } from 'node:fs';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createRepoHost, DEFAULT_REPO_HOSTS, RepoHost } from '../services/repoProvider';
+import { fetchRepoFileTree, parseRepoInput, readRepoFile } from '../services/repoService';
+
+// Responses recorded from each host's API, keyed by request URL
+interface Recorded {
+  status?: number;
+  headers?: Record<string, string>;
+  body: unknown;
+}
+
+const recorded = (name: string): Record<string, Recorded> =>
+  JSON.parse(readFileSync(new URL(`./fixtures/repos/${name}.json`, import.meta.url), 'utf8'));
+
+/** Serves `name`'s recordings as fetch; anything not recorded is a 404 and is listed in `unrecorded`. */
+function replay(name: string) {
+  const responses = recorded(name);
+  const requested: string[] = [];
+  const unrecorded: string[] = [];
+  vi.stubGlobal('fetch', vi.fn(async (input: string | URL) => {
+    const url = String(input);
+    requested.push(url);
+    const response = responses[url];
+    if (!response) {
+      unrecorded.push(url);
+      return new Response('{"message":"Not Found"}', { status: 404 });
+    }
+    const body = typeof response.body === 'string' ? response.body : JSON.stringify(response.body);
+    return new Response(body, { status: response.status ?? 200, headers: response.headers });
+  }));
+  return { requested, unrecorded };
+}
+
+afterEach(() => vi.unstubAllGlobals());
+
+const [github, gitlab, bitbucket, codeberg] = DEFAULT_REPO_HOSTS;
+const selfHosted: RepoHost[] = [
+  createRepoHost('gitlab', 'https://git.example.com/gitlab')!,
+  createRepoHost('github', 'https://ghe.example.com')!,
+  createRepoHost('gitea', 'https://forge.example.org')!
+];
+const hosts = [...DEFAULT_REPO_HOSTS, ...selfHosted];
+
+describe('parseRepoInput', () => {
+  it.each([
+    ['acme/widgets', github, 'acme', 'widgets', undefined],
+    ['acme/widgets@v2/packages/core', github, 'acme', 'widgets', 'v2/packages/core'],
+    ['https://github.com/acme/widgets.git', github, 'acme', 'widgets', undefined],
+    ['https://www.github.com/acme/widgets/tree/release/v2/src', github, 'acme', 'widgets', 'release/v2/src'],
+    ['https://ghe.example.com/acme/widgets/blob/main/README.md', selfHosted[1], 'acme', 'widgets', 'main/README.md'],
+    ['https://gitlab.com/acme/widgets', gitlab, 'acme', 'widgets', undefined],
+    ['https://gitlab.com/acme/platform/tools/widgets/-/tree/release/v2/src', gitlab, 'acme/platform/tools', 'widgets', 'release/v2/src'],
+    ['gitlab.com/acme/platform/widgets@main', gitlab, 'acme/platform', 'widgets', 'main'],
+    ['https://git.example.com/gitlab/infra/deploy/-/commit/7c1e5b2a', selfHosted[0], 'infra', 'deploy', '7c1e5b2a'],
+    ['https://bitbucket.org/acme/widgets/src/trunk/app', bitbucket, 'acme', 'widgets', 'trunk/app'],
+    ['bitbucket.org/acme/widgets', bitbucket, 'acme', 'widgets', undefined],
+    ['https://codeberg.org/acme/widgets/src/branch/main/cmd', codeberg, 'acme', 'widgets', 'main/cmd'],
+    ['https://codeberg.org/acme/widgets/commit/e4d909c2', codeberg, 'acme', 'widgets', 'e4d909c2'],
+    ['https://forge.example.org/acme/widgets/src/tag/v1.0', selfHosted[2], 'acme', 'widgets', 'v1.0']
+  ])('reads %s', (input, host, owner, repo, refPath) => {
+    const target = parseRepoInput(input, hosts);
+    expect(target).toEqual(refPath ? { host, owner, repo, refPath } : { host, owner, repo });
+  });
+
+  it.each(['widgets', 'https://gitlab.com/acme', 'https://example.com/acme/widgets', 'https://git.example.com/acme/widgets', 'medium.com/my-post', 'www.example.com/blog', 'news.example.co.uk/2024/story'])('rejects %s', input => {
+    expect(parseRepoInput(input, hosts)).toBeNull();
+  });
+});
+
+describe('GitHub', () => {
+  it('walks directories one by one when the recursive tree is truncated', async () => {
+    const { unrecorded } = replay('github');
+    const target = parseRepoInput('https://github.com/acme/widgets', hosts)!;
+    const snapshot = await fetchRepoFileTree(target);
+    expect(snapshot).toMatchObject({ ref: 'main', commitSha: '3f2c9a1e4b5d6c7e8f9a0b1c2d3e4f5a6b7c8d9e', path: '' });
+    expect(snapshot.truncated).toBeUndefined();
+    expect(snapshot.files.map(f => f.path)).toEqual(['package.json', 'src/index.ts', 'src/widget.ts']);
+    expect(await readRepoFile(target, snapshot.commitSha, 'src/index.ts')).toBe("export { Widget } from './widget';\n");
+    // node_modules is listed but never opened
+    expect(unrecorded).toEqual([]);
+  });
+});
+
+describe('GitLab', () => {
+  it('resolves a slashed branch in a nested group and follows Link pagination', async () => {
+    const { requested, unrecorded } = replay('gitlab');
+    const target = parseRepoInput('https://gitlab.com/acme/platform/tools/widgets/-/tree/release/v2/src', hosts)!;
+    const snapshot = await fetchRepoFileTree(target);
+    expect(snapshot).toMatchObject({ ref: 'release/v2', commitSha: '7c1e5b2a9d3f4e6a8b0c2d4e6f8a0b2c4d6e8f0a', path: 'src' });
+    expect(snapshot.files.map(f => f.path)).toEqual(['src/main.go', 'src/lib/render.go']);
+    expect(requested.filter(url => url.includes('/repository/tree'))).toHaveLength(2);
+    expect(await readRepoFile(target, snapshot.commitSha, 'src/main.go')).toBe('package main\n\nfunc main() {}\n');
+    expect(unrecorded).toEqual([]);
+  });
+});
+
+describe('Bitbucket', () => {
+  it('follows `next` pages in every directory it opens', async () => {
+    const { unrecorded } = replay('bitbucket');
+    const target = parseRepoInput('bitbucket.org/acme/widgets', hosts)!;
+    const snapshot = await fetchRepoFileTree(target);
+    expect(snapshot).toMatchObject({ ref: 'trunk', commitSha: '5d41402abc4b2a76b9719d911017c592ae1f6c3e', path: '' });
+    expect(snapshot.files.map(f => f.path).sort()).toEqual(['app/__init__.py', 'app/views/home.py', 'setup.py']);
+    expect(await readRepoFile(target, snapshot.commitSha, 'app/views/home.py')).toContain('def home(request):');
+    expect(unrecorded).toEqual([]);
+  });
+});
+
+describe('Gitea / Codeberg', () => {
+  it('reads truncated tree pages until the last one', async () => {
+    const { requested, unrecorded } = replay('gitea');
+    const target = parseRepoInput('https://codeberg.org/acme/widgets/src/branch/main', hosts)!;
+    const snapshot = await fetchRepoFileTree(target);
+    expect(snapshot).toMatchObject({ ref: 'main', commitSha: 'e4d909c290d0fb1ca068ffaddf22cbd0a1b2c3d4', path: '' });
+    expect(snapshot.truncated).toBeUndefined();
+    expect(snapshot.files.map(f => f.path)).toEqual(['cmd/widgets/main.go', 'widgets.go']);
+    expect(requested.filter(url => url.includes('/git/trees/'))).toHaveLength(3);
+    expect(await readRepoFile(target, snapshot.commitSha, 'cmd/widgets/main.go')).toContain('widgets.Run()');
+    expect(unrecorded).toEqual([]);
+  });
+});
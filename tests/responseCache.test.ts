@@ -0,0 +1,47 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CacheEntry, CacheStore, cached, configureResponseCache, contentHash } from '../services/responseCache';
+
+// Entries in a Map, as the stores in the browser and server keep them
+function memoryStore(): CacheStore & { entries: Map<string, CacheEntry> } {
+  const entries = new Map<string, CacheEntry>();
+  return {
+    entries,
+    get: async key => entries.get(key),
+    put: async entry => { entries.set(entry.key, entry); },
+    list: async () => [...entries.values()],
+    delete: async keys => keys.forEach(key => entries.delete(key)),
+    clear: async () => entries.clear()
+  };
+}
+
+let store: ReturnType<typeof memoryStore>;
+beforeEach(() => {
+  store = memoryStore();
+  configureResponseCache(store, { enabled: true });
+});
+afterEach(() => vi.unstubAllGlobals());
+
+describe('cached', () => {
+  it('answers a repeated call from the store', async () => {
+    const compute = vi.fn(async () => 'answer');
+    expect(await cached('analysis', ['model', 1, 'prompt'], compute)).toEqual({ value: 'answer', hit: false });
+    await vi.waitFor(() => expect(store.entries.size).toBe(1));
+    expect(await cached('analysis', ['model', 1, 'prompt'], compute)).toEqual({ value: 'answer', hit: true });
+    expect(compute).toHaveBeenCalledTimes(1);
+  });
+
+  it('runs uncached where Web Crypto is unavailable', async () => {
+    vi.stubGlobal('crypto', undefined);
+    expect(await contentHash('text')).toBeNull();
+    const compute = vi.fn(async () => 'answer');
+    expect(await cached('analysis', ['model', 1, 'prompt'], compute)).toEqual({ value: 'answer', hit: false });
+    expect(await cached('analysis', ['model', 1, 'prompt'], compute)).toEqual({ value: 'answer', hit: false });
+    expect(compute).toHaveBeenCalledTimes(2);
+    expect(store.entries.size).toBe(0);
+  });
+});
@@ -11,15 +11,57 @@ export enum ViewMode {
   REPO_ANALYZER = 'REPO_ANALYZER',
   ARTICLE_INFOGRAPHIC = 'ARTICLE_INFOGRAPHIC',
   VISION_STUDIO = 'VISION_STUDIO',
-  ACADEMIC_STUDIO = 'ACADEMIC_STUDIO'
+  ACADEMIC_STUDIO = 'ACADEMIC_STUDIO',
+  BATCH = 'BATCH'
 }
 
 export type GeminiModel = 'gemini-3-flash-preview' | 'gemini-3-pro-preview';
 
+export type ImageModel = 'gemini-3-pro-image-preview' | 'gemini-2.5-flash-image';
+
+export type ImageSize = '1K' | '2K' | '4K';
+
+export type StudioId = 'repo' | 'article' | 'academic' | 'vision';
+
+export interface ImageSettings {
+  model: ImageModel;
+  size: ImageSize;
+  // Left undefined to use the model's own default
+  temperature?: number;
+  seed?: number;
+}
+
 export interface ModelConfig {
   strategy: GeminiModel;
   drafting: GeminiModel;
   code: GeminiModel;
+  image: ImageSettings;
+  // Per-studio fields that replace the shared image settings
+  studioOverrides?: Partial<Record<StudioId, Partial<ImageSettings>>>;
+}
+
+export type LogoCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right';
+
+/** Reusable brand guidelines applied to every studio's prompts and exports. */
+export interface BrandKit {
+  id: string;
+  name: string;
+  /** Hex colours, primary first. */
+  palette: string[];
+  typography: string;
+  tone: string;
+  /** Elements the render must never contain, one per line. */
+  forbidden: string;
+  logo?: { data: string; mimeType: string };
+  logoCorner: LogoCorner;
+  /** Logo width as a fraction of the image width. */
+  logoScale: number;
+}
+
+export interface ModelPreset {
+  name: string;
+  config: ModelConfig;
+  builtIn?: boolean;
 }
 
 export interface D3Node extends SimulationNodeDatum {
@@ -48,6 +90,18 @@ export interface RepoFileTree {
   type: string;
 }
 
+/** A repository's files at one resolved commit, optionally scoped to a subdirectory. */
+export interface RepoSnapshot {
+  /** Branch, tag or SHA as given, or the default branch when none was. */
+  ref: string;
+  commitSha: string;
+  /** Subdirectory the files were scoped to; empty for the whole repository. */
+  path: string;
+  files: RepoFileTree[];
+  /** The tree was too large to read in full, so only part of it was analysed. */
+  truncated?: boolean;
+}
+
 export interface DevStudioState {
   repoName: string;
   fileTree: RepoFileTree[];
@@ -68,6 +122,124 @@ export interface ImageMetadata {
   date: string;
 }
 
+export interface InfographicSection {
+  heading: string;
+  body: string;
+  /** Icon or visual metaphor the renderer should draw for this section. */
+  icon: string;
+}
+
+export interface InfographicStat {
+  label: string;
+  value: string;
+  unit: string;
+}
+
+/** Structured analysis output; the image prompt is built from this, never from free text. */
+export interface InfographicSpec {
+  title: string;
+  subtitle: string;
+  sections: InfographicSection[];
+  stats: InfographicStat[];
+  callToAction: string;
+  sources: string[];
+}
+
+export type QualityIssueKind = 'misspelling' | 'missing_text' | 'invented_number';
+
+export interface QualityIssue {
+  kind: QualityIssueKind;
+  /** Which part of the spec the issue is about, e.g. 'Title' or 'Section 2'. */
+  field: string;
+  expected?: string;
+  found?: string;
+}
+
+/** Result of reading a rendered image back with OCR and checking it against its spec. */
+export interface QualityReport {
+  score: number;
+  issues: QualityIssue[];
+  ocrText: string;
+  checkedAt: string;
+}
+
+/** Readable content pulled from a fetched web page, ahead of analysis. */
+export interface ExtractedArticle {
+  url: string;
+  title: string;
+  author?: string;
+  publishedAt?: string;
+  /** Lead image (og:image or JSON-LD image), resolved against `url`. */
+  image?: string;
+  siteName?: string;
+  description?: string;
+  text: string;
+  wordCount: number;
+  /** @type of every JSON-LD block found on the page. */
+  jsonLdTypes: string[];
+}
+
+/** One piece of a long source, summarised on its own before the merged analysis. */
+export interface SourceChunk {
+  index: number;
+  heading: string;
+  text: string;
+}
+
+/** How much of a source reached the analysis step. */
+export interface SourceCoverage {
+  totalChars: number;
+  coveredChars: number;
+  totalChunks: number;
+  /** Indices of the chunks that were summarised successfully. */
+  summarizedChunks: number[];
+  pinnedChunks: number[];
+}
+
+/** One numbered version of a result; version 1 is the original render. */
+export interface InfographicRevision {
+  version: number;
+  imageData: string;
+  spec?: InfographicSpec;
+  /** The refinement request that produced this version; unset for version 1. */
+  instruction?: string;
+  /** Version the refinement started from. */
+  basedOn?: number;
+  createdAt: string;
+}
+
+/** A workspace's replacement body for a built-in prompt template. */
+export interface PromptOverride {
+  body: string;
+  /** Built-in template version the override was written against. */
+  baseVersion: number;
+  revision: number;
+  updatedAt: string;
+}
+
+export type PipelineStage = 'fetch_tree' | 'fetch_page' | 'research' | 'summarize' | 'analysis' | 'render' | 'metadata' | 'verify' | 'trace_imports';
+
+/** `variant` is set when several candidates of the same stage run in parallel. */
+export type ProgressEvent =
+  | { type: 'stage_start'; stage: PipelineStage; variant?: number; label: string; at: number; model?: string; inputBytes?: number; template?: string }
+  | { type: 'stage_end'; stage: PipelineStage; variant?: number; at: number; elapsedMs: number; ok: boolean; groundingSources?: number; cached?: boolean }
+  | { type: 'retry'; stage: PipelineStage; variant?: number; at: number; attempt: number; delayMs: number; reason: string };
+
+export interface StageTiming {
+  stage: PipelineStage;
+  variant?: number;
+  label: string;
+  model?: string;
+  inputBytes?: number;
+  /** Prompt template version that produced this stage, e.g. 'article.render@v1'. */
+  template?: string;
+  elapsedMs: number;
+  retries: number;
+  groundingSources?: number;
+  /** Answered from the response cache instead of the model. */
+  cached?: boolean;
+}
+
 export interface RepoHistoryItem {
   id: string;
   repoName: string;
@@ -75,6 +247,14 @@ export interface RepoHistoryItem {
   is3D: boolean;
   style: string;
   date: Date;
+  ref?: string;
+  commitSha?: string;
+  /** Subdirectory the blueprint was scoped to. */
+  path?: string;
+  timings?: StageTiming[];
+  rejectedVariants?: string[];
+  /** The brand kit the image was rendered for; its logo is applied on download. */
+  brandKitId?: string;
 }
 
 export interface ArticleHistoryItem {
@@ -84,6 +264,17 @@ export interface ArticleHistoryItem {
     imageData: string;
     citations: Citation[];
     date: Date;
+    timings?: StageTiming[];
+    spec?: InfographicSpec;
+    /** Candidates rendered alongside the chosen image, kept when the user asked to. */
+    rejectedVariants?: string[];
+    qualityReport?: QualityReport;
+    coverage?: SourceCoverage;
+    /** Refinement versions; `imageData` and `spec` mirror `activeVersion`. */
+    revisions?: InfographicRevision[];
+    activeVersion?: number;
+    /** The brand kit the image was rendered for; its logo is applied on download. */
+    brandKitId?: string;
 }
 
 export interface AcademicHistoryItem {
@@ -92,6 +283,69 @@ export interface AcademicHistoryItem {
     subject: string;
     imageData: string;
     date: Date;
+    timings?: StageTiming[];
+    spec?: InfographicSpec;
+    rejectedVariants?: string[];
+    qualityReport?: QualityReport;
+    revisions?: InfographicRevision[];
+    activeVersion?: number;
+    brandKitId?: string;
+}
+
+export type BatchJobKind = 'article' | 'repo';
+
+export type BatchJobStatus = 'queued' | 'running' | 'done' | 'failed';
+
+/** One row of an imported batch list, with its own overrides and outcome. */
+export interface BatchJob {
+    id: string;
+    /** 1-based position in the import, used for ordering and file names. */
+    row: number;
+    kind: BatchJobKind;
+    /** Article URL or text, or `owner/repo` for repositories. */
+    input: string;
+    sourceMode: 'url' | 'text';
+    style: string;
+    language: string;
+    aspectRatio: string;
+    status: BatchJobStatus;
+    attempts: number;
+    /** A failed attempt waits until then before it is run again. */
+    retryAt?: string;
+    error?: string;
+    imageData?: string;
+    metadata?: ImageMetadata;
+    spec?: InfographicSpec;
+    citations?: Citation[];
+    /** The brand kit the image was rendered for; its logo is applied on download. */
+    brandKitId?: string;
+    createdAt: string;
+    finishedAt?: string;
+}
+
+export type InfographicKind = 'article' | 'repo' | 'academic';
+
+/** A fully resolved headless run, as the CLI and the HTTP API hand it to the pipelines. */
+export interface InfographicRequest {
+    kind: InfographicKind;
+    /** Article URL or text, `owner/repo`, or the academic topic. */
+    input: string;
+    sourceMode: 'url' | 'text';
+    /** Academic only. */
+    subject?: string;
+    style: string;
+    language: string;
+    aspectRatio: string;
+    model: GeminiModel;
+    imageSettings: ImageSettings;
+}
+
+export interface InfographicOutput {
+    /** Base64 PNG with the metadata already embedded. */
+    png: string;
+    metadata: ImageMetadata;
+    spec?: InfographicSpec;
+    citations?: Citation[];
 }
 
 declare global {
@@ -1,18 +1,50 @@
 import path from 'path';
-import { defineConfig, loadEnv } from 'vite';
+import { defineConfig, loadEnv, Plugin } from 'vite';
 import react from '@vitejs/plugin-react';
+import { sendFetchResponse, toFetchRequest } from './server/http';
+
+// Route handlers served by middleware during `vite dev`; `npm start` mounts the same modules in server/index.ts.
+const ROUTE_MODULES: Record<string, string> = {
+  '/fetch-page': '/fetch-page.ts',
+  '/api/generate': '/api/generate.ts',
+  '/api/infographics': '/api/infographics.ts',
+  '/api/jobs': '/api/jobs.ts',
+  '/api/openapi.json': '/api/openapi.ts'
+};
+
+const routeHandlers = (): Plugin => ({
+  name: 'l2i-routes',
+  configureServer(server) {
+    for (const [route, file] of Object.entries(ROUTE_MODULES)) {
+      server.middlewares.use(route, async (req, res) => {
+        const handlers = await server.ssrLoadModule(file);
+        const handler = handlers[req.method || 'GET'];
+        if (!handler) {
+          res.statusCode = 405;
+          res.end();
+          return;
+        }
+        await sendFetchResponse(res, await handler(toFetchRequest(req, res)));
+      });
+    }
+  }
+});
 
 export default defineConfig(({ mode }) => {
     const env = loadEnv(mode, '.', '');
+    // Route handlers read the key from the server's environment, as they do under `npm start`
+    if (env.GEMINI_API_KEY) process.env.GEMINI_API_KEY ??= env.GEMINI_API_KEY;
     return {
       server: {
         port: 3000,
         host: '0.0.0.0',
       },
-      plugins: [react()],
+      plugins: [react(), routeHandlers()],
       define: {
-        'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        // Only a browser-key build inlines the server key. A key the user selects in AI Studio
+        // is read at run time instead (see browserApiKey in services/geminiProvider.ts).
+        'process.env.L2I_BUILD_API_KEY': JSON.stringify(env.L2I_PROVIDER === 'gemini' ? env.GEMINI_API_KEY : undefined),
+        'process.env.L2I_PROVIDER': JSON.stringify(env.L2I_PROVIDER)
       },
       resolve: {
         alias: {